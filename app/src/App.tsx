@@ -4,6 +4,11 @@ import JournalEntryPage from './pages/JournalEntryPage';
 import TemplateManagementPage from './pages/TemplateManagementPage';
 import SettingsPage from './pages/SettingsPage';
 import DatabaseDebugPage from './pages/DatabaseDebugPage';
+import SearchPage from './pages/SearchPage';
+import CalendarPage from './pages/CalendarPage';
+import TagsPage from './pages/TagsPage';
+import TrashPage from './pages/TrashPage';
+import PrintPage from './pages/PrintPage';
 import { useInitialization } from './services/initializationService';
 import { useConflictResolution } from './hooks/useConflictResolution';
 import { ConflictResolutionModal } from './components/ConflictResolutionModal';
@@ -146,6 +151,11 @@ function App() {
           <Route path='/' element={<JournalEntryPage />} />
           <Route path='/templates' element={<TemplateManagementPage />} />
           <Route path='/settings' element={<SettingsPage />} />
+          <Route path='/search' element={<SearchPage />} />
+          <Route path='/calendar' element={<CalendarPage />} />
+          <Route path='/tags' element={<TagsPage />} />
+          <Route path='/trash' element={<TrashPage />} />
+          <Route path='/print' element={<PrintPage />} />
           {process.env.NODE_ENV === 'development' && (
             <Route path='/debug/database' element={<DatabaseDebugPage />} />
           )}
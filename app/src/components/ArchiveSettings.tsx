@@ -0,0 +1,271 @@
+import React, { useRef, useState } from 'react';
+import {
+  archiveService,
+  ArchiveContents,
+  ArchiveImportMode,
+  ARCHIVE_EXTENSION,
+} from '../services/archiveService';
+import { EncryptionError } from '../services/encryptionService';
+import { SectionChoice } from '../types/cloudStorage';
+import { downloadFile } from '../utils/fileDownload';
+import { logger } from '../utils/logger';
+import { LoadingButton } from './ui';
+
+// Moves the whole journal between browsers and machines as a .jaja file
+export function ArchiveSettings() {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [file, setFile] = useState<Uint8Array | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  const [contents, setContents] = useState<ArchiveContents | null>(null);
+  const [mode, setMode] = useState<ArchiveImportMode>('merge');
+  const [differingSections, setDifferingSections] =
+    useState<SectionChoice>('local');
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await archiveService.exportArchive(
+        exportPassphrase || undefined
+      );
+      downloadFile(
+        archiveService.getFileName(),
+        data,
+        'application/octet-stream'
+      );
+      setMessage(
+        exportPassphrase
+          ? 'Archive downloaded. It can only be opened with this passphrase.'
+          : 'Archive downloaded'
+      );
+      setExportPassphrase('');
+    } catch (err) {
+      logger.error('Failed to export archive:', err);
+      setError('Failed to export archive');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const readFile = async (data: Uint8Array, passphrase?: string) => {
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const read = await archiveService.readArchive(data, passphrase);
+      setContents(read);
+      setNeedsPassphrase(false);
+      if (!read.verification.valid) {
+        setError(
+          `This file cannot be imported: ${read.verification.errors.join('; ')}`
+        );
+      }
+    } catch (err) {
+      if (err instanceof EncryptionError) {
+        setNeedsPassphrase(true);
+        setError(err.reason === 'wrong-passphrase' ? 'Wrong passphrase' : null);
+      } else {
+        logger.error('Failed to read archive:', err);
+        setError(
+          err instanceof Error ? err.message : 'Failed to read the file'
+        );
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) {
+      return;
+    }
+
+    const data = new Uint8Array(await selected.arrayBuffer());
+    setFile(data);
+    setFileName(selected.name);
+    setContents(null);
+    setImportPassphrase('');
+    await readFile(data);
+  };
+
+  const handleImport = async () => {
+    if (!contents) {
+      return;
+    }
+    if (
+      mode === 'replace' &&
+      !window.confirm(
+        'Replace all journal data on this device with the archive? The current data is backed up first.'
+      )
+    ) {
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    try {
+      const result = await archiveService.importArchive(
+        contents,
+        mode,
+        differingSections
+      );
+      if (result) {
+        setMessage(
+          `Merged the archive: ${result.sectionsAdded} sections added, ${result.sectionsDiffering} differing sections settled`
+        );
+        setContents(null);
+        setFile(null);
+      }
+      // Replacing reloads the page
+    } catch (err) {
+      logger.error('Failed to import archive:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to import the archive'
+      );
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const counts = contents?.verification.recordCounts;
+
+  return (
+    <div>
+      <h3 className='text-lg font-semibold text-gray-800 mb-2'>Archive File</h3>
+      <p className='text-gray-600 mb-4'>
+        Downloads everything (entries, templates, tags and history) as one
+        compressed {ARCHIVE_EXTENSION} file to open in another browser or on
+        another machine, no cloud account needed. Saved API keys are included
+        too, so give a passphrase to encrypt the file.
+      </p>
+
+      <div className='flex flex-wrap items-center gap-2 mb-6'>
+        <input
+          type='password'
+          value={exportPassphrase}
+          onChange={e => setExportPassphrase(e.target.value)}
+          placeholder='Passphrase (optional)'
+          autoComplete='new-password'
+          className='px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+        />
+        <LoadingButton
+          onClick={handleExport}
+          loading={exporting}
+          variant='primary'
+        >
+          Download Archive
+        </LoadingButton>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-2 mb-2'>
+        <LoadingButton
+          onClick={() => fileInputRef.current?.click()}
+          loading={working && !contents && !needsPassphrase}
+          variant='secondary'
+        >
+          Open Archive
+        </LoadingButton>
+        {fileName && <span className='text-sm text-gray-600'>{fileName}</span>}
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept={`${ARCHIVE_EXTENSION},.json`}
+          onChange={handleFile}
+          className='hidden'
+        />
+      </div>
+
+      {needsPassphrase && file && (
+        <div className='flex flex-wrap items-center gap-2 mb-2'>
+          <input
+            type='password'
+            value={importPassphrase}
+            onChange={e => setImportPassphrase(e.target.value)}
+            placeholder='Passphrase of the archive'
+            className='px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+          />
+          <LoadingButton
+            onClick={() => readFile(file, importPassphrase)}
+            loading={working}
+            disabled={!importPassphrase}
+            variant='secondary'
+          >
+            Unlock
+          </LoadingButton>
+        </div>
+      )}
+
+      {contents && contents.verification.valid && counts && (
+        <div className='mt-4 p-4 border border-gray-200 rounded-lg'>
+          <p className='text-sm text-gray-700 mb-1'>
+            {counts.journal_entries} entries, {counts.sections} sections and{' '}
+            {counts.template_sections} template sections
+            {contents.exportedAt &&
+              `, exported ${contents.exportedAt.toLocaleString()}`}
+          </p>
+          {archiveService.isOlderSchema(contents) && (
+            <p className='text-sm text-amber-700 mb-1'>
+              Made by an older version of the app; it is upgraded on import.
+            </p>
+          )}
+
+          <div className='flex flex-col gap-1 my-3 text-sm text-gray-700'>
+            <label className='flex items-center gap-2'>
+              <input
+                type='radio'
+                checked={mode === 'merge'}
+                onChange={() => setMode('merge')}
+              />
+              Merge: add what this device does not have
+            </label>
+            <label className='flex items-center gap-2'>
+              <input
+                type='radio'
+                checked={mode === 'replace'}
+                onChange={() => setMode('replace')}
+              />
+              Replace: make this device a copy of the archive
+            </label>
+          </div>
+
+          {mode === 'merge' && (
+            <label className='block text-sm text-gray-700 mb-3'>
+              When a section differs
+              <select
+                value={differingSections}
+                onChange={e =>
+                  setDifferingSections(e.target.value as SectionChoice)
+                }
+                className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+              >
+                <option value='local'>Keep this device&apos;s content</option>
+                <option value='cloud'>Take the archive&apos;s content</option>
+              </select>
+            </label>
+          )}
+
+          <LoadingButton
+            onClick={handleImport}
+            loading={working}
+            variant={mode === 'replace' ? 'danger' : 'primary'}
+          >
+            {mode === 'replace' ? 'Replace Data' : 'Merge Archive'}
+          </LoadingButton>
+        </div>
+      )}
+
+      {error && <p className='text-sm text-red-600 mt-2'>{error}</p>}
+      {message && <p className='text-sm text-gray-600 mt-2'>{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { backlinkService, Backlink } from '../services/backlinkService';
+import { parseAPIDate } from '../utils/dates';
+import { logger } from '../utils/logger';
+
+interface BacklinksPanelProps {
+  date: string; // YYYY-MM-DD of the entry being viewed
+}
+
+const formatBacklinkDate = (backlink: Backlink): string => {
+  switch (backlink.timeframeType) {
+    case 'persistent':
+      return 'All entries';
+    case 'weekly':
+      return `Week of ${format(parseAPIDate(backlink.timeframeStart), 'MMM d, yyyy')}`;
+    case 'monthly':
+      return format(parseAPIDate(backlink.timeframeStart), 'MMMM yyyy');
+    default:
+      return format(parseAPIDate(backlink.timeframeStart), 'EEEE, MMM d, yyyy');
+  }
+};
+
+// Other entries whose text links here with [[YYYY-MM-DD]]
+export function BacklinksPanel({ date }: BacklinksPanelProps) {
+  const navigate = useNavigate();
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  useEffect(
+    () => backlinkService.subscribe(() => setIndexVersion(v => v + 1)),
+    []
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    backlinkService
+      .getBacklinks(date)
+      .then(result => {
+        if (!cancelled) setBacklinks(result);
+      })
+      .catch(error => {
+        logger.error('Failed to load backlinks:', error);
+        if (!cancelled) setBacklinks([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, indexVersion]);
+
+  if (backlinks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='px-4 pb-4'>
+      <div className='bg-white border border-gray-200 rounded-lg shadow-sm'>
+        <div className='px-4 py-3 font-semibold text-gray-800'>
+          🔗 Linked from
+          <span className='ml-2 text-sm font-normal text-gray-500'>
+            {backlinks.length} entr{backlinks.length === 1 ? 'y' : 'ies'}
+          </span>
+        </div>
+        <div className='border-t border-gray-200 divide-y divide-gray-100'>
+          {backlinks.map(backlink => (
+            <button
+              key={backlink.sectionId}
+              onClick={() =>
+                navigate(backlink.date ? `/?date=${backlink.date}` : '/')
+              }
+              className='w-full text-left px-4 py-3 hover:bg-gray-50'
+            >
+              <div className='flex items-baseline justify-between mb-1'>
+                <span className='font-medium text-gray-700'>
+                  {backlink.templateTitle}
+                </span>
+                <span className='text-sm text-blue-600'>
+                  {formatBacklinkDate(backlink)}
+                </span>
+              </div>
+              {backlink.excerpts.map((excerpt, index) => (
+                <p key={index} className='text-sm text-gray-600 break-words'>
+                  {excerpt}
+                </p>
+              ))}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BackupInfo } from '../types/cloudStorage';
+import { backupManager } from '../services/backupManager';
+import {
+  backupDiffService,
+  BackupSnapshot,
+  SectionDiff,
+  SectionDiffStatus,
+} from '../services/backupDiffService';
+import { diffLines, formatContentForDiff } from '../utils/textDiff';
+import { logger } from '../utils/logger';
+import { Spinner, LoadingButton } from './ui';
+
+interface BackupDiffModalProps {
+  backup: BackupInfo;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<
+  SectionDiffStatus,
+  { label: string; className: string }
+> = {
+  added: { label: 'Added since', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Removed since', className: 'bg-red-100 text-red-700' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const formatTimeframe = (diff: SectionDiff) => {
+  switch (diff.timeframeType) {
+    case 'persistent':
+      return 'All entries';
+    case 'daily':
+      return diff.timeframeStart;
+    default:
+      return `${diff.timeframeStart} – ${diff.timeframeEnd}`;
+  }
+};
+
+export function BackupDiffModal({ backup, onClose }: BackupDiffModalProps) {
+  const [snapshot, setSnapshot] = useState<BackupSnapshot | null>(null);
+  const [diffs, setDiffs] = useState<SectionDiff[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [rangeStart, setRangeStart] = useState('');
+  const [rangeEnd, setRangeEnd] = useState('');
+  const [restoring, setRestoring] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const data = await backupManager.loadBackupData(
+          backup.id,
+          backup.source
+        );
+        const parsed = backupDiffService.parseSnapshot(data);
+        const sectionDiffs = await backupDiffService.diffSnapshot(parsed);
+        if (!cancelled) {
+          setSnapshot(parsed);
+          setDiffs(sectionDiffs);
+        }
+      } catch (err) {
+        logger.error('Failed to compare backup:', err);
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to open backup'
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [backup]);
+
+  // Differences grouped by the date their timeframe starts
+  const groups = useMemo(() => {
+    const byDate = new Map<string, SectionDiff[]>();
+    diffs.forEach(diff => {
+      const date =
+        diff.timeframeType === 'persistent'
+          ? 'Persistent'
+          : diff.timeframeStart;
+      byDate.set(date, [...(byDate.get(date) || []), diff]);
+    });
+    return Array.from(byDate.entries());
+  }, [diffs]);
+
+  const toggle = (key: string) =>
+    setSelected(current => {
+      const next = new Set(Array.from(current));
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  // Selects every difference whose timeframe overlaps the range
+  const selectRange = () => {
+    const start = rangeStart || '0000-01-01';
+    const end = rangeEnd || '9999-12-31';
+    setSelected(
+      new Set(
+        diffs
+          .filter(
+            diff =>
+              diff.timeframeType !== 'persistent' &&
+              diff.timeframeStart <= end &&
+              diff.timeframeEnd >= start
+          )
+          .map(diff => diff.key)
+      )
+    );
+  };
+
+  const handleRestore = async () => {
+    if (!snapshot || selected.size === 0) return;
+
+    const confirmed = window.confirm(
+      `Restore ${selected.size} section${
+        selected.size === 1 ? '' : 's'
+      } to their content in this backup? Everything else stays as it is.`
+    );
+    if (!confirmed) return;
+
+    setRestoring(true);
+    setMessage(null);
+    try {
+      const keys = Array.from(selected);
+      const count = await backupDiffService.restoreSections(snapshot, keys);
+      setDiffs(await backupDiffService.diffSnapshot(snapshot));
+      setSelected(new Set());
+      setMessage(`Restored ${count} section${count === 1 ? '' : 's'}`);
+    } catch (err) {
+      logger.error('Failed to restore sections:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to restore sections'
+      );
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50'>
+      <div className='relative top-20 mx-auto mb-20 p-6 border shadow-lg rounded-md bg-white max-w-4xl w-full max-w-[calc(100vw-2rem)]'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-xl font-semibold text-gray-900'>
+            Compare with backup from {backup.timestamp.toLocaleDateString()}{' '}
+            {backup.timestamp.toLocaleTimeString()}
+          </h3>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-gray-600'
+          >
+            ✕
+          </button>
+        </div>
+
+        {loading ? (
+          <div className='flex items-center justify-center py-12 space-x-2 text-gray-500'>
+            <Spinner size='sm' />
+            <span>Opening backup...</span>
+          </div>
+        ) : error ? (
+          <div className='bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700'>
+            {error}
+          </div>
+        ) : (
+          <>
+            <p className='text-gray-600 mb-4'>
+              {diffs.length === 0
+                ? 'Your current journal matches this backup.'
+                : `${diffs.length} section${
+                    diffs.length === 1 ? ' differs' : 's differ'
+                  } from this backup. Pick the ones to restore; everything else stays as it is.`}
+            </p>
+
+            {diffs.length > 0 && (
+              <div className='flex flex-wrap items-end gap-2 mb-4'>
+                <label className='text-sm text-gray-700'>
+                  From
+                  <input
+                    type='date'
+                    value={rangeStart}
+                    onChange={e => setRangeStart(e.target.value)}
+                    className='block mt-1 px-2 py-1 border border-gray-300 rounded'
+                  />
+                </label>
+                <label className='text-sm text-gray-700'>
+                  To
+                  <input
+                    type='date'
+                    value={rangeEnd}
+                    onChange={e => setRangeEnd(e.target.value)}
+                    className='block mt-1 px-2 py-1 border border-gray-300 rounded'
+                  />
+                </label>
+                <button
+                  onClick={selectRange}
+                  className='px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50'
+                >
+                  Select date range
+                </button>
+                <button
+                  onClick={() => setSelected(new Set())}
+                  className='px-3 py-1 text-sm text-gray-600 hover:text-gray-800'
+                >
+                  Clear selection
+                </button>
+              </div>
+            )}
+
+            <div className='space-y-4 mb-6 max-h-[50vh] overflow-y-auto'>
+              {groups.map(([date, dateDiffs]) => (
+                <div key={date}>
+                  <h4 className='text-sm font-semibold text-gray-500 mb-2'>
+                    {date}
+                  </h4>
+                  <div className='space-y-2'>
+                    {dateDiffs.map(diff => (
+                      <div
+                        key={diff.key}
+                        className='border border-gray-200 rounded-lg'
+                      >
+                        <div className='flex items-center px-3 py-2'>
+                          <input
+                            type='checkbox'
+                            checked={selected.has(diff.key)}
+                            onChange={() => toggle(diff.key)}
+                            className='h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500'
+                          />
+                          <span className='ml-3 font-medium text-gray-800'>
+                            {diff.templateTitle}
+                          </span>
+                          <span className='ml-2 text-xs text-gray-500'>
+                            {formatTimeframe(diff)}
+                          </span>
+                          <span
+                            className={`ml-2 text-xs px-2 py-0.5 rounded ${
+                              STATUS_STYLES[diff.status].className
+                            }`}
+                          >
+                            {STATUS_STYLES[diff.status].label}
+                          </span>
+                          <button
+                            onClick={() =>
+                              setExpanded(
+                                expanded === diff.key ? null : diff.key
+                              )
+                            }
+                            className='ml-auto text-sm text-blue-600 hover:text-blue-800'
+                          >
+                            {expanded === diff.key ? 'Hide' : 'Show'} diff
+                          </button>
+                        </div>
+                        {expanded === diff.key && (
+                          <pre className='px-3 py-2 border-t border-gray-200 text-xs font-mono whitespace-pre-wrap break-words max-h-64 overflow-y-auto'>
+                            {diffLines(
+                              formatContentForDiff(diff.currentContent),
+                              formatContentForDiff(diff.backupContent)
+                            ).map((line, index) => (
+                              <div
+                                key={index}
+                                className={
+                                  line.type === 'removed'
+                                    ? 'bg-red-100 text-red-800'
+                                    : line.type === 'added'
+                                      ? 'bg-green-100 text-green-800'
+                                      : 'text-gray-700'
+                                }
+                              >
+                                {line.type === 'removed'
+                                  ? '- '
+                                  : line.type === 'added'
+                                    ? '+ '
+                                    : '  '}
+                                {line.text}
+                              </div>
+                            ))}
+                          </pre>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {diffs.length > 0 && (
+              <p className='text-xs text-gray-500 mb-4'>
+                In diffs, red lines are current text that restoring replaces and
+                green lines come back from the backup.
+              </p>
+            )}
+          </>
+        )}
+
+        <div className='flex items-center justify-end space-x-3'>
+          {message && (
+            <span className='text-sm text-green-600 mr-auto'>{message}</span>
+          )}
+          <button
+            onClick={onClose}
+            className='px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50'
+          >
+            Close
+          </button>
+          {diffs.length > 0 && (
+            <LoadingButton
+              onClick={handleRestore}
+              loading={restoring}
+              disabled={selected.size === 0}
+              variant='primary'
+            >
+              Restore Selected ({selected.size})
+            </LoadingButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { BackupInfo } from '../types/cloudStorage';
-import { backupManager } from '../services/backupManager';
+import { BackupInfo, BackupSource } from '../types/cloudStorage';
+import {
+  backupManager,
+  BackupVerificationResult,
+} from '../services/backupManager';
 import { useSync } from '../services/unifiedSyncService';
 import { logger } from '../utils/logger';
 import { Spinner, LoadingButton } from './ui';
+import { BackupRetentionSettings } from './BackupRetentionSettings';
+import { BackupDiffModal } from './BackupDiffModal';
 
 export function BackupRestoreSettings() {
   const [backups, setBackups] = useState<BackupInfo[]>([]);
@@ -11,11 +16,16 @@ export function BackupRestoreSettings() {
   const [restoring, setRestoring] = useState<string | null>(null);
   const [creatingBackup, setCreatingBackup] = useState(false);
   const [backupError, setBackupError] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<BackupInfo | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verificationResults, setVerificationResults] = useState<Map<
+    string,
+    BackupVerificationResult
+  > | null>(null);
   const { isCloudConnected, activeProvider } = useSync();
 
   const loadBackups = useCallback(async () => {
-    if (!isCloudConnected) return;
-
     setLoading(true);
     try {
       const backupList = await backupManager.listBackups();
@@ -25,11 +35,12 @@ export function BackupRestoreSettings() {
     } finally {
       setLoading(false);
     }
-  }, [isCloudConnected]);
+  }, []);
 
+  // Re-list when a provider connects or disconnects
   useEffect(() => {
     loadBackups();
-  }, [loadBackups]);
+  }, [loadBackups, isCloudConnected]);
 
   const handleCreateBackup = async () => {
     setCreatingBackup(true);
@@ -48,7 +59,11 @@ export function BackupRestoreSettings() {
     }
   };
 
-  const handleRestoreBackup = async (backupId: string, backupName: string) => {
+  const handleRestoreBackup = async (
+    backupId: string,
+    backupName: string,
+    source: BackupSource = 'cloud'
+  ) => {
     const confirmed = window.confirm(
       `Are you sure you want to restore from "${backupName}"? This will replace all current data and the page will reload.`
     );
@@ -56,23 +71,46 @@ export function BackupRestoreSettings() {
     if (!confirmed) return;
 
     setRestoring(backupId);
+    setRestoreError(null);
     try {
-      const success = await backupManager.restoreFromBackup(backupId);
+      const success = await backupManager.restoreFromBackup(backupId, source);
       if (success) {
         logger.log('Backup restored successfully');
         // Reload the page to reflect the restored data
         window.location.reload();
       } else {
         logger.error('Failed to restore backup');
+        setRestoreError('Failed to restore backup');
       }
     } catch (error) {
       logger.error('Failed to restore backup:', error);
+      setRestoreError(
+        error instanceof Error ? error.message : 'Failed to restore backup'
+      );
     } finally {
       setRestoring(null);
     }
   };
 
-  const handleDeleteBackup = async (backupId: string, backupName: string) => {
+  const handleVerifyAll = async () => {
+    setVerifying(true);
+    try {
+      const results = await backupManager.verifyAllBackups();
+      setVerificationResults(
+        new Map(results.map(result => [result.backup.id, result]))
+      );
+    } catch (error) {
+      logger.error('Failed to verify backups:', error);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleDeleteBackup = async (
+    backupId: string,
+    backupName: string,
+    source: BackupSource = 'cloud'
+  ) => {
     const confirmed = window.confirm(
       `Are you sure you want to delete the backup "${backupName}"? This action cannot be undone.`
     );
@@ -80,7 +118,7 @@ export function BackupRestoreSettings() {
     if (!confirmed) return;
 
     try {
-      const success = await backupManager.deleteBackup(backupId);
+      const success = await backupManager.deleteBackup(backupId, source);
       if (success) {
         await loadBackups(); // Refresh the list
       }
@@ -115,19 +153,24 @@ export function BackupRestoreSettings() {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
-  if (!isCloudConnected) {
-    return (
-      <div className='bg-gray-50 border border-gray-200 rounded-lg p-6'>
-        <h3 className='text-lg font-semibold text-gray-800 mb-2'>
-          Backup & Restore
-        </h3>
-        <p className='text-gray-600'>
-          Connect to cloud storage to enable automatic backups and restore
-          functionality.
+  const renderVerification = (result?: BackupVerificationResult) => {
+    if (!result) return null;
+    if (result.verification?.valid) {
+      return (
+        <p className='text-sm text-green-600'>
+          ✅ Verified
+          {result.verification.hasChecksum
+            ? ''
+            : ' (no checksum, older backup)'}
         </p>
-      </div>
+      );
+    }
+    return (
+      <p className='text-sm text-red-600'>
+        ❌ {result.error || result.verification?.errors.join('; ')}
+      </p>
     );
-  }
+  };
 
   return (
     <div className='space-y-6'>
@@ -136,8 +179,11 @@ export function BackupRestoreSettings() {
           Backup & Restore
         </h3>
         <p className='text-gray-600 mb-4'>
-          Your journal is automatically backed up every 5 minutes and when you
-          make changes. The 50 most recent backups are kept.
+          Your journal is automatically backed up on a schedule and when you
+          make changes.{' '}
+          {isCloudConnected
+            ? 'Backups are kept in the cloud.'
+            : 'Without cloud storage, backups are kept on this device.'}
         </p>
       </div>
 
@@ -160,6 +206,8 @@ export function BackupRestoreSettings() {
         </div>
       </div>
 
+      <BackupRetentionSettings onSaved={loadBackups} />
+
       {/* Backup Error Display */}
       {backupError && (
         <div className='bg-red-50 border border-red-200 rounded-lg p-4'>
@@ -193,24 +241,58 @@ export function BackupRestoreSettings() {
         </div>
       )}
 
+      {restoreError && (
+        <div className='bg-red-50 border border-red-200 rounded-lg p-4'>
+          <div className='flex items-center'>
+            <span className='text-red-500 mr-2'>⚠️</span>
+            <div>
+              <h4 className='font-medium text-red-800'>Restore Failed</h4>
+              <p className='text-sm text-red-600 mt-1'>{restoreError}</p>
+            </div>
+            <button
+              onClick={() => setRestoreError(null)}
+              className='ml-auto text-red-400 hover:text-red-600'
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Backup List */}
       <div>
         <div className='flex items-center justify-between mb-4'>
           <h4 className='font-medium text-gray-800'>Available Backups</h4>
-          <button
-            onClick={loadBackups}
-            disabled={loading}
-            className='px-3 py-1 text-sm bg-gray-100 text-gray-600 rounded hover:bg-gray-200 disabled:opacity-50'
-          >
-            {loading ? (
-              <div className='flex items-center space-x-2'>
-                <Spinner size='sm' />
-                <span>Loading...</span>
-              </div>
-            ) : (
-              'Refresh'
-            )}
-          </button>
+          <div className='flex items-center space-x-2'>
+            <button
+              onClick={handleVerifyAll}
+              disabled={verifying || backups.length === 0}
+              className='px-3 py-1 text-sm bg-gray-100 text-gray-600 rounded hover:bg-gray-200 disabled:opacity-50'
+            >
+              {verifying ? (
+                <div className='flex items-center space-x-2'>
+                  <Spinner size='sm' />
+                  <span>Verifying...</span>
+                </div>
+              ) : (
+                'Verify All'
+              )}
+            </button>
+            <button
+              onClick={loadBackups}
+              disabled={loading}
+              className='px-3 py-1 text-sm bg-gray-100 text-gray-600 rounded hover:bg-gray-200 disabled:opacity-50'
+            >
+              {loading ? (
+                <div className='flex items-center space-x-2'>
+                  <Spinner size='sm' />
+                  <span>Loading...</span>
+                </div>
+              ) : (
+                'Refresh'
+              )}
+            </button>
+          </div>
         </div>
 
         {loading && backups.length === 0 ? (
@@ -232,25 +314,43 @@ export function BackupRestoreSettings() {
                 <div className='flex items-center justify-between'>
                   <div className='flex-1'>
                     <div className='flex items-center space-x-3'>
-                      <span className='text-2xl'>💾</span>
+                      <span className='text-2xl'>
+                        {backup.source === 'local' ? '💾' : '☁️'}
+                      </span>
                       <div>
                         <h5 className='font-medium text-gray-800'>
                           {formatTimestamp(backup.timestamp)}
+                          {backup.source === 'local' && (
+                            <span className='ml-2 text-xs font-normal px-2 py-0.5 rounded bg-gray-100 text-gray-600'>
+                              This device
+                            </span>
+                          )}
                         </h5>
                         <p className='text-sm text-gray-600'>
                           {formatFileSize(backup.size)} •{' '}
                           {backup.timestamp.toLocaleDateString()} at{' '}
                           {backup.timestamp.toLocaleTimeString()}
                         </p>
+                        {renderVerification(
+                          verificationResults?.get(backup.id)
+                        )}
                       </div>
                     </div>
                   </div>
                   <div className='flex items-center space-x-2'>
+                    <button
+                      onClick={() => setComparing(backup)}
+                      disabled={restoring === backup.id}
+                      className='px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                      Compare
+                    </button>
                     <button
                       onClick={() =>
                         handleRestoreBackup(
                           backup.id,
-                          formatTimestamp(backup.timestamp)
+                          formatTimestamp(backup.timestamp),
+                          backup.source
                         )
                       }
                       disabled={restoring === backup.id}
@@ -269,7 +369,8 @@ export function BackupRestoreSettings() {
                       onClick={() =>
                         handleDeleteBackup(
                           backup.id,
-                          formatTimestamp(backup.timestamp)
+                          formatTimestamp(backup.timestamp),
+                          backup.source
                         )
                       }
                       disabled={restoring === backup.id}
@@ -285,26 +386,46 @@ export function BackupRestoreSettings() {
         )}
       </div>
 
+      {comparing && (
+        <BackupDiffModal
+          backup={comparing}
+          onClose={() => setComparing(null)}
+        />
+      )}
+
       {/* Info Section */}
       <div className='bg-yellow-50 border border-yellow-200 rounded-lg p-4'>
         <h4 className='font-medium text-yellow-800 mb-2'>How Backups Work</h4>
         <ul className='text-sm text-yellow-700 space-y-1'>
-          <li>• Automatic backups occur every 5 minutes when data changes</li>
+          <li>
+            • Automatic backups occur on the schedule above when data changes
+          </li>
           <li>
             • Manual backups can be created anytime using the button above
           </li>
           <li>
-            • Up to 50 recent backups are kept, older ones are automatically
-            deleted
+            • Older backups are thinned out to one per hour, day, week and
+            month, and deleted once no tier needs them
           </li>
           <li>
             • Backups are compressed and stored securely in your{' '}
-            {activeProvider?.displayName || 'cloud storage'}
+            {activeProvider?.displayName || 'browser on this device'}
+          </li>
+          <li>
+            • On-device backups are lost if you clear this browser's site data
           </li>
           <li>
             • Restoring a backup will replace all current data and reload the
             app
           </li>
+          <li>
+            • Compare a backup to restore only chosen days or sections and keep
+            everything written since
+          </li>
+          <li>
+            • Backups are checked for corruption before a restore, and a damaged
+            backup is never restored
+          </li>
         </ul>
       </div>
     </div>
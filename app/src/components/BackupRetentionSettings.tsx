@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { BackupSettings } from '../types/cloudStorage';
+import { backupManager } from '../services/backupManager';
+import { logger } from '../utils/logger';
+import { LoadingButton } from './ui';
+
+interface BackupRetentionSettingsProps {
+  onSaved: () => void;
+}
+
+const INTERVAL_OPTIONS = [5, 15, 30, 60, 180];
+
+const TIER_LABELS: Array<{
+  tier: keyof BackupSettings['retention'];
+  label: string;
+}> = [
+  { tier: 'hourly', label: 'Hourly' },
+  { tier: 'daily', label: 'Daily' },
+  { tier: 'weekly', label: 'Weekly' },
+  { tier: 'monthly', label: 'Monthly' },
+];
+
+export function BackupRetentionSettings({
+  onSaved,
+}: BackupRetentionSettingsProps) {
+  const [settings, setSettings] = useState<BackupSettings>(() =>
+    backupManager.getSettings()
+  );
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const updateTier = (tier: keyof BackupSettings['retention'], value: string) =>
+    setSettings(current => ({
+      ...current,
+      retention: {
+        ...current.retention,
+        [tier]: Math.max(0, parseInt(value) || 0),
+      },
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await backupManager.updateSettings(settings);
+      setMessage('Backup schedule saved');
+      onSaved();
+    } catch (error) {
+      logger.error('Failed to save backup settings:', error);
+      setMessage('Failed to save backup schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className='border border-gray-200 rounded-lg p-4'>
+      <h4 className='font-medium text-gray-800 mb-1'>Backup Schedule</h4>
+      <p className='text-sm text-gray-600 mb-4'>
+        Keeps the latest backup of each recent hour, day, week and month, so
+        history reaches far back without keeping every snapshot.
+      </p>
+
+      <div className='grid grid-cols-2 gap-4 mb-4'>
+        <label className='text-sm text-gray-700'>
+          Back up every
+          <select
+            value={settings.backupIntervalMinutes}
+            onChange={e =>
+              setSettings(current => ({
+                ...current,
+                backupIntervalMinutes: parseInt(e.target.value),
+              }))
+            }
+            className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+          >
+            {INTERVAL_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hours`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className='text-sm text-gray-700'>
+          Keep at most
+          <input
+            type='number'
+            min={1}
+            value={settings.maxBackups}
+            onChange={e =>
+              setSettings(current => ({
+                ...current,
+                maxBackups: Math.max(1, parseInt(e.target.value) || 1),
+              }))
+            }
+            className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+          />
+        </label>
+      </div>
+
+      <div className='grid grid-cols-4 gap-3 mb-4'>
+        {TIER_LABELS.map(({ tier, label }) => (
+          <label key={tier} className='text-sm text-gray-700'>
+            {label}
+            <input
+              type='number'
+              min={0}
+              value={settings.retention[tier]}
+              onChange={e => updateTier(tier, e.target.value)}
+              className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className='flex items-center space-x-3'>
+        <LoadingButton onClick={handleSave} loading={saving} variant='primary'>
+          Save Schedule
+        </LoadingButton>
+        {message && <span className='text-sm text-gray-600'>{message}</span>}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,34 @@
 import React, { useState } from 'react';
 import { useSync } from '../services/unifiedSyncService';
 import { logger } from '../utils/logger';
+import { EncryptionSettings } from './EncryptionSettings';
+import { WebDavConnectForm } from './WebDavConnectForm';
+import {
+  WebDavConfig,
+  saveWebDavConfig,
+} from '../services/providers/webDavProvider';
+import { isLocalFolderSupported } from '../services/providers/localFolderProvider';
+import { S3ConnectForm } from './S3ConnectForm';
+import { S3Config, saveS3Config } from '../services/providers/s3Provider';
+
+const PROVIDER_DESCRIPTIONS: Record<string, string> = {
+  'google-drive': 'Secure, private storage in your app folder',
+  webdav: 'Nextcloud, ownCloud or any WebDAV server you control',
+  'local-folder': isLocalFolderSupported()
+    ? 'A folder on this computer, e.g. one synced by Syncthing or Dropbox'
+    : 'Not supported in this browser - try Chrome or Edge',
+  s3: 'Amazon S3, MinIO, Backblaze B2 or another S3-compatible bucket',
+};
+
+// Providers that need server details before they can connect
+const CONFIGURABLE_PROVIDERS = ['webdav', 's3'];
 
 export function CloudSyncSettings() {
   const [loading, setLoading] = useState(false);
+  const [configuringProvider, setConfiguringProvider] = useState<string | null>(
+    null
+  );
+  const [connectError, setConnectError] = useState<string | null>(null);
   const {
     providers,
     activeProvider,
@@ -13,9 +38,25 @@ export function CloudSyncSettings() {
   } = useSync();
 
   const handleConnect = async (providerName: string) => {
+    if (
+      CONFIGURABLE_PROVIDERS.includes(providerName) &&
+      configuringProvider !== providerName
+    ) {
+      setConnectError(null);
+      setConfiguringProvider(providerName);
+      return;
+    }
+
     setLoading(true);
     try {
-      await connectProvider(providerName);
+      const success = await connectProvider(providerName);
+      if (success) {
+        setConfiguringProvider(null);
+      } else {
+        setConnectError(
+          'Could not connect - check your settings and try again'
+        );
+      }
     } catch (error) {
       logger.error('Connect failed:', error);
     } finally {
@@ -23,6 +64,16 @@ export function CloudSyncSettings() {
     }
   };
 
+  const handleWebDavSubmit = (config: WebDavConfig) => {
+    saveWebDavConfig(config);
+    handleConnect('webdav');
+  };
+
+  const handleS3Submit = (config: S3Config) => {
+    saveS3Config(config);
+    handleConnect('s3');
+  };
+
   const handleDisconnect = async () => {
     setLoading(true);
     try {
@@ -90,31 +141,52 @@ export function CloudSyncSettings() {
                         {provider.displayName}
                       </h4>
                       <p className='text-sm text-gray-600'>
-                        Secure, private storage in your app folder
+                        {PROVIDER_DESCRIPTIONS[provider.name]}
                       </p>
                     </div>
                   </div>
-                  <button
-                    onClick={() => handleConnect(provider.name)}
-                    disabled={loading}
-                    className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
-                  >
-                    {loading ? 'Connecting...' : 'Connect'}
-                  </button>
+                  {configuringProvider !== provider.name && (
+                    <button
+                      onClick={() => handleConnect(provider.name)}
+                      disabled={loading}
+                      className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                      {loading ? 'Connecting...' : 'Connect'}
+                    </button>
+                  )}
                 </div>
+                {configuringProvider === 'webdav' &&
+                  provider.name === 'webdav' && (
+                    <WebDavConnectForm
+                      loading={loading}
+                      error={connectError}
+                      onSubmit={handleWebDavSubmit}
+                      onCancel={() => setConfiguringProvider(null)}
+                    />
+                  )}
+                {configuringProvider === 's3' && provider.name === 's3' && (
+                  <S3ConnectForm
+                    loading={loading}
+                    error={connectError}
+                    onSubmit={handleS3Submit}
+                    onCancel={() => setConfiguringProvider(null)}
+                  />
+                )}
               </div>
             ))}
           </div>
         </div>
       )}
 
+      <EncryptionSettings />
+
       {/* Info Section */}
       <div className='bg-blue-50 border border-blue-200 rounded-lg p-4'>
         <h3 className='font-medium text-blue-800 mb-2'>Privacy & Security</h3>
         <ul className='text-sm text-blue-700 space-y-1'>
           <li>
-            • Your journal data is encrypted and stored in your private app
-            folder
+            • Your journal data is stored in your private app folder, and
+            encrypted end-to-end once you set a passphrase
           </li>
           <li>• No one else can access your data, including us</li>
           <li>
@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
-import { ConflictData, ConflictResolution } from '../types/cloudStorage';
+import {
+  ConflictData,
+  ConflictResolution,
+  SectionChoice,
+  SectionConflict,
+} from '../types/cloudStorage';
+import { diffLines, DiffLine, formatContentForDiff } from '../utils/textDiff';
 
 interface ConflictResolutionModalProps {
   conflict: ConflictData;
@@ -7,111 +13,168 @@ interface ConflictResolutionModalProps {
   isOpen: boolean;
 }
 
+const formatTimeframe = (section: SectionConflict) => {
+  switch (section.timeframeType) {
+    case 'persistent':
+      return 'All entries';
+    case 'daily':
+      return section.timeframeStart;
+    default:
+      return `${section.timeframeStart} – ${section.timeframeEnd}`;
+  }
+};
+
+const DiffColumn: React.FC<{
+  title: string;
+  lines: DiffLine[];
+  hiddenType: 'added' | 'removed';
+  selected: boolean;
+  onSelect: () => void;
+}> = ({ title, lines, hiddenType, selected, onSelect }) => (
+  <div
+    className={`flex-1 min-w-0 border-2 rounded-lg cursor-pointer transition-colors ${
+      selected
+        ? 'border-blue-500 bg-blue-50'
+        : 'border-gray-200 hover:border-gray-300'
+    }`}
+    onClick={onSelect}
+  >
+    <div className='flex items-center px-3 py-2 border-b border-gray-200'>
+      <input
+        type='radio'
+        checked={selected}
+        onChange={onSelect}
+        className='h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500'
+      />
+      <label className='ml-2 text-sm font-medium text-gray-900'>{title}</label>
+    </div>
+    <pre className='p-3 text-xs font-mono whitespace-pre-wrap break-words max-h-64 overflow-y-auto'>
+      {lines
+        .filter(line => line.type !== hiddenType)
+        .map((line, index) => (
+          <div
+            key={index}
+            className={
+              line.type === 'removed'
+                ? 'bg-red-100 text-red-800'
+                : line.type === 'added'
+                  ? 'bg-green-100 text-green-800'
+                  : 'text-gray-700'
+            }
+          >
+            {line.text || ' '}
+          </div>
+        ))}
+    </pre>
+  </div>
+);
+
 export const ConflictResolutionModal: React.FC<
   ConflictResolutionModalProps
 > = ({ conflict, onResolve, isOpen }) => {
-  const [selectedResolution, setSelectedResolution] =
-    useState<ConflictResolution | null>(null);
+  const [choices, setChoices] = useState<{
+    [sectionId: string]: SectionChoice;
+  }>({});
 
   if (!isOpen) return null;
 
-  const handleResolve = () => {
-    if (selectedResolution) {
-      onResolve(selectedResolution);
-    }
+  const allChosen = conflict.conflicts.every(
+    section => choices[section.sectionId]
+  );
+
+  const chooseSection = (sectionId: string, choice: SectionChoice) => {
+    setChoices(prev => ({ ...prev, [sectionId]: choice }));
   };
 
-  const formatDataSize = (data: Uint8Array) => {
-    const sizeInKB = Math.round(data.length / 1024);
-    return `${sizeInKB} KB`;
+  const chooseAll = (choice: SectionChoice) => {
+    const all: { [sectionId: string]: SectionChoice } = {};
+    conflict.conflicts.forEach(section => {
+      all[section.sectionId] = choice;
+    });
+    setChoices(all);
   };
 
-  const formatHash = (hash: string) => {
-    return `${hash.slice(0, 8)}...${hash.slice(-8)}`;
+  const handleResolve = () => {
+    if (allChosen) {
+      onResolve({ type: 'merge', choices });
+    }
   };
 
   return (
     <div className='fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50'>
-      <div className='relative top-20 mx-auto p-6 border shadow-lg rounded-md bg-white max-w-2xl w-full max-w-[calc(100vw-2rem)]'>
+      <div className='relative top-20 mx-auto mb-20 p-6 border shadow-lg rounded-md bg-white max-w-4xl w-full max-w-[calc(100vw-2rem)]'>
         <div className='mt-3'>
           <div className='flex items-center mb-6'>
             <span className='text-2xl mr-3'>⚠️</span>
             <h3 className='text-xl font-semibold text-gray-900'>
-              Database Conflict Detected
+              Sync Conflict Detected
             </h3>
           </div>
 
-          <p className='text-gray-600 mb-6'>
-            Your local journal data differs from the data stored in the cloud.
-            Please choose which version you'd like to keep:
+          <p className='text-gray-600 mb-2'>
+            {conflict.isInitialSync
+              ? 'This device and the cloud both have journal data.'
+              : 'Some sections were edited both on this device and on another device.'}{' '}
+            Choose which version to keep for each section:
           </p>
+          {conflict.autoMergedCount > 0 && (
+            <p className='text-sm text-gray-500 mb-6'>
+              {conflict.autoMergedCount} other section
+              {conflict.autoMergedCount === 1 ? ' was' : 's were'} merged
+              automatically.
+            </p>
+          )}
 
-          <div className='space-y-4 mb-6'>
-            {/* Local Data Option */}
-            <div
-              className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                selectedResolution === 'use-local'
-                  ? 'border-blue-500 bg-blue-50'
-                  : 'border-gray-200 hover:border-gray-300'
-              }`}
-              onClick={() => setSelectedResolution('use-local')}
+          <div className='flex justify-end space-x-2 mb-4'>
+            <button
+              onClick={() => chooseAll('local')}
+              className='px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50'
             >
-              <div className='flex items-center mb-2'>
-                <input
-                  type='radio'
-                  name='resolution'
-                  value='use-local'
-                  checked={selectedResolution === 'use-local'}
-                  onChange={() => setSelectedResolution('use-local')}
-                  className='h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500'
-                />
-                <label className='ml-3 text-lg font-medium text-gray-900'>
-                  💻 Keep Local Data
-                </label>
-              </div>
-              <div className='ml-7 text-sm text-gray-600'>
-                <p>Use the data currently on this device</p>
-                <p className='mt-1'>
-                  <span className='font-medium'>Size:</span>{' '}
-                  {formatDataSize(conflict.localData)} •{' '}
-                  <span className='font-medium ml-2'>Hash:</span>{' '}
-                  {formatHash(conflict.localHash)}
-                </p>
-              </div>
-            </div>
-
-            {/* Cloud Data Option */}
-            <div
-              className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
-                selectedResolution === 'use-cloud'
-                  ? 'border-blue-500 bg-blue-50'
-                  : 'border-gray-200 hover:border-gray-300'
-              }`}
-              onClick={() => setSelectedResolution('use-cloud')}
+              💻 Keep all local
+            </button>
+            <button
+              onClick={() => chooseAll('cloud')}
+              className='px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50'
             >
-              <div className='flex items-center mb-2'>
-                <input
-                  type='radio'
-                  name='resolution'
-                  value='use-cloud'
-                  checked={selectedResolution === 'use-cloud'}
-                  onChange={() => setSelectedResolution('use-cloud')}
-                  className='h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500'
-                />
-                <label className='ml-3 text-lg font-medium text-gray-900'>
-                  ☁️ Keep Cloud Data
-                </label>
-              </div>
-              <div className='ml-7 text-sm text-gray-600'>
-                <p>Use the data stored in the cloud</p>
-                <p className='mt-1'>
-                  <span className='font-medium'>Size:</span>{' '}
-                  {formatDataSize(conflict.cloudData)} •{' '}
-                  <span className='font-medium ml-2'>Hash:</span>{' '}
-                  {formatHash(conflict.cloudHash)}
-                </p>
-              </div>
-            </div>
+              ☁️ Keep all cloud
+            </button>
+          </div>
+
+          <div className='space-y-6 mb-6'>
+            {conflict.conflicts.map(section => {
+              const lines = diffLines(
+                formatContentForDiff(section.localContent),
+                formatContentForDiff(section.cloudContent)
+              );
+              return (
+                <div key={section.sectionId}>
+                  <div className='flex items-baseline justify-between mb-2'>
+                    <h4 className='font-medium text-gray-900'>
+                      {section.templateTitle}
+                    </h4>
+                    <span className='text-sm text-gray-500'>
+                      {formatTimeframe(section)}
+                    </span>
+                  </div>
+                  <div className='flex flex-col md:flex-row gap-3'>
+                    <DiffColumn
+                      title='💻 This device'
+                      lines={lines}
+                      hiddenType='added'
+                      selected={choices[section.sectionId] === 'local'}
+                      onSelect={() => chooseSection(section.sectionId, 'local')}
+                    />
+                    <DiffColumn
+                      title='☁️ Cloud'
+                      lines={lines}
+                      hiddenType='removed'
+                      selected={choices[section.sectionId] === 'cloud'}
+                      onSelect={() => chooseSection(section.sectionId, 'cloud')}
+                    />
+                  </div>
+                </div>
+              );
+            })}
           </div>
 
           <div className='bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6'>
@@ -120,8 +183,8 @@ export const ConflictResolutionModal: React.FC<
               <div className='text-sm text-yellow-800'>
                 <p className='font-medium'>Important:</p>
                 <p>
-                  The version you don't choose will be overwritten. Consider
-                  exporting a backup before proceeding if you're unsure.
+                  For each section, the version you don't choose will be
+                  overwritten. Sync stays paused if you cancel.
                 </p>
               </div>
             </div>
@@ -129,17 +192,17 @@ export const ConflictResolutionModal: React.FC<
 
           <div className='flex justify-end space-x-3'>
             <button
-              onClick={() => onResolve('cancel')}
+              onClick={() => onResolve({ type: 'cancel' })}
               className='px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
             >
               Cancel
             </button>
             <button
               onClick={handleResolve}
-              disabled={!selectedResolution}
+              disabled={!allChosen}
               className='px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed'
             >
-              Continue with Selected Data
+              Apply Merge
             </button>
           </div>
         </div>
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { useSync } from '../services/unifiedSyncService';
+import { encryptionService } from '../services/encryptionService';
+import { logger } from '../utils/logger';
+
+export function EncryptionSettings() {
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { status, error, setEncryptionPassphrase, disableEncryption } =
+    useSync();
+
+  useEffect(() => {
+    encryptionService.isEnabled().then(setIsEnabled);
+  }, []);
+
+  const handleSetPassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    setMessage(null);
+
+    if (passphrase.length < 8) {
+      setFormError('Use a passphrase of at least 8 characters');
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setFormError('Passphrases do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const backups = await setEncryptionPassphrase(passphrase);
+      setIsEnabled(true);
+      setPassphrase('');
+      setConfirmation('');
+      setMessage(
+        backups.encrypted > 0
+          ? `Encryption passphrase saved on this device. ${backups.encrypted} older cloud ${backups.encrypted === 1 ? 'backup was' : 'backups were'} re-uploaded encrypted.`
+          : 'Encryption passphrase saved on this device'
+      );
+      if (backups.failed > 0) {
+        setFormError(
+          `${backups.failed} older cloud ${backups.failed === 1 ? 'backup' : 'backups'} could not be encrypted and ${backups.failed === 1 ? 'is' : 'are'} still stored unencrypted. Delete them under Backup & Restore, or enter the passphrase again to retry.`
+        );
+      }
+    } catch (err) {
+      logger.error('Failed to set encryption passphrase:', err);
+      setFormError(
+        err instanceof Error ? err.message : 'Failed to set passphrase'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (
+      !window.confirm(
+        'Turn off encryption? Your cloud data will be re-uploaded unencrypted. Existing encrypted backups will need the passphrase to restore.'
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setMessage(null);
+    try {
+      await disableEncryption();
+      setIsEnabled(false);
+      setMessage('Encryption turned off');
+    } catch (err) {
+      logger.error('Failed to disable encryption:', err);
+      setFormError(
+        err instanceof Error ? err.message : 'Failed to disable encryption'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className='border border-gray-200 rounded-lg p-4'>
+      <div className='flex items-center justify-between mb-2'>
+        <h3 className='text-lg font-semibold text-gray-800'>
+          🔒 End-to-End Encryption
+        </h3>
+        <span
+          className={`text-xs font-medium px-2 py-1 rounded ${
+            isEnabled
+              ? 'bg-green-100 text-green-700'
+              : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {isEnabled ? 'Enabled' : 'Off'}
+        </span>
+      </div>
+      <p className='text-sm text-gray-600 mb-4'>
+        Encrypt sync data and backups with a passphrase before they leave this
+        device. Use the same passphrase on every device. If you forget it, your
+        cloud data cannot be recovered. To change the passphrase, turn
+        encryption off and enable it again.
+      </p>
+
+      {status === 'error' && error && (
+        <div className='bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700'>
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSetPassphrase} className='space-y-3'>
+        <input
+          type='password'
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder='Passphrase'
+          autoComplete='new-password'
+          className='w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+        />
+        <input
+          type='password'
+          value={confirmation}
+          onChange={e => setConfirmation(e.target.value)}
+          placeholder='Confirm passphrase'
+          autoComplete='new-password'
+          className='w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+        />
+
+        {formError && <p className='text-sm text-red-600'>{formError}</p>}
+        {message && <p className='text-sm text-green-600'>{message}</p>}
+
+        <div className='flex space-x-3'>
+          <button
+            type='submit'
+            disabled={loading || !passphrase}
+            className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
+          >
+            {loading
+              ? 'Working...'
+              : isEnabled
+                ? 'Re-enter Passphrase'
+                : 'Enable Encryption'}
+          </button>
+          {isEnabled && (
+            <button
+              type='button'
+              onClick={handleDisable}
+              disabled={loading}
+              className='px-4 py-2 text-sm bg-red-100 text-red-700 rounded-lg hover:bg-red-200 disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              Turn Off
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import database from '../database/watermelon/database';
+import { EntryTag as EntryTagModel } from '../database/watermelon/models';
+import { tagService, EntryTagInfo } from '../services/tagService';
+import { localApiService } from '../services/localApi';
+import { logger } from '../utils/logger';
+
+interface EntryTagBarProps {
+  date: string; // YYYY-MM-DD of the entry being viewed
+}
+
+// Tags of an entry: manual ones can be removed here, #hashtags are edited
+// in the section that holds them
+export function EntryTagBar({ date }: EntryTagBarProps) {
+  const navigate = useNavigate();
+  const [tags, setTags] = useState<EntryTagInfo[]>([]);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setTags(await tagService.getTagsForEntry(date));
+    } catch (err) {
+      logger.error('Failed to load tags:', err);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    loadTags();
+    const subscription = database.collections
+      .get<EntryTagModel>('entry_tags')
+      .changes.subscribe(() => loadTags());
+    return () => subscription.unsubscribe();
+  }, [loadTags]);
+
+  const addTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+
+    try {
+      await localApiService.addEntryTag(date, input);
+      setInput('');
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to add tag:', err);
+      setError('Could not add tag');
+    }
+  };
+
+  const removeTag = async (tagId: string) => {
+    try {
+      await localApiService.removeEntryTag(date, tagId);
+    } catch (err) {
+      logger.error('Failed to remove tag:', err);
+      setError('Could not remove tag');
+    }
+  };
+
+  return (
+    <div className='px-4 py-2 flex flex-wrap items-center gap-2 text-sm'>
+      <span className='text-gray-500'>🏷️</span>
+      {tags.map(tag => (
+        <span
+          key={tag.tagId}
+          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border ${
+            tag.manual
+              ? 'bg-blue-50 border-blue-200 text-blue-700'
+              : 'bg-gray-100 border-gray-200 text-gray-600'
+          }`}
+          title={tag.manual ? 'Added by hand' : 'From a #hashtag in a section'}
+        >
+          <button
+            onClick={() =>
+              navigate(`/tags?tag=${encodeURIComponent(tag.name)}`)
+            }
+            className='hover:underline'
+          >
+            #{tag.name}
+          </button>
+          {tag.manual && (
+            <button
+              onClick={() => removeTag(tag.tagId)}
+              className='text-blue-400 hover:text-blue-700'
+              aria-label={`Remove tag ${tag.name}`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      <form onSubmit={addTag}>
+        <input
+          type='text'
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder='Add tag'
+          className='w-28 px-2 py-0.5 bg-transparent border-b border-gray-300 focus:outline-none focus:border-blue-500'
+        />
+      </form>
+      {error && <span className='text-red-600'>{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import database from '../database/watermelon/database';
+import { Template as TemplateModel } from '../database/watermelon/models';
+import { Template } from '../services/api';
+import { localApiService } from '../services/localApi';
+import { reactiveDataService } from '../services/reactiveDataService';
+import { resolveTemplateId } from '../utils/templateRules';
+import { logger } from '../utils/logger';
+
+interface EntryTemplateSelectProps {
+  date: string; // YYYY-MM-DD of the entry being viewed
+  templateId?: string;
+  pinned?: boolean;
+}
+
+const AUTOMATIC = '';
+
+// Lets a day use another template than its rules pick. Hidden while there
+// is only the default template.
+export function EntryTemplateSelect({
+  date,
+  templateId,
+  pinned,
+}: EntryTemplateSelectProps) {
+  const [templates, setTemplates] = useState<Template[]>([]);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await localApiService.fetchNamedTemplates());
+    } catch (err) {
+      logger.error('Failed to load templates:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+    const subscription = database.collections
+      .get<TemplateModel>('templates')
+      .changes.subscribe(() => loadTemplates());
+    return () => subscription.unsubscribe();
+  }, [loadTemplates]);
+
+  if (templates.length < 2) {
+    return null;
+  }
+
+  const ruleTemplate = templates.find(
+    template => template.id === resolveTemplateId(templates, date)
+  );
+
+  const handleChange = async (value: string) => {
+    try {
+      await reactiveDataService.setEntryTemplate(
+        date,
+        value === AUTOMATIC ? null : value
+      );
+    } catch (err) {
+      logger.error('Failed to set entry template:', err);
+    }
+  };
+
+  return (
+    <label className='px-4 py-1 flex items-center gap-2 text-sm text-gray-500'>
+      <span>📐</span>
+      <select
+        value={pinned && templateId ? templateId : AUTOMATIC}
+        onChange={e => handleChange(e.target.value)}
+        className='px-2 py-0.5 bg-transparent border border-gray-200 rounded-md text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+        title='Template for this day'
+      >
+        <option value={AUTOMATIC}>
+          Automatic{ruleTemplate ? ` (${ruleTemplate.name})` : ''}
+        </option>
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>
+            {template.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ImportConflictMode,
+  ImportedEntry,
+  ImportPreview,
+  ImportRowStatus,
+  ImportTarget,
+  journalImportService,
+} from '../services/journalImportService';
+import { logger } from '../utils/logger';
+import { LoadingButton } from './ui';
+
+interface JournalImportDialogProps {
+  onClose: () => void;
+}
+
+const STATUS_LABELS: { [status in ImportRowStatus]: string } = {
+  create: 'New entry',
+  merge: 'Added to entry',
+  conflict: 'Has content',
+  trashed: 'In trash, skipped',
+};
+
+const CONFLICT_OPTIONS: Array<{ value: ImportConflictMode; label: string }> = [
+  { value: 'skip', label: 'Keep what is there' },
+  { value: 'append', label: 'Add below it' },
+  { value: 'replace', label: 'Replace it' },
+];
+
+// Imports Day One, JSON, CSV and plain text journals into a text section
+export function JournalImportDialog({ onClose }: JournalImportDialogProps) {
+  const [entries, setEntries] = useState<ImportedEntry[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [targets, setTargets] = useState<ImportTarget[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [conflictMode, setConflictMode] = useState<ImportConflictMode>('skip');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [reading, setReading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    journalImportService
+      .getTargets()
+      .then(loaded => {
+        setTargets(loaded);
+        if (loaded.length > 0) {
+          setTargetId(loaded[0].section.id);
+        }
+      })
+      .catch(err => {
+        logger.error('Failed to load import targets:', err);
+        setError('Failed to load template sections');
+      });
+  }, []);
+
+  const target = targets.find(t => t.section.id === targetId);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+
+    setReading(true);
+    setError(null);
+    setMessage(null);
+    setPreview(null);
+    try {
+      const result = await journalImportService.readFiles(files);
+      setEntries(result.entries);
+      setFileErrors(result.errors);
+    } catch (err) {
+      logger.error('Failed to read import files:', err);
+      setError('Failed to read the files');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!target) {
+      return;
+    }
+    setPreviewing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setPreview(await journalImportService.preview(entries, target));
+    } catch (err) {
+      logger.error('Failed to preview import:', err);
+      setError('Failed to preview the import');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!target) {
+      return;
+    }
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await journalImportService.importEntries(
+        entries,
+        target,
+        conflictMode,
+        (done, total) => setProgress(`${done} of ${total} days`)
+      );
+      setMessage(
+        `Created ${result.created}, added to ${result.merged + result.appended}, replaced ${result.replaced} and skipped ${result.skipped} entries.`
+      );
+      setPreview(null);
+      setEntries([]);
+    } catch (err) {
+      logger.error('Failed to import journal:', err);
+      setError('Import failed part way. Days imported so far are kept.');
+    } finally {
+      setImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50'>
+      <div className='relative top-20 mx-auto mb-20 p-6 border shadow-lg rounded-md bg-white max-w-2xl w-full max-w-[calc(100vw-2rem)]'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-xl font-semibold text-gray-900'>
+            Import a Journal
+          </h3>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-gray-600'
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className='text-sm text-gray-600 mb-4'>
+          Reads a Day One export (the zip or its JSON), a JSON list or CSV of
+          date, title and body, or text files with a date on its own line before
+          each day. Entries of the same day are put together.
+        </p>
+
+        <div className='flex flex-wrap items-center gap-2 mb-4'>
+          <LoadingButton
+            onClick={() => fileInputRef.current?.click()}
+            loading={reading}
+            variant='secondary'
+          >
+            Choose Files
+          </LoadingButton>
+          {entries.length > 0 && (
+            <span className='text-sm text-gray-600'>
+              {entries.length} {entries.length === 1 ? 'entry' : 'entries'}{' '}
+              found
+            </span>
+          )}
+          <input
+            ref={fileInputRef}
+            type='file'
+            accept='.zip,.json,.csv,.txt,.md'
+            multiple
+            onChange={handleFiles}
+            className='hidden'
+          />
+        </div>
+        {fileErrors.length > 0 && (
+          <ul className='mb-4 text-sm text-amber-700 list-disc list-inside'>
+            {fileErrors.map(fileError => (
+              <li key={fileError}>{fileError}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-4 mb-4'>
+          <label className='text-sm text-gray-700'>
+            Put the text in
+            <select
+              value={targetId}
+              onChange={e => {
+                setTargetId(e.target.value);
+                setPreview(null);
+              }}
+              className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              {targets.map(t => (
+                <option key={t.section.id} value={t.section.id}>
+                  {t.templateName} — {t.section.title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className='text-sm text-gray-700'>
+            When the section already has content
+            <select
+              value={conflictMode}
+              onChange={e =>
+                setConflictMode(e.target.value as ImportConflictMode)
+              }
+              className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              {CONFLICT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {targets.length === 0 && !error && (
+          <p className='mb-4 text-sm text-amber-700'>
+            Add a daily text section to a template to import into.
+          </p>
+        )}
+
+        {preview && (
+          <div className='mb-4'>
+            <p className='text-sm text-gray-700 mb-2'>
+              {preview.create} new, {preview.merge} added to existing entries,{' '}
+              {preview.conflicts} with content already
+              {preview.trashed > 0 && `, ${preview.trashed} in the trash`}.
+            </p>
+            <div className='max-h-64 overflow-y-auto border border-gray-200 rounded-md'>
+              <table className='w-full text-sm'>
+                <tbody>
+                  {preview.rows.map(row => (
+                    <tr key={row.date} className='border-b border-gray-100'>
+                      <td className='px-3 py-1 text-gray-800'>{row.date}</td>
+                      <td className='px-3 py-1 text-gray-500'>
+                        {row.count > 1 && `${row.count} entries`}
+                      </td>
+                      <td
+                        className={`px-3 py-1 ${
+                          row.status === 'conflict'
+                            ? 'text-amber-700'
+                            : 'text-gray-600'
+                        }`}
+                      >
+                        {STATUS_LABELS[row.status]}
+                        {row.outsideTemplate && ' · not in this day’s template'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {error && <p className='mb-4 text-sm text-red-600'>{error}</p>}
+        {message && <p className='mb-4 text-sm text-gray-600'>{message}</p>}
+        {progress && <p className='mb-4 text-sm text-gray-600'>{progress}</p>}
+
+        <div className='flex justify-end gap-2'>
+          <button
+            onClick={onClose}
+            className='px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200'
+          >
+            Close
+          </button>
+          <LoadingButton
+            onClick={handlePreview}
+            loading={previewing}
+            disabled={entries.length === 0 || !target || importing}
+            variant='secondary'
+          >
+            Preview
+          </LoadingButton>
+          <LoadingButton
+            onClick={handleImport}
+            loading={importing}
+            disabled={!preview || !target}
+            variant='primary'
+          >
+            Import
+          </LoadingButton>
+        </div>
+      </div>
+    </div>
+  );
+}
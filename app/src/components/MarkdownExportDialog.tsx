@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { startOfMonth } from 'date-fns';
+import { markdownExportService } from '../services/markdownExportService';
+import { downloadFile } from '../utils/fileDownload';
+import { formatDateForAPI } from '../utils/dates';
+import { logger } from '../utils/logger';
+import { LoadingButton } from './ui';
+
+interface MarkdownExportDialogProps {
+  currentDate: Date; // The range starts with the month of this day
+  onClose: () => void;
+}
+
+// Exports a date range as a zip of daily Markdown notes
+export function MarkdownExportDialog({
+  currentDate,
+  onClose,
+}: MarkdownExportDialogProps) {
+  const [startDate, setStartDate] = useState(
+    formatDateForAPI(startOfMonth(currentDate))
+  );
+  const [endDate, setEndDate] = useState(formatDateForAPI(currentDate));
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!startDate || !endDate || startDate > endDate) {
+      setError('Choose a first day on or before the last day');
+      return;
+    }
+
+    setExporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const { data, noteCount } = await markdownExportService.exportZip(
+        startDate,
+        endDate
+      );
+      if (noteCount === 0) {
+        setMessage('No entries with content in this range.');
+        return;
+      }
+      downloadFile(
+        `journal-${startDate}-to-${endDate}.zip`,
+        data,
+        'application/zip'
+      );
+      setMessage(`Exported ${noteCount} ${noteCount === 1 ? 'day' : 'days'}.`);
+    } catch (err) {
+      logger.error('Failed to export Markdown:', err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50'>
+      <div className='relative top-20 mx-auto mb-20 p-6 border shadow-lg rounded-md bg-white max-w-md w-full max-w-[calc(100vw-2rem)]'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-xl font-semibold text-gray-900'>
+            Export as Markdown
+          </h3>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-gray-600'
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className='text-sm text-gray-600 mb-4'>
+          Downloads a zip with one note per day, named YYYY-MM-DD.md. Weekly,
+          monthly and lasting sections are written once, on the first day that
+          shows them.
+        </p>
+
+        <div className='flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-700'>
+          <input
+            type='date'
+            value={startDate}
+            onChange={e => setStartDate(e.target.value)}
+            className='px-2 py-1 border border-gray-300 rounded-md'
+            aria-label='First day'
+          />
+          <span>–</span>
+          <input
+            type='date'
+            value={endDate}
+            onChange={e => setEndDate(e.target.value)}
+            className='px-2 py-1 border border-gray-300 rounded-md'
+            aria-label='Last day'
+          />
+        </div>
+
+        {error && <p className='mb-4 text-sm text-red-600'>{error}</p>}
+        {message && <p className='mb-4 text-sm text-gray-600'>{message}</p>}
+
+        <div className='flex justify-end gap-2'>
+          <button
+            onClick={onClose}
+            className='px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200'
+          >
+            Close
+          </button>
+          <LoadingButton
+            onClick={handleExport}
+            loading={exporting}
+            variant='primary'
+          >
+            Export
+          </LoadingButton>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { onThisDayService, Memory } from '../services/onThisDayService';
+import { sectionRegistry } from './sections/registry';
+import { parseAPIDate } from '../utils/dates';
+import { logger } from '../utils/logger';
+
+interface OnThisDayPanelProps {
+  date: string; // YYYY-MM-DD of the entry being viewed
+}
+
+const COLLAPSED_STORAGE_KEY = 'onThisDayCollapsed';
+
+// Earlier entries for the same day, shown read-only below the journal
+export function OnThisDayPanel({ date }: OnThisDayPanelProps) {
+  const navigate = useNavigate();
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [collapsed, setCollapsed] = useState(
+    () => localStorage.getItem(COLLAPSED_STORAGE_KEY) === 'true'
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    onThisDayService
+      .getMemories(date)
+      .then(result => {
+        if (!cancelled) setMemories(result);
+      })
+      .catch(error => {
+        logger.error('Failed to load On this day:', error);
+        if (!cancelled) setMemories([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [date]);
+
+  const toggleCollapsed = () => {
+    localStorage.setItem(COLLAPSED_STORAGE_KEY, String(!collapsed));
+    setCollapsed(!collapsed);
+  };
+
+  if (memories.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='px-4 pb-8'>
+      <div className='bg-white border border-gray-200 rounded-lg shadow-sm'>
+        <button
+          onClick={toggleCollapsed}
+          className='w-full flex items-center justify-between px-4 py-3 text-left'
+        >
+          <span className='font-semibold text-gray-800'>
+            🕰️ On this day
+            <span className='ml-2 text-sm font-normal text-gray-500'>
+              {memories.map(memory => memory.label).join(' · ')}
+            </span>
+          </span>
+          <span className='text-gray-400'>{collapsed ? '▸' : '▾'}</span>
+        </button>
+
+        {!collapsed && (
+          <div className='border-t border-gray-200 divide-y divide-gray-100'>
+            {memories.map(memory => (
+              <div key={memory.date} className='px-4 py-3'>
+                <div className='flex items-baseline justify-between mb-2'>
+                  <h4 className='font-medium text-gray-700'>{memory.label}</h4>
+                  <button
+                    onClick={() => navigate(`/?date=${memory.date}`)}
+                    className='text-sm text-blue-600 hover:text-blue-800'
+                  >
+                    {format(parseAPIDate(memory.date), 'EEEE, MMMM d, yyyy')}
+                  </button>
+                </div>
+                <div className='space-y-3'>
+                  {memory.sections.map(section => {
+                    const definition = sectionRegistry.get(section.contentType);
+                    if (!definition) return null;
+                    return (
+                      <div key={section.id}>
+                        <div className='text-xs font-medium uppercase text-gray-500 mb-1'>
+                          {section.title}
+                        </div>
+                        {/* Read-only: interactive displays cannot edit the past */}
+                        <div className='pointer-events-none'>
+                          {definition.renderDisplay({
+                            content: section.content,
+                            onContentChange: () => {},
+                            isEditMode: false,
+                            entryDate: memory.date,
+                            configuration: section.configuration,
+                            title: section.title,
+                          })}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { revisionService, RevisionSettings } from '../services/revisionService';
+import { logger } from '../utils/logger';
+import { LoadingButton } from './ui';
+
+const SESSION_GAP_OPTIONS = [5, 10, 30, 60];
+
+export function RevisionHistorySettings() {
+  const [settings, setSettings] = useState<RevisionSettings>(() =>
+    revisionService.getSettings()
+  );
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const updateRetention = (
+    key: keyof RevisionSettings['retention'],
+    value: string
+  ) =>
+    setSettings(current => ({
+      ...current,
+      retention: {
+        ...current.retention,
+        [key]: Math.max(0, parseInt(value) || 0),
+      },
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await revisionService.updateSettings(settings);
+      setMessage('History settings saved');
+    } catch (error) {
+      logger.error('Failed to save history settings:', error);
+      setMessage('Failed to save history settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className='text-lg font-semibold text-gray-800 mb-2'>
+        Section History
+      </h3>
+      <p className='text-gray-600 mb-4'>
+        Every editing session of a section is kept as a version you can compare
+        and restore from the 🕘 button on the section. Older versions are
+        thinned out to one per day.
+      </p>
+
+      <div className='grid grid-cols-1 md:grid-cols-3 gap-4 mb-4'>
+        <label className='text-sm text-gray-700'>
+          New version after a pause of
+          <select
+            value={settings.sessionGapMinutes}
+            onChange={e =>
+              setSettings(current => ({
+                ...current,
+                sessionGapMinutes: parseInt(e.target.value),
+              }))
+            }
+            className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+          >
+            {SESSION_GAP_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes} minutes
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className='text-sm text-gray-700'>
+          Keep every version for (days)
+          <input
+            type='number'
+            min={0}
+            value={settings.retention.keepAllDays}
+            onChange={e => updateRetention('keepAllDays', e.target.value)}
+            className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+          />
+        </label>
+        <label className='text-sm text-gray-700'>
+          Then one per day for (days, 0 = forever)
+          <input
+            type='number'
+            min={0}
+            value={settings.retention.keepDailyDays}
+            onChange={e => updateRetention('keepDailyDays', e.target.value)}
+            className='mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+          />
+        </label>
+      </div>
+
+      <div className='flex items-center space-x-3'>
+        <LoadingButton onClick={handleSave} loading={saving} variant='primary'>
+          Save History Settings
+        </LoadingButton>
+        {message && <span className='text-sm text-gray-600'>{message}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { S3Config, loadS3Config } from '../services/providers/s3Provider';
+
+interface S3ConnectFormProps {
+  loading: boolean;
+  error: string | null;
+  onSubmit: (config: S3Config) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function S3ConnectForm({
+  loading,
+  error,
+  onSubmit,
+  onCancel,
+}: S3ConnectFormProps) {
+  const saved = loadS3Config();
+  const [endpoint, setEndpoint] = useState(saved?.endpoint ?? '');
+  const [region, setRegion] = useState(saved?.region ?? '');
+  const [bucket, setBucket] = useState(saved?.bucket ?? '');
+  const [prefix, setPrefix] = useState(saved?.prefix ?? 'jaja/');
+  const [accessKeyId, setAccessKeyId] = useState(saved?.accessKeyId ?? '');
+  const [secretAccessKey, setSecretAccessKey] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      endpoint,
+      region,
+      bucket,
+      prefix,
+      accessKeyId,
+      secretAccessKey,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className='mt-4 space-y-3'>
+      <input
+        type='url'
+        value={endpoint}
+        onChange={e => setEndpoint(e.target.value)}
+        placeholder='Endpoint, e.g. http://localhost:9000 (blank for AWS)'
+        className={inputClassName}
+      />
+      <div className='grid grid-cols-2 gap-3'>
+        <input
+          type='text'
+          value={bucket}
+          onChange={e => setBucket(e.target.value)}
+          placeholder='Bucket'
+          required
+          className={inputClassName}
+        />
+        <input
+          type='text'
+          value={region}
+          onChange={e => setRegion(e.target.value)}
+          placeholder='Region (us-east-1)'
+          className={inputClassName}
+        />
+      </div>
+      <input
+        type='text'
+        value={prefix}
+        onChange={e => setPrefix(e.target.value)}
+        placeholder='Folder prefix, e.g. jaja/'
+        className={inputClassName}
+      />
+      <input
+        type='text'
+        value={accessKeyId}
+        onChange={e => setAccessKeyId(e.target.value)}
+        placeholder='Access key ID'
+        autoComplete='username'
+        required
+        className={inputClassName}
+      />
+      <input
+        type='password'
+        value={secretAccessKey}
+        onChange={e => setSecretAccessKey(e.target.value)}
+        placeholder='Secret access key'
+        autoComplete='current-password'
+        required
+        className={inputClassName}
+      />
+      <p className='text-xs text-gray-500'>
+        The bucket needs a CORS rule allowing GET, PUT and DELETE from this
+        site. Use a key limited to this bucket; it is stored in this browser
+        only.
+      </p>
+
+      {error && <p className='text-sm text-red-600'>{error}</p>}
+
+      <div className='flex space-x-3'>
+        <button
+          type='submit'
+          disabled={loading}
+          className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
+        >
+          {loading ? 'Connecting...' : 'Connect'}
+        </button>
+        <button
+          type='button'
+          onClick={onCancel}
+          disabled={loading}
+          className='px-4 py-2 text-gray-600 hover:text-gray-800 disabled:opacity-50'
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
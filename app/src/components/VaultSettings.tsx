@@ -0,0 +1,186 @@
+import React, { useRef, useState } from 'react';
+import { startOfMonth } from 'date-fns';
+import { vaultService } from '../services/vaultService';
+import { downloadFile } from '../utils/fileDownload';
+import { formatDateForAPI } from '../utils/dates';
+import { logger } from '../utils/logger';
+import { LoadingButton } from './ui';
+
+// Exports to and imports from Obsidian-style vaults of daily and periodic notes
+export function VaultSettings() {
+  const [startDate, setStartDate] = useState(() =>
+    formatDateForAPI(startOfMonth(new Date()))
+  );
+  const [endDate, setEndDate] = useState(() => formatDateForAPI(new Date()));
+  const [overwrite, setOverwrite] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [details, setDetails] = useState<string[]>([]);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    if (!startDate || !endDate || startDate > endDate) {
+      setMessage('Choose a first day on or before the last day');
+      return;
+    }
+
+    setExporting(true);
+    setMessage(null);
+    setDetails([]);
+    try {
+      const { data, noteCount } = await vaultService.exportVault(
+        startDate,
+        endDate
+      );
+      if (noteCount === 0) {
+        setMessage('No entries with content in this range.');
+        return;
+      }
+      downloadFile(
+        `journal-vault-${startDate}-to-${endDate}.zip`,
+        data,
+        'application/zip'
+      );
+      setMessage(`Exported ${noteCount} ${noteCount === 1 ? 'note' : 'notes'}`);
+    } catch (error) {
+      logger.error('Failed to export vault:', error);
+      setMessage('Failed to export vault');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+
+    setImporting(true);
+    setMessage(null);
+    setDetails([]);
+    try {
+      const notes = await vaultService.readFiles(files);
+      if (notes.length === 0) {
+        setMessage('No Markdown notes found');
+        return;
+      }
+      const result = await vaultService.importVault(notes, overwrite);
+      setMessage(
+        `Imported ${result.sections} ${result.sections === 1 ? 'section' : 'sections'} from ${result.notes} ${result.notes === 1 ? 'note' : 'notes'}` +
+          (result.skipped > 0
+            ? `, kept ${result.skipped} that already had content`
+            : '')
+      );
+      setDetails([
+        ...result.unmatched.map(
+          heading => `No matching section for ${heading}`
+        ),
+        ...(result.ignored.length > 0
+          ? [`Not journal notes: ${result.ignored.join(', ')}`]
+          : []),
+      ]);
+    } catch (error) {
+      logger.error('Failed to import vault:', error);
+      setMessage(
+        error instanceof Error
+          ? `Failed to import vault: ${error.message}`
+          : 'Failed to import vault'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className='text-lg font-semibold text-gray-800 mb-2'>
+        Obsidian & Logseq Vault
+      </h3>
+      <p className='text-gray-600 mb-4'>
+        Exports a vault with a Daily folder of notes, plus Weekly and Monthly
+        notes for the sections shared by their days, linked with [[wikilinks]].
+        Importing reads such a vault or a Logseq journals folder back, matching
+        headings to sections by title.
+      </p>
+
+      <div className='flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-700'>
+        <input
+          type='date'
+          value={startDate}
+          onChange={e => setStartDate(e.target.value)}
+          className='px-2 py-1 border border-gray-300 rounded-md'
+          aria-label='First day'
+        />
+        <span>–</span>
+        <input
+          type='date'
+          value={endDate}
+          onChange={e => setEndDate(e.target.value)}
+          className='px-2 py-1 border border-gray-300 rounded-md'
+          aria-label='Last day'
+        />
+        <LoadingButton
+          onClick={handleExport}
+          loading={exporting}
+          variant='primary'
+        >
+          Export Vault
+        </LoadingButton>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-2 mb-2'>
+        <LoadingButton
+          onClick={() => zipInputRef.current?.click()}
+          loading={importing}
+          variant='secondary'
+        >
+          Import Zip
+        </LoadingButton>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={importing}
+          className='px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50'
+        >
+          Import Folder
+        </button>
+        <label className='flex items-center gap-2 text-sm text-gray-700'>
+          <input
+            type='checkbox'
+            checked={overwrite}
+            onChange={e => setOverwrite(e.target.checked)}
+          />
+          Replace sections that already have content
+        </label>
+      </div>
+      <input
+        ref={zipInputRef}
+        type='file'
+        accept='.zip,.md'
+        multiple
+        onChange={handleImport}
+        className='hidden'
+      />
+      <input
+        ref={folderInputRef}
+        type='file'
+        // Not in React's typings; picks a whole folder
+        {...{ webkitdirectory: '' }}
+        onChange={handleImport}
+        className='hidden'
+      />
+
+      {message && <p className='text-sm text-gray-600 mt-2'>{message}</p>}
+      {details.length > 0 && (
+        <ul className='mt-2 text-sm text-amber-700 list-disc list-inside'>
+          {details.map(detail => (
+            <li key={detail}>{detail}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import {
+  WebDavConfig,
+  loadWebDavConfig,
+} from '../services/providers/webDavProvider';
+
+interface WebDavConnectFormProps {
+  loading: boolean;
+  error: string | null;
+  onSubmit: (config: WebDavConfig) => void;
+  onCancel: () => void;
+}
+
+export function WebDavConnectForm({
+  loading,
+  error,
+  onSubmit,
+  onCancel,
+}: WebDavConnectFormProps) {
+  const saved = loadWebDavConfig();
+  const [serverUrl, setServerUrl] = useState(saved?.serverUrl ?? '');
+  const [username, setUsername] = useState(saved?.username ?? '');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ serverUrl, username, password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className='mt-4 space-y-3'>
+      <input
+        type='url'
+        value={serverUrl}
+        onChange={e => setServerUrl(e.target.value)}
+        placeholder='https://cloud.example.com/remote.php/dav/files/me/journal/'
+        required
+        className='w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+      />
+      <input
+        type='text'
+        value={username}
+        onChange={e => setUsername(e.target.value)}
+        placeholder='Username'
+        autoComplete='username'
+        required
+        className='w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+      />
+      <input
+        type='password'
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+        placeholder='Password or app password'
+        autoComplete='current-password'
+        required
+        className='w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+      />
+      <p className='text-xs text-gray-500'>
+        The folder must already exist, and the server must allow requests from
+        this site (CORS). Credentials are stored in this browser only.
+      </p>
+
+      {error && <p className='text-sm text-red-600'>{error}</p>}
+
+      <div className='flex space-x-3'>
+        <button
+          type='submit'
+          disabled={loading}
+          className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
+        >
+          {loading ? 'Connecting...' : 'Connect'}
+        </button>
+        <button
+          type='button'
+          onClick={onCancel}
+          disabled={loading}
+          className='px-4 py-2 text-gray-600 hover:text-gray-800 disabled:opacity-50'
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
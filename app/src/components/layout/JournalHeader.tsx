@@ -10,7 +10,9 @@ interface JournalHeaderProps {
   isCurrentDayToday: () => boolean;
   copyStatus: 'idle' | 'copied';
   onCopyToClipboard: () => void;
+  onExport: () => void;
   navigationDisabled?: boolean;
+  onMoveToTrash?: () => void;
 }
 
 export default function JournalHeader({
@@ -20,7 +22,9 @@ export default function JournalHeader({
   isCurrentDayToday,
   copyStatus,
   onCopyToClipboard,
+  onExport,
   navigationDisabled = false,
+  onMoveToTrash,
 }: JournalHeaderProps) {
   const [showCopied, setShowCopied] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
@@ -83,6 +87,26 @@ export default function JournalHeader({
     setShowMobileMenu(false);
   };
 
+  const handleCalendarClick = () => {
+    navigate('/calendar');
+    setShowMobileMenu(false);
+  };
+
+  const handleSearchClick = () => {
+    navigate('/search');
+    setShowMobileMenu(false);
+  };
+
+  const handleTagsClick = () => {
+    navigate('/tags');
+    setShowMobileMenu(false);
+  };
+
+  const handlePrintClick = () => {
+    navigate('/print');
+    setShowMobileMenu(false);
+  };
+
   const handleTemplateEditClick = () => {
     navigate('/templates');
     setShowMobileMenu(false);
@@ -93,6 +117,16 @@ export default function JournalHeader({
     setShowMobileMenu(false);
   };
 
+  const handleExportClick = () => {
+    onExport();
+    setShowMobileMenu(false);
+  };
+
+  const handleMoveToTrashClick = () => {
+    onMoveToTrash?.();
+    setShowMobileMenu(false);
+  };
+
   const handleMobileMenuToggle = () => {
     setShowMobileMenu(!showMobileMenu);
   };
@@ -174,6 +208,56 @@ export default function JournalHeader({
               )}
             </button>
 
+            {/* Export Button */}
+            <button
+              onClick={onExport}
+              className='flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 text-sm transition-colors'
+              title='Export a date range as Markdown files'
+            >
+              <span>⬇️</span>
+              <span>Export</span>
+            </button>
+
+            {/* Calendar Button */}
+            <button
+              onClick={handleCalendarClick}
+              className='flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 text-sm transition-colors'
+              title='Browse entries by month'
+            >
+              <span>📅</span>
+              <span>Calendar</span>
+            </button>
+
+            {/* Search Button */}
+            <button
+              onClick={handleSearchClick}
+              className='flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 text-sm transition-colors'
+              title='Search all journal entries'
+            >
+              <span>🔍</span>
+              <span>Search</span>
+            </button>
+
+            {/* Tags Button */}
+            <button
+              onClick={handleTagsClick}
+              className='flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 text-sm transition-colors'
+              title='Browse entries by tag'
+            >
+              <span>🏷️</span>
+              <span>Tags</span>
+            </button>
+
+            {/* Print Button */}
+            <button
+              onClick={handlePrintClick}
+              className='flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 text-sm transition-colors'
+              title='Print entries as a book or save them as PDF'
+            >
+              <span>🖨️</span>
+              <span>Print</span>
+            </button>
+
             {/* Edit Templates Button */}
             <button
               onClick={handleTemplateEditClick}
@@ -193,6 +277,17 @@ export default function JournalHeader({
               <span>⚙️</span>
               <span>Settings</span>
             </button>
+
+            {/* Move to Trash Button */}
+            {onMoveToTrash && (
+              <button
+                onClick={onMoveToTrash}
+                className='flex items-center px-2 py-1 text-gray-400 rounded-lg hover:bg-red-50 hover:text-red-600 text-sm transition-colors'
+                title='Move this entry to the trash'
+              >
+                <span>🗑️</span>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -227,6 +322,51 @@ export default function JournalHeader({
               )}
             </button>
 
+            {/* Export Button */}
+            <button
+              onClick={handleExportClick}
+              className='w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50 transition-colors'
+            >
+              <span className='text-lg'>⬇️</span>
+              <span>Export</span>
+            </button>
+
+            {/* Calendar Button */}
+            <button
+              onClick={handleCalendarClick}
+              className='w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50 transition-colors'
+            >
+              <span className='text-lg'>📅</span>
+              <span>Calendar</span>
+            </button>
+
+            {/* Search Button */}
+            <button
+              onClick={handleSearchClick}
+              className='w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50 transition-colors'
+            >
+              <span className='text-lg'>🔍</span>
+              <span>Search</span>
+            </button>
+
+            {/* Tags Button */}
+            <button
+              onClick={handleTagsClick}
+              className='w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50 transition-colors'
+            >
+              <span className='text-lg'>🏷️</span>
+              <span>Tags</span>
+            </button>
+
+            {/* Print Button */}
+            <button
+              onClick={handlePrintClick}
+              className='w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50 transition-colors'
+            >
+              <span className='text-lg'>🖨️</span>
+              <span>Print</span>
+            </button>
+
             {/* Edit Templates Button */}
             <button
               onClick={handleTemplateEditClick}
@@ -244,6 +384,17 @@ export default function JournalHeader({
               <span className='text-lg'>⚙️</span>
               <span>Settings</span>
             </button>
+
+            {/* Move to Trash Button */}
+            {onMoveToTrash && (
+              <button
+                onClick={handleMoveToTrashClick}
+                className='w-full flex items-center gap-3 px-4 py-3 text-left text-red-600 hover:bg-red-50 transition-colors'
+              >
+                <span className='text-lg'>🗑️</span>
+                <span>Move to Trash</span>
+              </button>
+            )}
           </div>
         </div>
       )}
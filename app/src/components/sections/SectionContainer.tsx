@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useState } from 'react';
 import UniversalSection from './UniversalSection';
 import DynamicSectionPropertyEditor from './DynamicSectionPropertyEditor';
+import { SectionHistoryModal } from './SectionHistoryModal';
 import MenuDropdown from '../ui/MenuDropdown';
 import IconButton from '../ui/IconButton';
 import { SectionTemplate } from '../../services/api';
@@ -43,6 +44,7 @@ const SectionContainer: React.FC<SectionContainerProps> = ({
     id: section.id,
     disabled: !isEditMode,
   });
+  const [showHistory, setShowHistory] = useState(false);
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -136,17 +138,40 @@ const SectionContainer: React.FC<SectionContainerProps> = ({
         </div>
       ) : (
         // Normal mode - use universal section
-        <UniversalSection
-          type={section.content_type}
-          title={section.title}
-          content={content}
-          onContentChange={newContent =>
-            onContentChange(section.id, newContent)
-          }
-          placeholder={section.placeholder}
-          entryDate={entryDate}
-          configuration={section.configuration}
-        />
+        <div className='relative'>
+          {!section.archived && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className='absolute top-0 right-0 z-10 px-2 py-1 text-sm text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity'
+              title='Section history'
+              aria-label={`History of ${section.title}`}
+            >
+              🕘
+            </button>
+          )}
+          <UniversalSection
+            type={section.content_type}
+            title={section.title}
+            content={content}
+            onContentChange={newContent =>
+              onContentChange(section.id, newContent)
+            }
+            placeholder={section.placeholder}
+            entryDate={entryDate}
+            configuration={section.configuration}
+            readOnly={section.archived}
+          />
+          {showHistory && (
+            <SectionHistoryModal
+              templateId={section.id}
+              title={section.title}
+              entryDate={entryDate}
+              currentContent={content}
+              onRestore={restored => onContentChange(section.id, restored)}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { format, isSameDay } from 'date-fns';
+import { revisionService, Revision } from '../../services/revisionService';
+import { diffLines, formatContentForDiff } from '../../utils/textDiff';
+import { logger } from '../../utils/logger';
+import { Spinner } from '../ui';
+
+interface SectionHistoryModalProps {
+  templateId: string;
+  title: string;
+  entryDate: string;
+  currentContent: string;
+  onRestore: (content: string) => void;
+  onClose: () => void;
+}
+
+type CompareTo = 'previous' | 'current';
+
+const formatSession = (revision: Revision): string => {
+  const start = format(revision.createdAt, 'MMM d, yyyy HH:mm');
+  if (revision.updatedAt.getTime() - revision.createdAt.getTime() < 60000) {
+    return start;
+  }
+  return isSameDay(revision.createdAt, revision.updatedAt)
+    ? `${start}–${format(revision.updatedAt, 'HH:mm')}`
+    : `${start} – ${format(revision.updatedAt, 'MMM d, HH:mm')}`;
+};
+
+export function SectionHistoryModal({
+  templateId,
+  title,
+  entryDate,
+  currentContent,
+  onRestore,
+  onClose,
+}: SectionHistoryModalProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [compareTo, setCompareTo] = useState<CompareTo>('previous');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const sectionId = await revisionService.findSectionId(
+          templateId,
+          entryDate
+        );
+        const result = sectionId
+          ? await revisionService.getRevisionsForSection(sectionId)
+          : [];
+        if (!cancelled) {
+          setRevisions(result);
+        }
+      } catch (err) {
+        logger.error('Failed to load section history:', err);
+        if (!cancelled) {
+          setError('Failed to load history');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, entryDate]);
+
+  const selected = revisions[selectedIndex];
+  // Revisions are newest first, so the one before is the next in the list
+  const baseContent =
+    compareTo === 'previous'
+      ? revisions[selectedIndex + 1]?.content || ''
+      : currentContent;
+  const lines = selected
+    ? compareTo === 'previous'
+      ? diffLines(
+          formatContentForDiff(baseContent),
+          formatContentForDiff(selected.content)
+        )
+      : diffLines(
+          formatContentForDiff(selected.content),
+          formatContentForDiff(baseContent)
+        )
+    : [];
+
+  const handleRestore = () => {
+    if (!selected) return;
+    onRestore(selected.content);
+    onClose();
+  };
+
+  return (
+    <div className='fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50'>
+      <div className='relative top-20 mx-auto mb-20 p-6 border shadow-lg rounded-md bg-white max-w-4xl w-full max-w-[calc(100vw-2rem)]'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-xl font-semibold text-gray-900'>
+            History of {title}
+          </h3>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-gray-600'
+          >
+            ✕
+          </button>
+        </div>
+
+        {loading ? (
+          <div className='flex items-center justify-center py-12 space-x-2 text-gray-500'>
+            <Spinner size='sm' />
+            <span>Loading history...</span>
+          </div>
+        ) : error ? (
+          <div className='bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700'>
+            {error}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className='text-gray-600 py-8 text-center'>
+            No earlier versions yet. Each editing session is saved here.
+          </p>
+        ) : (
+          <div className='flex flex-col md:flex-row gap-4'>
+            {/* Timeline */}
+            <ol className='md:w-64 flex-shrink-0 max-h-[50vh] overflow-y-auto border-l-2 border-gray-200'>
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedIndex(index)}
+                    className={`w-full text-left pl-4 pr-2 py-2 -ml-0.5 border-l-2 text-sm ${
+                      index === selectedIndex
+                        ? 'border-blue-500 bg-blue-50 text-blue-800'
+                        : 'border-transparent text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {formatSession(revision)}
+                    {index === 0 && revision.content === currentContent && (
+                      <span className='ml-2 text-xs text-gray-500'>
+                        current
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {/* Diff */}
+            <div className='flex-1 min-w-0'>
+              <div className='flex items-center gap-2 mb-2 text-sm'>
+                <span className='text-gray-600'>Compare with</span>
+                {(['previous', 'current'] as CompareTo[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setCompareTo(option)}
+                    className={`px-3 py-1 rounded-full border transition-colors ${
+                      compareTo === option
+                        ? 'bg-blue-100 border-blue-300 text-blue-700'
+                        : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option === 'previous' ? 'Version before' : 'Current'}
+                  </button>
+                ))}
+              </div>
+              <pre className='px-3 py-2 border border-gray-200 rounded-lg text-xs font-mono whitespace-pre-wrap break-words max-h-[50vh] overflow-y-auto'>
+                {lines.map((line, index) => (
+                  <div
+                    key={index}
+                    className={
+                      line.type === 'removed'
+                        ? 'bg-red-100 text-red-800'
+                        : line.type === 'added'
+                          ? 'bg-green-100 text-green-800'
+                          : 'text-gray-700'
+                    }
+                  >
+                    {line.type === 'removed'
+                      ? '- '
+                      : line.type === 'added'
+                        ? '+ '
+                        : '  '}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+              <p className='text-xs text-gray-500 mt-2'>
+                {compareTo === 'previous'
+                  ? 'Green lines were added in this version, red lines removed.'
+                  : 'Red lines are in this version, green lines are what the section holds now.'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className='flex items-center justify-end space-x-3 mt-6'>
+          <button
+            onClick={onClose}
+            className='px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50'
+          >
+            Close
+          </button>
+          {selected && (
+            <button
+              onClick={handleRestore}
+              disabled={selected.content === currentContent}
+              className='px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              Restore This Version
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
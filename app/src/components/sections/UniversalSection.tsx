@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { SectionRegistry } from './core/SectionRegistry';
 import SectionTitle from './SectionTitle';
 import logger from '../../utils/logger';
+import { getSectionAnchorId } from '../../utils/wikiLinks';
 
 export interface UniversalSectionProps {
   type: string;
@@ -11,6 +12,8 @@ export interface UniversalSectionProps {
   placeholder?: string;
   entryDate: string;
   configuration?: string;
+  // Shown as written, without switching to the editor
+  readOnly?: boolean;
 }
 
 const UniversalSection: React.FC<UniversalSectionProps> = ({
@@ -21,6 +24,7 @@ const UniversalSection: React.FC<UniversalSectionProps> = ({
   placeholder,
   entryDate,
   configuration,
+  readOnly = false,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const registry = SectionRegistry.getInstance();
@@ -36,16 +40,33 @@ const UniversalSection: React.FC<UniversalSectionProps> = ({
   }
 
   return (
-    <div className='mb-6'>
+    <div className='mb-6' id={getSectionAnchorId(title)}>
       {/* Hide section title for header sections since the content IS the header */}
       {/* Also hide for habit tracker since it displays the title as the habit name */}
       {type !== 'header' && type !== 'habit_tracker' && (
         <SectionTitle title={title} />
       )}
+      {readOnly && (
+        <p className='pl-4 text-xs text-gray-400'>
+          Not in this day's template, read-only
+        </p>
+      )}
       <div
         className={type !== 'header' && type !== 'habit_tracker' ? 'pl-4' : ''}
       >
-        {isEditing ? (
+        {readOnly ? (
+          <div className='p-2 pointer-events-none'>
+            {definition.renderDisplay({
+              content,
+              onContentChange: () => {},
+              placeholder,
+              isEditMode: false,
+              entryDate,
+              configuration,
+              title,
+            })}
+          </div>
+        ) : isEditing ? (
           <div data-testid={`${type}-editor`}>
             {definition.renderEditor({
               content,
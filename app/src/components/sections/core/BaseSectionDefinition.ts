@@ -30,6 +30,9 @@ export interface SectionPropertyConfig {
   hidden?: boolean;
 }
 
+// Configuration key marking a template section to resurface in "On this day"
+export const ON_THIS_DAY_CONFIG_KEY = 'show_on_this_day';
+
 export abstract class BaseSectionDefinition {
   abstract readonly id: string;
   abstract readonly name: string;
@@ -53,6 +56,25 @@ export abstract class BaseSectionDefinition {
   // Markdown export
   abstract formatToMarkdown(title: string, content: string): string;
 
+  // Markdown import - the reverse of formatToMarkdown, given the text under
+  // the section's heading. `date` is the first day of the section's
+  // timeframe; `existingContent` is what the section holds now, for data
+  // the markdown does not carry.
+  abstract parseFromMarkdown(
+    markdown: string,
+    date: string,
+    existingContent: string
+  ): string;
+
+  // Search - the user-visible text of the content, one string per item
+  extractSearchText(
+    content: string,
+    configuration?: string,
+    title?: string
+  ): string[] {
+    return content.trim() ? [content] : [];
+  }
+
   // Property configuration
   abstract getPropertyFields(): SectionPropertyConfig[];
 
@@ -100,6 +122,11 @@ export abstract class CommonSectionDefinition extends BaseSectionDefinition {
         ],
         defaultValue: 'daily',
       },
+      {
+        key: ON_THIS_DAY_CONFIG_KEY,
+        label: 'Show in "On this day"',
+        type: 'checkbox',
+      },
     ];
   }
 
@@ -153,4 +180,8 @@ export abstract class StringSectionDefinition extends CommonSectionDefinition {
     if (!content.trim()) return '';
     return `## ${title}\n\n${content}\n`;
   }
+
+  parseFromMarkdown(markdown: string): string {
+    return markdown.trim();
+  }
 }
@@ -58,6 +58,31 @@ export class SectionRegistry {
       : `## ${title}\n\n${content}\n`;
   }
 
+  parseFromMarkdown(
+    contentType: string,
+    markdown: string,
+    date: string,
+    existingContent: string
+  ): string {
+    const definition = this.get(contentType);
+    return definition
+      ? definition.parseFromMarkdown(markdown, date, existingContent)
+      : markdown.trim();
+  }
+
+  extractSearchText(
+    contentType: string,
+    content: string,
+    configuration?: string,
+    title?: string
+  ): string[] {
+    const definition = this.get(contentType);
+    if (definition) {
+      return definition.extractSearchText(content, configuration, title);
+    }
+    return content.trim() ? [content] : [];
+  }
+
   getDefaultContent(contentType: string): string {
     const definition = this.get(contentType);
     return definition ? definition.getDefaultContent() : '';
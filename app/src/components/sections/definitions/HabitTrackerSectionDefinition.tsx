@@ -458,6 +458,25 @@ export class HabitTrackerSectionDefinition extends BaseSectionDefinition {
     }
   }
 
+  // The markdown only summarizes the completion dates, which stay as they are
+  parseFromMarkdown(
+    markdown: string,
+    date: string,
+    existingContent: string
+  ): string {
+    return existingContent || this.getDefaultContent();
+  }
+
+  // Only the habit name is text; the content is completion dates
+  extractSearchText(
+    content: string,
+    configuration?: string,
+    title?: string
+  ): string[] {
+    const name = title || parseHabitConfig(configuration || '').name;
+    return name.trim() ? [name] : [];
+  }
+
   // Property configuration - individual fields that will be saved to configuration
   getPropertyFields(): SectionPropertyConfig[] {
     return [
@@ -48,6 +48,14 @@ export class HeaderSectionDefinition extends StringSectionDefinition {
     return `# ${content}\n\n`;
   }
 
+  parseFromMarkdown(markdown: string): string {
+    return markdown
+      .trim()
+      .replace(/^#+\s*/, '')
+      .split('\n')[0]
+      .trim();
+  }
+
   renderDisplay(props: SectionRenderProps): React.ReactElement {
     return <HeaderDisplay {...props} />;
   }
@@ -697,6 +697,73 @@ export class MonthWeekGoalSectionDefinition extends BaseSectionDefinition {
     }
   }
 
+  // Reads the lists formatToMarkdown writes. List items outside the weekly
+  // goals are monthly goals, so a plain list imports as those.
+  parseFromMarkdown(
+    markdown: string,
+    date: string,
+    existingContent: string
+  ): string {
+    const existing = parseContent(existingContent);
+    const month = date.slice(0, 7);
+    const [year, monthNumber] = month.split('-').map(Number);
+    const weeks = (
+      existing.metadata.month === month && existing.weeks.length > 0
+        ? existing.weeks
+        : generateWeeksForMonth(year, monthNumber)
+    ).map(week => ({ ...week, goals: [] as string[] }));
+    const monthlyGoals: MonthlyGoal[] = [];
+    let inWeeklyGoals = false;
+    let week: WeekData | undefined;
+
+    markdown.split('\n').forEach(line => {
+      const trimmed = line.trim();
+      const heading = trimmed.match(/^#{3,}\s*(.*)$/);
+      if (heading) {
+        inWeeklyGoals = /week/i.test(heading[1]);
+        week = undefined;
+        return;
+      }
+      const weekLabel = trimmed.match(/^\*\*(.+?)(?:\s*\(.*\))?\*\*$/);
+      if (weekLabel) {
+        inWeeklyGoals = true;
+        week = weeks.find(w => w.label === weekLabel[1].trim());
+        return;
+      }
+
+      const item = trimmed.match(/^[-*+]\s+(.*)$/);
+      if (!item || !item[1].trim()) return;
+      if (inWeeklyGoals) {
+        week?.goals.push(item[1].trim());
+        return;
+      }
+      const rated = item[1].match(/^(.*?)\s*\[([ABCDF])\]$/);
+      monthlyGoals.push({
+        id: `goal-${Date.now()}-${monthlyGoals.length}`,
+        text: (rated ? rated[1] : item[1]).trim(),
+        rating: rated ? (rated[2] as MonthlyGoal['rating']) : '',
+      });
+    });
+
+    return serializeContent({
+      monthlyGoals,
+      weeks,
+      metadata: { month, generatedAt: new Date().toISOString() },
+    });
+  }
+
+  extractSearchText(content: string): string[] {
+    const data = parseContent(content);
+    const weeklyGoals = data.weeks.reduce<string[]>(
+      (goals, week) => goals.concat(week.goals || []),
+      []
+    );
+    return data.monthlyGoals
+      .map(goal => goal.text)
+      .concat(weeklyGoals)
+      .filter(text => text && text.trim());
+  }
+
   getPropertyFields(): SectionPropertyConfig[] {
     return [
       {
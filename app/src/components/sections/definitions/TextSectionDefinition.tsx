@@ -1,21 +1,72 @@
 import React, { useRef, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   StringSectionDefinition,
   SectionRenderProps,
 } from '../core/BaseSectionDefinition';
+import {
+  getSectionAnchorId,
+  parseWikiLinks,
+  WikiLinkPart,
+} from '../../../utils/wikiLinks';
 
 const TextDisplay: React.FC<SectionRenderProps> = ({
   content,
   placeholder,
 }) => {
   const displayRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  // [[date]] opens that entry; [[Section Title]] scrolls to the section on
+  // this page, or searches for it when there is no such section
+  const followLink = (e: React.MouseEvent, part: WikiLinkPart) => {
+    // Clicking the display switches to the editor; links should not
+    e.stopPropagation();
+    if (!part.target) return;
+
+    if (part.isDate) {
+      navigate(`/?date=${part.target}`);
+      return;
+    }
+    const section = document.getElementById(getSectionAnchorId(part.target));
+    if (section) {
+      section.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    } else {
+      navigate(`/search?q=${encodeURIComponent(part.target)}`);
+    }
+  };
 
   return (
     <div
       ref={displayRef}
       className='w-full min-h-32 p-4 italic border-gray-300 rounded-md cursor-pointer whitespace-pre-wrap'
     >
-      {content || <span className='text-gray-400'>{placeholder}</span>}
+      {content ? (
+        parseWikiLinks(content).map((part, index) =>
+          part.target ? (
+            <a
+              key={index}
+              href={
+                part.isDate
+                  ? `/?date=${part.target}`
+                  : `/search?q=${encodeURIComponent(part.target)}`
+              }
+              onClick={e => {
+                e.preventDefault();
+                followLink(e, part);
+              }}
+              className='text-blue-600 hover:text-blue-800 underline not-italic'
+              title={part.target}
+            >
+              {part.text}
+            </a>
+          ) : (
+            <React.Fragment key={index}>{part.text}</React.Fragment>
+          )
+        )
+      ) : (
+        <span className='text-gray-400'>{placeholder}</span>
+      )}
     </div>
   );
 };
@@ -278,6 +278,46 @@ export class TodoSectionDefinition extends CommonSectionDefinition {
     return `## ${title}\n\n${todoItems}\n`;
   }
 
+  // `- [ ]` and `- [x]` tasks; plain list items become open todos. Items
+  // that were already there keep their id and dates.
+  parseFromMarkdown(
+    markdown: string,
+    date: string,
+    existingContent: string
+  ): string {
+    const existing = this.parseContent(existingContent).items || [];
+    const now = new Date().toISOString();
+    const items: TodoItemData[] = [];
+    const reused = new Set<string>();
+
+    markdown.split('\n').forEach(line => {
+      const match = line.match(/^\s*[-*+]\s+(?:\[([ xX])\]\s*)?(.*)$/);
+      if (!match || !match[2].trim()) return;
+
+      const text = match[2].trim();
+      const completed = match[1] !== undefined && match[1] !== ' ';
+      const previous = existing.find(
+        item => item.text === text && !reused.has(item.id)
+      );
+      if (previous) reused.add(previous.id);
+      items.push({
+        id: previous?.id || uuidv4(),
+        text,
+        completed,
+        createdAt: previous?.createdAt || now,
+        completedAt: completed ? previous?.completedAt || now : undefined,
+      });
+    });
+
+    return this.serializeContent({ items });
+  }
+
+  extractSearchText(content: string): string[] {
+    return (this.parseContent(content).items || [])
+      .map(item => item.text)
+      .filter(text => text && text.trim());
+  }
+
   renderDisplay(props: SectionRenderProps): React.ReactElement {
     return <TodoDisplay {...props} />;
   }
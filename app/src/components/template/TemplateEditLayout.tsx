@@ -51,7 +51,7 @@ const TemplateEditLayoutContent: React.FC<TemplateEditLayoutProps> = ({
   const handleColumnDelete = async (columnId: string) => {
     if (
       window.confirm(
-        'Are you sure you want to delete this column? All sections in this column will also be deleted.'
+        'Are you sure you want to delete this column? All sections in this column will be moved to the trash.'
       )
     ) {
       try {
@@ -64,7 +64,11 @@ const TemplateEditLayoutContent: React.FC<TemplateEditLayoutProps> = ({
   };
 
   const handleSectionDelete = async (sectionId: string) => {
-    if (window.confirm('Are you sure you want to delete this section?')) {
+    if (
+      window.confirm(
+        'Move this section to the trash? Past entries keep showing what was written in it.'
+      )
+    ) {
       try {
         await deleteSection(sectionId);
         onTemplateChange();
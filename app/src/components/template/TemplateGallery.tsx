@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import {
+  TemplateFile,
+  TemplateImportMode,
+} from '../../services/templateFileService';
+import { sectionRegistry } from '../sections/registry';
+
+interface TemplateGalleryProps {
+  title: string;
+  files: TemplateFile[];
+  targetName: string; // Name of the template the layout is added to
+  onImport: (file: TemplateFile, mode: TemplateImportMode) => Promise<void>;
+  onClose: () => void;
+}
+
+// Layouts to add to a template or replace it with: the built-in presets, or
+// a file being imported
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+  title,
+  files,
+  targetName,
+  onImport,
+  onClose,
+}) => {
+  const [importing, setImporting] = useState(false);
+
+  const handleImport = async (file: TemplateFile, mode: TemplateImportMode) => {
+    if (
+      mode === 'replace' &&
+      !window.confirm(
+        `Replace the columns and sections of "${targetName}" with "${file.name}"? Its current sections are moved to the trash.`
+      )
+    ) {
+      return;
+    }
+    setImporting(true);
+    try {
+      await onImport(file, mode);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50'>
+      <div className='relative top-20 mx-auto mb-20 p-6 border shadow-lg rounded-md bg-white max-w-4xl w-full max-w-[calc(100vw-2rem)]'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-xl font-semibold text-gray-900'>{title}</h3>
+          <button
+            onClick={onClose}
+            className='text-gray-400 hover:text-gray-600'
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className='grid gap-4 sm:grid-cols-2'>
+          {files.map(file => (
+            <div
+              key={file.name}
+              className='p-4 border border-gray-200 rounded-lg flex flex-col'
+            >
+              <h4 className='font-medium text-gray-900'>{file.name}</h4>
+              {file.description && (
+                <p className='mt-1 text-sm text-gray-600'>{file.description}</p>
+              )}
+
+              <div className='mt-3 flex-1 space-y-2 text-sm'>
+                {file.columns.map(column => (
+                  <div key={column.id}>
+                    <div className='text-gray-500'>{column.title}</div>
+                    <ul className='ml-4 list-disc text-gray-700'>
+                      {file.sections
+                        .filter(section => section.column_id === column.id)
+                        .map(section => (
+                          <li key={section.id}>
+                            {section.title}{' '}
+                            <span className='text-gray-400'>
+                              {sectionRegistry.get(section.content_type)
+                                ?.name || section.content_type}
+                              , {section.refresh_frequency}
+                            </span>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+
+              <div className='mt-4 flex gap-2'>
+                <button
+                  onClick={() => handleImport(file, 'merge')}
+                  disabled={importing}
+                  className='px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50'
+                >
+                  Add to {targetName}
+                </button>
+                <button
+                  onClick={() => handleImport(file, 'replace')}
+                  disabled={importing}
+                  className='px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50'
+                >
+                  Replace {targetName}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateGallery;
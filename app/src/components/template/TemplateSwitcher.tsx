@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { Template } from '../../services/api';
+import { localApiService } from '../../services/localApi';
+import { DEFAULT_TEMPLATE_ID } from '../../utils/templateRules';
+import { logger } from '../../utils/logger';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface TemplateSwitcherProps {
+  templates: Template[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onTemplatesChange: () => void;
+}
+
+// Named templates as tabs, with the rules of the selected one
+const TemplateSwitcher: React.FC<TemplateSwitcherProps> = ({
+  templates,
+  selectedId,
+  onSelect,
+  onTemplatesChange,
+}) => {
+  const selected = templates.find(template => template.id === selectedId);
+  const [name, setName] = useState('');
+  const [rangeStart, setRangeStart] = useState('');
+  const [rangeEnd, setRangeEnd] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(selected?.name || '');
+    setRangeStart(selected?.range_start || '');
+    setRangeEnd(selected?.range_end || '');
+    setError(null);
+  }, [selected]);
+
+  const update = async (changes: Partial<Omit<Template, 'id'>>) => {
+    if (!selected) return;
+    try {
+      await localApiService.updateNamedTemplate(selected.id, changes);
+      setError(null);
+      onTemplatesChange();
+    } catch (err) {
+      logger.error('Failed to update template:', err);
+      setError('Failed to update template');
+    }
+  };
+
+  const handleCreate = async () => {
+    const newName = window.prompt('Name of the new template');
+    if (!newName?.trim()) return;
+
+    const copy = window.confirm(
+      `Start "${newName.trim()}" as a copy of "${selected?.name}"? Cancel starts it empty.`
+    );
+    try {
+      const template = await localApiService.createNamedTemplate(
+        newName.trim(),
+        copy ? selectedId : undefined
+      );
+      onTemplatesChange();
+      onSelect(template.id);
+    } catch (err) {
+      logger.error('Failed to create template:', err);
+      setError('Failed to create template');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !selected ||
+      !window.confirm(
+        `Delete the template "${selected.name}"? Its sections are moved to the trash and days using it switch to their other rules.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await localApiService.deleteNamedTemplate(selected.id);
+      onSelect(DEFAULT_TEMPLATE_ID);
+      onTemplatesChange();
+    } catch (err) {
+      logger.error('Failed to delete template:', err);
+      setError('Failed to delete template');
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!selected) return;
+    update({
+      weekdays: selected.weekdays.includes(day)
+        ? selected.weekdays.filter(d => d !== day)
+        : [...selected.weekdays, day],
+    });
+  };
+
+  const saveRange = () => {
+    if (
+      rangeStart === (selected?.range_start || '') &&
+      rangeEnd === (selected?.range_end || '')
+    ) {
+      return;
+    }
+    if ((rangeStart && !rangeEnd) || (!rangeStart && rangeEnd)) {
+      setError('Set both the first and the last day of the range');
+      return;
+    }
+    if (rangeStart > rangeEnd) {
+      setError('The range ends before it starts');
+      return;
+    }
+    update({ range_start: rangeStart || null, range_end: rangeEnd || null });
+  };
+
+  const isDefault = selectedId === DEFAULT_TEMPLATE_ID;
+
+  return (
+    <div className='bg-white border-b border-gray-200 px-4 py-3 space-y-3'>
+      {/* Tabs */}
+      <div className='flex flex-wrap items-center gap-2'>
+        {templates.map(template => (
+          <button
+            key={template.id}
+            onClick={() => onSelect(template.id)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              template.id === selectedId
+                ? 'bg-blue-100 border-blue-300 text-blue-700'
+                : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {template.name}
+          </button>
+        ))}
+        <button
+          onClick={handleCreate}
+          className='px-3 py-1 text-sm rounded-full border border-dashed border-gray-300 text-gray-500 hover:bg-gray-50'
+        >
+          + New Template
+        </button>
+      </div>
+
+      {/* Rules of the selected template */}
+      {selected && (
+        <div className='flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-700'>
+          <input
+            type='text'
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onBlur={() =>
+              name.trim() && name !== selected.name && update({ name })
+            }
+            className='px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Template name'
+          />
+
+          <div className='flex items-center gap-1'>
+            <span className='mr-1 text-gray-500'>Weekdays</span>
+            {WEEKDAYS.map((label, day) => (
+              <button
+                key={label}
+                onClick={() => toggleWeekday(day)}
+                className={`w-10 py-1 rounded border text-xs ${
+                  selected.weekdays.includes(day)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className='flex items-center gap-1'>
+            <span className='mr-1 text-gray-500'>Dates</span>
+            <input
+              type='date'
+              value={rangeStart}
+              onChange={e => setRangeStart(e.target.value)}
+              onBlur={saveRange}
+              className='px-2 py-1 border border-gray-300 rounded-md'
+              aria-label='First day'
+            />
+            <span>–</span>
+            <input
+              type='date'
+              value={rangeEnd}
+              onChange={e => setRangeEnd(e.target.value)}
+              onBlur={saveRange}
+              className='px-2 py-1 border border-gray-300 rounded-md'
+              aria-label='Last day'
+            />
+          </div>
+
+          {!isDefault && (
+            <button
+              onClick={handleDelete}
+              className='px-3 py-1 text-red-600 rounded-md hover:bg-red-50'
+            >
+              Delete Template
+            </button>
+          )}
+        </div>
+      )}
+
+      <p className='text-xs text-gray-500'>
+        A day uses the template chosen on its entry, else a template whose dates
+        cover it, else one set for its weekday, else the default template.
+      </p>
+
+      {error && <p className='text-sm text-red-600'>{error}</p>}
+    </div>
+  );
+};
+
+export default TemplateSwitcher;
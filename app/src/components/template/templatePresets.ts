@@ -0,0 +1,200 @@
+import {
+  TemplateFile,
+  TEMPLATE_FILE_FORMAT,
+  TEMPLATE_FILE_VERSION,
+} from '../../services/templateFileService';
+
+type PresetSection = Omit<
+  TemplateFile['sections'][number],
+  'id' | 'display_order' | 'placeholder' | 'default_content' | 'configuration'
+> &
+  Partial<TemplateFile['sections'][number]>;
+
+// Fills in ids, orders and empty fields so presets only list what matters
+function preset(
+  name: string,
+  description: string,
+  columns: Array<{ title: string; width: number }>,
+  sections: PresetSection[]
+): TemplateFile {
+  return {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    name,
+    description,
+    columns: columns.map((column, index) => ({
+      id: `column-${index}`,
+      title: column.title,
+      width: column.width,
+      display_order: index,
+    })),
+    sections: sections.map((section, index) => ({
+      id: `section-${index}`,
+      display_order: index,
+      placeholder: '',
+      default_content: '',
+      configuration: '',
+      ...section,
+    })),
+  };
+}
+
+// Built-in layouts offered in the template gallery
+export const TEMPLATE_PRESETS: TemplateFile[] = [
+  preset(
+    'Bullet Journal',
+    'Rapid logging of tasks, events and notes, with monthly and future logs.',
+    [
+      { title: 'Daily Log', width: 500 },
+      { title: 'Collections', width: 400 },
+    ],
+    [
+      {
+        title: 'Tasks',
+        content_type: 'todo',
+        refresh_frequency: 'daily',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Events',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        placeholder: 'o Things that happened or are scheduled',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Notes',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        placeholder: '- Thoughts, ideas and observations',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Monthly Log',
+        content_type: 'text',
+        refresh_frequency: 'monthly',
+        placeholder: 'Events and tasks for this month',
+        column_id: 'column-1',
+      },
+      {
+        title: 'Future Log',
+        content_type: 'text',
+        refresh_frequency: 'persistent',
+        placeholder: 'Things to schedule in the coming months',
+        column_id: 'column-1',
+      },
+    ]
+  ),
+  preset(
+    'Morning Pages',
+    'Three pages of longhand writing first thing in the morning.',
+    [{ title: 'Morning Pages', width: 800 }],
+    [
+      {
+        title: 'Morning Pages',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        placeholder:
+          'Write whatever comes to mind, about three pages, without stopping to edit...',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Wrote Morning Pages',
+        content_type: 'habit_tracker',
+        refresh_frequency: 'persistent',
+        configuration: JSON.stringify({
+          habit_color: '#F59E0B',
+          habit_frequency: 'daily',
+        }),
+        column_id: 'column-0',
+      },
+    ]
+  ),
+  preset(
+    '5-Minute Journal',
+    'Gratitude and intentions in the morning, reflection in the evening.',
+    [
+      { title: 'Morning', width: 400 },
+      { title: 'Evening', width: 400 },
+    ],
+    [
+      {
+        title: 'I am grateful for...',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        placeholder: '1.\n2.\n3.',
+        column_id: 'column-0',
+      },
+      {
+        title: 'What would make today great?',
+        content_type: 'todo',
+        refresh_frequency: 'daily',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Daily affirmation',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        placeholder: 'I am...',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Amazing things that happened today',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        placeholder: '1.\n2.\n3.',
+        column_id: 'column-1',
+      },
+      {
+        title: 'How could I have made today even better?',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        column_id: 'column-1',
+      },
+    ]
+  ),
+  preset(
+    'OKR Tracker',
+    'Quarterly objectives and key results, broken down into monthly and weekly goals.',
+    [
+      { title: 'Objectives', width: 450 },
+      { title: 'This Week', width: 450 },
+    ],
+    [
+      {
+        title: 'Objectives & Key Results',
+        content_type: 'text',
+        refresh_frequency: 'persistent',
+        default_content:
+          'Objective 1:\n- KR 1.1:\n- KR 1.2:\n- KR 1.3:\n\nObjective 2:\n- KR 2.1:\n- KR 2.2:\n- KR 2.3:',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Month & Week Goals',
+        content_type: 'month_week_goals',
+        refresh_frequency: 'monthly',
+        column_id: 'column-0',
+      },
+      {
+        title: 'Priorities',
+        content_type: 'todo',
+        refresh_frequency: 'weekly',
+        column_id: 'column-1',
+      },
+      {
+        title: 'Progress Today',
+        content_type: 'text',
+        refresh_frequency: 'daily',
+        placeholder: 'What moved a key result forward?',
+        column_id: 'column-1',
+      },
+      {
+        title: 'Weekly Review',
+        content_type: 'text',
+        refresh_frequency: 'weekly',
+        placeholder: 'Confidence in each key result, blockers, next steps',
+        column_id: 'column-1',
+      },
+    ]
+  ),
+];
@@ -9,6 +9,8 @@ interface EditModeContextType {
   ) => void;
   isDirty: boolean;
   setIsDirty: (dirty: boolean) => void;
+  // Named template being edited; the default one when unset
+  templateId?: string;
 }
 
 const EditModeContext = createContext<EditModeContextType | undefined>(
@@ -56,10 +58,14 @@ export const EditModeProvider: React.FC<EditModeProviderProps> = ({
   );
 };
 
+interface TemplateEditModeProviderProps extends EditModeProviderProps {
+  templateId?: string;
+}
+
 // Specialized provider for template management that automatically enables edit mode
-export const TemplateEditModeProvider: React.FC<EditModeProviderProps> = ({
-  children,
-}) => {
+export const TemplateEditModeProvider: React.FC<
+  TemplateEditModeProviderProps
+> = ({ children, templateId }) => {
   const [selectedItem, setSelectedItem] = useState<{
     type: 'column' | 'section';
     id: string;
@@ -74,6 +80,7 @@ export const TemplateEditModeProvider: React.FC<EditModeProviderProps> = ({
     setSelectedItem,
     isDirty,
     setIsDirty,
+    templateId,
   };
 
   return (
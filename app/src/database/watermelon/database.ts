@@ -3,13 +3,20 @@ import LokiJSAdapter from '@nozbe/watermelondb/adapters/lokijs';
 
 import { schema } from './schema';
 import migrations from './migrations';
+import { EXPORT_FORMAT_VERSION, verifyExport } from './exportVerification';
+import { upgradeExport } from './exportUpgrade';
 import {
   JournalEntry,
   Section,
   SectionJournalEntry,
   ApiKey,
+  Template,
+  TemplateVersion,
   TemplateColumn,
   TemplateSection,
+  Tag,
+  EntryTag,
+  SectionRevision,
 } from './models';
 import { logger } from '../../utils/logger';
 
@@ -32,8 +39,13 @@ export const database = new Database({
     Section,
     SectionJournalEntry,
     ApiKey,
+    Template,
+    TemplateVersion,
     TemplateColumn,
     TemplateSection,
+    Tag,
+    EntryTag,
+    SectionRevision,
   ],
 });
 
@@ -140,7 +152,8 @@ export class DatabaseCompatibilityLayer {
 
       // Export all data using WatermelonDB's public APIs
       const exportData: any = {
-        version: 1,
+        version: EXPORT_FORMAT_VERSION,
+        schemaVersion: schema.version,
         timestamp: Date.now(),
         collections: {},
       };
@@ -150,9 +163,14 @@ export class DatabaseCompatibilityLayer {
         'journal_entries',
         'sections',
         'section_journal_entries',
+        'templates',
+        'template_versions',
         'template_columns',
         'template_sections',
         'api_keys',
+        'tags',
+        'entry_tags',
+        'section_revisions',
       ];
 
       // Export each collection
@@ -197,16 +215,23 @@ export class DatabaseCompatibilityLayer {
     try {
       logger.log('IMPORT: Starting WatermelonDB data import...');
 
+      // Refuse corrupted or inconsistent data before clearing anything
+      const verification = await verifyExport(data);
+      verification.warnings.forEach(warning =>
+        logger.log('IMPORT: Warning:', warning)
+      );
+      if (!verification.valid) {
+        throw new Error(
+          `Import data failed verification: ${verification.errors.join('; ')}`
+        );
+      }
+
       // Decode and parse the data
-      const jsonData = new TextDecoder().decode(data);
-      const importData = JSON.parse(jsonData);
+      const jsonData = new TextDecoder().decode(verification.payload);
+      const importData = upgradeExport(JSON.parse(jsonData));
 
       logger.log('IMPORT: Parsed import data, version:', importData.version);
 
-      if (!importData.collections) {
-        throw new Error('Invalid import data format - missing collections');
-      }
-
       // Clear existing data and import new data in a single transaction
       await database.write(async () => {
         // First, clear all existing data
@@ -214,9 +239,14 @@ export class DatabaseCompatibilityLayer {
           'journal_entries',
           'sections',
           'section_journal_entries',
+          'templates',
+          'template_versions',
           'template_columns',
           'template_sections',
           'api_keys',
+          'tags',
+          'entry_tags',
+          'section_revisions',
         ];
 
         for (const collectionName of collections) {
@@ -233,6 +263,16 @@ export class DatabaseCompatibilityLayer {
                 `IMPORT: Cleared ${existingRecords.length} existing records from ${collectionName}`
               );
             }
+
+            // Drop sync tombstones too so imported ids cannot collide with them
+            const deletedIds =
+              await database.adapter.getDeletedRecords(collectionName);
+            if (deletedIds.length > 0) {
+              await database.adapter.destroyDeletedRecords(
+                collectionName,
+                deletedIds
+              );
+            }
           } catch (error) {
             logger.error(`IMPORT: Failed to clear ${collectionName}:`, error);
           }
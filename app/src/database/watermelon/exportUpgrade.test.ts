@@ -0,0 +1,74 @@
+import { upgradeExport } from './exportUpgrade';
+import { schema } from './schema';
+
+describe('upgradeExport', () => {
+  it('leaves current exports alone', () => {
+    const exportData = {
+      schemaVersion: schema.version,
+      collections: { template_sections: [{ id: 'notes' }] },
+    };
+
+    expect(upgradeExport(exportData)).toBe(exportData);
+  });
+
+  it('replays the migrations an export without a schema version missed', () => {
+    const exportData = {
+      version: 1,
+      collections: {
+        template_sections: [
+          { id: 'notes', title: 'Notes' },
+          { id: 'mood', title: 'Mood', configuration: '{"max":5}' },
+        ],
+      },
+    };
+
+    const upgraded = upgradeExport(exportData);
+
+    expect(upgraded.version).toBe(1);
+    expect(upgraded.schemaVersion).toBe(schema.version);
+    expect(upgraded.collections.template_sections).toEqual([
+      {
+        id: 'notes',
+        title: 'Notes',
+        configuration: '',
+        deleted_at: null,
+        template_id: null,
+      },
+      {
+        id: 'mood',
+        title: 'Mood',
+        configuration: '{"max":5}',
+        deleted_at: null,
+        template_id: null,
+      },
+    ]);
+    expect(upgraded.collections.tags).toEqual([]);
+    expect(upgraded.collections.entry_tags).toEqual([]);
+    // The original is untouched
+    expect(exportData.collections.template_sections[0]).toEqual({
+      id: 'notes',
+      title: 'Notes',
+    });
+  });
+
+  it('skips migrations the export already has', () => {
+    const templateSections = [{ id: 'notes', configuration: '' }];
+    const tags = [{ id: 'travel', name: 'travel' }];
+
+    const upgraded = upgradeExport({
+      schemaVersion: 6,
+      collections: {
+        template_sections: templateSections,
+        journal_entries: [{ id: 'entry' }],
+        tags,
+      },
+    });
+
+    expect(upgraded.collections.template_sections).toBe(templateSections);
+    expect(upgraded.collections.tags).toBe(tags);
+    expect(upgraded.collections.journal_entries).toEqual([
+      { id: 'entry', template_version_id: null },
+    ]);
+    expect(upgraded.collections.template_versions).toEqual([]);
+  });
+});
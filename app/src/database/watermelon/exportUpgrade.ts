@@ -0,0 +1,57 @@
+import { schema } from './schema';
+import migrations from './migrations';
+import { logger } from '../../utils/logger';
+
+/**
+ * Brings an export made by an older version of the app up to the current
+ * schema before it is imported, replaying the migrations it missed.
+ * Tables they create start empty. Columns they add get what WatermelonDB
+ * gives a new column: null when optional, otherwise '', 0 or false.
+ */
+
+const EMPTY_VALUES: { [type: string]: string | number | boolean } = {
+  string: '',
+  number: 0,
+  boolean: false,
+};
+
+export function upgradeExport(exportData: any): any {
+  // Exports older than the schemaVersion field predate every migration
+  const fromVersion =
+    typeof exportData.schemaVersion === 'number' ? exportData.schemaVersion : 1;
+  if (fromVersion >= schema.version) {
+    return exportData;
+  }
+
+  const collections: { [table: string]: any[] } = {
+    ...exportData.collections,
+  };
+  migrations.sortedMigrations
+    .filter(migration => migration.toVersion > fromVersion)
+    .forEach(migration => {
+      migration.steps.forEach(step => {
+        if (step.type === 'create_table') {
+          collections[step.schema.name] = collections[step.schema.name] || [];
+        } else if (step.type === 'add_columns') {
+          collections[step.table] = (collections[step.table] || []).map(
+            record => {
+              const upgraded = { ...record };
+              step.columns.forEach(column => {
+                if (upgraded[column.name] === undefined) {
+                  upgraded[column.name] = column.isOptional
+                    ? null
+                    : EMPTY_VALUES[column.type];
+                }
+              });
+              return upgraded;
+            }
+          );
+        }
+      });
+    });
+
+  logger.log(
+    `IMPORT: Upgraded export from schema ${fromVersion} to ${schema.version}`
+  );
+  return { ...exportData, schemaVersion: schema.version, collections };
+}
@@ -0,0 +1,191 @@
+import {
+  appendChecksum,
+  EXPORT_FORMAT_VERSION,
+  verifyExport,
+} from './exportVerification';
+import { schema } from './schema';
+
+const EMPTY_VALUES: { [type: string]: string | number | boolean } = {
+  string: '',
+  number: 0,
+  boolean: false,
+};
+
+// A record with every column of the table, set to an empty value
+function record(table: string, values: { [column: string]: unknown }) {
+  const raw: { [column: string]: unknown } = {};
+  Object.values(schema.tables[table].columns).forEach(column => {
+    raw[column.name] = column.isOptional ? null : EMPTY_VALUES[column.type];
+  });
+  return { ...raw, ...values };
+}
+
+function makeExport(collections: { [table: string]: unknown[] } = {}) {
+  const all: { [table: string]: unknown[] } = {};
+  Object.keys(schema.tables).forEach(table => {
+    all[table] = [];
+  });
+  return {
+    version: EXPORT_FORMAT_VERSION,
+    schemaVersion: schema.version,
+    timestamp: 0,
+    collections: {
+      ...all,
+      template_columns: [record('template_columns', { id: 'column' })],
+      template_sections: [
+        record('template_sections', { id: 'notes', column_id: 'column' }),
+      ],
+      journal_entries: [
+        record('journal_entries', { id: 'entry', date: '2025-03-10' }),
+      ],
+      sections: [record('sections', { id: 'section', type: 'notes' })],
+      section_journal_entries: [
+        record('section_journal_entries', {
+          id: 'link',
+          section_id: 'section',
+          journal_entry_id: 'entry',
+        }),
+      ],
+      ...collections,
+    },
+  };
+}
+
+const encode = (value: unknown) =>
+  new TextEncoder().encode(JSON.stringify(value));
+
+describe('verifyExport', () => {
+  it('accepts an export with a matching checksum', async () => {
+    const data = await appendChecksum(encode(makeExport()));
+
+    const result = await verifyExport(data);
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.hasChecksum).toBe(true);
+    expect(new TextDecoder().decode(result.payload)).toBe(
+      JSON.stringify(makeExport())
+    );
+    expect(result.recordCounts).toMatchObject({ sections: 1, tags: 0 });
+  });
+
+  it('rejects data that does not match its checksum', async () => {
+    const data = await appendChecksum(encode(makeExport()));
+    // Same length, different content
+    data[data.length - 66] = '1'.charCodeAt(0);
+
+    const result = await verifyExport(data);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'Checksum mismatch - the data is corrupted',
+    ]);
+  });
+
+  it('checks exports without a checksum on structure alone', async () => {
+    const result = await verifyExport(encode(makeExport()));
+
+    expect(result.valid).toBe(true);
+    expect(result.hasChecksum).toBe(false);
+    expect(result.warnings).toEqual(['No checksum to verify the data against']);
+  });
+
+  it('rejects truncated data', async () => {
+    const data = encode(makeExport());
+
+    const result = await verifyExport(data.slice(0, data.length - 10));
+
+    expect(result.errors).toEqual([
+      'Not valid JSON - the data is corrupted or truncated',
+    ]);
+  });
+
+  it('rejects exports of a newer format or schema', async () => {
+    const result = await verifyExport(
+      encode({
+        ...makeExport(),
+        version: EXPORT_FORMAT_VERSION + 1,
+        schemaVersion: schema.version + 1,
+      })
+    );
+
+    expect(result.errors).toEqual([
+      `Unsupported export format version ${EXPORT_FORMAT_VERSION + 1}`,
+      `Made by a newer version of the app (schema ${schema.version + 1})`,
+    ]);
+  });
+
+  it('counts records with missing or mistyped columns', async () => {
+    const result = await verifyExport(
+      encode(
+        makeExport({
+          tags: [
+            record('tags', { id: 'a', name: 1 }),
+            record('tags', { id: 'a', name: undefined }),
+            record('tags', { id: '' }),
+          ],
+        })
+      )
+    );
+
+    expect(result.errors).toEqual([
+      'tags: 1 record with name is not a string',
+      'tags: 1 record with duplicate ids',
+      'tags: 1 record with missing name',
+      'tags: 1 record with no id',
+    ]);
+  });
+
+  it('tells columns of older schemas apart from missing ones', async () => {
+    const result = await verifyExport(
+      encode(
+        makeExport({
+          template_sections: [
+            record('template_sections', {
+              id: 'notes',
+              column_id: 'column',
+              configuration: undefined,
+            }),
+          ],
+        })
+      )
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toContain(
+      'template_sections: configuration is missing (older schema)'
+    );
+  });
+
+  it('rejects sections of missing templates', async () => {
+    const result = await verifyExport(
+      encode(
+        makeExport({
+          sections: [record('sections', { id: 'section', type: 'gone' })],
+        })
+      )
+    );
+
+    expect(result.errors).toEqual(['1 sections refer to missing templates']);
+  });
+
+  it('warns about links the import can carry along', async () => {
+    const result = await verifyExport(
+      encode(
+        makeExport({
+          entry_tags: [
+            record('entry_tags', {
+              id: 'tag-link',
+              tag_id: 'gone',
+              journal_entry_id: 'entry',
+            }),
+          ],
+        })
+      )
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toContain('1 tag links refer to missing tags');
+  });
+});
@@ -0,0 +1,300 @@
+import { schema } from './schema';
+import migrations from './migrations';
+
+/**
+ * Integrity checks for database exports (backups and imported files), run
+ * before anything replaces the current data.
+ *
+ * New exports carry a SHA-256 checksum of the JSON as 64 hex characters
+ * appended to the data. Backups written before checksums were added have
+ * none and are checked on structure alone.
+ */
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+const CHECKSUM_LENGTH = 64;
+const CLOSING_BRACE = '}'.charCodeAt(0);
+
+export interface ExportVerification {
+  valid: boolean;
+  // Problems that would lose data or break the app after a restore
+  errors: string[];
+  // Harmless inconsistencies the import can carry along
+  warnings: string[];
+  hasChecksum: boolean;
+  // The export JSON without the checksum, ready to import
+  payload: Uint8Array;
+  recordCounts: { [table: string]: number };
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hash))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function appendChecksum(data: Uint8Array): Promise<Uint8Array> {
+  const checksum = new TextEncoder().encode(await sha256Hex(data));
+  const result = new Uint8Array(data.length + checksum.length);
+  result.set(data, 0);
+  result.set(checksum, data.length);
+  return result;
+}
+
+// Splits off a trailing checksum if the data ends with one
+function splitChecksum(data: Uint8Array): {
+  payload: Uint8Array;
+  checksum: string | null;
+} {
+  if (data.length > CHECKSUM_LENGTH) {
+    const trailer = new TextDecoder().decode(
+      data.slice(data.length - CHECKSUM_LENGTH)
+    );
+    const payloadEnd = data[data.length - CHECKSUM_LENGTH - 1];
+    if (/^[0-9a-f]{64}$/.test(trailer) && payloadEnd === CLOSING_BRACE) {
+      return {
+        payload: data.slice(0, data.length - CHECKSUM_LENGTH),
+        checksum: trailer,
+      };
+    }
+  }
+  return { payload: data, checksum: null };
+}
+
+// Columns added by a migration may be absent from exports made before it
+function getMigratedColumns(): Set<string> {
+  const columns = new Set<string>();
+  migrations.sortedMigrations.forEach(migration => {
+    migration.steps.forEach(step => {
+      if (step.type === 'add_columns') {
+        step.columns.forEach(column =>
+          columns.add(`${step.table}.${column.name}`)
+        );
+      }
+    });
+  });
+  return columns;
+}
+
+function checkColumns(
+  collections: { [table: string]: any[] },
+  errors: string[],
+  warnings: string[]
+): void {
+  const migratedColumns = getMigratedColumns();
+
+  Object.keys(schema.tables).forEach(table => {
+    const records = collections[table];
+    if (records === undefined) {
+      // Imported as empty, like a table that failed to export
+      warnings.push(`Missing table ${table}`);
+      return;
+    }
+    if (!Array.isArray(records)) {
+      errors.push(`Table ${table} is not a list of records`);
+      return;
+    }
+
+    const ids = new Set<string>();
+    const columns = Object.values(schema.tables[table].columns);
+    const problems = new Map<string, number>();
+    const countProblem = (problem: string) =>
+      problems.set(problem, (problems.get(problem) || 0) + 1);
+    const missingMigrated = new Set<string>();
+
+    records.forEach(record => {
+      if (!record || typeof record.id !== 'string' || !record.id) {
+        countProblem('no id');
+        return;
+      }
+      if (ids.has(record.id)) {
+        countProblem('duplicate ids');
+      }
+      ids.add(record.id);
+
+      columns.forEach(column => {
+        const value = record[column.name];
+        if (value === undefined || value === null) {
+          if (column.isOptional) {
+            return;
+          }
+          if (
+            value === undefined &&
+            migratedColumns.has(`${table}.${column.name}`)
+          ) {
+            missingMigrated.add(column.name);
+            return;
+          }
+          countProblem(`missing ${column.name}`);
+        } else if (typeof value !== column.type) {
+          countProblem(`${column.name} is not a ${column.type}`);
+        }
+      });
+    });
+
+    problems.forEach((count, problem) =>
+      errors.push(
+        `${table}: ${count} record${count === 1 ? '' : 's'} with ${problem}`
+      )
+    );
+    missingMigrated.forEach(column =>
+      warnings.push(`${table}: ${column} is missing (older schema)`)
+    );
+  });
+}
+
+function checkReferences(
+  collections: { [table: string]: any[] },
+  errors: string[],
+  warnings: string[]
+): void {
+  const idsOf = (table: string) =>
+    new Set((collections[table] || []).map(record => record?.id));
+  const templateIds = idsOf('template_sections');
+  const columnIds = idsOf('template_columns');
+  const sectionIds = idsOf('sections');
+  const entryIds = idsOf('journal_entries');
+
+  // Entry pages look up the template of every section they show
+  const orphanSections = (collections.sections || []).filter(
+    section => !templateIds.has(section.type)
+  ).length;
+  if (orphanSections > 0) {
+    errors.push(`${orphanSections} sections refer to missing templates`);
+  }
+
+  const orphanJunctionSections = (
+    collections.section_journal_entries || []
+  ).filter(junction => !sectionIds.has(junction.section_id)).length;
+  if (orphanJunctionSections > 0) {
+    errors.push(
+      `${orphanJunctionSections} section links refer to missing sections`
+    );
+  }
+
+  // Links of deleted entries are left behind and never read
+  const orphanJunctionEntries = (
+    collections.section_journal_entries || []
+  ).filter(junction => !entryIds.has(junction.journal_entry_id)).length;
+  if (orphanJunctionEntries > 0) {
+    warnings.push(
+      `${orphanJunctionEntries} section links refer to missing entries`
+    );
+  }
+
+  const tagIds = idsOf('tags');
+  const orphanTagLinks = (collections.entry_tags || []).filter(
+    link => !tagIds.has(link.tag_id)
+  ).length;
+  if (orphanTagLinks > 0) {
+    warnings.push(`${orphanTagLinks} tag links refer to missing tags`);
+  }
+
+  const orphanRevisions = (collections.section_revisions || []).filter(
+    revision => !sectionIds.has(revision.section_id)
+  ).length;
+  if (orphanRevisions > 0) {
+    warnings.push(`${orphanRevisions} revisions refer to missing sections`);
+  }
+
+  const orphanTemplates = (collections.template_sections || []).filter(
+    template => template.column_id && !columnIds.has(template.column_id)
+  ).length;
+  if (orphanTemplates > 0) {
+    warnings.push(`${orphanTemplates} templates refer to missing columns`);
+  }
+
+  // Falls back to the default template
+  const layoutIds = idsOf('templates');
+  const orphanLayoutRecords = [
+    ...(collections.template_columns || []),
+    ...(collections.template_sections || []),
+  ].filter(
+    record => record?.template_id && !layoutIds.has(record.template_id)
+  ).length;
+  if (orphanLayoutRecords > 0) {
+    warnings.push(
+      `${orphanLayoutRecords} columns and sections refer to missing named templates`
+    );
+  }
+
+  // Shown with the current template instead
+  const versionIds = idsOf('template_versions');
+  const orphanVersionEntries = (collections.journal_entries || []).filter(
+    entry =>
+      entry?.template_version_id && !versionIds.has(entry.template_version_id)
+  ).length;
+  if (orphanVersionEntries > 0) {
+    warnings.push(
+      `${orphanVersionEntries} entries refer to missing template versions`
+    );
+  }
+}
+
+export async function verifyExport(
+  data: Uint8Array
+): Promise<ExportVerification> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const recordCounts: { [table: string]: number } = {};
+  const { payload, checksum } = splitChecksum(data);
+
+  const result = (): ExportVerification => ({
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    hasChecksum: checksum !== null,
+    payload,
+    recordCounts,
+  });
+
+  if (checksum) {
+    if ((await sha256Hex(payload)) !== checksum) {
+      errors.push('Checksum mismatch - the data is corrupted');
+      return result();
+    }
+  } else {
+    warnings.push('No checksum to verify the data against');
+  }
+
+  let exportData: any;
+  try {
+    exportData = JSON.parse(new TextDecoder().decode(payload));
+  } catch {
+    errors.push('Not valid JSON - the data is corrupted or truncated');
+    return result();
+  }
+
+  if (!exportData || typeof exportData !== 'object') {
+    errors.push('Not a journal export');
+    return result();
+  }
+  if (exportData.version !== EXPORT_FORMAT_VERSION) {
+    errors.push(`Unsupported export format version ${exportData.version}`);
+  }
+  if (
+    typeof exportData.schemaVersion === 'number' &&
+    exportData.schemaVersion > schema.version
+  ) {
+    errors.push(
+      `Made by a newer version of the app (schema ${exportData.schemaVersion})`
+    );
+  }
+  if (!exportData.collections || typeof exportData.collections !== 'object') {
+    errors.push('Missing collections');
+    return result();
+  }
+
+  Object.keys(schema.tables).forEach(table => {
+    const records = exportData.collections[table];
+    recordCounts[table] = Array.isArray(records) ? records.length : 0;
+  });
+
+  checkColumns(exportData.collections, errors, warnings);
+  if (errors.length === 0) {
+    checkReferences(exportData.collections, errors, warnings);
+  }
+
+  return result();
+}
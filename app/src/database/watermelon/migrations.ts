@@ -1,6 +1,7 @@
 import {
   schemaMigrations,
   addColumns,
+  createTable,
 } from '@nozbe/watermelondb/Schema/migrations';
 
 export default schemaMigrations({
@@ -14,5 +15,124 @@ export default schemaMigrations({
         }),
       ],
     },
+    {
+      toVersion: 3,
+      steps: [
+        createTable({
+          name: 'tags',
+          columns: [
+            { name: 'name', type: 'string', isIndexed: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+        createTable({
+          name: 'entry_tags',
+          columns: [
+            { name: 'tag_id', type: 'string', isIndexed: true },
+            { name: 'journal_entry_id', type: 'string', isIndexed: true },
+            {
+              name: 'section_id',
+              type: 'string',
+              isOptional: true,
+              isIndexed: true,
+            },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 4,
+      steps: [
+        createTable({
+          name: 'section_revisions',
+          columns: [
+            { name: 'section_id', type: 'string', isIndexed: true },
+            { name: 'content', type: 'string' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 5,
+      steps: [
+        addColumns({
+          table: 'journal_entries',
+          columns: [{ name: 'deleted_at', type: 'number', isOptional: true }],
+        }),
+        addColumns({
+          table: 'template_sections',
+          columns: [{ name: 'deleted_at', type: 'number', isOptional: true }],
+        }),
+      ],
+    },
+    {
+      toVersion: 6,
+      steps: [
+        createTable({
+          name: 'templates',
+          columns: [
+            { name: 'name', type: 'string' },
+            { name: 'weekdays', type: 'string' },
+            { name: 'range_start', type: 'string', isOptional: true },
+            { name: 'range_end', type: 'string', isOptional: true },
+            { name: 'display_order', type: 'number' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+        addColumns({
+          table: 'template_columns',
+          columns: [
+            {
+              name: 'template_id',
+              type: 'string',
+              isOptional: true,
+              isIndexed: true,
+            },
+          ],
+        }),
+        addColumns({
+          table: 'template_sections',
+          columns: [
+            {
+              name: 'template_id',
+              type: 'string',
+              isOptional: true,
+              isIndexed: true,
+            },
+          ],
+        }),
+        addColumns({
+          table: 'journal_entries',
+          columns: [{ name: 'template_id', type: 'string', isOptional: true }],
+        }),
+      ],
+    },
+    {
+      toVersion: 7,
+      steps: [
+        createTable({
+          name: 'template_versions',
+          columns: [
+            { name: 'template_id', type: 'string', isIndexed: true },
+            { name: 'version', type: 'number' },
+            { name: 'snapshot', type: 'string' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+        addColumns({
+          table: 'journal_entries',
+          columns: [
+            { name: 'template_version_id', type: 'string', isOptional: true },
+          ],
+        }),
+      ],
+    },
   ],
 });
@@ -0,0 +1,22 @@
+import { Model } from '@nozbe/watermelondb';
+import { field, date, relation } from '@nozbe/watermelondb/decorators';
+import Tag from './Tag';
+import JournalEntry from './JournalEntry';
+
+export default class EntryTag extends Model {
+  static table = 'entry_tags';
+  static associations = {
+    tag: { type: 'belongs_to', key: 'tag_id' },
+    journal_entry: { type: 'belongs_to', key: 'journal_entry_id' },
+  } as const;
+
+  @field('tag_id') tagId!: string;
+  @field('journal_entry_id') journalEntryId!: string;
+  // Section holding the #hashtag; null for tags added by hand
+  @field('section_id') sectionId!: string | null;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+
+  @relation('tags', 'tag_id') tag!: Tag;
+  @relation('journal_entries', 'journal_entry_id') journalEntry!: JournalEntry;
+}
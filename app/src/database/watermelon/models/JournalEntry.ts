@@ -12,6 +12,9 @@ export default class JournalEntry extends Model {
   } as const;
 
   @field('date') date!: string;
+  @date('deleted_at') deletedAt!: Date | null; // in the trash since
+  @field('template_id') templateId!: string | null; // chosen by hand
+  @field('template_version_id') templateVersionId!: string | null;
   @date('created_at') createdAt!: Date;
   @date('updated_at') updatedAt!: Date;
 
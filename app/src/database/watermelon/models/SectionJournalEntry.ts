@@ -2,6 +2,7 @@ import { Model, Q } from '@nozbe/watermelondb';
 import { field, date, relation } from '@nozbe/watermelondb/decorators';
 import Section from './Section';
 import JournalEntry from './JournalEntry';
+import { claimStableId, stableIds } from '../stableIds';
 
 export default class SectionJournalEntry extends Model {
   static table = 'section_journal_entries';
@@ -91,7 +92,12 @@ export default class SectionJournalEntry extends Model {
       });
     } else {
       // Create new record
+      const stableId = await claimStableId(
+        collection,
+        stableIds.sectionJournalEntry(sectionId, journalEntryId)
+      );
       return await collection.create((record: SectionJournalEntry) => {
+        if (stableId) record._raw.id = stableId;
         record.sectionId = sectionId;
         record.journalEntryId = journalEntryId;
       });
@@ -135,7 +141,7 @@ export default class SectionJournalEntry extends Model {
     // Delete duplicate records
     if (recordsToDelete.length > 0) {
       const deleteActions = recordsToDelete.map(record =>
-        record.prepareDestroyPermanently()
+        record.prepareMarkAsDeleted()
       );
       await collection.database.batch(...deleteActions);
     }
@@ -0,0 +1,18 @@
+import { Model } from '@nozbe/watermelondb';
+import { field, date, relation } from '@nozbe/watermelondb/decorators';
+import Section from './Section';
+
+export default class SectionRevision extends Model {
+  static table = 'section_revisions';
+  static associations = {
+    section: { type: 'belongs_to', key: 'section_id' },
+  } as const;
+
+  @field('section_id') sectionId!: string;
+  @field('content') content!: string;
+  @date('created_at') createdAt!: Date;
+  // Last save coalesced into this revision
+  @date('updated_at') updatedAt!: Date;
+
+  @relation('sections', 'section_id') section!: Section;
+}
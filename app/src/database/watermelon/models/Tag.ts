@@ -0,0 +1,16 @@
+import { Model } from '@nozbe/watermelondb';
+import { field, date, children } from '@nozbe/watermelondb/decorators';
+import EntryTag from './EntryTag';
+
+export default class Tag extends Model {
+  static table = 'tags';
+  static associations = {
+    entry_tags: { type: 'has_many', foreignKey: 'tag_id' },
+  } as const;
+
+  @field('name') name!: string; // lowercase, without '#'
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+
+  @children('entry_tags') entryTags!: EntryTag[];
+}
@@ -0,0 +1,23 @@
+import { Model } from '@nozbe/watermelondb';
+import { field, date, children } from '@nozbe/watermelondb/decorators';
+import TemplateColumn from './TemplateColumn';
+import TemplateSection from './TemplateSection';
+
+export default class Template extends Model {
+  static table = 'templates';
+  static associations = {
+    template_columns: { type: 'has_many', foreignKey: 'template_id' },
+    template_sections: { type: 'has_many', foreignKey: 'template_id' },
+  } as const;
+
+  @field('name') name!: string;
+  @field('weekdays') weekdays!: string; // comma-separated, 0 = Sunday
+  @field('range_start') rangeStart!: string | null;
+  @field('range_end') rangeEnd!: string | null;
+  @field('display_order') displayOrder!: number;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+
+  @children('template_columns') templateColumns!: TemplateColumn[];
+  @children('template_sections') templateSections!: TemplateSection[];
+}
@@ -8,6 +8,7 @@ export default class TemplateColumn extends Model {
     template_sections: { type: 'has_many', foreignKey: 'column_id' },
   } as const;
 
+  @field('template_id') templateId!: string | null; // null: default template
   @field('title') title!: string;
   @field('width') width!: number;
   @field('display_order') displayOrder!: number;
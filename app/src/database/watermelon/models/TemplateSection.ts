@@ -16,6 +16,8 @@ export default class TemplateSection extends Model {
   @field('content_type') contentType!: string;
   @field('configuration') configuration!: string;
   @field('column_id') columnId!: string;
+  @field('template_id') templateId!: string | null; // null: default template
+  @date('deleted_at') deletedAt!: Date | null; // in the trash since
   @date('created_at') createdAt!: Date;
   @date('updated_at') updatedAt!: Date;
 
@@ -0,0 +1,18 @@
+import { Model } from '@nozbe/watermelondb';
+import { field, date, relation } from '@nozbe/watermelondb/decorators';
+import Template from './Template';
+
+export default class TemplateVersion extends Model {
+  static table = 'template_versions';
+  static associations = {
+    template: { type: 'belongs_to', key: 'template_id' },
+  } as const;
+
+  @field('template_id') templateId!: string;
+  @field('version') version!: number;
+  @field('snapshot') snapshot!: string; // JSON: { columns, sections }
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+
+  @relation('templates', 'template_id') template!: Template;
+}
@@ -2,5 +2,10 @@ export { default as JournalEntry } from './JournalEntry';
 export { default as Section } from './Section';
 export { default as SectionJournalEntry } from './SectionJournalEntry';
 export { default as ApiKey } from './ApiKey';
+export { default as Template } from './Template';
+export { default as TemplateVersion } from './TemplateVersion';
 export { default as TemplateColumn } from './TemplateColumn';
 export { default as TemplateSection } from './TemplateSection';
+export { default as Tag } from './Tag';
+export { default as EntryTag } from './EntryTag';
+export { default as SectionRevision } from './SectionRevision';
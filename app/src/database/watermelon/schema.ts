@@ -1,12 +1,18 @@
 import { appSchema, tableSchema } from '@nozbe/watermelondb';
 
 export const schema = appSchema({
-  version: 2,
+  version: 7,
   tables: [
     tableSchema({
       name: 'journal_entries',
       columns: [
         { name: 'date', type: 'string', isIndexed: true },
+        // Set while the entry is in the trash
+        { name: 'deleted_at', type: 'number', isOptional: true },
+        // Template chosen by hand for this day, overriding the rules
+        { name: 'template_id', type: 'string', isOptional: true },
+        // Version of the template the entry is shown with once it is past
+        { name: 'template_version_id', type: 'string', isOptional: true },
         { name: 'created_at', type: 'number' },
         { name: 'updated_at', type: 'number' },
       ],
@@ -33,9 +39,41 @@ export const schema = appSchema({
         { name: 'updated_at', type: 'number' },
       ],
     }),
+    // Named layouts of columns and sections, picked per date by their rules
+    tableSchema({
+      name: 'templates',
+      columns: [
+        { name: 'name', type: 'string' },
+        { name: 'weekdays', type: 'string' }, // comma-separated, 0 = Sunday
+        { name: 'range_start', type: 'string', isOptional: true }, // YYYY-MM-DD
+        { name: 'range_end', type: 'string', isOptional: true }, // YYYY-MM-DD
+        { name: 'display_order', type: 'number' },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+    // Snapshots of a template's columns and sections, so past entries keep
+    // the layout they were written in
+    tableSchema({
+      name: 'template_versions',
+      columns: [
+        { name: 'template_id', type: 'string', isIndexed: true }, // FK to templates.id
+        { name: 'version', type: 'number' },
+        { name: 'snapshot', type: 'string' }, // JSON: { columns, sections }
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
     tableSchema({
       name: 'template_columns',
       columns: [
+        // FK to templates.id; unset means the default template
+        {
+          name: 'template_id',
+          type: 'string',
+          isOptional: true,
+          isIndexed: true,
+        },
         { name: 'title', type: 'string' },
         { name: 'width', type: 'number' },
         { name: 'display_order', type: 'number' },
@@ -54,6 +92,49 @@ export const schema = appSchema({
         { name: 'content_type', type: 'string' },
         { name: 'configuration', type: 'string' },
         { name: 'column_id', type: 'string', isOptional: true },
+        // FK to templates.id; unset means the default template
+        {
+          name: 'template_id',
+          type: 'string',
+          isOptional: true,
+          isIndexed: true,
+        },
+        // Set while the template is in the trash; its sections are kept
+        { name: 'deleted_at', type: 'number', isOptional: true },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+    tableSchema({
+      name: 'tags',
+      columns: [
+        { name: 'name', type: 'string', isIndexed: true }, // lowercase, without '#'
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+    // Tags on an entry: added by hand (no section) or from a #hashtag in a section
+    tableSchema({
+      name: 'entry_tags',
+      columns: [
+        { name: 'tag_id', type: 'string', isIndexed: true },
+        { name: 'journal_entry_id', type: 'string', isIndexed: true },
+        {
+          name: 'section_id',
+          type: 'string',
+          isOptional: true,
+          isIndexed: true,
+        },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+    // Content snapshots of a section, one per editing session
+    tableSchema({
+      name: 'section_revisions',
+      columns: [
+        { name: 'section_id', type: 'string', isIndexed: true },
+        { name: 'content', type: 'string' },
         { name: 'created_at', type: 'number' },
         { name: 'updated_at', type: 'number' },
       ],
@@ -0,0 +1,43 @@
+import { Collection, Model, Q } from '@nozbe/watermelondb';
+
+/**
+ * Ids for records that are identified by their content (one entry per date,
+ * one section per timeframe, one junction per pair, one tag per name).
+ * Devices that create the same record while offline end up with the same
+ * id, so sync merges them instead of producing duplicates.
+ */
+export const stableIds = {
+  journalEntry: (date: string) => `entry-${date}`,
+  section: (type: string, timeframeType: string, timeframeStart: string) =>
+    timeframeType === 'persistent'
+      ? `${type}-persistent`
+      : `${type}-${timeframeType}-${timeframeStart}`,
+  sectionJournalEntry: (sectionId: string, journalEntryId: string) =>
+    `${sectionId}-${journalEntryId}`,
+  tag: (name: string) => `tag-${name}`,
+  // Hashtags are tracked per section, manual tags per entry
+  entryTag: (
+    tagId: string,
+    journalEntryId: string,
+    sectionId: string | null
+  ) => (sectionId ? `${tagId}-${sectionId}` : `${tagId}-${journalEntryId}`),
+};
+
+/**
+ * Returns `id` if no live record or sync tombstone uses it yet, otherwise
+ * null so WatermelonDB generates a random id.
+ */
+export async function claimStableId<T extends Model>(
+  collection: Collection<T>,
+  id: string
+): Promise<string | null> {
+  const existing = await collection.query(Q.where('id', id)).fetchCount();
+  if (existing > 0) {
+    return null;
+  }
+
+  const deletedIds = await collection.database.adapter.getDeletedRecords(
+    collection.table
+  );
+  return deletedIds.includes(id) ? null : id;
+}
@@ -4,7 +4,7 @@ import { localApiService } from '../services/localApi';
 import { useEditMode } from '../contexts/EditModeContext';
 
 export const useTemplateManagement = () => {
-  const { setIsDirty } = useEditMode();
+  const { setIsDirty, templateId } = useEditMode();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -15,7 +15,7 @@ export const useTemplateManagement = () => {
       setError(null);
       try {
         // Get current max display_order
-        const templates = await localApiService.fetchTemplates();
+        const templates = await localApiService.fetchTemplates(templateId);
         const maxOrder = Math.max(
           ...templates.columns.map(c => c.display_order),
           -1
@@ -26,7 +26,7 @@ export const useTemplateManagement = () => {
           display_order: maxOrder + 1,
         };
 
-        await localApiService.createTemplateColumn(newColumn);
+        await localApiService.createTemplateColumn(newColumn, templateId);
         setIsDirty(true);
         return newColumn;
       } catch (err) {
@@ -36,7 +36,7 @@ export const useTemplateManagement = () => {
         setIsLoading(false);
       }
     },
-    [setIsDirty]
+    [setIsDirty, templateId]
   );
 
   const updateColumn = useCallback(
@@ -106,7 +106,7 @@ export const useTemplateManagement = () => {
       setError(null);
       try {
         // Get current max display_order for the column
-        const templates = await localApiService.fetchTemplates();
+        const templates = await localApiService.fetchTemplates(templateId);
         const sectionsInColumn = templates.sections.filter(
           s => s.column_id === sectionData.column_id
         );
@@ -130,7 +130,7 @@ export const useTemplateManagement = () => {
         setIsLoading(false);
       }
     },
-    [setIsDirty]
+    [setIsDirty, templateId]
   );
 
   const updateSection = useCallback(
@@ -220,7 +220,7 @@ export const useTemplateManagement = () => {
       setError(null);
       try {
         // Get current templates to calculate new display_order
-        const templates = await localApiService.fetchTemplates();
+        const templates = await localApiService.fetchTemplates(templateId);
         const sectionsInTargetColumn = templates.sections.filter(
           s => s.column_id === targetColumnId
         );
@@ -241,7 +241,7 @@ export const useTemplateManagement = () => {
         setIsLoading(false);
       }
     },
-    [setIsDirty]
+    [setIsDirty, templateId]
   );
 
   return {
@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isValid,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { calendarService, DaySummary } from '../services/calendarService';
+import { reactiveDataService } from '../services/reactiveDataService';
+import { formatDateForAPI } from '../utils/dates';
+import { logger } from '../utils/logger';
+import { Spinner } from '../components/ui';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Background shade by the share of sections that have content
+const getFillClass = (summary?: DaySummary): string => {
+  if (!summary || !summary.hasEntry || summary.totalSections === 0) {
+    return 'bg-white';
+  }
+  const ratio = summary.filledSections / summary.totalSections;
+  if (ratio >= 0.75) return 'bg-green-200';
+  if (ratio >= 0.5) return 'bg-green-100';
+  if (ratio > 0) return 'bg-green-50';
+  return 'bg-gray-50';
+};
+
+const CalendarPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [summaries, setSummaries] = useState<Map<string, DaySummary>>(
+    new Map()
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Month from the URL (?month=yyyy-MM), defaulting to this month
+  const month = useMemo(() => {
+    const monthParam = searchParams.get('month');
+    if (monthParam) {
+      const parsed = parse(monthParam, 'yyyy-MM', new Date());
+      if (isValid(parsed)) {
+        return parsed;
+      }
+    }
+    return startOfMonth(new Date());
+  }, [searchParams]);
+
+  const days = useMemo(
+    () =>
+      eachDayOfInterval({
+        start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+        end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+      }),
+    [month]
+  );
+
+  useEffect(
+    () =>
+      reactiveDataService.subscribeToAllEntries(() =>
+        setRefreshKey(key => key + 1)
+      ),
+    []
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    calendarService
+      .getMonthSummaries(month)
+      .then(result => {
+        if (!cancelled) {
+          setSummaries(result);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        logger.error('Failed to load calendar:', err);
+        if (!cancelled) {
+          setError('Failed to load calendar. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [month, refreshKey]);
+
+  const goToMonth = (target: Date) =>
+    setSearchParams({ month: format(target, 'yyyy-MM') });
+
+  const today = formatDateForAPI(new Date());
+  const entryCount = Array.from(summaries.values()).filter(
+    summary => summary.hasEntry
+  ).length;
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <div className='max-w-5xl mx-auto p-6'>
+        {/* Header */}
+        <div className='mb-6'>
+          <button
+            onClick={() => navigate('/')}
+            className='mb-4 px-4 py-2 text-gray-600 hover:text-gray-800 flex items-center gap-2'
+          >
+            ← Back to Journal
+          </button>
+          <div className='flex flex-wrap items-center justify-between gap-4'>
+            <h1 className='text-3xl font-bold text-gray-800'>
+              {format(month, 'MMMM yyyy')}
+            </h1>
+            <div className='flex items-center gap-2'>
+              {loading && <Spinner size='sm' />}
+              <button
+                onClick={() => goToMonth(addMonths(month, -1))}
+                className='px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm transition-colors'
+                aria-label='Previous month'
+              >
+                ←&nbsp;Prev
+              </button>
+              <button
+                onClick={() => goToMonth(new Date())}
+                className='px-3 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 text-sm transition-colors'
+              >
+                Today
+              </button>
+              <button
+                onClick={() => goToMonth(addMonths(month, 1))}
+                className='px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm transition-colors'
+                aria-label='Next month'
+              >
+                Next&nbsp;→
+              </button>
+            </div>
+          </div>
+          <p className='text-sm text-gray-500 mt-2'>
+            {entryCount} entr{entryCount === 1 ? 'y' : 'ies'} this month
+          </p>
+        </div>
+
+        {error && (
+          <div className='bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700'>
+            {error}
+          </div>
+        )}
+
+        <div className='bg-white rounded-lg shadow-md overflow-hidden'>
+          <div className='grid grid-cols-7 border-b border-gray-200'>
+            {WEEKDAYS.map(weekday => (
+              <div
+                key={weekday}
+                className='py-2 text-center text-xs font-medium text-gray-500 uppercase'
+              >
+                {weekday}
+              </div>
+            ))}
+          </div>
+          <div className='grid grid-cols-7'>
+            {days.map(day => {
+              const date = formatDateForAPI(day);
+              const summary = summaries.get(date);
+              const inMonth = isSameMonth(day, month);
+              return (
+                <button
+                  key={date}
+                  onClick={() => navigate(`/?date=${date}`)}
+                  disabled={date > today}
+                  className={`min-h-[6rem] p-2 text-left border-b border-r border-gray-100 flex flex-col hover:ring-2 hover:ring-inset hover:ring-blue-300 disabled:cursor-not-allowed disabled:hover:ring-0 ${getFillClass(
+                    summary
+                  )} ${inMonth ? '' : 'opacity-40'}`}
+                  title={
+                    summary?.hasEntry
+                      ? `${summary.filledSections} of ${summary.totalSections} sections written`
+                      : 'No entry'
+                  }
+                >
+                  <span
+                    className={`text-sm font-medium ${
+                      date === today
+                        ? 'bg-blue-600 text-white rounded-full w-6 h-6 flex items-center justify-center'
+                        : 'text-gray-700'
+                    }`}
+                  >
+                    {format(day, 'd')}
+                  </span>
+                  {summary && (
+                    <div className='mt-auto space-y-0.5 text-xs text-gray-600'>
+                      {summary.hasEntry && summary.totalSections > 0 && (
+                        <div>
+                          📝 {summary.filledSections}/{summary.totalSections}
+                        </div>
+                      )}
+                      {summary.totalHabits > 0 && (
+                        <div>
+                          🔥 {summary.habitsCompleted}/{summary.totalHabits}
+                        </div>
+                      )}
+                      {summary.totalTodos > 0 && (
+                        <div>
+                          ✅ {summary.todosCompleted}/{summary.totalTodos}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className='flex flex-wrap gap-4 mt-4 text-xs text-gray-500'>
+          <span>📝 Sections written</span>
+          <span>🔥 Habits done</span>
+          <span>✅ Todos completed</span>
+          <span className='flex items-center gap-1'>
+            <span className='inline-block w-3 h-3 bg-green-200 rounded' />
+            Mostly complete
+          </span>
+          <span className='flex items-center gap-1'>
+            <span className='inline-block w-3 h-3 bg-gray-50 border border-gray-200 rounded' />
+            Entry with nothing written
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarPage;
@@ -5,8 +5,13 @@ import {
   Section,
   SectionJournalEntry,
   ApiKey,
+  Template,
+  TemplateVersion,
   TemplateColumn,
   TemplateSection,
+  Tag,
+  EntryTag,
+  SectionRevision,
 } from '../database/watermelon/models';
 import logger from '../utils/logger';
 
@@ -34,6 +39,12 @@ const tableConfigs = [
     model: SectionJournalEntry,
   },
   { name: 'api_keys', displayName: 'API Keys', model: ApiKey },
+  { name: 'templates', displayName: 'Templates', model: Template },
+  {
+    name: 'template_versions',
+    displayName: 'Template Versions',
+    model: TemplateVersion,
+  },
   {
     name: 'template_columns',
     displayName: 'Template Columns',
@@ -44,6 +55,13 @@ const tableConfigs = [
     displayName: 'Template Sections',
     model: TemplateSection,
   },
+  { name: 'tags', displayName: 'Tags', model: Tag },
+  { name: 'entry_tags', displayName: 'Entry Tags', model: EntryTag },
+  {
+    name: 'section_revisions',
+    displayName: 'Section Revisions',
+    model: SectionRevision,
+  },
 ];
 
 const DatabaseDebugPage: React.FC = () => {
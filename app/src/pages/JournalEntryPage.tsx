@@ -5,15 +5,25 @@ import ColumnLayout from '../components/layout/ColumnLayout';
 import JournalHeader from '../components/layout/JournalHeader';
 import { SaveIndicator } from '../components/SaveIndicator';
 import { ContentUndoToolbar } from '../components/ContentUndoToolbar';
+import { OnThisDayPanel } from '../components/OnThisDayPanel';
+import { EntryTagBar } from '../components/EntryTagBar';
+import { BacklinksPanel } from '../components/BacklinksPanel';
+import { EntryTemplateSelect } from '../components/EntryTemplateSelect';
+import { MarkdownExportDialog } from '../components/MarkdownExportDialog';
 
 import {
+  Column,
   SectionTemplate,
   SectionWithContent,
   JournalEntry,
 } from '../services/api';
 import { formatDateForAPI } from '../utils/dates';
 import { logger } from '../utils/logger';
-import { useJournalEntry, useTemplates } from '../services/reactiveDataService';
+import {
+  reactiveDataService,
+  useJournalEntry,
+  useTemplates,
+} from '../services/reactiveDataService';
 import { createDebouncedSave } from '../utils/debounceUtils';
 import { useSyncStore, useSyncStatus } from '../stores/syncStore';
 import { useContentUndo } from '../hooks/useContentUndo';
@@ -21,6 +31,7 @@ import { sectionRegistry } from '../components/sections/registry';
 
 const JournalEntryPage: React.FC = () => {
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
+  const [showExport, setShowExport] = useState(false);
   // Local state to store immediate changes without triggering re-renders
   const [localEntry, setLocalEntry] = useState<JournalEntry | null>(null);
   const [searchParams] = useSearchParams();
@@ -62,8 +73,15 @@ const JournalEntryPage: React.FC = () => {
     loading: isLoading,
     error,
     updateEntry,
+    deleteEntry,
+    restoreEntry,
   } = useJournalEntry(formattedDate);
-  const { templates, columns } = useTemplates();
+  // Columns and sections of the template picked for this date, as they were
+  // when a past entry was written
+  const { templates, columns } = useTemplates(
+    entry?.template_id,
+    entry?.template_version_id
+  );
 
   // Create debounced save function
   const debouncedSave = useMemo(() => {
@@ -84,7 +102,12 @@ const JournalEntryPage: React.FC = () => {
       setLocalEntry(prevLocalEntry => {
         // Only update local state if we don't already have local changes
         // or if the entry is significantly different (e.g., from navigation)
-        if (!prevLocalEntry || prevLocalEntry.date !== entry.date) {
+        if (
+          !prevLocalEntry ||
+          prevLocalEntry.date !== entry.date ||
+          prevLocalEntry.template_id !== entry.template_id ||
+          prevLocalEntry.template_version_id !== entry.template_version_id
+        ) {
           return entry;
         }
 
@@ -224,14 +247,33 @@ const JournalEntryPage: React.FC = () => {
     // Use localEntry instead of entry for immediate updates
     if (!localEntry || !templates.length) return [];
 
+    const templateIds = new Set(
+      templates.map((template: SectionTemplate) => template.id)
+    );
+    const columnIds = new Set(columns.map((column: Column) => column.id));
+
+    // Sections of templates in the trash, shown read-only where they were
+    const archivedSections = Object.values(localEntry.sections)
+      .map(sectionData => sectionData as SectionWithContent)
+      .filter(section => section.archived && !templateIds.has(section.id))
+      .map(section => ({
+        ...section,
+        column_id:
+          section.column_id && columnIds.has(section.column_id)
+            ? section.column_id
+            : columns[0]?.id,
+      }));
+
     return templates
-      .map((template: SectionTemplate) => {
+      .map((template: SectionTemplate): SectionWithContent => {
         const sectionData = localEntry.sections[template.id];
         return {
           ...template,
           content: sectionData?.content || '',
+          archived: sectionData?.archived,
         };
       })
+      .concat(archivedSections)
       .sort(
         (a: SectionWithContent, b: SectionWithContent) =>
           a.display_order - b.display_order
@@ -314,6 +356,51 @@ const JournalEntryPage: React.FC = () => {
     await redo();
   };
 
+  const handleMoveToTrash = async () => {
+    if (
+      !window.confirm(
+        'Move this entry to the trash? You can restore it from the trash until it is purged.'
+      )
+    ) {
+      return;
+    }
+    // Don't let a pending save write into the trashed entry
+    debouncedSave.cancel();
+    try {
+      await deleteEntry();
+    } catch (err) {
+      logger.error('Failed to move entry to trash:', err);
+    }
+  };
+
+  const handleRestore = async () => {
+    try {
+      setLocalEntry(null);
+      await restoreEntry();
+    } catch (err) {
+      logger.error('Failed to restore entry:', err);
+    }
+  };
+
+  const handleUseCurrentTemplate = async () => {
+    if (
+      !window.confirm(
+        'Show this entry with the current template? Sections removed from the template since are no longer shown unless they have content.'
+      )
+    ) {
+      return;
+    }
+    // Save pending changes first so they are not lost with the old layout
+    await debouncedSave.flush();
+    try {
+      await reactiveDataService.migrateEntryToCurrentTemplate(formattedDate);
+    } catch (err) {
+      logger.error('Failed to switch entry to current template:', err);
+    }
+  };
+
+  const isTrashed = Boolean(entry?.deleted_at);
+
   if (isLoading) {
     return (
       <div className='min-h-screen bg-gray-50 flex items-center justify-center'>
@@ -347,9 +434,11 @@ const JournalEntryPage: React.FC = () => {
         isCurrentDayToday={isCurrentDayToday}
         copyStatus={copyStatus}
         onCopyToClipboard={copyToMarkdown}
+        onExport={() => setShowExport(true)}
         navigationDisabled={
           syncStatus === 'pending' || syncStatus === 'syncing'
         }
+        onMoveToTrash={entry && !isTrashed ? handleMoveToTrash : undefined}
       />
 
       {/* Content Undo/Redo Toolbar */}
@@ -363,7 +452,55 @@ const JournalEntryPage: React.FC = () => {
         />
       </div>
 
-      {localEntry && (
+      {!isTrashed && <EntryTagBar date={formattedDate} />}
+
+      {!isTrashed && (
+        <EntryTemplateSelect
+          date={formattedDate}
+          templateId={entry?.template_id}
+          pinned={entry?.template_pinned}
+        />
+      )}
+
+      {!isTrashed && entry?.template_version_id && (
+        <div className='px-4 py-2 flex flex-wrap items-center gap-2 text-sm text-gray-500 bg-amber-50 border-b border-amber-100'>
+          <span>
+            This entry is shown with version {entry.template_version} of its
+            template, as it was when written.
+          </span>
+          <button
+            onClick={handleUseCurrentTemplate}
+            className='text-blue-600 hover:text-blue-800 underline'
+          >
+            Use current template
+          </button>
+        </div>
+      )}
+
+      {isTrashed && (
+        <div className='m-4 p-6 bg-white border border-gray-200 rounded-lg text-center'>
+          <p className='text-gray-700 mb-4'>
+            This entry is in the trash since{' '}
+            {format(new Date(entry!.deleted_at!), 'MMMM d, yyyy')}.
+          </p>
+          <div className='flex items-center justify-center gap-3'>
+            <button
+              onClick={handleRestore}
+              className='px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700'
+            >
+              Restore Entry
+            </button>
+            <button
+              onClick={() => navigate('/trash')}
+              className='px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200'
+            >
+              Open Trash
+            </button>
+          </div>
+        </div>
+      )}
+
+      {localEntry && !isTrashed && (
         <ColumnLayout
           entry={localEntry}
           sections={getSections()}
@@ -372,6 +509,17 @@ const JournalEntryPage: React.FC = () => {
         />
       )}
 
+      <BacklinksPanel date={formattedDate} />
+
+      {showExport && (
+        <MarkdownExportDialog
+          currentDate={currentDate}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      <OnThisDayPanel date={formattedDate} />
+
       {/* Mobile floating save indicator */}
       <SaveIndicator variant='mobile' />
     </div>
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  getISODay,
+  startOfYear,
+} from 'date-fns';
+import {
+  Book,
+  BookHabit,
+  printBookService,
+} from '../services/printBookService';
+import { SectionWithTemplate } from '../services/sectionService';
+import { sectionRegistry } from '../components/sections/registry';
+import { formatDateForAPI, parseAPIDate } from '../utils/dates';
+import { logger } from '../utils/logger';
+import { Spinner } from '../components/ui';
+
+const formatMonth = (month: string): string =>
+  format(parseAPIDate(`${month}-01`), 'MMMM yyyy');
+
+// Read-only: the book shows sections as they are
+function BookSection({
+  section,
+  date,
+}: {
+  section: SectionWithTemplate;
+  date: string;
+}) {
+  const definition = sectionRegistry.get(section.contentType);
+  if (!definition) return null;
+  return (
+    <div className='book-section mb-5'>
+      <h3 className='text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1'>
+        {section.title}
+      </h3>
+      <div className='pointer-events-none'>
+        {definition.renderDisplay({
+          content: section.content,
+          onContentChange: () => {},
+          isEditMode: false,
+          entryDate: date,
+          configuration: section.configuration,
+          title: section.title,
+        })}
+      </div>
+    </div>
+  );
+}
+
+// A month of check-offs as a calendar, weeks starting on Monday
+function HabitHeatmap({ habit, month }: { habit: BookHabit; month: string }) {
+  const first = parseAPIDate(`${month}-01`);
+  const days = eachDayOfInterval({ start: first, end: endOfMonth(first) });
+  const completed = new Set(habit.completedDates);
+  const count = days.filter(day => completed.has(formatDateForAPI(day))).length;
+
+  return (
+    <div className='book-section'>
+      <div className='flex items-baseline justify-between mb-1 text-sm'>
+        <span className='font-medium text-gray-700'>{habit.title}</span>
+        <span className='text-gray-500'>
+          {count}/{days.length}
+        </span>
+      </div>
+      <div className='grid grid-cols-7 gap-1 w-56'>
+        {Array.from({ length: getISODay(first) - 1 }, (_, index) => (
+          <div key={`blank-${index}`} />
+        ))}
+        {days.map(day => {
+          const done = completed.has(formatDateForAPI(day));
+          return (
+            <div
+              key={day.getDate()}
+              className={`h-7 rounded-sm flex items-center justify-center text-[10px] ${
+                done ? 'text-white' : 'bg-gray-100 text-gray-400'
+              }`}
+              style={done ? { backgroundColor: habit.color } : undefined}
+            >
+              {day.getDate()}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// A date range laid out as a book to print or save as PDF
+const PrintPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const today = new Date();
+  const startDate =
+    searchParams.get('start') || formatDateForAPI(startOfYear(today));
+  const endDate = searchParams.get('end') || formatDateForAPI(today);
+  const [book, setBook] = useState<Book | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (startDate > endDate) {
+      setError('Choose a first day on or before the last day');
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    printBookService
+      .getBook(startDate, endDate)
+      .then(result => {
+        if (!cancelled) {
+          setBook(result);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        logger.error('Failed to load the book:', err);
+        if (!cancelled) {
+          setError('Failed to load entries. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate]);
+
+  const setRange = (start: string, end: string) =>
+    setSearchParams({ start, end });
+
+  return (
+    <div className='book min-h-screen bg-gray-100 print:bg-white'>
+      {/* Controls, left out of the printout */}
+      <div className='print:hidden max-w-3xl mx-auto p-6'>
+        <button
+          onClick={() => navigate('/')}
+          className='mb-4 px-4 py-2 text-gray-600 hover:text-gray-800 flex items-center gap-2'
+        >
+          ← Back to Journal
+        </button>
+        <div className='flex flex-wrap items-center gap-2'>
+          <input
+            type='date'
+            value={startDate}
+            onChange={e => e.target.value && setRange(e.target.value, endDate)}
+            className='px-2 py-1 border border-gray-300 rounded-md'
+            aria-label='First day'
+          />
+          <span>–</span>
+          <input
+            type='date'
+            value={endDate}
+            onChange={e =>
+              e.target.value && setRange(startDate, e.target.value)
+            }
+            className='px-2 py-1 border border-gray-300 rounded-md'
+            aria-label='Last day'
+          />
+          <button
+            onClick={() => window.print()}
+            disabled={loading || !book || book.entryCount === 0}
+            className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50'
+          >
+            🖨️ Print or Save as PDF
+          </button>
+          {loading && <Spinner size='sm' />}
+        </div>
+        {error && <p className='mt-4 text-sm text-red-600'>{error}</p>}
+        {book && !loading && book.entryCount === 0 && !error && (
+          <p className='mt-4 text-gray-500'>No entries in this range.</p>
+        )}
+      </div>
+
+      {book && !loading && !error && book.entryCount > 0 && (
+        <>
+          {/* Cover */}
+          <section className='book-page book-cover flex flex-col items-center justify-center text-center'>
+            <h1 className='text-5xl font-serif text-gray-900 mb-6'>Journal</h1>
+            <p className='text-xl text-gray-700'>
+              {format(parseAPIDate(startDate), 'MMMM d, yyyy')} –{' '}
+              {format(parseAPIDate(endDate), 'MMMM d, yyyy')}
+            </p>
+            <p className='mt-2 text-gray-500'>
+              {book.entryCount} {book.entryCount === 1 ? 'entry' : 'entries'}
+            </p>
+          </section>
+
+          {/* Table of contents */}
+          <section className='book-page'>
+            <h2 className='text-3xl font-serif text-gray-900 mb-6'>Contents</h2>
+            <ol className='space-y-3'>
+              {book.months.map(month => (
+                <li key={month.month}>
+                  <a
+                    href={`#month-${month.month}`}
+                    className='flex justify-between text-lg text-gray-800'
+                  >
+                    <span>{formatMonth(month.month)}</span>
+                    <span className='text-gray-500'>
+                      {month.entries.length}{' '}
+                      {month.entries.length === 1 ? 'entry' : 'entries'}
+                    </span>
+                  </a>
+                  <div className='text-sm text-gray-500'>
+                    {month.entries.map((entry, index) => (
+                      <React.Fragment key={entry.date}>
+                        {index > 0 && ' · '}
+                        <a href={`#entry-${entry.date}`}>
+                          {format(parseAPIDate(entry.date), 'd')}
+                        </a>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </section>
+
+          {book.months.map(month => (
+            <React.Fragment key={month.month}>
+              {/* Month opener with goals and habits */}
+              <section id={`month-${month.month}`} className='book-page'>
+                <h2 className='text-4xl font-serif text-gray-900 mb-8'>
+                  {formatMonth(month.month)}
+                </h2>
+                {month.goals.map(section => (
+                  <BookSection
+                    key={section.id}
+                    section={section}
+                    date={`${month.month}-01`}
+                  />
+                ))}
+                {book.habits.length > 0 && (
+                  <div className='mt-6'>
+                    <h3 className='text-xs font-semibold uppercase tracking-wide text-gray-500 mb-3'>
+                      Habits
+                    </h3>
+                    <div className='grid grid-cols-2 gap-6'>
+                      {book.habits.map(habit => (
+                        <HabitHeatmap
+                          key={habit.id}
+                          habit={habit}
+                          month={month.month}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </section>
+
+              {month.entries.map(entry => (
+                <section
+                  key={entry.date}
+                  id={`entry-${entry.date}`}
+                  className='book-page'
+                >
+                  <h2 className='text-2xl font-serif text-gray-900 mb-6 pb-2 border-b border-gray-200'>
+                    {format(parseAPIDate(entry.date), 'EEEE, MMMM d, yyyy')}
+                  </h2>
+                  {entry.sections.map(section => (
+                    <BookSection
+                      key={section.id}
+                      section={section}
+                      date={entry.date}
+                    />
+                  ))}
+                </section>
+              ))}
+            </React.Fragment>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PrintPage;
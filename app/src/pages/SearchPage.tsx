@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  searchService,
+  SearchFilters,
+  SearchResult,
+} from '../services/searchService';
+import { sectionRegistry } from '../components/sections/registry';
+import { parseAPIDate } from '../utils/dates';
+import { format } from 'date-fns';
+import { logger } from '../utils/logger';
+import { Spinner } from '../components/ui';
+
+const formatResultDate = (result: SearchResult): string => {
+  switch (result.timeframeType) {
+    case 'persistent':
+      return 'All entries';
+    case 'weekly':
+      return `Week of ${format(parseAPIDate(result.timeframeStart), 'MMM d, yyyy')}`;
+    case 'monthly':
+      return format(parseAPIDate(result.timeframeStart), 'MMMM yyyy');
+    default:
+      return format(parseAPIDate(result.timeframeStart), 'EEEE, MMM d, yyyy');
+  }
+};
+
+const SearchPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const [input, setInput] = useState(query);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [contentTypes, setContentTypes] = useState<string[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  // Re-run the search when sections change while the page is open
+  useEffect(
+    () => searchService.subscribe(() => setIndexVersion(v => v + 1)),
+    []
+  );
+
+  // Keep the query in the URL so back navigation returns to the results
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (input !== query) {
+        setSearchParams(input ? { q: input } : {}, { replace: true });
+      }
+    }, 200);
+    return () => clearTimeout(timeout);
+  }, [input, query, setSearchParams]);
+
+  const runSearch = useCallback(async () => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const filters: SearchFilters = {
+        from: from || undefined,
+        to: to || undefined,
+        contentTypes,
+      };
+      setResults(await searchService.search(query, filters));
+      setError(null);
+    } catch (err) {
+      logger.error('Search failed:', err);
+      setError('Search failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [query, from, to, contentTypes]);
+
+  useEffect(() => {
+    runSearch();
+  }, [runSearch, indexVersion]);
+
+  const toggleContentType = (type: string) =>
+    setContentTypes(current =>
+      current.indexOf(type) === -1
+        ? [...current, type]
+        : current.filter(t => t !== type)
+    );
+
+  const openResult = (result: SearchResult) => {
+    navigate(result.date ? `/?date=${result.date}` : '/');
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <div className='max-w-4xl mx-auto p-6'>
+        {/* Header */}
+        <div className='mb-6'>
+          <button
+            onClick={() => navigate('/')}
+            className='mb-4 px-4 py-2 text-gray-600 hover:text-gray-800 flex items-center gap-2'
+          >
+            ← Back to Journal
+          </button>
+          <h1 className='text-3xl font-bold text-gray-800'>Search</h1>
+        </div>
+
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6 space-y-4'>
+          <input
+            type='search'
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            placeholder='Search all entries...'
+            autoFocus
+            className='w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+          />
+
+          <div className='flex flex-wrap items-end gap-4'>
+            <label className='text-sm text-gray-700'>
+              From
+              <input
+                type='date'
+                value={from}
+                onChange={e => setFrom(e.target.value)}
+                className='block mt-1 px-2 py-1 border border-gray-300 rounded'
+              />
+            </label>
+            <label className='text-sm text-gray-700'>
+              To
+              <input
+                type='date'
+                value={to}
+                onChange={e => setTo(e.target.value)}
+                className='block mt-1 px-2 py-1 border border-gray-300 rounded'
+              />
+            </label>
+            <div className='flex flex-wrap gap-2'>
+              {sectionRegistry.getAllTypes().map(type => (
+                <button
+                  key={type.value}
+                  onClick={() => toggleContentType(type.value)}
+                  className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                    contentTypes.indexOf(type.value) !== -1
+                      ? 'bg-blue-100 border-blue-300 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className='bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700'>
+            {error}
+          </div>
+        )}
+
+        {loading && results.length === 0 ? (
+          <div className='flex items-center justify-center py-12 space-x-2 text-gray-500'>
+            <Spinner size='sm' />
+            <span>Searching...</span>
+          </div>
+        ) : !query.trim() ? (
+          <div className='text-center py-12 text-gray-500'>
+            Type to search text, todos, goals and habits across every entry.
+          </div>
+        ) : results.length === 0 ? (
+          <div className='text-center py-12 text-gray-500'>
+            No entries match "{query}".
+          </div>
+        ) : (
+          <div className='space-y-3'>
+            <p className='text-sm text-gray-500'>
+              {results.length} result{results.length === 1 ? '' : 's'}
+            </p>
+            {results.map(result => (
+              <button
+                key={result.sectionId}
+                onClick={() => openResult(result)}
+                className='w-full text-left bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:border-blue-300 transition-colors'
+              >
+                <div className='flex items-center justify-between mb-1'>
+                  <span className='font-medium text-gray-800'>
+                    {result.templateTitle}
+                  </span>
+                  <span className='text-sm text-gray-500'>
+                    {formatResultDate(result)}
+                  </span>
+                </div>
+                <p className='text-sm text-gray-600 break-words'>
+                  {result.snippet.map((part, index) =>
+                    part.match ? (
+                      <mark
+                        key={index}
+                        className='bg-yellow-200 text-gray-900 rounded px-0.5'
+                      >
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPage;
@@ -1,11 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { CloudSyncSettings } from '../components/CloudSyncSettings';
 import { BackupRestoreSettings } from '../components/BackupRestoreSettings';
 import { ApiKeySettings } from '../components/ApiKeySettings';
+import { RevisionHistorySettings } from '../components/RevisionHistorySettings';
+import { VaultSettings } from '../components/VaultSettings';
+import { ArchiveSettings } from '../components/ArchiveSettings';
+import { JournalImportDialog } from '../components/JournalImportDialog';
 
 const SettingsPage: React.FC = () => {
   const navigate = useNavigate();
+  const [showImport, setShowImport] = useState(false);
 
   return (
     <div className='min-h-screen bg-gray-50'>
@@ -36,6 +41,53 @@ const SettingsPage: React.FC = () => {
           <BackupRestoreSettings />
         </div>
 
+        {/* Archive File */}
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+          <ArchiveSettings />
+        </div>
+
+        {/* Obsidian & Logseq Vault */}
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+          <VaultSettings />
+        </div>
+
+        {/* Import from other journal apps */}
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+          <h3 className='text-lg font-semibold text-gray-800 mb-2'>
+            Import from Other Apps
+          </h3>
+          <p className='text-gray-600 mb-4'>
+            Brings in Day One exports, JSON or CSV files of dated entries and
+            plain text journals, with a preview before anything is saved.
+          </p>
+          <button
+            onClick={() => setShowImport(true)}
+            className='px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors'
+          >
+            📥 Import a Journal
+          </button>
+        </div>
+
+        {/* Section History Settings */}
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+          <RevisionHistorySettings />
+        </div>
+
+        {/* Trash */}
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+          <h3 className='text-lg font-semibold text-gray-800 mb-2'>Trash</h3>
+          <p className='text-gray-600 mb-4'>
+            Deleted entries and template sections stay in the trash until they
+            are purged, so you can restore them.
+          </p>
+          <button
+            onClick={() => navigate('/trash')}
+            className='px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors'
+          >
+            🗑️ Open Trash
+          </button>
+        </div>
+
         {/* Development Tools (only in development mode) */}
         {process.env.NODE_ENV === 'development' && (
           <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
@@ -106,6 +158,10 @@ const SettingsPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {showImport && (
+        <JournalImportDialog onClose={() => setShowImport(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import database from '../database/watermelon/database';
+import { EntryTag as EntryTagModel } from '../database/watermelon/models';
+import { tagService, TagMention, TagSummary } from '../services/tagService';
+import { parseAPIDate } from '../utils/dates';
+import { logger } from '../utils/logger';
+import { Spinner } from '../components/ui';
+
+const formatMentionDate = (mention: TagMention): string => {
+  if (mention.timeframeStart) {
+    switch (mention.timeframeType) {
+      case 'weekly':
+        return `Week of ${format(parseAPIDate(mention.timeframeStart), 'MMM d, yyyy')}`;
+      case 'monthly':
+        return format(parseAPIDate(mention.timeframeStart), 'MMMM yyyy');
+    }
+  }
+  return format(parseAPIDate(mention.date), 'EEEE, MMM d, yyyy');
+};
+
+const MAX_LISTED_DAYS = 7;
+
+// Days a shared section shows on, oldest first
+const formatMentionDays = (dates: string[]): string => {
+  const days = dates
+    .slice()
+    .reverse()
+    .slice(0, MAX_LISTED_DAYS)
+    .map(date => format(parseAPIDate(date), 'MMM d'));
+  const more = dates.length - days.length;
+  return `On ${days.join(', ')}${more > 0 ? ` and ${more} more days` : ''}`;
+};
+
+const TagsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedTag = searchParams.get('tag') || '';
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [mentions, setMentions] = useState<TagMention[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const subscription = database.collections
+      .get<EntryTagModel>('entry_tags')
+      .changes.subscribe(() => setRefreshKey(key => key + 1));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      tagService.getAllTags(),
+      selectedTag ? tagService.getTagMentions(selectedTag) : [],
+    ])
+      .then(([allTags, tagMentions]) => {
+        if (!cancelled) {
+          setTags(allTags);
+          setMentions(tagMentions);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        logger.error('Failed to load tags:', err);
+        if (!cancelled) {
+          setError('Failed to load tags. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTag, refreshKey]);
+
+  const selectTag = (name: string) =>
+    setSearchParams(name === selectedTag ? {} : { tag: name });
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <div className='max-w-4xl mx-auto p-6'>
+        {/* Header */}
+        <div className='mb-6'>
+          <button
+            onClick={() => navigate('/')}
+            className='mb-4 px-4 py-2 text-gray-600 hover:text-gray-800 flex items-center gap-2'
+          >
+            ← Back to Journal
+          </button>
+          <div className='flex items-center gap-3'>
+            <h1 className='text-3xl font-bold text-gray-800'>
+              {selectedTag ? `#${selectedTag}` : 'Tags'}
+            </h1>
+            {loading && <Spinner size='sm' />}
+          </div>
+        </div>
+
+        {error && (
+          <div className='bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700'>
+            {error}
+          </div>
+        )}
+
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+          {tags.length === 0 && !loading ? (
+            <p className='text-gray-500'>
+              No tags yet. Write a #hashtag in any section or add a tag to a
+              day's entry.
+            </p>
+          ) : (
+            <div className='flex flex-wrap gap-2'>
+              {tags.map(tag => (
+                <button
+                  key={tag.id}
+                  onClick={() => selectTag(tag.name)}
+                  className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                    tag.name === selectedTag
+                      ? 'bg-blue-100 border-blue-300 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  #{tag.name}
+                  <span className='ml-1 text-gray-400'>{tag.count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {selectedTag && !loading && mentions.length === 0 && (
+          <div className='text-center py-12 text-gray-500'>
+            Nothing is tagged #{selectedTag}.
+          </div>
+        )}
+
+        {mentions.length > 0 && (
+          <div className='space-y-3'>
+            <p className='text-sm text-gray-500'>
+              {mentions.length} mention{mentions.length === 1 ? '' : 's'}
+            </p>
+            {mentions.map(mention => (
+              <button
+                key={mention.id}
+                onClick={() => navigate(`/?date=${mention.date}`)}
+                className='w-full text-left bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:border-blue-300 transition-colors'
+              >
+                <div className='flex items-center justify-between mb-1'>
+                  <span className='font-medium text-gray-800'>
+                    {mention.manual ? 'Tagged entry' : mention.templateTitle}
+                  </span>
+                  <span className='text-sm text-gray-500'>
+                    {formatMentionDate(mention)}
+                  </span>
+                </div>
+                {mention.dates.length > 1 && (
+                  <p className='text-xs text-gray-500 mb-1'>
+                    {formatMentionDays(mention.dates)}
+                  </p>
+                )}
+                {mention.excerpts.map((excerpt, index) => (
+                  <p key={index} className='text-sm text-gray-600 break-words'>
+                    {excerpt}
+                  </p>
+                ))}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagsPage;
@@ -1,23 +1,52 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Column, SectionWithContent } from '../services/api';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Column, SectionWithContent, Template } from '../services/api';
 import TemplateEditLayout from '../components/template/TemplateEditLayout';
+import TemplateSwitcher from '../components/template/TemplateSwitcher';
+import TemplateGallery from '../components/template/TemplateGallery';
+import { TEMPLATE_PRESETS } from '../components/template/templatePresets';
 import { TemplateEditModeProvider } from '../contexts/EditModeContext';
 import { localApiService } from '../services/localApi';
+import {
+  templateFileService,
+  TemplateFile,
+  TemplateImportMode,
+  TEMPLATE_FILE_EXTENSION,
+} from '../services/templateFileService';
+import { downloadFile } from '../utils/fileDownload';
 import { logger } from '../utils/logger';
+import { DEFAULT_TEMPLATE_ID } from '../utils/templateRules';
 
 const TemplateManagementPage: React.FC = () => {
   const [columns, setColumns] = useState<Column[]>([]);
   const [sections, setSections] = useState<SectionWithContent[]>([]);
+  const [namedTemplates, setNamedTemplates] = useState<Template[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [gallery, setGallery] = useState<{
+    title: string;
+    files: TemplateFile[];
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedTemplateId =
+    searchParams.get('template') || DEFAULT_TEMPLATE_ID;
+
+  const loadNamedTemplates = useCallback(async () => {
+    try {
+      setNamedTemplates(await localApiService.fetchNamedTemplates());
+    } catch (err) {
+      logger.error('Failed to load named templates:', err);
+    }
+  }, []);
 
   // Load templates
-  const loadTemplates = async () => {
+  const loadTemplates = useCallback(async () => {
     setIsLoading(true);
     try {
-      const templateConfig = await localApiService.fetchTemplates();
+      const templateConfig =
+        await localApiService.fetchTemplates(selectedTemplateId);
       setColumns(
         templateConfig.columns.sort(
           (a: Column, b: Column) => a.display_order - b.display_order
@@ -44,11 +73,65 @@ const TemplateManagementPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [selectedTemplateId]);
+
+  useEffect(() => {
+    loadNamedTemplates();
+  }, [loadNamedTemplates]);
 
   useEffect(() => {
     loadTemplates();
-  }, []);
+  }, [loadTemplates]);
+
+  const selectTemplate = (id: string) =>
+    setSearchParams(id === DEFAULT_TEMPLATE_ID ? {} : { template: id });
+
+  const handleExport = async () => {
+    try {
+      const file = await templateFileService.exportTemplate(selectedTemplateId);
+      downloadFile(
+        templateFileService.getFileName(file),
+        templateFileService.serialize(file),
+        'application/json'
+      );
+    } catch (err) {
+      setError('Failed to export template.');
+      logger.error(err);
+    }
+  };
+
+  const handleFileSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const selectedFile = event.target.files?.[0];
+    event.target.value = '';
+    if (!selectedFile) return;
+
+    const { file, errors } = templateFileService.parse(
+      await selectedFile.text()
+    );
+    if (!file) {
+      setError(`Cannot import ${selectedFile.name}: ${errors.join('; ')}`);
+      return;
+    }
+    setError(null);
+    setGallery({ title: 'Import Template', files: [file] });
+  };
+
+  const handleImport = async (file: TemplateFile, mode: TemplateImportMode) => {
+    try {
+      await templateFileService.importTemplate(selectedTemplateId, file, mode);
+      setGallery(null);
+      await loadTemplates();
+    } catch (err) {
+      setError('Failed to import template.');
+      logger.error(err);
+    }
+  };
+
+  const selectedTemplateName =
+    namedTemplates.find(template => template.id === selectedTemplateId)?.name ||
+    'this template';
 
   // Dummy content change handler (not used in template editing)
   const handleContentChange = (sectionId: string, content: string) => {
@@ -65,7 +148,7 @@ const TemplateManagementPage: React.FC = () => {
   }
 
   return (
-    <TemplateEditModeProvider>
+    <TemplateEditModeProvider templateId={selectedTemplateId}>
       <div className='min-h-screen bg-gray-50'>
         {/* Header */}
         <header className='bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-20'>
@@ -73,15 +156,54 @@ const TemplateManagementPage: React.FC = () => {
             <h1 className='text-2xl font-bold text-gray-900'>
               Template Management
             </h1>
-            <button
-              onClick={() => navigate('/')}
-              className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700'
-            >
-              Back to Journal
-            </button>
+            <div className='flex items-center gap-2'>
+              <button
+                onClick={() =>
+                  setGallery({
+                    title: 'Template Gallery',
+                    files: TEMPLATE_PRESETS,
+                  })
+                }
+                className='px-3 py-2 text-gray-700 rounded-md hover:bg-gray-100'
+              >
+                Gallery
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className='px-3 py-2 text-gray-700 rounded-md hover:bg-gray-100'
+              >
+                Import
+              </button>
+              <button
+                onClick={handleExport}
+                className='px-3 py-2 text-gray-700 rounded-md hover:bg-gray-100'
+              >
+                Export
+              </button>
+              <input
+                ref={fileInputRef}
+                type='file'
+                accept={`${TEMPLATE_FILE_EXTENSION},.json,application/json`}
+                onChange={handleFileSelected}
+                className='hidden'
+              />
+              <button
+                onClick={() => navigate('/')}
+                className='px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700'
+              >
+                Back to Journal
+              </button>
+            </div>
           </div>
         </header>
 
+        <TemplateSwitcher
+          templates={namedTemplates}
+          selectedId={selectedTemplateId}
+          onSelect={selectTemplate}
+          onTemplatesChange={loadNamedTemplates}
+        />
+
         {error && (
           <div className='mx-4 mt-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded'>
             {error}
@@ -95,6 +217,16 @@ const TemplateManagementPage: React.FC = () => {
           onContentChange={handleContentChange}
           onTemplateChange={loadTemplates}
         />
+
+        {gallery && (
+          <TemplateGallery
+            title={gallery.title}
+            files={gallery.files}
+            targetName={selectedTemplateName}
+            onImport={handleImport}
+            onClose={() => setGallery(null)}
+          />
+        )}
       </div>
     </TemplateEditModeProvider>
   );
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { trashService, TrashContents } from '../services/trashService';
+import { parseAPIDate } from '../utils/dates';
+import { logger } from '../utils/logger';
+import { Spinner } from '../components/ui';
+
+const RETENTION_OPTIONS = [7, 30, 90, 365, 0];
+
+const TrashPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [trash, setTrash] = useState<TrashContents>({
+    entries: [],
+    templateSections: [],
+  });
+  const [retentionDays, setRetentionDays] = useState(
+    () => trashService.getSettings().retentionDays
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      await trashService.purgeExpired();
+      setTrash(await trashService.getTrash());
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load trash:', err);
+      setError('Failed to load trash. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (err) {
+      logger.error(`${failure}:`, err);
+      setError(`${failure}. Please try again.`);
+    }
+    await loadTrash();
+  };
+
+  const handlePurgeEntry = (date: string) => {
+    if (
+      window.confirm(
+        `Delete the entry of ${format(parseAPIDate(date), 'MMMM d, yyyy')} forever? This cannot be undone.`
+      )
+    ) {
+      runAction(() => trashService.purgeEntry(date), 'Failed to delete entry');
+    }
+  };
+
+  const handlePurgeTemplateSection = (id: string, title: string) => {
+    if (
+      window.confirm(
+        `Delete "${title}" forever? Everything written in it on any day is deleted too. This cannot be undone.`
+      )
+    ) {
+      runAction(
+        () => trashService.purgeTemplateSection(id),
+        'Failed to delete section'
+      );
+    }
+  };
+
+  const handleRetentionChange = (days: number) => {
+    setRetentionDays(days);
+    runAction(
+      () => trashService.updateSettings({ retentionDays: days }),
+      'Failed to save trash settings'
+    );
+  };
+
+  const isEmpty =
+    trash.entries.length === 0 && trash.templateSections.length === 0;
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <div className='max-w-4xl mx-auto p-6'>
+        {/* Header */}
+        <div className='mb-6'>
+          <button
+            onClick={() => navigate('/')}
+            className='mb-4 px-4 py-2 text-gray-600 hover:text-gray-800 flex items-center gap-2'
+          >
+            ← Back to Journal
+          </button>
+          <div className='flex items-center gap-3'>
+            <h1 className='text-3xl font-bold text-gray-800'>Trash</h1>
+            {loading && <Spinner size='sm' />}
+          </div>
+        </div>
+
+        {error && (
+          <div className='bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700'>
+            {error}
+          </div>
+        )}
+
+        <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+          <label className='text-sm text-gray-700'>
+            Delete items in the trash forever after
+            <select
+              value={retentionDays}
+              onChange={e => handleRetentionChange(parseInt(e.target.value))}
+              className='ml-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              {RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>
+                  {days === 0 ? 'never' : `${days} days`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {isEmpty && !loading && (
+          <div className='text-center py-12 text-gray-500'>
+            The trash is empty.
+          </div>
+        )}
+
+        {trash.templateSections.length > 0 && (
+          <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+            <h3 className='text-lg font-semibold text-gray-800 mb-2'>
+              Template Sections
+            </h3>
+            <p className='text-gray-600 mb-4'>
+              New entries no longer show these sections. Past entries still show
+              what was written in them, read-only.
+            </p>
+            <ul className='divide-y divide-gray-100'>
+              {trash.templateSections.map(template => (
+                <li
+                  key={template.id}
+                  className='flex items-center justify-between py-3'
+                >
+                  <div>
+                    <div className='font-medium text-gray-800'>
+                      {template.title}
+                    </div>
+                    <div className='text-sm text-gray-500'>
+                      {template.contentType} · deleted{' '}
+                      {format(template.deletedAt, 'MMM d, yyyy')}
+                    </div>
+                  </div>
+                  <div className='flex items-center gap-2'>
+                    <button
+                      onClick={() =>
+                        runAction(
+                          () =>
+                            trashService.restoreTemplateSection(template.id),
+                          'Failed to restore section'
+                        )
+                      }
+                      className='px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors'
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() =>
+                        handlePurgeTemplateSection(template.id, template.title)
+                      }
+                      className='px-3 py-1 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors'
+                    >
+                      Delete Forever
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {trash.entries.length > 0 && (
+          <div className='bg-white rounded-lg shadow-md p-6 mb-6'>
+            <h3 className='text-lg font-semibold text-gray-800 mb-2'>
+              Entries
+            </h3>
+            <ul className='divide-y divide-gray-100'>
+              {trash.entries.map(entry => (
+                <li
+                  key={entry.date}
+                  className='flex items-center justify-between py-3'
+                >
+                  <div>
+                    <button
+                      onClick={() => navigate(`/?date=${entry.date}`)}
+                      className='font-medium text-gray-800 hover:text-blue-600'
+                    >
+                      {format(parseAPIDate(entry.date), 'EEEE, MMM d, yyyy')}
+                    </button>
+                    <div className='text-sm text-gray-500'>
+                      deleted {format(entry.deletedAt, 'MMM d, yyyy')}
+                    </div>
+                  </div>
+                  <div className='flex items-center gap-2'>
+                    <button
+                      onClick={() =>
+                        runAction(
+                          () => trashService.restoreEntry(entry.date),
+                          'Failed to restore entry'
+                        )
+                      }
+                      className='px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors'
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handlePurgeEntry(entry.date)}
+                      className='px-3 py-1 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors'
+                    >
+                      Delete Forever
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashPage;
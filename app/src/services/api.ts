@@ -6,6 +6,9 @@ export interface SectionData {
   display_order?: number;
   default_content?: string;
   content_type?: string;
+  // Template is in the trash or not in the day's template: shown
+  // read-only and never saved
+  archived?: boolean;
 }
 
 export interface SectionDataMap {
@@ -15,6 +18,25 @@ export interface SectionDataMap {
 export interface JournalEntry {
   date: string;
   sections: SectionDataMap;
+  // Set while the entry is in the trash (ms since epoch)
+  deleted_at?: number;
+  // Template the entry is shown with
+  template_id?: string;
+  // The template was chosen by hand rather than by the rules
+  template_pinned?: boolean;
+  // Set when the entry is shown with an earlier version of its template
+  template_version_id?: string;
+  template_version?: number;
+}
+
+// A named layout of columns and sections
+export interface Template {
+  id: string;
+  name: string;
+  weekdays: number[]; // 0 = Sunday
+  range_start?: string | null; // YYYY-MM-DD
+  range_end?: string | null;
+  display_order: number;
 }
 
 export interface Column {
@@ -34,6 +56,7 @@ export interface SectionTemplate {
   content_type: string;
   configuration: string;
   column_id?: string;
+  archived?: boolean;
 }
 
 export interface SectionWithContent extends SectionTemplate {
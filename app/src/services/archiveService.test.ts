@@ -0,0 +1,78 @@
+import { archiveService } from './archiveService';
+import { appendChecksum } from '../database/watermelon/exportVerification';
+import { schema } from '../database/watermelon/schema';
+import { gzip } from '../utils/compression';
+
+// Reading an archive never touches the database or sync
+jest.mock('../database/watermelon/database', () => ({
+  databaseCompatibility: {},
+}));
+jest.mock('./backupManager', () => ({ backupManager: {} }));
+jest.mock('./changesetSyncService', () => ({ changesetSyncService: {} }));
+jest.mock('./reactiveDataService', () => ({ reactiveDataService: {} }));
+jest.mock('./syncMergeService', () => ({ syncMergeService: {} }));
+jest.mock('./unifiedSyncService', () => ({ unifiedSyncService: {} }));
+
+const EXPORTED_AT = Date.UTC(2025, 0, 2);
+
+async function makeArchive(): Promise<Uint8Array> {
+  const exported = new TextEncoder().encode(
+    JSON.stringify({
+      version: 1,
+      schemaVersion: schema.version,
+      timestamp: EXPORTED_AT,
+      collections: {},
+    })
+  );
+  const body = await gzip(await appendChecksum(exported));
+  const magic = new TextEncoder().encode('JAJAARC');
+  const archive = new Uint8Array(magic.length + 1 + body.length);
+  archive.set(magic, 0);
+  archive[magic.length] = 1;
+  archive.set(body, magic.length + 1);
+  return archive;
+}
+
+describe('archiveService.readArchive', () => {
+  it('reads an archive', async () => {
+    const contents = await archiveService.readArchive(await makeArchive());
+
+    expect(contents.verification.valid).toBe(true);
+    expect(contents.verification.hasChecksum).toBe(true);
+    expect(contents.schemaVersion).toBe(schema.version);
+    expect(contents.exportedAt?.getTime()).toBe(EXPORTED_AT);
+  });
+
+  it('rejects a truncated archive', async () => {
+    const archive = await makeArchive();
+
+    await expect(
+      archiveService.readArchive(archive.subarray(0, archive.length - 20))
+    ).rejects.toThrow();
+  });
+
+  it('fails verification when the content was changed', async () => {
+    const exported = new TextEncoder().encode(
+      JSON.stringify({ version: 1, collections: {} })
+    );
+    const checked = await appendChecksum(exported);
+    // Same length, different content
+    checked[checked.length - 70] = '{'.charCodeAt(0);
+
+    const contents = await archiveService.readArchive(await gzip(checked));
+
+    expect(contents.verification.valid).toBe(false);
+    expect(contents.verification.errors).toEqual([
+      'Checksum mismatch - the data is corrupted',
+    ]);
+  });
+
+  it('refuses archives from a newer app version', async () => {
+    const archive = await makeArchive();
+    archive[7] = 2;
+
+    await expect(archiveService.readArchive(archive)).rejects.toThrow(
+      'This archive was made by a newer version of the app'
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import { databaseCompatibility } from '../database/watermelon/database';
+import {
+  appendChecksum,
+  ExportVerification,
+  verifyExport,
+} from '../database/watermelon/exportVerification';
+import { upgradeExport } from '../database/watermelon/exportUpgrade';
+import { schema } from '../database/watermelon/schema';
+import { SectionChoice } from '../types/cloudStorage';
+import { backupManager } from './backupManager';
+import {
+  changesetSyncService,
+  RecordMap,
+  sanitizeRaw,
+} from './changesetSyncService';
+import { EncryptionError, encryptionService } from './encryptionService';
+import { reactiveDataService } from './reactiveDataService';
+import { syncMergeService } from './syncMergeService';
+import { unifiedSyncService } from './unifiedSyncService';
+import { gunzip, gzip, isGzip } from '../utils/compression';
+import { logger } from '../utils/logger';
+
+/**
+ * `.jaja` archives: the whole database in a file, to move it between
+ * browsers and machines without a cloud account.
+ *
+ *   "JAJAARC" | format version (1 byte) | body
+ *
+ * The body is the database export with its checksum, gzipped and, when a
+ * passphrase is given, wrapped in the encryption envelope. Backup files
+ * and bare exports are read too. Exports from older schema versions are
+ * upgraded on import.
+ */
+
+export const ARCHIVE_EXTENSION = '.jaja';
+const MAGIC = new TextEncoder().encode('JAJAARC');
+const ARCHIVE_FORMAT_VERSION = 1;
+
+export type ArchiveImportMode = 'merge' | 'replace';
+
+export interface ArchiveContents {
+  verification: ExportVerification;
+  schemaVersion: number | null; // Of the app version that wrote it
+  exportedAt: Date | null;
+}
+
+export interface ArchiveMergeResult {
+  // Sections of the archive this device did not have
+  sectionsAdded: number;
+  // Sections both have with different content, settled by the choice
+  sectionsDiffering: number;
+}
+
+function hasMagic(data: Uint8Array): boolean {
+  return (
+    data.length > MAGIC.length &&
+    MAGIC.every((byte, index) => data[index] === byte)
+  );
+}
+
+class ArchiveService {
+  getFileName(date: Date = new Date()): string {
+    return `jaja-${date.toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`;
+  }
+
+  async exportArchive(passphrase?: string): Promise<Uint8Array> {
+    const exported = await databaseCompatibility.exportDatabaseAsync();
+    let body = await gzip(await appendChecksum(exported));
+    if (passphrase) {
+      body = await encryptionService.encryptWithPassphrase(body, passphrase);
+    }
+
+    const archive = new Uint8Array(MAGIC.length + 1 + body.length);
+    archive.set(MAGIC, 0);
+    archive[MAGIC.length] = ARCHIVE_FORMAT_VERSION;
+    archive.set(body, MAGIC.length + 1);
+
+    logger.log(
+      `ARCHIVE: Exported ${archive.length} bytes${passphrase ? ', encrypted' : ''}`
+    );
+    return archive;
+  }
+
+  isEncrypted(data: Uint8Array): boolean {
+    return encryptionService.isEncrypted(this.getBody(data));
+  }
+
+  // Unpacks and verifies an archive without changing anything
+  async readArchive(
+    data: Uint8Array,
+    passphrase?: string
+  ): Promise<ArchiveContents> {
+    if (hasMagic(data) && data[MAGIC.length] > ARCHIVE_FORMAT_VERSION) {
+      throw new Error('This archive was made by a newer version of the app');
+    }
+
+    let body = this.getBody(data);
+    if (encryptionService.isEncrypted(body)) {
+      if (!passphrase) {
+        throw new EncryptionError(
+          'This archive is encrypted - enter its passphrase',
+          'passphrase-required'
+        );
+      }
+      body = await encryptionService.decryptWithPassphrase(body, passphrase);
+    }
+    if (isGzip(body)) {
+      body = await gunzip(body);
+    }
+
+    const verification = await verifyExport(body);
+    let schemaVersion: number | null = null;
+    let exportedAt: Date | null = null;
+    if (verification.valid) {
+      const exportData = JSON.parse(
+        new TextDecoder().decode(verification.payload)
+      );
+      schemaVersion =
+        typeof exportData.schemaVersion === 'number'
+          ? exportData.schemaVersion
+          : null;
+      exportedAt =
+        typeof exportData.timestamp === 'number'
+          ? new Date(exportData.timestamp)
+          : null;
+    }
+    return { verification, schemaVersion, exportedAt };
+  }
+
+  isOlderSchema(contents: ArchiveContents): boolean {
+    return (contents.schemaVersion ?? 1) < schema.version;
+  }
+
+  /**
+   * Replacing backs up the current data first and reloads the page, like
+   * restoring a backup. Merging adds what this device lacks; sections both
+   * have with different content keep this device's or take the archive's.
+   */
+  async importArchive(
+    contents: ArchiveContents,
+    mode: ArchiveImportMode,
+    differingSections: SectionChoice = 'local'
+  ): Promise<ArchiveMergeResult | null> {
+    const { verification } = contents;
+    if (!verification.valid) {
+      throw new Error(
+        `Archive failed verification: ${verification.errors.join('; ')}`
+      );
+    }
+
+    if (mode === 'replace') {
+      await backupManager.restoreFromExport(verification.payload);
+      return null;
+    }
+
+    unifiedSyncService.pauseSync();
+    try {
+      return await this.mergeExport(verification.payload, differingSections);
+    } finally {
+      unifiedSyncService.resumeSync();
+    }
+  }
+
+  private getBody(data: Uint8Array): Uint8Array {
+    return hasMagic(data) ? data.subarray(MAGIC.length + 1) : data;
+  }
+
+  // Merges like a device joining cloud data for the first time
+  private async mergeExport(
+    payload: Uint8Array,
+    differingSections: SectionChoice
+  ): Promise<ArchiveMergeResult> {
+    const exportData = upgradeExport(
+      JSON.parse(new TextDecoder().decode(payload))
+    );
+    const archived: RecordMap = {};
+    Object.keys(schema.tables).forEach(table => {
+      archived[table] = {};
+      (exportData.collections[table] || []).forEach((raw: any) => {
+        // Without the sync columns the records are new to this device
+        archived[table][raw.id] = sanitizeRaw(raw);
+      });
+    });
+
+    const local = await changesetSyncService.readLocalRecords();
+    const plan = await syncMergeService.planInitialMerge(local, archived);
+    const choices: { [sectionId: string]: SectionChoice } = {};
+    plan.conflicts.forEach(conflict => {
+      choices[conflict.sectionId] = differingSections;
+    });
+    await syncMergeService.applyInitialMerge(local, archived, plan, choices);
+
+    reactiveDataService.notifyBulkChanges();
+    const result = {
+      sectionsAdded: plan.autoMergedCount,
+      sectionsDiffering: plan.conflicts.length,
+    };
+    logger.log('ARCHIVE: Merged archive', result);
+    return result;
+  }
+}
+
+export const archiveService = new ArchiveService();
@@ -0,0 +1,134 @@
+import { Section as SectionModel } from '../database/watermelon/models';
+import { extractLinkedDates, parseWikiLinks } from '../utils/wikiLinks';
+import { IndexedTemplate, SectionIndex } from './sectionIndex';
+
+export interface Backlink {
+  sectionId: string;
+  templateTitle: string;
+  timeframeType: string;
+  timeframeStart: string;
+  // Day to open; persistent sections belong to no single day
+  date: string | null;
+  // Lines of the section containing the link
+  excerpts: string[];
+}
+
+interface LinkingSection {
+  templateId: string;
+  timeframeType: string;
+  timeframeStart: string;
+  timeframeEnd: string;
+  content: string;
+  dates: string[];
+}
+
+// Only text sections hold free-form [[links]]
+const LINKING_CONTENT_TYPE = 'text';
+
+/**
+ * Index of [[YYYY-MM-DD]] links between entries, for "Linked from" panels.
+ *
+ * Keeps the text sections with links, by the dates they link to.
+ */
+export class BacklinkService extends SectionIndex {
+  protected readonly logPrefix = 'LINKS';
+  private sections = new Map<string, LinkingSection>();
+  private sectionsByDate = new Map<string, Set<string>>();
+
+  // Sections of other entries linking to a date, newest first
+  async getBacklinks(date: string): Promise<Backlink[]> {
+    await this.ready();
+
+    const backlinks: Backlink[] = [];
+    (this.sectionsByDate.get(date) || new Set<string>()).forEach(sectionId => {
+      const section = this.sections.get(sectionId);
+      const template = section && this.templates.get(section.templateId);
+      if (!section || !template) {
+        return;
+      }
+      // Sections shown on the linked day itself are not backlinks
+      if (
+        section.timeframeType !== 'persistent' &&
+        section.timeframeStart <= date &&
+        section.timeframeEnd >= date
+      ) {
+        return;
+      }
+
+      backlinks.push({
+        sectionId,
+        templateTitle: template.title,
+        timeframeType: section.timeframeType,
+        timeframeStart: section.timeframeStart,
+        date:
+          section.timeframeType === 'persistent'
+            ? null
+            : section.timeframeStart,
+        excerpts: section.content
+          .split('\n')
+          .filter(line =>
+            parseWikiLinks(line).some(part => part.target === date)
+          )
+          .map(line => line.trim()),
+      });
+    });
+
+    return backlinks.sort((a, b) =>
+      b.timeframeStart.localeCompare(a.timeframeStart)
+    );
+  }
+
+  protected addSection(
+    section: SectionModel,
+    template: IndexedTemplate
+  ): boolean {
+    if (template.contentType !== LINKING_CONTENT_TYPE) {
+      return false;
+    }
+    const dates = extractLinkedDates(section.content || '');
+    if (dates.length === 0) {
+      return false;
+    }
+
+    this.sections.set(section.id, {
+      templateId: section.type,
+      timeframeType: section.timeframeType,
+      timeframeStart: section.timeframeStart,
+      timeframeEnd: section.timeframeEnd,
+      content: section.content,
+      dates,
+    });
+    dates.forEach(date => {
+      let sectionIds = this.sectionsByDate.get(date);
+      if (!sectionIds) {
+        sectionIds = new Set();
+        this.sectionsByDate.set(date, sectionIds);
+      }
+      sectionIds.add(section.id);
+    });
+    return true;
+  }
+
+  protected dropSection(sectionId: string): void {
+    const section = this.sections.get(sectionId);
+    if (!section) {
+      return;
+    }
+    section.dates.forEach(date => {
+      const sectionIds = this.sectionsByDate.get(date);
+      if (sectionIds) {
+        sectionIds.delete(sectionId);
+        if (sectionIds.size === 0) {
+          this.sectionsByDate.delete(date);
+        }
+      }
+    });
+    this.sections.delete(sectionId);
+  }
+
+  protected describe(): string {
+    return `${this.sections.size} sections with links`;
+  }
+}
+
+export const backlinkService = new BacklinkService();
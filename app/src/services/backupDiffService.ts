@@ -0,0 +1,243 @@
+import { Q } from '@nozbe/watermelondb';
+import database from '../database/watermelon/database';
+import { claimStableId, stableIds } from '../database/watermelon/stableIds';
+import {
+  JournalEntry as JournalEntryModel,
+  Section as SectionModel,
+  SectionJournalEntry as SectionJournalEntryModel,
+  TemplateSection as TemplateSectionModel,
+} from '../database/watermelon/models';
+import { logger } from '../utils/logger';
+import type { RawRecord } from './changesetSyncService';
+import { dataChangeEmitter } from './unifiedSyncService';
+
+/**
+ * How a section changed since the backup was taken:
+ * - added: has content now, was empty or missing in the backup
+ * - removed: had content in the backup, is empty or missing now
+ * - changed: has different content in both
+ */
+export type SectionDiffStatus = 'added' | 'removed' | 'changed';
+
+export interface SectionDiff {
+  // Template and timeframe, the same in the backup and the current data
+  key: string;
+  status: SectionDiffStatus;
+  templateId: string;
+  templateTitle: string;
+  timeframeType: string;
+  timeframeStart: string;
+  timeframeEnd: string;
+  backupContent: string;
+  currentContent: string;
+}
+
+// A parsed backup (the database export format)
+export interface BackupSnapshot {
+  timestamp: number | null;
+  collections: { [table: string]: RawRecord[] };
+}
+
+function getSectionKey(raw: RawRecord): string {
+  return stableIds.section(raw.type, raw.timeframe_type, raw.timeframe_start);
+}
+
+/**
+ * Compares a backup with the current journal section by section, and
+ * restores only the sections the user picks. Everything else - including
+ * anything written after the backup - stays as it is.
+ */
+export class BackupDiffService {
+  parseSnapshot(data: Uint8Array): BackupSnapshot {
+    const parsed = JSON.parse(new TextDecoder().decode(data));
+    if (!parsed.collections) {
+      throw new Error('Invalid backup format - missing collections');
+    }
+    return {
+      timestamp: parsed.timestamp ?? null,
+      collections: parsed.collections,
+    };
+  }
+
+  // Differing sections, newest timeframe first
+  async diffSnapshot(snapshot: BackupSnapshot): Promise<SectionDiff[]> {
+    const currentSections = await database.collections
+      .get<SectionModel>('sections')
+      .query()
+      .fetch();
+    const current = new Map<string, RawRecord>();
+    currentSections.forEach(section => {
+      const raw = section._raw as unknown as RawRecord;
+      current.set(getSectionKey(raw), raw);
+    });
+
+    const backup = new Map<string, RawRecord>();
+    (snapshot.collections.sections || []).forEach(raw => {
+      backup.set(getSectionKey(raw), raw);
+    });
+
+    const titles = await this.getTemplateTitles(snapshot);
+    const keys = new Set(Array.from(current.keys()));
+    backup.forEach((_, key) => keys.add(key));
+
+    const diffs: SectionDiff[] = [];
+    keys.forEach(key => {
+      const backupRaw = backup.get(key);
+      const currentRaw = current.get(key);
+      const backupContent: string = backupRaw?.content || '';
+      const currentContent: string = currentRaw?.content || '';
+      if (backupContent === currentContent) {
+        return;
+      }
+
+      const raw = (backupRaw || currentRaw)!;
+      diffs.push({
+        key,
+        status: !backupContent
+          ? 'added'
+          : !currentContent
+            ? 'removed'
+            : 'changed',
+        templateId: raw.type,
+        templateTitle: titles.get(raw.type) || 'Deleted section',
+        timeframeType: raw.timeframe_type,
+        timeframeStart: raw.timeframe_start,
+        timeframeEnd: raw.timeframe_end,
+        backupContent,
+        currentContent,
+      });
+    });
+
+    return diffs.sort((a, b) =>
+      a.timeframeStart === b.timeframeStart
+        ? a.templateTitle.localeCompare(b.templateTitle)
+        : b.timeframeStart.localeCompare(a.timeframeStart)
+    );
+  }
+
+  /**
+   * Sets each section in `keys` back to its content in the backup. Sections
+   * missing locally are recreated and linked to the journal entries they
+   * belonged to in the backup.
+   */
+  async restoreSections(
+    snapshot: BackupSnapshot,
+    keys: string[]
+  ): Promise<number> {
+    const wanted = new Set(keys);
+    const backupSections = (snapshot.collections.sections || []).filter(raw =>
+      wanted.has(getSectionKey(raw))
+    );
+    const backupByKey = new Map<string, RawRecord>();
+    backupSections.forEach(raw => backupByKey.set(getSectionKey(raw), raw));
+
+    const sectionsCollection =
+      database.collections.get<SectionModel>('sections');
+    const currentByKey = new Map<string, SectionModel>();
+    (await sectionsCollection.query().fetch()).forEach(section => {
+      const key = getSectionKey(section._raw as unknown as RawRecord);
+      if (wanted.has(key)) {
+        currentByKey.set(key, section);
+      }
+    });
+
+    let restored = 0;
+    await database.write(async () => {
+      for (const key of keys) {
+        const backupRaw = backupByKey.get(key);
+        const current = currentByKey.get(key);
+        const content: string = backupRaw?.content || '';
+
+        if (current) {
+          if (current.content !== content) {
+            await current.update(section => {
+              section.content = content;
+            });
+            restored++;
+          }
+        } else if (backupRaw && content) {
+          const stableId = await claimStableId(sectionsCollection, key);
+          const section = await sectionsCollection.create(record => {
+            if (stableId) record._raw.id = stableId;
+            record.type = backupRaw.type;
+            record.content = content;
+            record.timeframeType = backupRaw.timeframe_type;
+            record.timeframeStart = backupRaw.timeframe_start;
+            record.timeframeEnd = backupRaw.timeframe_end;
+          });
+          await this.linkToBackupEntries(snapshot, backupRaw.id, section.id);
+          restored++;
+        }
+      }
+    });
+
+    logger.log(`BACKUP: Restored ${restored} sections from backup`);
+    if (restored > 0) {
+      dataChangeEmitter.emit();
+    }
+    return restored;
+  }
+
+  // Links a recreated section to the entries (by date) it had in the backup
+  private async linkToBackupEntries(
+    snapshot: BackupSnapshot,
+    backupSectionId: string,
+    sectionId: string
+  ): Promise<void> {
+    const backupEntryIds = new Set(
+      (snapshot.collections.section_journal_entries || [])
+        .filter(raw => raw.section_id === backupSectionId)
+        .map(raw => raw.journal_entry_id)
+    );
+    const dates = (snapshot.collections.journal_entries || [])
+      .filter(raw => backupEntryIds.has(raw.id))
+      .map(raw => raw.date as string);
+
+    const entriesCollection =
+      database.collections.get<JournalEntryModel>('journal_entries');
+    const junctionCollection =
+      database.collections.get<SectionJournalEntryModel>(
+        'section_journal_entries'
+      );
+
+    for (const date of dates) {
+      const existing = await entriesCollection
+        .query(Q.where('date', date))
+        .fetch();
+      let entry = existing[0];
+      if (!entry) {
+        const stableId = await claimStableId(
+          entriesCollection,
+          stableIds.journalEntry(date)
+        );
+        entry = await entriesCollection.create(record => {
+          if (stableId) record._raw.id = stableId;
+          record.date = date;
+        });
+      }
+      await SectionJournalEntryModel.upsert(
+        junctionCollection,
+        sectionId,
+        entry.id
+      );
+    }
+  }
+
+  // Current template titles, falling back to the ones in the backup
+  private async getTemplateTitles(
+    snapshot: BackupSnapshot
+  ): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    (snapshot.collections.template_sections || []).forEach(raw =>
+      titles.set(raw.id, raw.title)
+    );
+    const templates = await database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .query()
+      .fetch();
+    templates.forEach(template => titles.set(template.id, template.title));
+    return titles;
+  }
+}
+
+export const backupDiffService = new BackupDiffService();
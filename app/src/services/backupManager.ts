@@ -1,16 +1,104 @@
-import { CloudStorageProvider, BackupInfo } from '../types/cloudStorage';
+import {
+  CloudStorageProvider,
+  BackupInfo,
+  BackupSource,
+  BackupStore,
+  BackupSettings,
+  BackupRetentionPolicy,
+} from '../types/cloudStorage';
 import { logger } from '../utils/logger';
+import { DEFAULT_RETENTION_POLICY } from '../utils/backupRetention';
 import { databaseCompatibility } from '../database/watermelon/database';
+import {
+  appendChecksum,
+  ExportVerification,
+  verifyExport,
+} from '../database/watermelon/exportVerification';
 import { unifiedSyncService } from './unifiedSyncService';
+import { EncryptionError } from './encryptionService';
+import { useSyncStore } from '../stores/syncStore';
+import { localBackupStore } from './localBackupStore';
+import { gunzip, gzip } from '../utils/compression';
+
+export interface BackupVerificationResult {
+  backup: BackupInfo;
+  verification: ExportVerification | null;
+  // Set when the backup could not be loaded at all
+  error?: string;
+}
 
 export class BackupManager {
   private provider: CloudStorageProvider | null = null;
   private backupInterval: NodeJS.Timeout | null = null;
   private lastBackupTime: Date | null = null;
-
-  private readonly BACKUP_INTERVAL_MINUTES = 5;
-  private readonly MAX_BACKUPS = 50;
+  private lastBackupDigest: string | null = null;
+
+  private readonly SETTINGS_STORAGE_KEY = 'backupSettings';
+  private readonly DEFAULT_SETTINGS: BackupSettings = {
+    backupIntervalMinutes: 5,
+    maxBackups: DEFAULT_RETENTION_POLICY.maxBackups,
+    retention: {
+      hourly: DEFAULT_RETENTION_POLICY.hourly,
+      daily: DEFAULT_RETENTION_POLICY.daily,
+      weekly: DEFAULT_RETENTION_POLICY.weekly,
+      monthly: DEFAULT_RETENTION_POLICY.monthly,
+    },
+  };
   private readonly COMPRESSION_ENABLED = true;
+  private settings: BackupSettings = this.loadSettings();
+
+  private loadSettings(): BackupSettings {
+    const stored = localStorage.getItem(this.SETTINGS_STORAGE_KEY);
+    if (!stored) {
+      return this.DEFAULT_SETTINGS;
+    }
+    try {
+      const parsed = JSON.parse(stored) as Partial<BackupSettings>;
+      return {
+        ...this.DEFAULT_SETTINGS,
+        ...parsed,
+        retention: { ...this.DEFAULT_SETTINGS.retention, ...parsed.retention },
+      };
+    } catch (e) {
+      logger.log('BACKUP: Error parsing backup settings, using defaults');
+      localStorage.removeItem(this.SETTINGS_STORAGE_KEY);
+      return this.DEFAULT_SETTINGS;
+    }
+  }
+
+  getSettings(): BackupSettings {
+    return this.settings;
+  }
+
+  async updateSettings(settings: Partial<BackupSettings>): Promise<void> {
+    const intervalChanged =
+      settings.backupIntervalMinutes !== undefined &&
+      settings.backupIntervalMinutes !== this.settings.backupIntervalMinutes;
+
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      retention: { ...this.settings.retention, ...settings.retention },
+    };
+    localStorage.setItem(
+      this.SETTINGS_STORAGE_KEY,
+      JSON.stringify(this.settings)
+    );
+    logger.log('BACKUP: Settings updated', this.settings);
+
+    if (intervalChanged) {
+      this.startPeriodicBackup();
+    }
+    // Apply a tighter policy right away
+    await this.cleanupOldBackups();
+  }
+
+  private getRetentionPolicy(): BackupRetentionPolicy {
+    return {
+      ...this.settings.retention,
+      maxBackups: this.settings.maxBackups,
+    };
+  }
 
   setProvider(provider: CloudStorageProvider | null): void {
     logger.log(
@@ -18,19 +106,29 @@ export class BackupManager {
       provider?.name || 'null'
     );
     this.provider = provider;
+    // A new target has none of the earlier backups yet
+    this.lastBackupDigest = null;
 
-    if (provider) {
-      this.startPeriodicBackup();
-    } else {
-      this.stopPeriodicBackup();
-    }
+    // Without a provider backups go to this device, so they keep running
+    this.startPeriodicBackup();
+  }
+
+  // Backups go to the cloud when connected, otherwise to this device
+  private getTarget(): { store: BackupStore; source: BackupSource } {
+    return this.provider
+      ? { store: this.provider, source: 'cloud' }
+      : { store: localBackupStore, source: 'local' };
+  }
+
+  private getStore(source: BackupSource): BackupStore | null {
+    return source === 'local' ? localBackupStore : this.provider;
   }
 
   private startPeriodicBackup(): void {
     this.stopPeriodicBackup();
 
     logger.log(
-      `BACKUP: Starting periodic backup every ${this.BACKUP_INTERVAL_MINUTES} minutes`
+      `BACKUP: Starting periodic backup every ${this.settings.backupIntervalMinutes} minutes`
     );
 
     this.backupInterval = setInterval(
@@ -39,7 +137,7 @@ export class BackupManager {
           logger.error('BACKUP: Periodic backup failed:', error);
         });
       },
-      this.BACKUP_INTERVAL_MINUTES * 60 * 1000
+      this.settings.backupIntervalMinutes * 60 * 1000
     );
   }
 
@@ -64,13 +162,7 @@ export class BackupManager {
       );
     }
 
-    if (!this.provider) {
-      const error = 'Cannot create backup - provider not available';
-      logger.log('BACKUP:', error);
-      throw new Error(error);
-    }
-
-    if (!this.provider.isAuthenticated()) {
+    if (this.provider && !this.provider.isAuthenticated()) {
       const error = 'Cannot create backup - not authenticated';
       logger.log('BACKUP:', error);
       throw new Error(error);
@@ -85,7 +177,8 @@ export class BackupManager {
       // Skip backup if data hasn't changed (unless manual)
       if (!isManual && this.lastBackupTime) {
         const timeSinceLastBackup = Date.now() - this.lastBackupTime.getTime();
-        const minTimeBetweenBackups = 5 * 60 * 1000; // 5 minutes
+        const minTimeBetweenBackups =
+          this.settings.backupIntervalMinutes * 60 * 1000;
 
         if (timeSinceLastBackup < minTimeBetweenBackups) {
           logger.log('BACKUP: Skipping backup - too soon since last backup');
@@ -93,23 +186,35 @@ export class BackupManager {
         }
       }
 
+      // Periodic backups of unchanged data would only push out older ones
+      const digest = await this.getContentDigest(databaseData);
+      if (!isManual && digest === this.lastBackupDigest) {
+        logger.log('BACKUP: Skipping backup - no changes since last backup');
+        return;
+      }
+
+      // Checksum the export so corruption is caught before a restore
+      const checkedData = await appendChecksum(databaseData);
+
       // Compress the data if enabled
       const dataToBackup = this.COMPRESSION_ENABLED
-        ? await this.compressData(databaseData)
-        : databaseData;
+        ? await this.compressData(checkedData)
+        : checkedData;
 
       // Create backup with timestamp
+      const { store, source } = this.getTarget();
       const timestamp = new Date();
-      await this.provider.saveBackup(dataToBackup, timestamp);
+      await store.saveBackup(dataToBackup, timestamp);
 
       // Update last backup time
       this.lastBackupTime = timestamp;
+      this.lastBackupDigest = digest;
 
       // Clean up old backups
       await this.cleanupOldBackups();
 
       logger.log(
-        'BACKUP: Backup created successfully at',
+        `BACKUP: ${source} backup created successfully at`,
         timestamp.toISOString()
       );
     } catch (error) {
@@ -118,128 +223,198 @@ export class BackupManager {
     }
   }
 
+  // Cloud backups of the connected provider plus backups on this device
   async listBackups(): Promise<BackupInfo[]> {
-    if (!this.provider) {
-      return [];
+    const backups: BackupInfo[] = [];
+
+    if (this.provider) {
+      try {
+        const cloudBackups = await this.provider.listBackups();
+        cloudBackups.forEach(backup =>
+          backups.push({ ...backup, source: 'cloud' })
+        );
+      } catch (error) {
+        logger.error('BACKUP: Failed to list backups:', error);
+      }
     }
 
     try {
-      const backups = await this.provider.listBackups();
-      // Sort by timestamp descending (newest first)
-      return backups.sort(
-        (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+      const localBackups = await localBackupStore.listBackups();
+      localBackups.forEach(backup =>
+        backups.push({ ...backup, source: 'local' })
       );
     } catch (error) {
-      logger.error('BACKUP: Failed to list backups:', error);
-      return [];
+      logger.error('BACKUP: Failed to list local backups:', error);
     }
+
+    // Sort by timestamp descending (newest first)
+    return backups.sort(
+      (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+    );
   }
 
-  async restoreFromBackup(backupId: string): Promise<boolean> {
-    if (!this.provider) {
+  async restoreFromBackup(
+    backupId: string,
+    source: BackupSource = 'cloud'
+  ): Promise<boolean> {
+    const store = this.getStore(source);
+    if (!store) {
       logger.error('BACKUP: Cannot restore - provider not available');
       return false;
     }
 
+    // Refuse corrupted backups before touching the current data
+    const verification = await this.verifyBackup(backupId, source);
+    if (!verification.valid) {
+      throw new Error(
+        `Backup failed verification: ${verification.errors.join('; ')}`
+      );
+    }
+
     try {
       logger.log('BACKUP: Restoring from backup:', backupId);
+      await this.restoreFromExport(verification.payload);
+      logger.log('BACKUP: Successfully restored from backup:', backupId);
+      return true;
+    } catch (error) {
+      logger.error('BACKUP: Failed to restore from backup:', error);
+      if (error instanceof EncryptionError) {
+        useSyncStore.getState().failSync(error.message);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Replaces the database with a verified export (a backup or an imported
+   * file), after backing up the current data. The page reloads afterwards.
+   */
+  async restoreFromExport(payload: Uint8Array): Promise<void> {
+    // Create a backup of the current database before restoring
+    try {
+      logger.log(
+        'BACKUP: Creating backup of current database before restore...'
+      );
+      await this.createBackup(true); // Manual backup to ensure it's created
+      logger.log('BACKUP: Successfully backed up current database');
+    } catch (backupError) {
+      logger.error(
+        'BACKUP: Failed to backup current database before restore:',
+        backupError
+      );
+      // Ask user if they want to continue without backing up current state
+      throw new Error(
+        'Failed to backup current database before restore. Restore cancelled for safety.'
+      );
+    }
+
+    // Pause sync operations during restore to prevent race conditions
+    unifiedSyncService.pauseSync();
 
-      // Create a backup of the current database before restoring
+    try {
+      // Import the backup data using WatermelonDB compatibility layer
+      await databaseCompatibility.importDatabase(payload);
+
+      // CRITICAL: Coordinate with cloud sync to prevent race conditions
+      const { cloudStorageManager } = await import('./cloudStorageManager');
+
+      // Publish the restored data as the new cloud snapshot so the
+      // changesets recorded before the restore are not pulled back in
       try {
         logger.log(
-          'BACKUP: Creating backup of current database before restore...'
+          'BACKUP: Updating cloud storage with restored data to prevent conflicts'
         );
-        await this.createBackup(true); // Manual backup to ensure it's created
-        logger.log('BACKUP: Successfully backed up current database');
-      } catch (backupError) {
-        logger.error(
-          'BACKUP: Failed to backup current database before restore:',
-          backupError
+
+        await cloudStorageManager.publishLocalSnapshot();
+
+        logger.log(
+          'BACKUP: Successfully updated cloud storage with restored data'
         );
-        // Ask user if they want to continue without backing up current state
-        throw new Error(
-          'Failed to backup current database before restore. Restore cancelled for safety.'
+      } catch (cloudError) {
+        logger.error(
+          'BACKUP: Failed to update cloud storage after restore:',
+          cloudError
         );
+        // Continue anyway - the restore to local database succeeded
+        // and the restored records sync as regular local changes
       }
+    } finally {
+      // Always resume sync operations, even if restore failed
+      unifiedSyncService.resumeSync();
+    }
+  }
 
-      // Pause sync operations during restore to prevent race conditions
-      unifiedSyncService.pauseSync();
+  // Verified contents of a backup, e.g. to compare it with current data
+  async loadBackupData(
+    backupId: string,
+    source: BackupSource = 'cloud'
+  ): Promise<Uint8Array> {
+    const verification = await this.verifyBackup(backupId, source);
+    if (!verification.valid) {
+      throw new Error(
+        `Backup failed verification: ${verification.errors.join('; ')}`
+      );
+    }
+    return verification.payload;
+  }
 
-      try {
-        // Load backup data
-        const backupData = await this.provider.loadBackup(backupId);
-        if (!backupData) {
-          logger.error('BACKUP: Backup data not found:', backupId);
-          return false;
-        }
+  // Checks a backup's checksum, structure and references without restoring
+  async verifyBackup(
+    backupId: string,
+    source: BackupSource = 'cloud'
+  ): Promise<ExportVerification> {
+    const store = this.getStore(source);
+    if (!store) {
+      throw new Error('Cannot open backup - provider not available');
+    }
 
-        // Decompress if needed
-        const restoredData = this.COMPRESSION_ENABLED
-          ? await this.decompressData(backupData)
-          : backupData;
-
-        // Import the backup data using WatermelonDB compatibility layer
-        await databaseCompatibility.importDatabase(restoredData);
-
-        // CRITICAL: Coordinate with cloud sync to prevent race conditions
-        // Import the cloudStorageManager to update cloud storage and hash tracking
-        const { cloudStorageManager } = await import('./cloudStorageManager');
-
-        // Save the restored data as the new current version in cloud storage
-        // This prevents conflicts when the sync service runs after restore
-        try {
-          logger.log(
-            'BACKUP: Updating cloud storage with restored data to prevent conflicts'
-          );
-
-          // Calculate hash of the restored data
-          const restoredHash = await databaseCompatibility.getContentHash();
-          const restoredHashBytes = new TextEncoder().encode(restoredHash);
-
-          // Prepare data with hash for cloud storage
-          const restoredDataWithHash = new Uint8Array(
-            restoredData.length + restoredHashBytes.length
-          );
-          restoredDataWithHash.set(restoredData, 0);
-          restoredDataWithHash.set(restoredHashBytes, restoredData.length);
-
-          // Save to cloud storage to establish this as the current version
-          await this.provider.saveData(restoredDataWithHash);
-
-          // Update the cloud storage manager's hash tracking to prevent conflicts
-          cloudStorageManager.updateLastSavedDataHash(restoredHash);
-
-          logger.log(
-            'BACKUP: Successfully updated cloud storage with restored data'
-          );
-        } catch (cloudError) {
-          logger.error(
-            'BACKUP: Failed to update cloud storage after restore:',
-            cloudError
-          );
-          // Continue anyway - the restore to local database succeeded
-          // The user will just see a conflict dialog on next sync
-        }
+    const backupData = await store.loadBackup(backupId);
+    if (!backupData) {
+      throw new Error('Backup not found');
+    }
+
+    const data = this.COMPRESSION_ENABLED
+      ? await this.decompressData(backupData)
+      : backupData;
+    const verification = await verifyExport(data);
+    logger.log(
+      `BACKUP: Verified ${backupId}: ${
+        verification.valid ? 'valid' : verification.errors.join('; ')
+      }`
+    );
+    return verification;
+  }
 
-        logger.log('BACKUP: Successfully restored from backup:', backupId);
-        return true;
-      } finally {
-        // Always resume sync operations, even if restore failed
-        unifiedSyncService.resumeSync();
+  // One at a time, so only a single backup is held in memory
+  async verifyAllBackups(): Promise<BackupVerificationResult[]> {
+    const results: BackupVerificationResult[] = [];
+    for (const backup of await this.listBackups()) {
+      try {
+        const verification = await this.verifyBackup(backup.id, backup.source);
+        results.push({ backup, verification });
+      } catch (error) {
+        logger.error('BACKUP: Failed to verify backup:', error);
+        results.push({
+          backup,
+          verification: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
-    } catch (error) {
-      logger.error('BACKUP: Failed to restore from backup:', error);
-      return false;
     }
+    return results;
   }
 
-  async deleteBackup(backupId: string): Promise<boolean> {
-    if (!this.provider) {
+  async deleteBackup(
+    backupId: string,
+    source: BackupSource = 'cloud'
+  ): Promise<boolean> {
+    const store = this.getStore(source);
+    if (!store) {
       return false;
     }
 
     try {
-      await this.provider.deleteBackup(backupId);
+      await store.deleteBackup(backupId);
       logger.log('BACKUP: Deleted backup:', backupId);
       return true;
     } catch (error) {
@@ -249,67 +424,39 @@ export class BackupManager {
   }
 
   private async cleanupOldBackups(): Promise<void> {
-    if (!this.provider) {
-      return;
-    }
+    const { store, source } = this.getTarget();
+    const policy = this.getRetentionPolicy();
 
     try {
-      await this.provider.cleanupOldBackups(this.MAX_BACKUPS);
+      await store.cleanupOldBackups(policy);
       logger.log(
-        'BACKUP: Cleaned up old backups, keeping latest',
-        this.MAX_BACKUPS
+        `BACKUP: Cleaned up old ${source} backups with retention policy`,
+        policy
       );
     } catch (error) {
       logger.error('BACKUP: Failed to cleanup old backups:', error);
     }
   }
 
+  // Hash of the exported records, ignoring the export timestamp
+  private async getContentDigest(data: Uint8Array): Promise<string> {
+    const { collections } = JSON.parse(new TextDecoder().decode(data));
+    const hash = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(JSON.stringify(collections))
+    );
+    return Array.from(new Uint8Array(hash))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
   private async compressData(data: Uint8Array): Promise<Uint8Array> {
     try {
-      // Use CompressionStream if available (modern browsers)
-      if (typeof CompressionStream !== 'undefined') {
-        const stream = new CompressionStream('gzip');
-        const writer = stream.writable.getWriter();
-        const reader = stream.readable.getReader();
-
-        writer.write(data);
-        writer.close();
-
-        const chunks: Uint8Array[] = [];
-        let done = false;
-
-        while (!done) {
-          const { value, done: readerDone } = await reader.read();
-          done = readerDone;
-          if (value) {
-            chunks.push(value);
-          }
-        }
-
-        // Combine chunks
-        const totalLength = chunks.reduce(
-          (sum, chunk) => sum + chunk.length,
-          0
-        );
-        const compressed = new Uint8Array(totalLength);
-        let offset = 0;
-
-        for (const chunk of chunks) {
-          compressed.set(chunk, offset);
-          offset += chunk.length;
-        }
-
-        logger.log(
-          `BACKUP: Compressed data from ${data.length} to ${compressed.length} bytes`
-        );
-        return compressed;
-      } else {
-        // Fallback: return uncompressed data
-        logger.log(
-          'BACKUP: Compression not available, using uncompressed data'
-        );
-        return data;
-      }
+      const compressed = await gzip(data);
+      logger.log(
+        `BACKUP: Compressed data from ${data.length} to ${compressed.length} bytes`
+      );
+      return compressed;
     } catch (error) {
       logger.error(
         'BACKUP: Compression failed, using uncompressed data:',
@@ -321,50 +468,11 @@ export class BackupManager {
 
   private async decompressData(data: Uint8Array): Promise<Uint8Array> {
     try {
-      // Use DecompressionStream if available (modern browsers)
-      if (typeof DecompressionStream !== 'undefined') {
-        const stream = new DecompressionStream('gzip');
-        const writer = stream.writable.getWriter();
-        const reader = stream.readable.getReader();
-
-        writer.write(data);
-        writer.close();
-
-        const chunks: Uint8Array[] = [];
-        let done = false;
-
-        while (!done) {
-          const { value, done: readerDone } = await reader.read();
-          done = readerDone;
-          if (value) {
-            chunks.push(value);
-          }
-        }
-
-        // Combine chunks
-        const totalLength = chunks.reduce(
-          (sum, chunk) => sum + chunk.length,
-          0
-        );
-        const decompressed = new Uint8Array(totalLength);
-        let offset = 0;
-
-        for (const chunk of chunks) {
-          decompressed.set(chunk, offset);
-          offset += chunk.length;
-        }
-
-        logger.log(
-          `BACKUP: Decompressed data from ${data.length} to ${decompressed.length} bytes`
-        );
-        return decompressed;
-      } else {
-        // Fallback: assume data is uncompressed
-        logger.log(
-          'BACKUP: Decompression not available, assuming uncompressed data'
-        );
-        return data;
-      }
+      const decompressed = await gunzip(data);
+      logger.log(
+        `BACKUP: Decompressed data from ${data.length} to ${decompressed.length} bytes`
+      );
+      return decompressed;
     } catch (error) {
       logger.error(
         'BACKUP: Decompression failed, assuming uncompressed data:',
@@ -376,10 +484,6 @@ export class BackupManager {
 
   // Trigger backup on significant changes (called by sync service)
   async onDataChange(): Promise<void> {
-    if (!this.provider) {
-      return;
-    }
-
     // Create backup immediately if this is the first change in a while
     const now = Date.now();
     const timeSinceLastBackup = this.lastBackupTime
@@ -398,17 +502,15 @@ export class BackupManager {
 
   // Initialize cleanup on startup
   async initializeCleanup(): Promise<void> {
-    if (this.provider) {
-      try {
-        logger.log('BACKUP: Initializing cleanup of old backups...');
-        await this.cleanupOldBackups();
-      } catch (error) {
-        // Don't let cleanup failures prevent app initialization
-        logger.error(
-          'BACKUP: Cleanup initialization failed, but continuing:',
-          error
-        );
-      }
+    try {
+      logger.log('BACKUP: Initializing cleanup of old backups...');
+      await this.cleanupOldBackups();
+    } catch (error) {
+      // Don't let cleanup failures prevent app initialization
+      logger.error(
+        'BACKUP: Cleanup initialization failed, but continuing:',
+        error
+      );
     }
   }
 }
@@ -0,0 +1,177 @@
+import { Q } from '@nozbe/watermelondb';
+import { endOfMonth, startOfMonth } from 'date-fns';
+import database from '../database/watermelon/database';
+import {
+  JournalEntry as JournalEntryModel,
+  Section as SectionModel,
+  SectionJournalEntry as SectionJournalEntryModel,
+  TemplateSection as TemplateSectionModel,
+} from '../database/watermelon/models';
+import { sectionRegistry } from '../components/sections/registry';
+import { formatDateForAPI } from '../utils/dates';
+
+export interface DaySummary {
+  date: string; // YYYY-MM-DD
+  hasEntry: boolean;
+  // Dated (non-persistent) sections of the entry that have content
+  filledSections: number;
+  totalSections: number;
+  // Habits marked done on this day
+  habitsCompleted: number;
+  totalHabits: number;
+  // Todo items across the entry's todo sections
+  todosCompleted: number;
+  totalTodos: number;
+}
+
+function createSummary(date: string, hasEntry: boolean): DaySummary {
+  return {
+    date,
+    hasEntry,
+    filledSections: 0,
+    totalSections: 0,
+    habitsCompleted: 0,
+    totalHabits: 0,
+    todosCompleted: 0,
+    totalTodos: 0,
+  };
+}
+
+/**
+ * Per-day summaries for the calendar, read in a handful of queries per
+ * month rather than loading every entry.
+ */
+export class CalendarService {
+  async getMonthSummaries(month: Date): Promise<Map<string, DaySummary>> {
+    const start = formatDateForAPI(startOfMonth(month));
+    const end = formatDateForAPI(endOfMonth(month));
+
+    const entries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(
+        Q.where('date', Q.gte(start)),
+        Q.where('date', Q.lte(end)),
+        Q.where('deleted_at', null)
+      )
+      .fetch();
+    const templates = await database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .query()
+      .fetch();
+    const contentTypes = new Map(
+      templates.map(template => [template.id, template.contentType])
+    );
+
+    const summaries = new Map<string, DaySummary>();
+    entries.forEach(entry =>
+      summaries.set(entry.date, createSummary(entry.date, true))
+    );
+
+    await this.addSectionCounts(entries, contentTypes, summaries);
+    await this.addHabitCompletions(start, end, contentTypes, summaries);
+
+    return summaries;
+  }
+
+  // Section and todo counts of the sections shown on each entry
+  private async addSectionCounts(
+    entries: JournalEntryModel[],
+    contentTypes: Map<string, string>,
+    summaries: Map<string, DaySummary>
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const junctions = await database.collections
+      .get<SectionJournalEntryModel>('section_journal_entries')
+      .query(
+        Q.where('journal_entry_id', Q.oneOf(entries.map(entry => entry.id)))
+      )
+      .fetch();
+    const sections = await database.collections
+      .get<SectionModel>('sections')
+      .query(
+        Q.where('id', Q.oneOf(junctions.map(junction => junction.sectionId))),
+        Q.where('timeframe_type', Q.notEq('persistent'))
+      )
+      .fetch();
+    const sectionsById = new Map(
+      sections.map(section => [section.id, section])
+    );
+    const datesByEntryId = new Map(
+      entries.map(entry => [entry.id, entry.date])
+    );
+    const todoDefinition = sectionRegistry.get('todo');
+
+    junctions.forEach(junction => {
+      const section = sectionsById.get(junction.sectionId);
+      const date = datesByEntryId.get(junction.journalEntryId);
+      const contentType = section && contentTypes.get(section.type);
+      const summary = date && summaries.get(date);
+      if (!section || !contentType || !summary) {
+        return;
+      }
+
+      summary.totalSections++;
+      if (!sectionRegistry.isContentEmpty(contentType, section.content)) {
+        summary.filledSections++;
+      }
+
+      if (contentType === 'todo' && todoDefinition) {
+        const items: Array<{ completed: boolean }> =
+          todoDefinition.parseContent(section.content).items || [];
+        summary.totalTodos += items.length;
+        summary.todosCompleted += items.filter(item => item.completed).length;
+      }
+    });
+  }
+
+  // Habits are persistent sections holding every completed date
+  private async addHabitCompletions(
+    start: string,
+    end: string,
+    contentTypes: Map<string, string>,
+    summaries: Map<string, DaySummary>
+  ): Promise<void> {
+    const habitDefinition = sectionRegistry.get('habit_tracker');
+    if (!habitDefinition) {
+      return;
+    }
+
+    const habits = (
+      await database.collections
+        .get<SectionModel>('sections')
+        .query(Q.where('timeframe_type', 'persistent'))
+        .fetch()
+    ).filter(section => contentTypes.get(section.type) === 'habit_tracker');
+
+    const completionsByDate = new Map<string, number>();
+    habits.forEach(habit => {
+      const completedDates: string[] =
+        habitDefinition.parseContent(habit.content).completedDates || [];
+      completedDates
+        .filter(date => date >= start && date <= end)
+        .forEach(date =>
+          completionsByDate.set(date, (completionsByDate.get(date) || 0) + 1)
+        );
+    });
+
+    // Completions on days without an entry still show up
+    completionsByDate.forEach((count, date) => {
+      const summary = summaries.get(date) || createSummary(date, false);
+      summary.habitsCompleted = count;
+      summaries.set(date, summary);
+    });
+
+    summaries.forEach(summary => {
+      // Only count habits that existed on the day
+      summary.totalHabits = Math.max(
+        summary.habitsCompleted,
+        habits.filter(habit => habit.timeframeStart <= summary.date).length
+      );
+    });
+  }
+}
+
+export const calendarService = new CalendarService();
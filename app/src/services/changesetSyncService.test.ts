@@ -0,0 +1,288 @@
+import { changesetSyncService } from './changesetSyncService';
+import { schema } from '../database/watermelon/schema';
+import { CloudStorageProvider } from '../types/cloudStorage';
+
+// Only the cloud side is exercised here
+jest.mock('../database/watermelon/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock('./syncAncestorStore', () => ({ syncAncestorStore: {} }));
+
+const encode = (value: unknown) =>
+  new TextEncoder().encode(JSON.stringify(value));
+const decode = (data: Uint8Array) => JSON.parse(new TextDecoder().decode(data));
+
+// Keeps the snapshot and the changeset log in memory
+class MemoryProvider {
+  readonly name = 'memory';
+  data: Uint8Array | null = null;
+  changesets = new Map<string, Uint8Array>();
+
+  async loadData() {
+    return this.data;
+  }
+  async saveData(data: Uint8Array) {
+    this.data = data;
+  }
+  async listChangesets() {
+    return Array.from(this.changesets.keys()).map(name => ({
+      id: name,
+      name,
+      timestamp: new Date(),
+      size: 0,
+    }));
+  }
+  async loadChangeset(id: string) {
+    return this.changesets.get(id) || null;
+  }
+  async saveChangeset(name: string, data: Uint8Array) {
+    this.changesets.set(name, data);
+  }
+  async deleteChangeset(id: string) {
+    this.changesets.delete(id);
+  }
+}
+
+function makeProvider(): MemoryProvider & CloudStorageProvider {
+  return new MemoryProvider() as MemoryProvider & CloudStorageProvider;
+}
+
+function snapshot(records: object) {
+  return encode({
+    format: 'jaja-sync-snapshot',
+    version: 1,
+    snapshotId: 'snapshot-1',
+    createdAt: 0,
+    schemaVersion: schema.version,
+    compactedChangesetNames: [],
+    records,
+    deleted: {},
+  });
+}
+
+function changeset(name: string, changes: object) {
+  return encode({
+    format: 'jaja-changeset',
+    version: 1,
+    name,
+    deviceId: 'device',
+    createdAt: 0,
+    schemaVersion: schema.version,
+    changes,
+  });
+}
+
+const table = (changes: object) => ({
+  created: [],
+  updated: [],
+  deleted: [],
+  ...changes,
+});
+
+const section = {
+  id: 's1',
+  type: 'notes',
+  content: 'first',
+  timeframe_type: 'daily',
+};
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('changesetSyncService.loadRemoteState', () => {
+  it('has nothing for an empty cloud', async () => {
+    expect(
+      await changesetSyncService.loadRemoteState(makeProvider())
+    ).toBeNull();
+  });
+
+  it('folds the changeset log onto the snapshot in name order', async () => {
+    const provider = makeProvider();
+    provider.data = snapshot({ sections: { s1: section } });
+    provider.changesets.set(
+      '000000000000002-b',
+      changeset('000000000000002-b', {
+        sections: table({
+          updated: [{ id: 's1', content: 'third', _changed: 'content' }],
+        }),
+      })
+    );
+    provider.changesets.set(
+      '000000000000001-a',
+      changeset('000000000000001-a', {
+        sections: table({
+          updated: [{ id: 's1', content: 'second', _changed: 'content' }],
+          created: [
+            { id: 's2', type: 'mood', content: '', _status: 'created' },
+          ],
+        }),
+      })
+    );
+
+    const state = await changesetSyncService.loadRemoteState(provider);
+
+    expect(state?.snapshotId).toBe('snapshot-1');
+    expect(state?.changesetNames).toEqual([
+      '000000000000001-a',
+      '000000000000002-b',
+    ]);
+    expect(state?.records.sections).toEqual({
+      s1: { ...section, content: 'third' },
+      // Sync bookkeeping stays out of the cloud records
+      s2: { id: 's2', type: 'mood', content: '' },
+    });
+  });
+
+  it('only takes the changed columns of an update', async () => {
+    const provider = makeProvider();
+    provider.data = snapshot({ sections: { s1: section } });
+    provider.changesets.set(
+      '000000000000001-a',
+      changeset('000000000000001-a', {
+        sections: table({
+          updated: [
+            { id: 's1', type: 'stale', content: 'edited', _changed: 'content' },
+          ],
+        }),
+      })
+    );
+
+    const state = await changesetSyncService.loadRemoteState(provider);
+
+    expect(state?.records.sections.s1).toEqual({
+      ...section,
+      content: 'edited',
+    });
+  });
+
+  it('drops deleted records and brings back re-created ones', async () => {
+    const provider = makeProvider();
+    provider.data = snapshot({ sections: { s1: section } });
+    provider.changesets.set(
+      '000000000000001-a',
+      changeset('000000000000001-a', {
+        sections: table({ deleted: ['s1'] }),
+        tags: table({ deleted: ['t1'] }),
+      })
+    );
+    provider.changesets.set(
+      '000000000000002-b',
+      changeset('000000000000002-b', {
+        tags: table({ created: [{ id: 't1', name: 'travel' }] }),
+      })
+    );
+
+    const state = await changesetSyncService.loadRemoteState(provider);
+
+    expect(state?.records.sections).toEqual({});
+    expect(state?.records.tags).toEqual({ t1: { id: 't1', name: 'travel' } });
+  });
+
+  it('reads the whole-database format from before snapshots', async () => {
+    const exported = encode({
+      timestamp: 1,
+      collections: { sections: [{ ...section, _status: 'synced' }] },
+    });
+    const provider = makeProvider();
+    provider.data = new Uint8Array(exported.length + 64);
+    provider.data.set(exported);
+    provider.data.fill('0'.charCodeAt(0), exported.length);
+
+    const state = await changesetSyncService.loadRemoteState(provider);
+
+    expect(state?.snapshotId).toBe('legacy');
+    expect(state?.records.sections).toEqual({ s1: section });
+  });
+});
+
+describe('changesetSyncService compaction', () => {
+  const compact = (provider: CloudStorageProvider) =>
+    changesetSyncService['compactIfNeeded'](provider);
+
+  function logWith(provider: MemoryProvider, count: number): string[] {
+    const names: string[] = [];
+    for (let i = 1; i <= count; i++) {
+      const name = `${String(i).padStart(15, '0')}-device`;
+      provider.changesets.set(
+        name,
+        changeset(name, {
+          sections: table({
+            updated: [{ id: 's1', content: `edit ${i}`, _changed: 'content' }],
+          }),
+        })
+      );
+      names.push(name);
+    }
+    return names;
+  }
+
+  function setState(lastSnapshotId: string, appliedChangesetNames: string[]) {
+    localStorage.setItem(
+      'cloudSyncState:memory',
+      JSON.stringify({ lastSnapshotId, appliedChangesetNames })
+    );
+  }
+
+  it('folds applied changesets into a new snapshot', async () => {
+    const provider = makeProvider();
+    provider.data = snapshot({ sections: { s1: section } });
+    const names = logWith(provider, 50);
+    setState('snapshot-1', names);
+
+    await compact(provider);
+
+    const written = decode(provider.data!);
+    expect(written.snapshotId).not.toBe('snapshot-1');
+    expect(written.compactedChangesetNames).toEqual(names);
+    expect(written.records.sections.s1.content).toBe('edit 50');
+
+    // Only the marker announcing the new snapshot is left
+    const left = Array.from(provider.changesets.keys());
+    expect(left).toHaveLength(1);
+    expect(left[0]).toContain(`-snapshot-${written.snapshotId}`);
+    expect(JSON.parse(localStorage.getItem('cloudSyncState:memory')!)).toEqual({
+      lastSnapshotId: written.snapshotId,
+      appliedChangesetNames: [],
+    });
+  });
+
+  it('waits until the log reaches the threshold', async () => {
+    const provider = makeProvider();
+    provider.data = snapshot({ sections: { s1: section } });
+    setState('snapshot-1', logWith(provider, 49));
+
+    await compact(provider);
+
+    expect(decode(provider.data!).snapshotId).toBe('snapshot-1');
+    expect(provider.changesets.size).toBe(49);
+  });
+
+  it('leaves changesets this device has not applied', async () => {
+    const provider = makeProvider();
+    provider.data = snapshot({ sections: { s1: section } });
+    const names = logWith(provider, 51);
+    setState('snapshot-1', names.slice(0, 50));
+
+    await compact(provider);
+
+    expect(decode(provider.data!).records.sections.s1.content).toBe('edit 50');
+    expect(provider.changesets.has(names[50])).toBe(true);
+  });
+
+  it('skips compaction when another device replaced the snapshot', async () => {
+    const provider = makeProvider();
+    provider.data = snapshot({ sections: { s1: section } });
+    setState('snapshot-1', logWith(provider, 50));
+    provider.changesets.set(
+      '000000000000099-other-snapshot-snapshot-2',
+      encode({})
+    );
+
+    await compact(provider);
+
+    expect(decode(provider.data!).snapshotId).toBe('snapshot-1');
+    expect(provider.changesets.size).toBe(51);
+  });
+});
@@ -0,0 +1,905 @@
+import { Q } from '@nozbe/watermelondb';
+import type { DirtyRaw } from '@nozbe/watermelondb/RawRecord';
+import {
+  synchronize,
+  hasUnsyncedChanges,
+  SyncDatabaseChangeSet,
+} from '@nozbe/watermelondb/sync';
+import { v4 as uuidv4 } from 'uuid';
+import database from '../database/watermelon/database';
+import { schema } from '../database/watermelon/schema';
+import {
+  CloudStorageProvider,
+  ChangesetInfo,
+  ConflictResolver,
+} from '../types/cloudStorage';
+import { logger } from '../utils/logger';
+import { syncAncestorStore } from './syncAncestorStore';
+import { syncMergeService, SectionMergeCandidate } from './syncMergeService';
+
+/**
+ * Changeset-based cloud sync built on WatermelonDB's `_status`/`_changed`
+ * tracking.
+ *
+ * The cloud holds a compacted snapshot (via `saveData`/`loadData`) plus a log
+ * of small changeset files, one per push. A sync pulls only the changesets
+ * this device has not applied yet, merges them per record (per column for
+ * updates) and pushes the locally changed records as a new changeset. Once
+ * the log grows past a threshold it is folded back into the snapshot.
+ */
+
+// Columns of a record by name, as synced through the cloud
+export type RawRecord = DirtyRaw & { id: string };
+
+export interface RecordMap {
+  [table: string]: { [id: string]: RawRecord };
+}
+
+interface DeletedMap {
+  [table: string]: string[];
+}
+
+interface SyncSnapshot {
+  format: 'jaja-sync-snapshot';
+  version: 1;
+  snapshotId: string;
+  createdAt: number;
+  schemaVersion: number;
+  compactedChangesetNames: string[];
+  records: RecordMap;
+  deleted: DeletedMap;
+}
+
+// Database export, as written before snapshots existed
+interface LegacyExport {
+  timestamp?: number;
+  collections?: { [table: string]: DirtyRaw[] };
+}
+
+interface SyncChangeset {
+  format: 'jaja-changeset';
+  version: 1;
+  name: string;
+  deviceId: string;
+  createdAt: number;
+  schemaVersion: number;
+  snapshotId?: string;
+  changes: SyncDatabaseChangeSet;
+}
+
+interface SyncState {
+  lastSnapshotId: string | null;
+  appliedChangesetNames: string[];
+}
+
+export interface RemoteState {
+  snapshotId: string;
+  changesetNames: string[];
+  records: RecordMap;
+}
+
+export interface SyncResult {
+  pulledChanges: number;
+  pushedChanges: number;
+  autoMergedSections: number;
+}
+
+const SYNC_STATE_KEY_PREFIX = 'cloudSyncState:';
+const DEVICE_ID_KEY = 'cloudSyncDeviceId';
+const SNAPSHOT_MARKER = '-snapshot-';
+const NO_SNAPSHOT_ID = 'none';
+const LEGACY_SNAPSHOT_ID = 'legacy';
+const LEGACY_HASH_LENGTH = 64;
+
+// Columns managed by WatermelonDB's sync bookkeeping, never sent to the cloud
+const SYNC_COLUMNS = ['_status', '_changed'];
+
+function getTableNames(): string[] {
+  return Object.keys(schema.tables);
+}
+
+export function sanitizeRaw(raw: DirtyRaw): RawRecord {
+  const clean: RawRecord = { id: raw.id };
+  Object.keys(raw).forEach(column => {
+    if (!SYNC_COLUMNS.includes(column) && !column.startsWith('$')) {
+      clean[column] = raw[column];
+    }
+  });
+  return clean;
+}
+
+function getChangedColumns(raw: DirtyRaw): string[] | null {
+  if (typeof raw._changed !== 'string' || !raw._changed) {
+    return null;
+  }
+  return raw._changed.split(',').filter(Boolean);
+}
+
+function encodeJson(value: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(value));
+}
+
+function decodeJson<T>(data: Uint8Array): T {
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+function changeCount(changes: SyncDatabaseChangeSet): number {
+  return Object.values(changes).reduce(
+    (sum, table) =>
+      sum + table.created.length + table.updated.length + table.deleted.length,
+    0
+  );
+}
+
+// A locally changed section whose content column has not been pushed yet
+function isContentEdited(raw: DirtyRaw): boolean {
+  return (
+    raw._status === 'created' ||
+    (raw._status === 'updated' &&
+      (getChangedColumns(raw) || []).includes('content'))
+  );
+}
+
+function collectSectionIds(
+  changes: SyncDatabaseChangeSet,
+  sectionIds: Set<string>
+): void {
+  const sections = changes.sections;
+  if (!sections) return;
+  sections.created.forEach(raw => sectionIds.add(raw.id));
+  sections.updated.forEach(raw => sectionIds.add(raw.id));
+}
+
+function isSnapshotMarker(name: string): boolean {
+  return name.includes(SNAPSHOT_MARKER);
+}
+
+function getMarkerSnapshotId(name: string): string {
+  return name.substring(name.indexOf(SNAPSHOT_MARKER) + SNAPSHOT_MARKER.length);
+}
+
+// Changeset names sort chronologically: zero-padded millis first
+function generateChangesetName(suffix: string): string {
+  return `${Date.now().toString().padStart(15, '0')}-${suffix}`;
+}
+
+/**
+ * Folds changesets on top of a base record map. Updates only overwrite the
+ * columns listed in `_changed`, so edits to different columns of the same
+ * record on different devices both survive.
+ */
+class RecordFolder {
+  readonly records: RecordMap = {};
+  readonly deleted: { [table: string]: Set<string> } = {};
+  // Records only known through a partial update (no base copy available)
+  private partial = new Set<string>();
+
+  constructor(base?: RecordMap, deleted?: DeletedMap) {
+    getTableNames().forEach(table => {
+      this.records[table] = { ...(base?.[table] || {}) };
+      this.deleted[table] = new Set(deleted?.[table] || []);
+    });
+  }
+
+  apply(changes: SyncDatabaseChangeSet): void {
+    Object.entries(changes).forEach(([table, tableChanges]) => {
+      if (!this.records[table]) {
+        logger.warn(`SYNC: Ignoring changes for unknown table ${table}`);
+        return;
+      }
+
+      tableChanges.created.forEach(raw => {
+        this.records[table][raw.id] = sanitizeRaw(raw);
+        this.deleted[table].delete(raw.id);
+        this.partial.delete(`${table}/${raw.id}`);
+      });
+
+      tableChanges.updated.forEach(raw => {
+        const existing = this.records[table][raw.id];
+        const changedColumns = getChangedColumns(raw);
+        this.deleted[table].delete(raw.id);
+
+        if (existing && changedColumns) {
+          const merged = { ...existing };
+          changedColumns.forEach(column => {
+            if (column in raw) merged[column] = raw[column];
+          });
+          this.records[table][raw.id] = merged;
+          if (this.partial.has(`${table}/${raw.id}`)) {
+            const previous = getChangedColumns(existing) || [];
+            merged._changed = Array.from(
+              new Set([...previous, ...changedColumns])
+            ).join(',');
+          }
+        } else {
+          this.records[table][raw.id] = changedColumns
+            ? { ...sanitizeRaw(raw), _changed: changedColumns.join(',') }
+            : sanitizeRaw(raw);
+          if (changedColumns) {
+            this.partial.add(`${table}/${raw.id}`);
+          }
+        }
+      });
+
+      tableChanges.deleted.forEach(id => {
+        delete this.records[table][id];
+        this.deleted[table].add(id);
+        this.partial.delete(`${table}/${id}`);
+      });
+    });
+  }
+
+  // Full records with partial-update bookkeeping stripped
+  toFullRecords(): RecordMap {
+    const full: RecordMap = {};
+    Object.entries(this.records).forEach(([table, records]) => {
+      full[table] = {};
+      Object.values(records).forEach(raw => {
+        full[table][raw.id] = sanitizeRaw(raw);
+      });
+    });
+    return full;
+  }
+
+  toDeletedMap(): DeletedMap {
+    const deletedMap: DeletedMap = {};
+    Object.entries(this.deleted).forEach(([table, ids]) => {
+      deletedMap[table] = Array.from(ids);
+    });
+    return deletedMap;
+  }
+}
+
+export class ChangesetSyncService {
+  // Fold the changeset log into the snapshot once it grows past this size
+  private readonly COMPACTION_THRESHOLD = 50;
+  private syncPromise: Promise<SyncResult> | null = null;
+  private remoteChangeListeners = new Set<() => void>();
+
+  // Notified after a sync applied changes made on another device
+  onRemoteChanges(callback: () => void): () => void {
+    this.remoteChangeListeners.add(callback);
+    return () => this.remoteChangeListeners.delete(callback);
+  }
+
+  // Sync state (per provider)
+  hasSyncState(provider: CloudStorageProvider): boolean {
+    return localStorage.getItem(this.getStateKey(provider)) !== null;
+  }
+
+  async clearSyncState(provider: CloudStorageProvider): Promise<void> {
+    localStorage.removeItem(this.getStateKey(provider));
+    await syncAncestorStore.clear(provider.name);
+  }
+
+  private getStateKey(provider: CloudStorageProvider): string {
+    return `${SYNC_STATE_KEY_PREFIX}${provider.name}`;
+  }
+
+  private getState(provider: CloudStorageProvider): SyncState {
+    const stored = localStorage.getItem(this.getStateKey(provider));
+    if (stored) {
+      try {
+        return JSON.parse(stored) as SyncState;
+      } catch {
+        logger.warn('SYNC: Corrupt sync state, starting from snapshot');
+      }
+    }
+    return { lastSnapshotId: null, appliedChangesetNames: [] };
+  }
+
+  private setState(provider: CloudStorageProvider, state: SyncState): void {
+    localStorage.setItem(this.getStateKey(provider), JSON.stringify(state));
+  }
+
+  private getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = uuidv4().replace(/-/g, '').substring(0, 12);
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  // Remote reads
+  private async loadSnapshot(
+    provider: CloudStorageProvider
+  ): Promise<SyncSnapshot | null> {
+    const data = await provider.loadData();
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    try {
+      const parsed = decodeJson<Partial<SyncSnapshot> | null>(data);
+      if (parsed?.format === 'jaja-sync-snapshot') {
+        return parsed as SyncSnapshot;
+      }
+    } catch {
+      // Not a snapshot - fall through to the legacy whole-database format
+    }
+
+    return this.parseLegacySnapshot(data);
+  }
+
+  // Legacy cloud files are a full database export with a content hash appended
+  private parseLegacySnapshot(data: Uint8Array): SyncSnapshot {
+    if (data.length < LEGACY_HASH_LENGTH) {
+      throw new Error('Invalid cloud data format - too short');
+    }
+
+    const exportData = decodeJson<LegacyExport>(
+      data.slice(0, data.length - LEGACY_HASH_LENGTH)
+    );
+    const collections = exportData.collections;
+    if (!collections) {
+      throw new Error('Invalid cloud data format - missing collections');
+    }
+
+    logger.log('SYNC: Converting legacy cloud data to snapshot format');
+    const records: RecordMap = {};
+    getTableNames().forEach(table => {
+      records[table] = {};
+      (collections[table] || []).forEach(raw => {
+        records[table][raw.id] = sanitizeRaw(raw);
+      });
+    });
+
+    return {
+      format: 'jaja-sync-snapshot',
+      version: 1,
+      snapshotId: LEGACY_SNAPSHOT_ID,
+      createdAt: exportData.timestamp || Date.now(),
+      schemaVersion: schema.version,
+      compactedChangesetNames: [],
+      records,
+      deleted: {},
+    };
+  }
+
+  private async loadChangesets(
+    provider: CloudStorageProvider,
+    infos: ChangesetInfo[]
+  ): Promise<SyncChangeset[]> {
+    const changesets: SyncChangeset[] = [];
+    for (const info of infos) {
+      const data = await provider.loadChangeset(info.id);
+      if (!data) {
+        // Removed by a concurrent compaction; its content is in the snapshot
+        logger.log('SYNC: Changeset disappeared during pull:', info.name);
+        continue;
+      }
+      const changeset = decodeJson<SyncChangeset>(data);
+      if (changeset.schemaVersion > schema.version) {
+        logger.warn(
+          `SYNC: Changeset ${info.name} uses newer schema v${changeset.schemaVersion}; unknown columns are ignored`
+        );
+      }
+      changesets.push(changeset);
+    }
+    return changesets;
+  }
+
+  private async listLog(provider: CloudStorageProvider): Promise<{
+    changesets: ChangesetInfo[];
+    markers: ChangesetInfo[];
+  }> {
+    const all = (await provider.listChangesets()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    return {
+      changesets: all.filter(info => !isSnapshotMarker(info.name)),
+      markers: all.filter(info => isSnapshotMarker(info.name)),
+    };
+  }
+
+  /**
+   * Loads the complete cloud state (snapshot plus every changeset) as plain
+   * records. Used when a device connects for the first time.
+   */
+  async loadRemoteState(
+    provider: CloudStorageProvider
+  ): Promise<RemoteState | null> {
+    const snapshot = await this.loadSnapshot(provider);
+    const { changesets } = await this.listLog(provider);
+
+    if (!snapshot && changesets.length === 0) {
+      return null;
+    }
+
+    const folder = new RecordFolder(snapshot?.records, snapshot?.deleted);
+    const loaded = await this.loadChangesets(provider, changesets);
+    loaded.forEach(changeset => folder.apply(changeset.changes));
+
+    return {
+      snapshotId: snapshot?.snapshotId || NO_SNAPSHOT_ID,
+      changesetNames: changesets.map(info => info.name),
+      records: folder.toFullRecords(),
+    };
+  }
+
+  // Local reads
+  async readLocalRecords(): Promise<RecordMap> {
+    const records: RecordMap = {};
+    for (const table of getTableNames()) {
+      records[table] = {};
+      const localRecords = await database.collections
+        .get(table)
+        .query()
+        .fetch();
+      localRecords.forEach(record => {
+        records[table][record.id] = sanitizeRaw(record._raw);
+      });
+    }
+    return records;
+  }
+
+  async hasLocalChanges(): Promise<boolean> {
+    return hasUnsyncedChanges({ database });
+  }
+
+  isEmpty(records: RecordMap): boolean {
+    return Object.values(records).every(
+      table => Object.keys(table).length === 0
+    );
+  }
+
+  // Sync
+  async sync(
+    provider: CloudStorageProvider,
+    resolveConflicts: ConflictResolver | null = null
+  ): Promise<SyncResult> {
+    // synchronize() must never run concurrently - share the in-flight run
+    if (this.syncPromise) {
+      logger.log('SYNC: Sync already running, waiting for it');
+      return this.syncPromise;
+    }
+
+    this.syncPromise = this.performSync(provider, resolveConflicts);
+    try {
+      return await this.syncPromise;
+    } finally {
+      this.syncPromise = null;
+    }
+  }
+
+  private async performSync(
+    provider: CloudStorageProvider,
+    resolveConflicts: ConflictResolver | null
+  ): Promise<SyncResult> {
+    const state = this.getState(provider);
+    const nextState: SyncState = {
+      lastSnapshotId: state.lastSnapshotId,
+      appliedChangesetNames: [...state.appliedChangesetNames],
+    };
+    const result: SyncResult = {
+      pulledChanges: 0,
+      pushedChanges: 0,
+      autoMergedSections: 0,
+    };
+    const syncedSectionIds = new Set<string>();
+    let cloudContents = new Map<string, string>();
+
+    await synchronize({
+      database,
+      pullChanges: async () => {
+        const pulled = await this.pullRemoteChanges(provider, state);
+        const merge = await this.mergeSectionChanges(
+          provider,
+          pulled.sectionCandidates,
+          resolveConflicts
+        );
+        cloudContents = merge.cloudContents;
+        result.autoMergedSections = merge.autoMergedCount;
+
+        nextState.lastSnapshotId = pulled.snapshotId;
+        nextState.appliedChangesetNames = pulled.appliedChangesetNames;
+        result.pulledChanges = changeCount(pulled.changes);
+        collectSectionIds(pulled.changes, syncedSectionIds);
+        return { changes: pulled.changes, timestamp: Date.now() };
+      },
+      pushChanges: async ({ changes }) => {
+        result.pushedChanges = changeCount(changes);
+        if (result.pushedChanges === 0) {
+          return;
+        }
+        const name = await this.pushLocalChanges(provider, changes);
+        nextState.appliedChangesetNames.push(name);
+        collectSectionIds(changes, syncedSectionIds);
+      },
+      // Local edits win per column unless the user picked the cloud version
+      conflictResolver: (table, local, remote, resolved) => {
+        if (table === 'sections' && cloudContents.has(local.id)) {
+          return { ...resolved, content: cloudContents.get(local.id) };
+        }
+        return resolved;
+      },
+    });
+
+    this.setState(provider, nextState);
+    await this.updateAncestors(provider, Array.from(syncedSectionIds));
+    logger.log(
+      `SYNC: Pulled ${result.pulledChanges} and pushed ${result.pushedChanges} record changes`
+    );
+
+    if (result.pulledChanges > 0) {
+      this.remoteChangeListeners.forEach(callback => callback());
+    }
+
+    await this.compactIfNeeded(provider);
+    return result;
+  }
+
+  private async pullRemoteChanges(
+    provider: CloudStorageProvider,
+    state: SyncState
+  ): Promise<{
+    changes: SyncDatabaseChangeSet;
+    sectionCandidates: SectionMergeCandidate[];
+    snapshotId: string;
+    appliedChangesetNames: string[];
+  }> {
+    const { changesets, markers } = await this.listLog(provider);
+    const latestMarker = markers[markers.length - 1];
+    const remoteSnapshotId = latestMarker
+      ? getMarkerSnapshotId(latestMarker.name)
+      : null;
+
+    let folder: RecordFolder;
+    let snapshotId = state.lastSnapshotId;
+    let pending: ChangesetInfo[];
+
+    const needsSnapshot =
+      state.lastSnapshotId === null ||
+      (remoteSnapshotId !== null && remoteSnapshotId !== state.lastSnapshotId);
+
+    if (needsSnapshot) {
+      // First pull, or the log was compacted since our last sync: start from
+      // the snapshot and replay every changeset still in the log
+      const snapshot = await this.loadSnapshot(provider);
+      logger.log(
+        'SYNC: Pulling full snapshot:',
+        snapshot?.snapshotId || NO_SNAPSHOT_ID
+      );
+      folder = new RecordFolder(snapshot?.records, snapshot?.deleted);
+      snapshotId = snapshot?.snapshotId || NO_SNAPSHOT_ID;
+      const compacted = new Set(snapshot?.compactedChangesetNames || []);
+      pending = changesets.filter(info => !compacted.has(info.name));
+    } else {
+      const applied = new Set(state.appliedChangesetNames);
+      folder = new RecordFolder();
+      pending = changesets.filter(info => !applied.has(info.name));
+    }
+
+    const loaded = await this.loadChangesets(provider, pending);
+    loaded.forEach(changeset => folder.apply(changeset.changes));
+
+    const { changes, sectionCandidates } = await this.toLocalChanges(folder);
+
+    // Forget changesets that have been compacted away
+    const listed = new Set(changesets.map(info => info.name));
+    const appliedChangesetNames = Array.from(
+      new Set([
+        ...(needsSnapshot ? [] : state.appliedChangesetNames),
+        ...pending.map(info => info.name),
+      ])
+    ).filter(name => listed.has(name));
+
+    return {
+      changes,
+      sectionCandidates,
+      snapshotId: snapshotId || NO_SNAPSHOT_ID,
+      appliedChangesetNames,
+    };
+  }
+
+  // Turns folded remote records into WatermelonDB pull changes
+  private async toLocalChanges(folder: RecordFolder): Promise<{
+    changes: SyncDatabaseChangeSet;
+    sectionCandidates: SectionMergeCandidate[];
+  }> {
+    const changes: SyncDatabaseChangeSet = {};
+    const sectionCandidates: SectionMergeCandidate[] = [];
+
+    for (const table of getTableNames()) {
+      const remoteRecords = Object.values(folder.records[table]);
+      const deletedIds = Array.from(folder.deleted[table]);
+      if (remoteRecords.length === 0 && deletedIds.length === 0) {
+        continue;
+      }
+
+      const localRecords =
+        remoteRecords.length > 0
+          ? await database.collections
+              .get(table)
+              .query(Q.where('id', Q.oneOf(remoteRecords.map(raw => raw.id))))
+              .fetch()
+          : [];
+      const localById = new Map(
+        localRecords.map(record => [record.id, sanitizeRaw(record._raw)])
+      );
+      const locallyEditedIds = new Set(
+        localRecords
+          .filter(record => isContentEdited(record._raw))
+          .map(record => record.id)
+      );
+
+      const created: RawRecord[] = [];
+      const updated: RawRecord[] = [];
+
+      remoteRecords.forEach(remote => {
+        const local = localById.get(remote.id);
+        const changedColumns = getChangedColumns(remote);
+
+        if (!local) {
+          created.push(sanitizeRaw(remote));
+          return;
+        }
+
+        const merged = changedColumns ? { ...local } : sanitizeRaw(remote);
+        changedColumns?.forEach(column => {
+          if (column in remote) merged[column] = remote[column];
+        });
+
+        const isSame = Object.keys(merged).every(
+          column => merged[column] === local[column]
+        );
+        if (isSame) {
+          return;
+        }
+
+        updated.push(merged);
+        if (
+          table === 'sections' &&
+          locallyEditedIds.has(remote.id) &&
+          merged.content !== local.content
+        ) {
+          sectionCandidates.push({ local, cloudContent: merged.content });
+        }
+      });
+
+      changes[table] = { created, updated, deleted: deletedIds };
+    }
+
+    return { changes, sectionCandidates };
+  }
+
+  private async mergeSectionChanges(
+    provider: CloudStorageProvider,
+    candidates: SectionMergeCandidate[],
+    resolveConflicts: ConflictResolver | null
+  ) {
+    const ancestors = await syncAncestorStore.getContents(
+      provider.name,
+      candidates.map(candidate => candidate.local.id)
+    );
+    return syncMergeService.mergeSections(
+      candidates,
+      ancestors,
+      resolveConflicts
+    );
+  }
+
+  // Remember the content both sides now agree on as the next merge ancestor
+  private async updateAncestors(
+    provider: CloudStorageProvider,
+    sectionIds: string[]
+  ): Promise<void> {
+    if (sectionIds.length === 0) {
+      return;
+    }
+
+    const sections = await database.collections
+      .get('sections')
+      .query(Q.where('id', Q.oneOf(sectionIds)))
+      .fetch();
+    const contents = new Map<string, string>();
+    sections.forEach(section => {
+      contents.set(section.id, (section._raw as RawRecord).content);
+    });
+    await syncAncestorStore.setContents(provider.name, contents);
+  }
+
+  private async pushLocalChanges(
+    provider: CloudStorageProvider,
+    changes: SyncDatabaseChangeSet
+  ): Promise<string> {
+    const deviceId = this.getDeviceId();
+    const name = generateChangesetName(
+      `${deviceId}-${uuidv4().substring(0, 8)}`
+    );
+
+    const outgoing: SyncDatabaseChangeSet = {};
+    Object.entries(changes).forEach(([table, tableChanges]) => {
+      if (
+        tableChanges.created.length === 0 &&
+        tableChanges.updated.length === 0 &&
+        tableChanges.deleted.length === 0
+      ) {
+        return;
+      }
+      outgoing[table] = {
+        created: tableChanges.created.map(sanitizeRaw),
+        // Keep `_changed` so other devices only take the edited columns
+        updated: tableChanges.updated.map(raw => ({
+          ...sanitizeRaw(raw),
+          _changed: raw._changed || '',
+        })),
+        deleted: tableChanges.deleted,
+      };
+    });
+
+    const changeset: SyncChangeset = {
+      format: 'jaja-changeset',
+      version: 1,
+      name,
+      deviceId,
+      createdAt: Date.now(),
+      schemaVersion: schema.version,
+      changes: outgoing,
+    };
+
+    await provider.saveChangeset(name, encodeJson(changeset));
+    logger.log('SYNC: Pushed changeset', name);
+    return name;
+  }
+
+  // Snapshot maintenance
+  private async compactIfNeeded(provider: CloudStorageProvider): Promise<void> {
+    const state = this.getState(provider);
+    const { changesets, markers } = await this.listLog(provider);
+
+    // Only fold changesets this device has applied, so nothing it has not
+    // seen can disappear into a snapshot it already considers current
+    const applied = new Set(state.appliedChangesetNames);
+    const foldable = changesets.filter(info => applied.has(info.name));
+    if (foldable.length < this.COMPACTION_THRESHOLD) {
+      return;
+    }
+
+    const latestMarker = markers[markers.length - 1];
+    const remoteSnapshotId = latestMarker
+      ? getMarkerSnapshotId(latestMarker.name)
+      : state.lastSnapshotId;
+    if (remoteSnapshotId !== state.lastSnapshotId) {
+      logger.log('SYNC: Snapshot changed remotely, skipping compaction');
+      return;
+    }
+
+    try {
+      logger.log(`SYNC: Compacting ${foldable.length} changesets`);
+      const snapshot = await this.loadSnapshot(provider);
+      const folder = new RecordFolder(snapshot?.records, snapshot?.deleted);
+      const loaded = await this.loadChangesets(provider, foldable);
+      loaded.forEach(changeset => folder.apply(changeset.changes));
+
+      const snapshotId = await this.writeSnapshot(
+        provider,
+        folder.toFullRecords(),
+        folder.toDeletedMap(),
+        foldable.map(info => info.name)
+      );
+
+      for (const info of [...foldable, ...markers]) {
+        await provider.deleteChangeset(info.id);
+      }
+
+      this.setState(provider, {
+        lastSnapshotId: snapshotId,
+        appliedChangesetNames: state.appliedChangesetNames.filter(
+          name => !foldable.some(info => info.name === name)
+        ),
+      });
+    } catch (error) {
+      // The log stays valid without compaction - try again next sync
+      logger.error('SYNC: Compaction failed:', error);
+    }
+  }
+
+  private async writeSnapshot(
+    provider: CloudStorageProvider,
+    records: RecordMap,
+    deleted: DeletedMap,
+    compactedChangesetNames: string[]
+  ): Promise<string> {
+    const snapshotId = uuidv4();
+    const snapshot: SyncSnapshot = {
+      format: 'jaja-sync-snapshot',
+      version: 1,
+      snapshotId,
+      createdAt: Date.now(),
+      schemaVersion: schema.version,
+      compactedChangesetNames,
+      records,
+      deleted,
+    };
+    await provider.saveData(encodeJson(snapshot));
+
+    // The marker tells other devices the snapshot changed without them
+    // having to download it on every sync
+    const markerName = generateChangesetName(
+      `${this.getDeviceId()}${SNAPSHOT_MARKER}${snapshotId}`
+    );
+    const marker: SyncChangeset = {
+      format: 'jaja-changeset',
+      version: 1,
+      name: markerName,
+      deviceId: this.getDeviceId(),
+      createdAt: Date.now(),
+      schemaVersion: schema.version,
+      snapshotId,
+      changes: {},
+    };
+    await provider.saveChangeset(markerName, encodeJson(marker));
+
+    return snapshotId;
+  }
+
+  /**
+   * Replaces the cloud state with the local database: writes a fresh
+   * snapshot, clears the changeset log and marks every local record synced.
+   * Used when local data must win (first connection, restore from backup).
+   */
+  async publishSnapshot(
+    provider: CloudStorageProvider,
+    deleted: DeletedMap = {}
+  ): Promise<void> {
+    logger.log('SYNC: Publishing local database as new snapshot');
+    const { changesets, markers } = await this.listLog(provider);
+    const records = await this.readLocalRecords();
+
+    const snapshotId = await this.writeSnapshot(
+      provider,
+      records,
+      deleted,
+      changesets.map(info => info.name)
+    );
+
+    for (const info of [...changesets, ...markers]) {
+      await provider.deleteChangeset(info.id);
+    }
+
+    // Everything local is now in the snapshot - mark it as synced
+    await synchronize({
+      database,
+      pullChanges: async () => ({ changes: {}, timestamp: Date.now() }),
+      pushChanges: async () => {},
+    });
+
+    this.setState(provider, {
+      lastSnapshotId: snapshotId,
+      appliedChangesetNames: [],
+    });
+    await this.updateAncestors(provider, Object.keys(records.sections || {}));
+  }
+
+  /**
+   * First sync of a device that already has its own data: merges the cloud
+   * state into the local database (asking about sections that differ) and
+   * publishes the result as the new snapshot. Throws SyncCancelledError if
+   * the user cancels.
+   */
+  async mergeWithRemote(
+    provider: CloudStorageProvider,
+    remote: RemoteState,
+    resolveConflicts: ConflictResolver | null
+  ): Promise<void> {
+    const local = await this.readLocalRecords();
+    const plan = await syncMergeService.planInitialMerge(local, remote.records);
+    const choices = await syncMergeService.resolveInitialMerge(
+      plan,
+      resolveConflicts
+    );
+
+    const superseded = await syncMergeService.applyInitialMerge(
+      local,
+      remote.records,
+      plan,
+      choices
+    );
+    await this.publishSnapshot(provider, superseded);
+    this.remoteChangeListeners.forEach(callback => callback());
+  }
+}
+
+export const changesetSyncService = new ChangesetSyncService();
@@ -1,29 +1,40 @@
-import {
-  CloudStorageProvider,
-  ConflictResolver,
-  ConflictData,
-} from '../types/cloudStorage';
+import { CloudStorageProvider, ConflictResolver } from '../types/cloudStorage';
 import { logger } from '../utils/logger';
 import { GoogleDriveAppDataProvider } from './providers/googleDriveProvider';
-import { databaseCompatibility } from '../database/watermelon/database';
+import { WebDavProvider } from './providers/webDavProvider';
+import { LocalFolderProvider } from './providers/localFolderProvider';
+import { S3Provider } from './providers/s3Provider';
+import { EncryptedStorageProvider } from './providers/encryptedStorageProvider';
+import { encryptionService, EncryptionError } from './encryptionService';
+import { useSyncStore } from '../stores/syncStore';
+import { changesetSyncService } from './changesetSyncService';
+import { SyncCancelledError } from './syncMergeService';
+
+export interface BackupEncryptionResult {
+  // Backups made before encryption that were re-uploaded encrypted
+  encrypted: number;
+  // Backups that could not be, and are still stored unencrypted
+  failed: number;
+}
 
 class CloudStorageManager {
-  private providers: Map<string, CloudStorageProvider> = new Map();
-  private activeProvider: CloudStorageProvider | null = null;
+  private providers: Map<string, EncryptedStorageProvider> = new Map();
+  private activeProvider: EncryptedStorageProvider | null = null;
   private conflictResolver: ConflictResolver | null = null;
   private hasInitializedFromSavedState = false;
   private isLoadingFromCloud = false;
   private initializationPromise: Promise<void> | null = null;
 
-  // Hash tracking for defensive saves
-  private lastSavedDataHash: string | null = null;
-
   constructor() {
     this.registerProvider(new GoogleDriveAppDataProvider());
+    this.registerProvider(new WebDavProvider());
+    this.registerProvider(new LocalFolderProvider());
+    this.registerProvider(new S3Provider());
   }
 
   private registerProvider(provider: CloudStorageProvider): void {
-    this.providers.set(provider.name, provider);
+    // Payloads are encrypted before they reach any provider
+    this.providers.set(provider.name, new EncryptedStorageProvider(provider));
   }
 
   getProviders(): CloudStorageProvider[] {
@@ -38,11 +49,6 @@ class CloudStorageManager {
     this.conflictResolver = resolver;
   }
 
-  updateLastSavedDataHash(hash: string): void {
-    this.lastSavedDataHash = hash;
-    logger.log('CLOUD: Updated last saved data hash:', hash);
-  }
-
   async setActiveProvider(providerName: string): Promise<boolean> {
     const provider = this.providers.get(providerName);
     if (!provider) {
@@ -76,6 +82,7 @@ class CloudStorageManager {
       } catch (error) {
         logger.error('Error during provider sign out:', error);
       }
+      await changesetSyncService.clearSyncState(this.activeProvider);
       this.activeProvider = null;
     }
     localStorage.removeItem('activeCloudProvider');
@@ -90,33 +97,23 @@ class CloudStorageManager {
     try {
       logger.log('CLOUD: Starting saveToCloud operation');
 
-      // Calculate hash of current data
-      const currentDataHash = await databaseCompatibility.getContentHash();
-
-      // Check if data has actually changed since last save
-      if (
-        this.lastSavedDataHash &&
-        currentDataHash === this.lastSavedDataHash
-      ) {
-        logger.log('CLOUD: Data unchanged since last save, skipping');
+      // A device that never synced with this provider has to reconcile its
+      // data with the cloud before any changeset can be pushed
+      if (!changesetSyncService.hasSyncState(this.activeProvider)) {
+        const established = await this.loadFromCloud();
+        if (!established) {
+          throw new Error(
+            'Cloud sync paused until local and cloud data are reconciled'
+          );
+        }
         return;
       }
 
-      // Get current database data and hash
-      const databaseData = await databaseCompatibility.exportDatabaseAsync();
-      const hashBytes = new TextEncoder().encode(currentDataHash);
-      const dataWithHash = new Uint8Array(
-        databaseData.length + hashBytes.length
+      await changesetSyncService.sync(
+        this.activeProvider,
+        this.conflictResolver
       );
-      dataWithHash.set(databaseData, 0);
-      dataWithHash.set(hashBytes, databaseData.length);
-
-      await this.activeProvider.saveData(dataWithHash);
-
-      // Update the hash after successful save
-      this.lastSavedDataHash = currentDataHash;
-
-      logger.log('CLOUD: Data saved successfully');
+      logger.log('CLOUD: Data synced successfully');
     } catch (error) {
       logger.error('CLOUD: Failed to save:', error);
       throw error;
@@ -138,133 +135,140 @@ class CloudStorageManager {
       logger.log('CLOUD: Starting loadFromCloud operation');
       this.isLoadingFromCloud = true;
 
-      const cloudData = await this.activeProvider.loadData();
-
-      if (cloudData) {
-        // Extract hash from cloud data (last 64 characters)
-        if (cloudData.length < 64) {
-          logger.error('CLOUD: Invalid cloud data format - too short');
-          return false;
-        }
-
-        // Separate database data and hash
-        const cloudDatabaseData = cloudData.slice(0, cloudData.length - 64);
-        const cloudHashBytes = cloudData.slice(cloudData.length - 64);
-        const cloudHash = new TextDecoder().decode(cloudHashBytes);
-
-        // Get current local data for comparison
-        const localData = await databaseCompatibility.exportDatabaseAsync();
-        const localHash = await databaseCompatibility.getContentHash();
-
-        // Check for conflicts
-        if (localHash !== cloudHash) {
-          logger.log('CLOUD: Data conflict detected');
-
-          if (this.conflictResolver) {
-            const conflictData: ConflictData = {
-              localData,
-              cloudData: cloudDatabaseData,
-              localHash,
-              cloudHash,
-            };
-
-            try {
-              const resolution = await this.conflictResolver(conflictData);
-
-              switch (resolution) {
-                case 'use-local':
-                  logger.log('CLOUD: User chose to keep local data');
-                  // Save local data to cloud to resolve conflict
-                  const localDataHash =
-                    await databaseCompatibility.getContentHash();
-                  const localHashBytes = new TextEncoder().encode(
-                    localDataHash
-                  );
-                  const localDataWithHash = new Uint8Array(
-                    localData.length + localHashBytes.length
-                  );
-                  localDataWithHash.set(localData, 0);
-                  localDataWithHash.set(localHashBytes, localData.length);
-                  await this.activeProvider.saveData(localDataWithHash);
-                  this.lastSavedDataHash = localHash;
-                  break;
-
-                case 'use-cloud':
-                  logger.log('CLOUD: User chose to keep cloud data');
-                  // Directly import the cloud binary data without conversion
-                  logger.log(
-                    'CLOUD: Importing cloud data, size:',
-                    cloudDatabaseData.length
-                  );
-                  await databaseCompatibility.importDatabase(cloudDatabaseData);
-
-                  // Recalculate hash from imported data and save back to cloud to ensure consistency
-                  const postImportData =
-                    await databaseCompatibility.exportDatabaseAsync();
-                  const postImportHash =
-                    await databaseCompatibility.getContentHash();
-
-                  // Update cloud storage with the normalized data
-                  const normalizedHashBytes = new TextEncoder().encode(
-                    postImportHash
-                  );
-                  const normalizedDataWithHash = new Uint8Array(
-                    postImportData.length + normalizedHashBytes.length
-                  );
-                  normalizedDataWithHash.set(postImportData, 0);
-                  normalizedDataWithHash.set(
-                    normalizedHashBytes,
-                    postImportData.length
-                  );
-
-                  await this.activeProvider.saveData(normalizedDataWithHash);
-                  this.lastSavedDataHash = postImportHash;
-
-                  logger.log(
-                    'CLOUD: Cloud data restored and normalized, hash:',
-                    postImportHash
-                  );
-                  window.location.reload();
-                  break;
-
-                case 'cancel':
-                  logger.log('CLOUD: User cancelled conflict resolution');
-                  return false;
-              }
-            } catch (error) {
-              logger.error('CLOUD: Conflict resolution failed:', error);
-              return false;
-            }
-          } else {
-            // No conflict resolver - throw error to prevent data loss
-            logger.error(
-              'CLOUD: Data conflict detected but no conflict resolver available'
-            );
-            throw new Error(
-              'Data conflict detected between local and cloud storage. Cannot proceed without conflict resolution.'
-            );
-          }
-        } else {
-          // No conflict
-          logger.log('CLOUD: No conflict detected, data in sync');
-          this.lastSavedDataHash = cloudHash;
-        }
-
+      if (changesetSyncService.hasSyncState(this.activeProvider)) {
+        await changesetSyncService.sync(
+          this.activeProvider,
+          this.conflictResolver
+        );
         logger.log('CLOUD: Data loaded successfully');
         return true;
-      } else {
-        // No data in cloud
-        logger.log('CLOUD: No data found in cloud');
-        return false;
       }
+
+      return await this.establishSync(this.activeProvider);
     } catch (error) {
       logger.error('CLOUD: Failed to load:', error);
+      if (error instanceof EncryptionError) {
+        useSyncStore.getState().failSync(error.message);
+      }
       return false;
     } finally {
       this.isLoadingFromCloud = false;
     }
   }
 
+  // First sync with a provider: decide how local and cloud data combine
+  private async establishSync(
+    provider: CloudStorageProvider
+  ): Promise<boolean> {
+    const remote = await changesetSyncService.loadRemoteState(provider);
+
+    if (!remote || changesetSyncService.isEmpty(remote.records)) {
+      logger.log('CLOUD: No data found in cloud, uploading local data');
+      await changesetSyncService.publishSnapshot(provider);
+      return true;
+    }
+
+    const hasLocalChanges = await changesetSyncService.hasLocalChanges();
+    if (!hasLocalChanges) {
+      // Nothing local to lose - a full pull brings this device up to date
+      logger.log('CLOUD: No local changes, pulling cloud data');
+      await changesetSyncService.sync(provider, this.conflictResolver);
+      return true;
+    }
+
+    try {
+      logger.log('CLOUD: Merging local data with existing cloud data');
+      await changesetSyncService.mergeWithRemote(
+        provider,
+        remote,
+        this.conflictResolver
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        logger.log('CLOUD: User cancelled conflict resolution');
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sets the end-to-end encryption passphrase. When the cloud already holds
+   * encrypted data the passphrase must decrypt it; plaintext cloud data and
+   * backups are re-uploaded encrypted.
+   */
+  async setEncryptionPassphrase(
+    passphrase: string
+  ): Promise<BackupEncryptionResult> {
+    const storedData = this.activeProvider
+      ? await this.activeProvider.loadStoredData()
+      : null;
+    const wasEncrypted =
+      storedData !== null && encryptionService.isEncrypted(storedData);
+
+    await encryptionService.setPassphrase(passphrase, storedData);
+
+    if (!this.activeProvider) {
+      return { encrypted: 0, failed: 0 };
+    }
+    if (!wasEncrypted) {
+      await this.saveToCloud();
+      await this.publishLocalSnapshot();
+      logger.log('CLOUD: Re-uploaded cloud data with encryption');
+    }
+    // Also retries backups an earlier attempt left unencrypted
+    return this.encryptStoredBackups(this.activeProvider);
+  }
+
+  // One at a time, so only a single backup is held in memory
+  private async encryptStoredBackups(
+    provider: EncryptedStorageProvider
+  ): Promise<BackupEncryptionResult> {
+    const result: BackupEncryptionResult = { encrypted: 0, failed: 0 };
+    for (const backup of await provider.listBackups()) {
+      try {
+        const stored = await provider.loadStoredBackup(backup.id);
+        if (!stored || encryptionService.isEncrypted(stored)) {
+          continue;
+        }
+        // Listed times come from the backup names, so this saves it under
+        // the same name and retention still sees it as made back then
+        await provider.saveBackup(stored, backup.timestamp);
+
+        // Providers keyed by name overwrite the old file; Google Drive
+        // uploads a second file of that name, so the plaintext one goes
+        const left = await provider.loadStoredBackup(backup.id);
+        if (left && !encryptionService.isEncrypted(left)) {
+          await provider.deleteBackup(backup.id);
+        }
+        result.encrypted++;
+      } catch (error) {
+        logger.error(`CLOUD: Failed to encrypt backup ${backup.id}:`, error);
+        result.failed++;
+      }
+    }
+    logger.log('CLOUD: Encrypted existing backups', result);
+    return result;
+  }
+
+  // Re-uploads the cloud data unencrypted and forgets the keys
+  async disableEncryption(): Promise<void> {
+    if (this.activeProvider) {
+      await this.saveToCloud();
+    }
+    await encryptionService.disable();
+    await this.publishLocalSnapshot();
+  }
+
+  // Makes the current local database the cloud state (e.g. after a restore)
+  async publishLocalSnapshot(): Promise<void> {
+    if (!this.activeProvider) {
+      return;
+    }
+    await changesetSyncService.publishSnapshot(this.activeProvider);
+  }
+
   // Initialize from saved state on app start
   async initializeFromSavedState(): Promise<void> {
     if (this.hasInitializedFromSavedState) {
@@ -0,0 +1,362 @@
+import { logger } from '../utils/logger';
+import { IndexedDbStore } from '../utils/indexedDbStore';
+
+/**
+ * End-to-end encryption for everything uploaded to a cloud provider.
+ *
+ * A passphrase is stretched with PBKDF2 (WebCrypto) into an AES-GCM key.
+ * Encrypted payloads carry a versioned envelope header, so files written
+ * before encryption was enabled keep loading as they are:
+ *
+ *   "JAJAENC" | version (1 byte) | PBKDF2 iterations (uint32 BE)
+ *   | salt (16 bytes) | IV (12 bytes) | AES-GCM ciphertext
+ *
+ * Derived keys are kept on this device as non-extractable CryptoKeys; the
+ * passphrase itself is only held in memory while the app is open.
+ */
+
+export type EncryptionErrorReason =
+  | 'passphrase-required'
+  | 'wrong-passphrase'
+  | 'corrupt-data';
+
+export class EncryptionError extends Error {
+  constructor(
+    message: string,
+    readonly reason: EncryptionErrorReason
+  ) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+const MAGIC = new TextEncoder().encode('JAJAENC');
+const FORMAT_VERSION = 1;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const HEADER_LENGTH = MAGIC.length + 1 + 4 + SALT_LENGTH + IV_LENGTH;
+
+const PRIMARY_SALT_KEY = 'primary-salt';
+const PRIMARY_ITERATIONS_KEY = 'primary-iterations';
+const KEY_PREFIX = 'key:';
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+class EncryptionService {
+  private readonly PBKDF2_ITERATIONS = 310000;
+  private store = new IndexedDbStore<CryptoKey | string | number>(
+    'jaja-encryption',
+    'keys'
+  );
+
+  // Keys by salt (hex). Files from other devices may use their own salt.
+  private keys = new Map<string, CryptoKey>();
+  private primarySalt: string | null = null;
+  private primaryIterations = 0;
+  private passphrase: string | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await this.store.getByPrefix('');
+          stored.forEach((value, key) => {
+            if (key === PRIMARY_SALT_KEY && typeof value === 'string') {
+              this.primarySalt = value;
+            } else if (
+              key === PRIMARY_ITERATIONS_KEY &&
+              typeof value === 'number'
+            ) {
+              this.primaryIterations = value;
+            } else if (
+              key.startsWith(KEY_PREFIX) &&
+              value instanceof CryptoKey
+            ) {
+              this.keys.set(key.substring(KEY_PREFIX.length), value);
+            }
+          });
+        } catch (error) {
+          logger.error('CRYPTO: Failed to load encryption keys:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    await this.ensureLoaded();
+    return this.primarySalt !== null;
+  }
+
+  isEncrypted(data: Uint8Array): boolean {
+    if (data.length < HEADER_LENGTH) {
+      return false;
+    }
+    return MAGIC.every((byte, index) => data[index] === byte);
+  }
+
+  /**
+   * Enables encryption with `passphrase` (or unlocks data written by another
+   * device with the same passphrase). New uploads are encrypted from now on.
+   * If `encryptedSample` is given the passphrase must be able to decrypt it,
+   * otherwise nothing changes and a wrong-passphrase error is thrown.
+   */
+  async setPassphrase(
+    passphrase: string,
+    encryptedSample?: Uint8Array | null
+  ): Promise<void> {
+    if (!passphrase) {
+      throw new Error('Passphrase cannot be empty');
+    }
+    await this.ensureLoaded();
+
+    // Reuse the salt of existing cloud data so all devices share one key
+    let salt: Uint8Array;
+    let iterations: number;
+    let key: CryptoKey;
+    if (encryptedSample && this.isEncrypted(encryptedSample)) {
+      const envelope = this.parseEnvelope(encryptedSample);
+      salt = envelope.salt;
+      iterations = envelope.iterations;
+      key = await this.deriveKey(passphrase, salt, iterations);
+      await this.decryptEnvelope(envelope, key, true);
+    } else {
+      salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+      iterations = this.PBKDF2_ITERATIONS;
+      key = await this.deriveKey(passphrase, salt, iterations);
+    }
+
+    // Forget keys derived from a previous passphrase
+    await this.store.deleteByPrefix('');
+    this.keys.clear();
+
+    const saltHex = toHex(salt);
+    this.keys.set(saltHex, key);
+    this.primarySalt = saltHex;
+    this.primaryIterations = iterations;
+    this.passphrase = passphrase;
+    await this.store.set(`${KEY_PREFIX}${saltHex}`, key);
+    await this.store.set(PRIMARY_SALT_KEY, saltHex);
+    await this.store.set(PRIMARY_ITERATIONS_KEY, iterations);
+
+    logger.log('CRYPTO: Encryption passphrase set');
+  }
+
+  // Stops encrypting new uploads and forgets all keys on this device
+  async disable(): Promise<void> {
+    await this.ensureLoaded();
+    await this.store.deleteByPrefix('');
+    this.keys.clear();
+    this.primarySalt = null;
+    this.primaryIterations = 0;
+    this.passphrase = null;
+    logger.log('CRYPTO: Encryption disabled');
+  }
+
+  async encrypt(data: Uint8Array): Promise<Uint8Array> {
+    await this.ensureLoaded();
+    if (!this.primarySalt) {
+      return data;
+    }
+
+    const key = this.keys.get(this.primarySalt);
+    if (!key) {
+      throw new EncryptionError(
+        'Encryption key missing - re-enter your encryption passphrase',
+        'passphrase-required'
+      );
+    }
+
+    return this.buildEnvelope(
+      data,
+      key,
+      fromHex(this.primarySalt),
+      this.primaryIterations || this.PBKDF2_ITERATIONS
+    );
+  }
+
+  // A passphrase of its own for files kept by the user, apart from the
+  // cloud keys on this device
+  async encryptWithPassphrase(
+    data: Uint8Array,
+    passphrase: string
+  ): Promise<Uint8Array> {
+    if (!passphrase) {
+      throw new Error('Passphrase cannot be empty');
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const key = await this.deriveKey(passphrase, salt, this.PBKDF2_ITERATIONS);
+    return this.buildEnvelope(data, key, salt, this.PBKDF2_ITERATIONS);
+  }
+
+  // Returns unencrypted data unchanged
+  async decryptWithPassphrase(
+    data: Uint8Array,
+    passphrase: string
+  ): Promise<Uint8Array> {
+    if (!this.isEncrypted(data)) {
+      return data;
+    }
+    const envelope = this.parseEnvelope(data);
+    const key = await this.deriveKey(
+      passphrase,
+      envelope.salt,
+      envelope.iterations
+    );
+    return this.decryptEnvelope(envelope, key, true);
+  }
+
+  // Returns unencrypted data unchanged
+  async decrypt(data: Uint8Array): Promise<Uint8Array> {
+    if (!this.isEncrypted(data)) {
+      return data;
+    }
+    await this.ensureLoaded();
+
+    const envelope = this.parseEnvelope(data);
+    const saltHex = toHex(envelope.salt);
+    const storedKey = this.keys.get(saltHex);
+
+    if (storedKey) {
+      return this.decryptEnvelope(envelope, storedKey, false);
+    }
+
+    if (!this.passphrase) {
+      throw new EncryptionError(
+        'Cloud data is encrypted - enter your encryption passphrase in Settings',
+        'passphrase-required'
+      );
+    }
+
+    const key = await this.deriveKey(
+      this.passphrase,
+      envelope.salt,
+      envelope.iterations
+    );
+    const plaintext = await this.decryptEnvelope(envelope, key, true);
+
+    // The passphrase is proven correct for this salt - remember the key
+    this.keys.set(saltHex, key);
+    await this.store.set(`${KEY_PREFIX}${saltHex}`, key);
+    return plaintext;
+  }
+
+  private async buildEnvelope(
+    data: Uint8Array,
+    key: CryptoKey,
+    salt: Uint8Array,
+    iterations: number
+  ): Promise<Uint8Array> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data)
+    );
+
+    const envelope = new Uint8Array(HEADER_LENGTH + ciphertext.length);
+    const view = new DataView(envelope.buffer);
+    let offset = 0;
+    envelope.set(MAGIC, offset);
+    offset += MAGIC.length;
+    envelope[offset++] = FORMAT_VERSION;
+    view.setUint32(offset, iterations);
+    offset += 4;
+    envelope.set(salt, offset);
+    offset += SALT_LENGTH;
+    envelope.set(iv, offset);
+    offset += IV_LENGTH;
+    envelope.set(ciphertext, offset);
+
+    return envelope;
+  }
+
+  private parseEnvelope(data: Uint8Array): {
+    iterations: number;
+    salt: Uint8Array;
+    iv: Uint8Array;
+    ciphertext: Uint8Array;
+  } {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let offset = MAGIC.length;
+    const version = data[offset++];
+    if (version !== FORMAT_VERSION) {
+      throw new EncryptionError(
+        `Unsupported encryption format version ${version}`,
+        'corrupt-data'
+      );
+    }
+
+    const iterations = view.getUint32(offset);
+    offset += 4;
+    const salt = data.slice(offset, offset + SALT_LENGTH);
+    offset += SALT_LENGTH;
+    const iv = data.slice(offset, offset + IV_LENGTH);
+    offset += IV_LENGTH;
+
+    return { iterations, salt, iv, ciphertext: data.slice(offset) };
+  }
+
+  private async decryptEnvelope(
+    envelope: { iv: Uint8Array; ciphertext: Uint8Array },
+    key: CryptoKey,
+    isNewKey: boolean
+  ): Promise<Uint8Array> {
+    try {
+      return new Uint8Array(
+        await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: envelope.iv },
+          key,
+          envelope.ciphertext
+        )
+      );
+    } catch {
+      // AES-GCM authentication fails for a wrong key as well as for
+      // tampered data; a freshly derived key points at the passphrase
+      throw isNewKey
+        ? new EncryptionError(
+            'Wrong encryption passphrase for cloud data',
+            'wrong-passphrase'
+          )
+        : new EncryptionError(
+            'Encrypted cloud data is corrupted',
+            'corrupt-data'
+          );
+    }
+  }
+
+  private async deriveKey(
+    passphrase: string,
+    salt: Uint8Array,
+    iterations: number
+  ): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+}
+
+export const encryptionService = new EncryptionService();
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { unifiedSyncService } from './unifiedSyncService';
+import { trashService } from './trashService';
 import { logger } from '../utils/logger';
 
 class InitializationService {
@@ -23,6 +24,11 @@ class InitializationService {
       logger.log('INIT: Initializing sync service...');
       await unifiedSyncService.initialize();
 
+      // Step 3: Purge items that have been in the trash too long
+      trashService.purgeExpired().catch(error => {
+        logger.error('INIT: Failed to purge expired trash:', error);
+      });
+
       this.isInitialized = true;
       logger.log('INIT: Application initialization complete');
     } catch (error) {
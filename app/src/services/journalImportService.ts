@@ -0,0 +1,445 @@
+import { Q } from '@nozbe/watermelondb';
+import { isValid, parse } from 'date-fns';
+import database from '../database/watermelon/database';
+import { JournalEntry as JournalEntryModel } from '../database/watermelon/models';
+import { SectionTemplate, Template } from './api';
+import { localApiService } from './localApi';
+import { reactiveDataService } from './reactiveDataService';
+import { SectionService } from './sectionService';
+import { parseCsv } from '../utils/csv';
+import { formatDateForAPI } from '../utils/dates';
+import { resolveTemplateId } from '../utils/templateRules';
+import { readZip } from '../utils/zip';
+import { logger } from '../utils/logger';
+
+export interface ImportedEntry {
+  date: string; // YYYY-MM-DD
+  title?: string;
+  body: string;
+  tags: string[];
+}
+
+// What happens to a day whose section already has content
+export type ImportConflictMode = 'skip' | 'append' | 'replace';
+
+export type ImportRowStatus = 'create' | 'merge' | 'conflict' | 'trashed';
+
+export interface ImportPreviewRow {
+  date: string;
+  count: number; // Imported entries of the day
+  status: ImportRowStatus;
+  // The day's template does not show the section, so it stays hidden
+  outsideTemplate: boolean;
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  create: number;
+  merge: number;
+  conflicts: number;
+  trashed: number;
+}
+
+export interface ImportResult {
+  created: number;
+  merged: number;
+  appended: number;
+  replaced: number;
+  skipped: number;
+}
+
+export interface ImportTarget {
+  section: SectionTemplate;
+  templateId: string;
+  templateName: string;
+}
+
+const DATE_FORMATS = [
+  'EEEE, MMMM d, yyyy',
+  'MMMM d, yyyy',
+  'MMM d, yyyy',
+  'd MMMM yyyy',
+  'd MMM yyyy',
+  'yyyy/MM/dd',
+  'M/d/yyyy',
+];
+
+// A calendar day from the dates exports use. Times with a zone are moved
+// into timeZone, or the device's zone, before the day is taken.
+function parseImportDate(value: string, timeZone?: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}([T ][\d:.]+)?$/.test(trimmed)) {
+    return trimmed.slice(0, 10);
+  }
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    if (isNaN(date.getTime())) {
+      return null;
+    }
+    if (timeZone) {
+      try {
+        // The Canadian locale writes dates as YYYY-MM-DD
+        return new Intl.DateTimeFormat('en-CA', { timeZone }).format(date);
+      } catch {
+        // Unknown zone, so use the device's
+      }
+    }
+    return formatDateForAPI(date);
+  }
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(trimmed, dateFormat, new Date());
+    if (isValid(date)) {
+      return formatDateForAPI(date);
+    }
+  }
+  return null;
+}
+
+function readString(record: any, keys: string[]): string {
+  for (const key of keys) {
+    if (typeof record[key] === 'string') {
+      return record[key];
+    }
+  }
+  return '';
+}
+
+function readTags(record: any): string[] {
+  if (Array.isArray(record.tags)) {
+    return record.tags.filter((tag: unknown) => typeof tag === 'string');
+  }
+  if (typeof record.tags === 'string') {
+    return record.tags.split(/[,;]/).map((tag: string) => tag.trim());
+  }
+  return [];
+}
+
+// Day One escapes Markdown characters and links photos it keeps elsewhere
+function cleanDayOneText(text: string): string {
+  return text
+    .replace(/!\[\]\(dayone-moment:[^)]*\)\n?/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>|])/g, '$1')
+    .trim();
+}
+
+// Day One's Journal.json, or any list of objects with a date and a body
+function parseJson(text: string, fileName: string): ImportedEntry[] {
+  const data = JSON.parse(text);
+  const records: any[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.entries)
+      ? data.entries
+      : [];
+  if (records.length === 0) {
+    throw new Error(`${fileName} has no list of entries`);
+  }
+
+  const entries: ImportedEntry[] = [];
+  records.forEach(record => {
+    if (!record || typeof record !== 'object') {
+      return;
+    }
+    const isDayOne = typeof record.creationDate === 'string';
+    const date = parseImportDate(
+      readString(record, ['date', 'creationDate', 'created', 'created_at']),
+      isDayOne ? record.timeZone : undefined
+    );
+    const body = readString(record, ['text', 'body', 'content']);
+    if (!date || !body.trim()) {
+      return;
+    }
+    entries.push({
+      date,
+      title: readString(record, ['title']) || undefined,
+      body: isDayOne ? cleanDayOneText(body) : body.trim(),
+      tags: readTags(record),
+    });
+  });
+  return entries;
+}
+
+// A header row names the date, title, body and tags columns; without one
+// they are taken in that order
+function parseCsvEntries(text: string): ImportedEntry[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = !parseImportDate(rows[0][0] || '');
+  const column = (names: string[], fallback: number) =>
+    hasHeader ? header.findIndex(name => names.includes(name)) : fallback;
+  const dateColumn = column(['date', 'day', 'created'], 0);
+  const titleColumn = column(['title', 'subject'], 1);
+  const bodyColumn = column(['body', 'text', 'content', 'entry'], 2);
+  const tagsColumn = column(['tags', 'tag'], 3);
+  if (dateColumn < 0 || bodyColumn < 0) {
+    throw new Error('The CSV needs a date and a body column');
+  }
+
+  const entries: ImportedEntry[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach(row => {
+    const date = parseImportDate(row[dateColumn] || '');
+    const body = (row[bodyColumn] || '').trim();
+    if (!date || !body) {
+      return;
+    }
+    entries.push({
+      date,
+      title: (titleColumn >= 0 && row[titleColumn]?.trim()) || undefined,
+      body,
+      tags:
+        tagsColumn >= 0
+          ? readTags({ tags: row[tagsColumn] || '' }).filter(Boolean)
+          : [],
+    });
+  });
+  return entries;
+}
+
+// Plain text with a date on a line of its own, like "2025-03-14" or
+// "# March 14, 2025", before the text of each day
+function parsePlainText(text: string): ImportedEntry[] {
+  const entries: ImportedEntry[] = [];
+  let current: ImportedEntry | null = null;
+  const lines: string[] = [];
+  const finish = () => {
+    if (current) {
+      current.body = lines.join('\n').trim();
+      if (current.body) {
+        entries.push(current);
+      }
+    }
+    lines.length = 0;
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    const heading = line.replace(/^#+\s*/, '').replace(/:\s*$/, '');
+    const date = heading.length <= 40 ? parseImportDate(heading) : null;
+    if (date) {
+      finish();
+      current = { date, body: '', tags: [] };
+    } else if (current) {
+      lines.push(line);
+    }
+  });
+  finish();
+  return entries;
+}
+
+/**
+ * Imports exports of other journal apps: Day One JSON (or its zip), JSON
+ * lists and CSV files of dates, titles and bodies, and plain text with
+ * date headings. All text of a day goes into one daily text section,
+ * written through LocalApiService.updateEntry like edits on the page.
+ *
+ * preview() is a dry run showing which days would get a new entry, which
+ * would be merged into an existing one and which already have content.
+ */
+export class JournalImportService {
+  private sectionService = new SectionService();
+
+  async readFiles(
+    files: File[]
+  ): Promise<{ entries: ImportedEntry[]; errors: string[] }> {
+    const entries: ImportedEntry[] = [];
+    const errors: string[] = [];
+    const decoder = new TextDecoder();
+
+    const readText = (name: string, text: string) => {
+      try {
+        if (/\.json$/i.test(name)) {
+          entries.push(...parseJson(text, name));
+        } else if (/\.csv$/i.test(name)) {
+          entries.push(...parseCsvEntries(text));
+        } else if (/\.(txt|md|markdown)$/i.test(name)) {
+          entries.push(...parsePlainText(text));
+        } else {
+          errors.push(`${name}: not a JSON, CSV or text file`);
+        }
+      } catch (error) {
+        logger.error(`JOURNAL_IMPORT: Failed to read ${name}:`, error);
+        errors.push(
+          `${name}: ${error instanceof Error ? error.message : 'unreadable'}`
+        );
+      }
+    };
+
+    for (const file of files) {
+      if (/\.zip$/i.test(file.name)) {
+        // Day One zips the JSON of each journal next to its photos
+        const archive = await readZip(new Uint8Array(await file.arrayBuffer()));
+        archive
+          .filter(entry => /\.json$/i.test(entry.name))
+          .forEach(entry => readText(entry.name, decoder.decode(entry.data)));
+      } else {
+        readText(file.name, await file.text());
+      }
+    }
+    return { entries, errors };
+  }
+
+  // Daily text sections of every template, which can receive the text
+  async getTargets(): Promise<ImportTarget[]> {
+    const templates = await localApiService.fetchNamedTemplates();
+    const targets: ImportTarget[] = [];
+    for (const template of templates) {
+      const { sections } = await localApiService.fetchTemplates(template.id);
+      sections
+        .filter(
+          section =>
+            section.content_type === 'text' &&
+            section.refresh_frequency === 'daily'
+        )
+        .forEach(section =>
+          targets.push({
+            section,
+            templateId: template.id,
+            templateName: template.name,
+          })
+        );
+    }
+    return targets;
+  }
+
+  async preview(
+    entries: ImportedEntry[],
+    target: ImportTarget
+  ): Promise<ImportPreview> {
+    const templates = await localApiService.fetchNamedTemplates();
+    const rows: ImportPreviewRow[] = [];
+    for (const [date, dayEntries] of Array.from(
+      this.groupByDate(entries).entries()
+    )) {
+      rows.push({
+        date,
+        count: dayEntries.length,
+        status: await this.getStatus(date, target.section),
+        outsideTemplate:
+          (await this.getTemplateId(date, templates)) !== target.templateId,
+      });
+    }
+
+    const count = (status: ImportRowStatus) =>
+      rows.filter(row => row.status === status).length;
+    return {
+      rows,
+      create: count('create'),
+      merge: count('merge'),
+      conflicts: count('conflict'),
+      trashed: count('trashed'),
+    };
+  }
+
+  async importEntries(
+    entries: ImportedEntry[],
+    target: ImportTarget,
+    conflictMode: ImportConflictMode,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ImportResult> {
+    const result: ImportResult = {
+      created: 0,
+      merged: 0,
+      appended: 0,
+      replaced: 0,
+      skipped: 0,
+    };
+    const days = Array.from(this.groupByDate(entries).entries());
+
+    for (let i = 0; i < days.length; i++) {
+      const [date, dayEntries] = days[i];
+      onProgress?.(i, days.length);
+
+      const status = await this.getStatus(date, target.section);
+      if (
+        status === 'trashed' ||
+        (status === 'conflict' && conflictMode === 'skip')
+      ) {
+        result.skipped++;
+        continue;
+      }
+
+      let content = dayEntries
+        .map(entry =>
+          entry.title ? `## ${entry.title}\n\n${entry.body}` : entry.body
+        )
+        .join('\n\n');
+      if (status === 'conflict' && conflictMode === 'append') {
+        const existing = await this.sectionService.findSectionContent(
+          target.section.id,
+          target.section.refresh_frequency,
+          date
+        );
+        content = `${existing.trimEnd()}\n\n${content}`;
+      }
+
+      await localApiService.updateEntry(date, {
+        date,
+        sections: { [target.section.id]: { ...target.section, content } },
+      });
+      await localApiService.addMissingEntryTags(
+        date,
+        dayEntries.flatMap(entry => entry.tags)
+      );
+
+      if (status === 'create') result.created++;
+      else if (status === 'merge') result.merged++;
+      else if (conflictMode === 'append') result.appended++;
+      else result.replaced++;
+    }
+
+    onProgress?.(days.length, days.length);
+    reactiveDataService.notifyBulkChanges();
+    logger.log('JOURNAL_IMPORT: Imported', result);
+    return result;
+  }
+
+  // Entries of each day, oldest day first
+  private groupByDate(entries: ImportedEntry[]): Map<string, ImportedEntry[]> {
+    const groups = new Map<string, ImportedEntry[]>();
+    [...entries]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(entry => {
+        groups.set(entry.date, [...(groups.get(entry.date) || []), entry]);
+      });
+    return groups;
+  }
+
+  private async findEntry(date: string): Promise<JournalEntryModel | null> {
+    const records = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(Q.where('date', date))
+      .fetch();
+    return records[0] || null;
+  }
+
+  private async getTemplateId(
+    date: string,
+    templates: Template[]
+  ): Promise<string> {
+    const entry = await this.findEntry(date);
+    return resolveTemplateId(templates, date, entry?.templateId);
+  }
+
+  private async getStatus(
+    date: string,
+    section: SectionTemplate
+  ): Promise<ImportRowStatus> {
+    const entry = await this.findEntry(date);
+    if (!entry) {
+      return 'create';
+    }
+    if (entry.deletedAt) {
+      return 'trashed';
+    }
+    const existing = await this.sectionService.findSectionContent(
+      section.id,
+      section.refresh_frequency,
+      date
+    );
+    return existing.trim() ? 'conflict' : 'merge';
+  }
+}
+
+export const journalImportService = new JournalImportService();
@@ -1,27 +1,47 @@
 import database from '../database/watermelon/database';
+import { claimStableId, stableIds } from '../database/watermelon/stableIds';
 import {
   JournalEntry as JournalEntryModel,
+  Template as TemplateModel,
   TemplateColumn,
   TemplateSection,
   Section,
   SectionJournalEntry,
+  SectionRevision,
+  EntryTag,
 } from '../database/watermelon/models';
 import {
   JournalEntry,
   SectionTemplate,
   Column,
   SectionWithContent,
+  Template,
 } from './api';
 import { logger } from '../utils/logger';
+import { formatDateForAPI } from '../utils/dates';
+import {
+  DEFAULT_TEMPLATE_ID,
+  formatWeekdays,
+  parseWeekdays,
+  resolveTemplateId,
+} from '../utils/templateRules';
 import { SectionRegistry } from '../components/sections/core/SectionRegistry';
-import { Q } from '@nozbe/watermelondb';
+import { Model, Q } from '@nozbe/watermelondb';
 import { SectionService } from './sectionService';
+import { TagService } from './tagService';
+import {
+  TemplateLayout,
+  TemplateVersionInfo,
+  TemplateVersionService,
+} from './templateVersionService';
 
 export class LocalApiService {
   private sectionService = new SectionService();
+  private tagService = new TagService();
+  private templateVersionService = new TemplateVersionService();
 
   // Template Management
-  async fetchTemplates(): Promise<{
+  async fetchTemplates(templateId: string = DEFAULT_TEMPLATE_ID): Promise<{
     columns: Column[];
     sections: SectionTemplate[];
   }> {
@@ -29,7 +49,7 @@ export class LocalApiService {
       // Fetch columns
       const columnRecords = await database.collections
         .get<TemplateColumn>('template_columns')
-        .query(Q.sortBy('display_order'))
+        .query(this.belongsToTemplate(templateId), Q.sortBy('display_order'))
         .fetch();
 
       const columns: Column[] = columnRecords.map(record => ({
@@ -39,10 +59,14 @@ export class LocalApiService {
         display_order: record.displayOrder,
       }));
 
-      // Fetch sections
+      // Fetch sections, leaving out the ones in the trash
       const sectionRecords = await database.collections
         .get<TemplateSection>('template_sections')
-        .query(Q.sortBy('display_order'))
+        .query(
+          this.belongsToTemplate(templateId),
+          Q.where('deleted_at', null),
+          Q.sortBy('display_order')
+        )
         .fetch();
 
       const sections: SectionTemplate[] = sectionRecords.map(record => ({
@@ -76,8 +100,33 @@ export class LocalApiService {
 
       const entry: JournalEntryModel | null = entryRecords[0] || null;
 
-      // Get templates for section structure
-      const templates = await this.fetchTemplates();
+      // Entries in the trash stay hidden until restored
+      if (entry?.deletedAt) {
+        return {
+          date,
+          sections: {},
+          deleted_at: entry.deletedAt.getTime(),
+        };
+      }
+
+      // Get the template picked for this date
+      const templateId = await this.resolveTemplateForDate(
+        date,
+        entry?.templateId
+      );
+      const currentTemplates = await this.fetchTemplates(templateId);
+      const version = entry
+        ? await this.getEntryTemplateVersion(
+            entry,
+            date,
+            templateId,
+            currentTemplates
+          )
+        : null;
+      const templates = version ? version.layout : currentTemplates;
+      const currentTemplateIds = new Set(
+        currentTemplates.sections.map(template => template.id)
+      );
       const sectionsData: { [key: string]: SectionWithContent } = {};
 
       // If entry exists, get its sections
@@ -113,7 +162,14 @@ export class LocalApiService {
               default_content: template.default_content,
               configuration: template.configuration,
               column_id: template.column_id,
+              // Removed from the template since this version
+              ...(currentTemplateIds.has(template.id)
+                ? {}
+                : { archived: true }),
             };
+          } else if (!currentTemplateIds.has(template.id)) {
+            // Removed from the template since this version, nothing to show
+            continue;
           } else {
             // Get or create section for this timeframe
             let section: { id: string; content: string };
@@ -145,6 +201,33 @@ export class LocalApiService {
             };
           }
         }
+
+        // Sections of templates in the trash still show, read-only, where
+        // they were written
+        const activeTemplateIds = new Set(
+          templates.sections.map(template => template.id)
+        );
+        sectionsWithTemplates
+          .filter(
+            section =>
+              !activeTemplateIds.has(section.type) &&
+              this.isNotBlankContent(section.contentType, section.content)
+          )
+          .forEach(section => {
+            sectionsData[section.type] = {
+              content: section.content,
+              title: section.title,
+              refresh_frequency: section.refreshFrequency,
+              placeholder: section.placeholder,
+              content_type: section.contentType,
+              id: section.type,
+              display_order: section.displayOrder,
+              default_content: section.defaultContent,
+              configuration: section.configuration,
+              column_id: section.columnId,
+              archived: true,
+            };
+          });
       } else {
         logger.log(`No entry found for ${date}, creating empty structure`);
         // No entry exists, create empty structure with timeframe sections
@@ -180,6 +263,10 @@ export class LocalApiService {
       return {
         date,
         sections: sectionsData,
+        template_id: templateId,
+        template_pinned: templateId === entry?.templateId,
+        template_version_id: version?.id,
+        template_version: version?.version,
       };
     } catch (error) {
       logger.error('Error fetching entry:', error);
@@ -187,6 +274,68 @@ export class LocalApiService {
     }
   }
 
+  // Past entries keep the template version they were last saved with while
+  // current; other entries follow the template. Returns the version to
+  // render with when it differs from the template.
+  private async getEntryTemplateVersion(
+    entry: JournalEntryModel,
+    date: string,
+    templateId: string,
+    layout: TemplateLayout
+  ): Promise<TemplateVersionInfo | null> {
+    const version = await this.getKeptTemplateVersion(entry, date, templateId);
+    return version &&
+      !this.templateVersionService.matchesLayout(version, layout)
+      ? version
+      : null;
+  }
+
+  private async getKeptTemplateVersion(
+    entry: JournalEntryModel,
+    date: string,
+    templateId: string
+  ): Promise<TemplateVersionInfo | null> {
+    const isPast = date < formatDateForAPI(new Date());
+    if (!isPast || !entry.templateVersionId) {
+      return null;
+    }
+    const version = await this.templateVersionService.getVersion(
+      entry.templateVersionId
+    );
+    return version && version.templateId === templateId ? version : null;
+  }
+
+  // The template an entry is saved with. Read before writing, as fetching
+  // templates may create the default one.
+  private async getTemplateForSave(
+    date: string
+  ): Promise<{ templateId: string; layout: TemplateLayout }> {
+    const entryRecords = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(Q.where('date', date))
+      .fetch();
+    const templateId = await this.resolveTemplateForDate(
+      date,
+      entryRecords[0]?.templateId
+    );
+    return { templateId, layout: await this.fetchTemplates(templateId) };
+  }
+
+  // Records the template version the entry is saved with, unless it is past
+  // and keeps the version it has.
+  // No database.write() - assumes we're already in a write context
+  private async stampTemplateVersion(
+    entry: JournalEntryModel,
+    date: string,
+    templateId: string,
+    layout: TemplateLayout
+  ): Promise<void> {
+    if (await this.getKeptTemplateVersion(entry, date, templateId)) {
+      return;
+    }
+    await this.templateVersionService.stampEntry(entry, templateId, layout);
+  }
+
   private isNotBlankContent(contentType: string, content: string): boolean {
     const registry = SectionRegistry.getInstance();
     return !registry.isContentEmpty(contentType, content);
@@ -206,11 +355,18 @@ export class LocalApiService {
       return journalEntry;
     } else {
       // Create new entry
-      const journalEntry = await database.collections
-        .get<JournalEntryModel>('journal_entries')
-        .create((record: JournalEntryModel) => {
+      const entriesCollection =
+        database.collections.get<JournalEntryModel>('journal_entries');
+      const stableId = await claimStableId(
+        entriesCollection,
+        stableIds.journalEntry(date)
+      );
+      const journalEntry = await entriesCollection.create(
+        (record: JournalEntryModel) => {
+          if (stableId) record._raw.id = stableId;
           record.date = date;
-        });
+        }
+      );
       logger.log('Created new entry with ID:', journalEntry.id);
       return journalEntry;
     }
@@ -236,7 +392,7 @@ export class LocalApiService {
     existingSectionsMap: { [key: string]: any },
     journalEntryId: string,
     date: string
-  ): Promise<void> {
+  ): Promise<string> {
     const existingSection = existingSectionsMap[sectionType];
 
     if (existingSection) {
@@ -250,6 +406,7 @@ export class LocalApiService {
         existingSection.id,
         sectionData.content
       );
+      return existingSection.id;
     } else {
       // No existing section linked to this entry, get or create one
       const section = await this.sectionService.getOrCreateSection(
@@ -265,15 +422,18 @@ export class LocalApiService {
         section.id,
         sectionData.content
       );
+      return section.id;
     }
   }
 
   // Simplified updateEntry method
   async updateEntry(date: string, entry: JournalEntry): Promise<JournalEntry> {
     try {
+      const { templateId, layout } = await this.getTemplateForSave(date);
       await database.write(async () => {
         // Get or create journal entry
         const journalEntry = await this.getOrCreateJournalEntry(date);
+        await this.stampTemplateVersion(journalEntry, date, templateId, layout);
 
         // Get existing sections that are already linked to this journal entry
         const existingSectionsMap = await this.getExistingSectionsMap(
@@ -284,13 +444,19 @@ export class LocalApiService {
         for (const [sectionType, sectionData] of Object.entries(
           entry.sections
         )) {
-          await this.processSectionUpdate(
+          // Read-only sections of templates in the trash
+          if (sectionData.archived) continue;
+
+          const sectionId = await this.processSectionUpdate(
             sectionType,
             sectionData,
             existingSectionsMap,
             journalEntry.id,
             date
           );
+
+          // Keep #hashtag tags in step with the saved content
+          await this.tagService.syncSectionTags(sectionId, journalEntry.id);
         }
       });
 
@@ -301,6 +467,7 @@ export class LocalApiService {
     }
   }
 
+  // Moves the entry to the trash; purgeEntry() removes it for good
   async deleteEntry(date: string): Promise<void> {
     try {
       await database.write(async () => {
@@ -310,7 +477,9 @@ export class LocalApiService {
           .fetch();
 
         if (entryRecords.length > 0) {
-          await entryRecords[0].destroyPermanently();
+          await entryRecords[0].update(record => {
+            record.deletedAt = new Date();
+          });
         }
       });
     } catch (error) {
@@ -319,12 +488,143 @@ export class LocalApiService {
     }
   }
 
-  async createTemplateColumn(columnData: Column): Promise<Column> {
+  async restoreEntry(date: string): Promise<void> {
+    try {
+      await database.write(async () => {
+        const entryRecords = await database.collections
+          .get<JournalEntryModel>('journal_entries')
+          .query(Q.where('date', date))
+          .fetch();
+
+        if (entryRecords.length > 0) {
+          await entryRecords[0].update(record => {
+            record.deletedAt = null;
+          });
+        }
+      });
+    } catch (error) {
+      logger.error('Error restoring entry:', error);
+      throw error;
+    }
+  }
+
+  // Permanently removes an entry, its links and the daily sections only it
+  // showed. Weekly, monthly and persistent sections belong to other days too.
+  async purgeEntry(date: string): Promise<void> {
+    try {
+      await database.write(async () => {
+        const entryRecords = await database.collections
+          .get<JournalEntryModel>('journal_entries')
+          .query(Q.where('date', date))
+          .fetch();
+        if (entryRecords.length === 0) {
+          return;
+        }
+        const entry = entryRecords[0];
+
+        const junctionCollection =
+          database.collections.get<SectionJournalEntry>(
+            'section_journal_entries'
+          );
+        const junctions = await junctionCollection
+          .query(Q.where('journal_entry_id', entry.id))
+          .fetch();
+        const dailySections = await database.collections
+          .get<Section>('sections')
+          .query(
+            Q.where(
+              'id',
+              Q.oneOf(junctions.map(junction => junction.sectionId))
+            ),
+            Q.where('timeframe_type', 'daily')
+          )
+          .fetch();
+
+        const sectionsToDelete: Section[] = [];
+        for (const section of dailySections) {
+          const otherLinks = await junctionCollection
+            .query(
+              Q.where('section_id', section.id),
+              Q.where('journal_entry_id', Q.notEq(entry.id))
+            )
+            .fetchCount();
+          if (otherLinks === 0) {
+            sectionsToDelete.push(section);
+          }
+        }
+
+        const entryTags = await database.collections
+          .get<EntryTag>('entry_tags')
+          .query(Q.where('journal_entry_id', entry.id))
+          .fetch();
+
+        await database.batch(
+          ...junctions.map(junction => junction.prepareMarkAsDeleted()),
+          ...entryTags.map(entryTag => entryTag.prepareMarkAsDeleted()),
+          ...(await this.prepareDeleteSections(sectionsToDelete)),
+          entry.prepareMarkAsDeleted()
+        );
+      });
+    } catch (error) {
+      logger.error('Error purging entry:', error);
+      throw error;
+    }
+  }
+
+  // Manual tags; hashtags are picked up in updateEntry
+  async addEntryTag(date: string, name: string): Promise<void> {
+    try {
+      await database.write(async () => {
+        const journalEntry = await this.getOrCreateJournalEntry(date);
+        await this.tagService.addManualTag(journalEntry.id, name);
+      });
+    } catch (error) {
+      logger.error('Error adding tag:', error);
+      throw error;
+    }
+  }
+
+  // Imported tags, skipping those the entry has already
+  async addMissingEntryTags(date: string, names: string[]): Promise<void> {
+    try {
+      await database.write(async () => {
+        const journalEntry = await this.getOrCreateJournalEntry(date);
+        await this.tagService.addMissingTags(journalEntry.id, names);
+      });
+    } catch (error) {
+      logger.error('Error adding tags:', error);
+      throw error;
+    }
+  }
+
+  async removeEntryTag(date: string, tagId: string): Promise<void> {
+    try {
+      await database.write(async () => {
+        const entryRecords = await database.collections
+          .get<JournalEntryModel>('journal_entries')
+          .query(Q.where('date', date))
+          .fetch();
+
+        if (entryRecords.length > 0) {
+          await this.tagService.removeManualTag(entryRecords[0].id, tagId);
+        }
+      });
+    } catch (error) {
+      logger.error('Error removing tag:', error);
+      throw error;
+    }
+  }
+
+  async createTemplateColumn(
+    columnData: Column,
+    templateId: string = DEFAULT_TEMPLATE_ID
+  ): Promise<Column> {
     try {
       await database.write(async () => {
         await database.collections
           .get<TemplateColumn>('template_columns')
           .create((record: TemplateColumn) => {
+            record.templateId = templateId;
             record.title = columnData.title;
             record.width = columnData.width;
             record.displayOrder = columnData.display_order;
@@ -378,7 +678,21 @@ export class LocalApiService {
         const record = await database.collections
           .get<TemplateColumn>('template_columns')
           .find(id);
-        await record.destroyPermanently();
+
+        // Its sections go to the trash so their content stays readable
+        const sections = await database.collections
+          .get<TemplateSection>('template_sections')
+          .query(Q.where('column_id', id), Q.where('deleted_at', null))
+          .fetch();
+        const now = new Date();
+        await database.batch(
+          ...sections.map(section =>
+            section.prepareUpdate(template => {
+              template.deletedAt = now;
+            })
+          ),
+          record.prepareMarkAsDeleted()
+        );
       });
     } catch (error) {
       logger.error('Error deleting template column:', error);
@@ -431,9 +745,17 @@ export class LocalApiService {
   ): Promise<SectionTemplate> {
     try {
       await database.write(async () => {
+        // Sections belong to the template of their column
+        const column = sectionData.column_id
+          ? await database.collections
+              .get<TemplateColumn>('template_columns')
+              .find(sectionData.column_id)
+          : null;
+
         await database.collections
           .get<TemplateSection>('template_sections')
           .create((record: TemplateSection) => {
+            record.templateId = column?.templateId || DEFAULT_TEMPLATE_ID;
             record.title = sectionData.title;
             record.refreshFrequency = sectionData.refresh_frequency;
             record.displayOrder = sectionData.display_order;
@@ -516,46 +838,426 @@ export class LocalApiService {
     }
   }
 
+  // Moves the template section to the trash. New entries stop showing it,
+  // but the sections written with it are kept and shown read-only.
   async deleteTemplateSection(id: string): Promise<void> {
     try {
       await database.write(async () => {
-        // First, find all sections that use this template
-        const sectionsCollection =
-          database.collections.get<Section>('sections');
-        const sectionsToDelete = await sectionsCollection
+        const record = await database.collections
+          .get<TemplateSection>('template_sections')
+          .find(id);
+        await record.update(template => {
+          template.deletedAt = new Date();
+        });
+      });
+    } catch (error) {
+      logger.error('Error deleting template section:', error);
+      throw error;
+    }
+  }
+
+  async restoreTemplateSection(id: string): Promise<void> {
+    try {
+      const templateIds = (await this.fetchNamedTemplates()).map(
+        template => template.id
+      );
+
+      await database.write(async () => {
+        const record = await database.collections
+          .get<TemplateSection>('template_sections')
+          .find(id);
+
+        // Its column or named template may have been deleted while it was
+        // in the trash
+        const templateId =
+          record.templateId && templateIds.includes(record.templateId)
+            ? record.templateId
+            : DEFAULT_TEMPLATE_ID;
+        const columns = await database.collections
+          .get<TemplateColumn>('template_columns')
+          .query(this.belongsToTemplate(templateId), Q.sortBy('display_order'))
+          .fetch();
+        const hasColumn = columns.some(column => column.id === record.columnId);
+
+        await record.update(template => {
+          template.deletedAt = null;
+          template.templateId = templateId;
+          if (!hasColumn && columns.length > 0) {
+            template.columnId = columns[0].id;
+          }
+        });
+      });
+    } catch (error) {
+      logger.error('Error restoring template section:', error);
+      throw error;
+    }
+  }
+
+  // Permanently removes a template section and every section written with it
+  async purgeTemplateSection(id: string): Promise<void> {
+    try {
+      await database.write(async () => {
+        const sectionsToDelete = await database.collections
+          .get<Section>('sections')
           .query(Q.where('type', id))
           .fetch();
+        const junctions = await database.collections
+          .get<SectionJournalEntry>('section_journal_entries')
+          .query(
+            Q.where(
+              'section_id',
+              Q.oneOf(sectionsToDelete.map(section => section.id))
+            )
+          )
+          .fetch();
+        const record = await database.collections
+          .get<TemplateSection>('template_sections')
+          .find(id);
 
-        // For each section, delete its journal entry junctions first
-        const junctionCollection =
-          database.collections.get<SectionJournalEntry>(
-            'section_journal_entries'
-          );
-        for (const section of sectionsToDelete) {
-          const junctions = await junctionCollection
-            .query(Q.where('section_id', section.id))
-            .fetch();
-
-          // Delete all junctions for this section
-          for (const junction of junctions) {
-            await junction.destroyPermanently();
+        await database.batch(
+          ...junctions.map(junction => junction.prepareMarkAsDeleted()),
+          ...(await this.prepareDeleteSections(sectionsToDelete)),
+          record.prepareMarkAsDeleted()
+        );
+      });
+    } catch (error) {
+      logger.error('Error purging template section:', error);
+      throw error;
+    }
+  }
+
+  // Named templates
+
+  // The default template always exists; it is created on first use
+  async fetchNamedTemplates(): Promise<Template[]> {
+    try {
+      const templatesCollection =
+        database.collections.get<TemplateModel>('templates');
+      let records = await templatesCollection
+        .query(Q.sortBy('display_order'))
+        .fetch();
+
+      if (!records.some(record => record.id === DEFAULT_TEMPLATE_ID)) {
+        await database.write(async () => {
+          // Another caller may have created it while this one waited
+          const existing = await templatesCollection
+            .query(Q.where('id', DEFAULT_TEMPLATE_ID))
+            .fetchCount();
+          if (existing === 0) {
+            await templatesCollection.create(record => {
+              record._raw.id = DEFAULT_TEMPLATE_ID;
+              record.name = 'Default';
+              record.weekdays = '';
+              record.displayOrder = 0;
+            });
           }
+        });
+        records = await templatesCollection
+          .query(Q.sortBy('display_order'))
+          .fetch();
+      }
+
+      return records.map(record => this.toTemplate(record));
+    } catch (error) {
+      logger.error('Error fetching named templates:', error);
+      throw error;
+    }
+  }
+
+  // Starts empty, or as a copy of the columns and sections of another template
+  async createNamedTemplate(
+    name: string,
+    copyFromId?: string
+  ): Promise<Template> {
+    try {
+      const existing = await this.fetchNamedTemplates();
+      const source = copyFromId ? await this.fetchTemplates(copyFromId) : null;
 
-          // Delete the section itself
-          await section.destroyPermanently();
+      const created = await database.write(async () => {
+        const template = await database.collections
+          .get<TemplateModel>('templates')
+          .create(record => {
+            record.name = name;
+            record.weekdays = '';
+            record.displayOrder =
+              Math.max(...existing.map(t => t.display_order), 0) + 1;
+          });
+
+        if (source) {
+          await database.batch(...this.prepareLayoutCopy(template.id, source));
         }
 
-        // Finally, delete the template section
+        return template;
+      });
+
+      return this.toTemplate(created);
+    } catch (error) {
+      logger.error('Error creating named template:', error);
+      throw error;
+    }
+  }
+
+  async updateNamedTemplate(
+    id: string,
+    templateData: Partial<Omit<Template, 'id'>>
+  ): Promise<Template> {
+    try {
+      const updated = await database.write(async () => {
         const record = await database.collections
-          .get<TemplateSection>('template_sections')
+          .get<TemplateModel>('templates')
           .find(id);
-        await record.destroyPermanently();
+        await record.update(template => {
+          if (templateData.name !== undefined)
+            template.name = templateData.name;
+          if (templateData.weekdays !== undefined)
+            template.weekdays = formatWeekdays(templateData.weekdays);
+          if (templateData.range_start !== undefined)
+            template.rangeStart = templateData.range_start || null;
+          if (templateData.range_end !== undefined)
+            template.rangeEnd = templateData.range_end || null;
+          if (templateData.display_order !== undefined)
+            template.displayOrder = templateData.display_order;
+        });
+        return record;
       });
+
+      return this.toTemplate(updated);
     } catch (error) {
-      logger.error('Error deleting template section:', error);
+      logger.error('Error updating named template:', error);
       throw error;
     }
   }
+
+  // Its sections go to the trash like those of a deleted column. Entries
+  // that chose it by hand fall back to the rules.
+  async deleteNamedTemplate(id: string): Promise<void> {
+    if (id === DEFAULT_TEMPLATE_ID) {
+      throw new Error('The default template cannot be deleted');
+    }
+
+    try {
+      await database.write(async () => {
+        const record = await database.collections
+          .get<TemplateModel>('templates')
+          .find(id);
+        const columns = await database.collections
+          .get<TemplateColumn>('template_columns')
+          .query(Q.where('template_id', id))
+          .fetch();
+        const sections = await database.collections
+          .get<TemplateSection>('template_sections')
+          .query(Q.where('template_id', id), Q.where('deleted_at', null))
+          .fetch();
+        const now = new Date();
+
+        await database.batch(
+          ...sections.map(section =>
+            section.prepareUpdate(template => {
+              template.deletedAt = now;
+            })
+          ),
+          ...columns.map(column => column.prepareMarkAsDeleted()),
+          record.prepareMarkAsDeleted()
+        );
+      });
+    } catch (error) {
+      logger.error('Error deleting named template:', error);
+      throw error;
+    }
+  }
+
+  // Adds the columns and sections of a layout to a template, after its own
+  // or in place of them. Replaced sections go to the trash.
+  async importTemplateLayout(
+    templateId: string,
+    layout: TemplateLayout,
+    mode: 'merge' | 'replace'
+  ): Promise<void> {
+    try {
+      await database.write(async () => {
+        const columns = await database.collections
+          .get<TemplateColumn>('template_columns')
+          .query(this.belongsToTemplate(templateId))
+          .fetch();
+        const sections = await database.collections
+          .get<TemplateSection>('template_sections')
+          .query(
+            this.belongsToTemplate(templateId),
+            Q.where('deleted_at', null)
+          )
+          .fetch();
+
+        if (mode === 'replace') {
+          const now = new Date();
+          await database.batch(
+            ...sections.map(section =>
+              section.prepareUpdate(template => {
+                template.deletedAt = now;
+              })
+            ),
+            ...columns.map(column => column.prepareMarkAsDeleted()),
+            ...this.prepareLayoutCopy(templateId, layout)
+          );
+          return;
+        }
+
+        const nextOrder = (orders: number[]) =>
+          orders.length > 0 ? Math.max(...orders) + 1 : 0;
+        await database.batch(
+          ...this.prepareLayoutCopy(
+            templateId,
+            layout,
+            nextOrder(columns.map(column => column.displayOrder)),
+            nextOrder(sections.map(section => section.displayOrder))
+          )
+        );
+      });
+    } catch (error) {
+      logger.error('Error importing template layout:', error);
+      throw error;
+    }
+  }
+
+  // Pass null to go back to the template picked by the rules
+  async setEntryTemplate(
+    date: string,
+    templateId: string | null
+  ): Promise<void> {
+    try {
+      await database.write(async () => {
+        const entry = await this.getOrCreateJournalEntry(date);
+        await entry.update(record => {
+          record.templateId = templateId;
+        });
+      });
+    } catch (error) {
+      logger.error('Error setting entry template:', error);
+      throw error;
+    }
+  }
+
+  async fetchTemplateVersion(versionId: string): Promise<TemplateLayout> {
+    const version = await this.templateVersionService.getVersion(versionId);
+    if (!version) {
+      throw new Error(`Template version ${versionId} not found`);
+    }
+    return version.layout;
+  }
+
+  // Shows a past entry with the template as it is now
+  async migrateEntryToCurrentTemplate(date: string): Promise<void> {
+    try {
+      const entryRecords = await database.collections
+        .get<JournalEntryModel>('journal_entries')
+        .query(Q.where('date', date))
+        .fetch();
+      if (entryRecords.length === 0) {
+        return;
+      }
+
+      const entry = entryRecords[0];
+      const templateId = await this.resolveTemplateForDate(
+        date,
+        entry.templateId
+      );
+      const layout = await this.fetchTemplates(templateId);
+      await database.write(async () => {
+        await this.templateVersionService.stampEntry(entry, templateId, layout);
+      });
+    } catch (error) {
+      logger.error('Error migrating entry to current template:', error);
+      throw error;
+    }
+  }
+
+  async resolveTemplateForDate(
+    date: string,
+    manualTemplateId?: string | null
+  ): Promise<string> {
+    const templates = await this.fetchNamedTemplates();
+    return resolveTemplateId(templates, date, manualTemplateId);
+  }
+
+  private toTemplate(record: TemplateModel): Template {
+    return {
+      id: record.id,
+      name: record.name,
+      weekdays: parseWeekdays(record.weekdays),
+      range_start: record.rangeStart,
+      range_end: record.rangeEnd,
+      display_order: record.displayOrder,
+    };
+  }
+
+  // New records copying a layout into a template, with its own ids. Orders
+  // are shifted by the offsets to come after existing columns and sections.
+  private prepareLayoutCopy(
+    templateId: string,
+    layout: TemplateLayout,
+    columnOrderOffset = 0,
+    sectionOrderOffset = 0
+  ): Model[] {
+    const columnsCollection =
+      database.collections.get<TemplateColumn>('template_columns');
+    const sectionsCollection =
+      database.collections.get<TemplateSection>('template_sections');
+    const columnIdMap = new Map<string, string>();
+    const columns = layout.columns.map(column => {
+      const copy = columnsCollection.prepareCreate(record => {
+        record.templateId = templateId;
+        record.title = column.title;
+        record.width = column.width;
+        record.displayOrder = column.display_order + columnOrderOffset;
+      });
+      columnIdMap.set(column.id, copy.id);
+      return copy;
+    });
+    const sections = layout.sections.map(section =>
+      sectionsCollection.prepareCreate(record => {
+        record.templateId = templateId;
+        record.title = section.title;
+        record.refreshFrequency = section.refresh_frequency;
+        record.displayOrder = section.display_order + sectionOrderOffset;
+        record.placeholder = section.placeholder || '';
+        record.defaultContent = section.default_content || '';
+        record.contentType = section.content_type;
+        record.configuration = section.configuration || '';
+        record.columnId =
+          columnIdMap.get(section.column_id || '') || section.column_id || '';
+      })
+    );
+    return [...columns, ...sections];
+  }
+
+  // Columns and sections from before named templates have none set
+  private belongsToTemplate(templateId: string) {
+    return templateId === DEFAULT_TEMPLATE_ID
+      ? Q.or(
+          Q.where('template_id', null),
+          Q.where('template_id', DEFAULT_TEMPLATE_ID)
+        )
+      : Q.where('template_id', templateId);
+  }
+
+  // Sections with their revisions and hashtag links
+  private async prepareDeleteSections(sections: Section[]): Promise<Model[]> {
+    if (sections.length === 0) {
+      return [];
+    }
+    const sectionIds = sections.map(section => section.id);
+    const revisions = await database.collections
+      .get<SectionRevision>('section_revisions')
+      .query(Q.where('section_id', Q.oneOf(sectionIds)))
+      .fetch();
+    const entryTags = await database.collections
+      .get<EntryTag>('entry_tags')
+      .query(Q.where('section_id', Q.oneOf(sectionIds)))
+      .fetch();
+
+    return [...revisions, ...entryTags, ...sections].map(record =>
+      record.prepareMarkAsDeleted()
+    );
+  }
 }
 
 // Create and export singleton instance
@@ -0,0 +1,119 @@
+import {
+  BackupInfo,
+  BackupRetentionPolicy,
+  BackupStore,
+} from '../types/cloudStorage';
+import { logger } from '../utils/logger';
+import { selectBackupsToDelete } from '../utils/backupRetention';
+import { IndexedDbStore } from '../utils/indexedDbStore';
+
+interface LocalBackupMeta {
+  id: string;
+  name: string;
+  timestamp: number;
+  size: number;
+}
+
+const META_PREFIX = 'meta:';
+const DATA_PREFIX = 'data:';
+
+/**
+ * Keeps backups in IndexedDB on this device, so journals that are never
+ * connected to a cloud provider still get periodic snapshots to restore.
+ *
+ * Metadata and payload are stored under separate keys so listing backups
+ * does not read every snapshot into memory.
+ */
+class LocalBackupStore implements BackupStore {
+  private store = new IndexedDbStore<LocalBackupMeta | Uint8Array>(
+    'jaja-local-backups',
+    'backups'
+  );
+
+  async saveBackup(data: Uint8Array, timestamp: Date): Promise<void> {
+    const id = `local-backup-${timestamp.toISOString().replace(/[:.]/g, '-')}`;
+    const meta: LocalBackupMeta = {
+      id,
+      name: `${id}.db.gz`,
+      timestamp: timestamp.getTime(),
+      size: data.length,
+    };
+
+    try {
+      await this.store.setMany(
+        new Map<string, LocalBackupMeta | Uint8Array>([
+          [`${DATA_PREFIX}${id}`, data],
+          [`${META_PREFIX}${id}`, meta],
+        ])
+      );
+      logger.log(`BACKUP: Local backup saved: ${meta.name}`);
+    } catch (error) {
+      logger.error('Save local backup error:', error);
+      throw new Error(`Failed to save local backup: ${error}`);
+    }
+  }
+
+  async listBackups(): Promise<BackupInfo[]> {
+    try {
+      const entries = await this.store.getByPrefix(META_PREFIX);
+      return Array.from(entries.values()).map(value => {
+        const meta = value as LocalBackupMeta;
+        return {
+          id: meta.id,
+          name: meta.name,
+          timestamp: new Date(meta.timestamp),
+          size: meta.size,
+        };
+      });
+    } catch (error) {
+      logger.error('List local backups error:', error);
+      throw new Error(`Failed to list local backups: ${error}`);
+    }
+  }
+
+  async loadBackup(backupId: string): Promise<Uint8Array | null> {
+    try {
+      const data = await this.store.get(`${DATA_PREFIX}${backupId}`);
+      return data instanceof Uint8Array ? data : null;
+    } catch (error) {
+      logger.error('Load local backup error:', error);
+      throw new Error(`Failed to load local backup: ${error}`);
+    }
+  }
+
+  async deleteBackup(backupId: string): Promise<void> {
+    try {
+      // Metadata first, so a half-finished delete never lists a backup
+      // whose data is gone
+      await this.store.delete(`${META_PREFIX}${backupId}`);
+      await this.store.delete(`${DATA_PREFIX}${backupId}`);
+    } catch (error) {
+      logger.error('Delete local backup error:', error);
+      throw new Error(`Failed to delete local backup: ${error}`);
+    }
+  }
+
+  async cleanupOldBackups(policy: BackupRetentionPolicy): Promise<void> {
+    try {
+      const backupsToDelete = selectBackupsToDelete(
+        await this.listBackups(),
+        policy
+      );
+
+      for (const backup of backupsToDelete) {
+        await this.deleteBackup(backup.id);
+      }
+
+      if (backupsToDelete.length > 0) {
+        logger.log(
+          `BACKUP: Cleaned up ${backupsToDelete.length} old local backups`
+        );
+      }
+    } catch (error) {
+      logger.error('Cleanup old local backups error:', error);
+      throw new Error(`Failed to cleanup old local backups: ${error}`);
+    }
+  }
+}
+
+export const localBackupStore = new LocalBackupStore();
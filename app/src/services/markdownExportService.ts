@@ -0,0 +1,122 @@
+import { format } from 'date-fns';
+import { sectionRegistry } from '../components/sections/registry';
+import { localApiService } from './localApi';
+import { SectionService, SectionWithTemplate } from './sectionService';
+import { tagService } from './tagService';
+import { parseAPIDate } from '../utils/dates';
+import { formatFrontMatter } from '../utils/frontMatter';
+import { resolveTemplateId } from '../utils/templateRules';
+import { createZip } from '../utils/zip';
+import { logger } from '../utils/logger';
+
+export interface MarkdownNote {
+  date: string; // YYYY-MM-DD
+  fileName: string;
+  content: string;
+}
+
+// Tells a weekly or monthly section apart from the day it is filed under
+function timeframeLabel(section: SectionWithTemplate): string {
+  const start = parseAPIDate(section.timeframeStart);
+  switch (section.timeframeType) {
+    case 'weekly':
+      return ` (week of ${format(start, 'MMMM d')})`;
+    case 'monthly':
+      return ` (${format(start, 'MMMM yyyy')})`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Exports entries as Markdown notes, one per day, with YAML front matter.
+ * Sections are written through the SectionRegistry in column and display
+ * order, like "Copy Markdown" on the entry page.
+ *
+ * Weekly, monthly and persistent sections are shared by several days; each
+ * is written once, in the note of the first day of the range showing it.
+ * Reads only, so exporting never creates entries or sections.
+ */
+export class MarkdownExportService {
+  private sectionService = new SectionService();
+
+  async exportRange(
+    startDate: string,
+    endDate: string
+  ): Promise<MarkdownNote[]> {
+    const entries = await this.sectionService.getOrderedSectionsForRange(
+      startDate,
+      endDate
+    );
+    const templates = await localApiService.fetchNamedTemplates();
+
+    const written = new Set<string>();
+    const notes: MarkdownNote[] = [];
+
+    for (const { entry, sections } of entries) {
+      const markdownSections: string[] = [];
+      sections.forEach(section => {
+        if (
+          written.has(section.id) ||
+          sectionRegistry.isContentEmpty(section.contentType, section.content)
+        ) {
+          return;
+        }
+        const markdown = sectionRegistry.formatToMarkdown(
+          section.contentType,
+          section.title + timeframeLabel(section),
+          section.content
+        );
+        if (markdown.trim() === '') {
+          return;
+        }
+        markdownSections.push(markdown);
+        if (section.timeframeType !== 'daily') {
+          written.add(section.id);
+        }
+      });
+      if (markdownSections.length === 0) {
+        continue;
+      }
+
+      const tags = await tagService.getTagsForEntry(entry.date);
+      const templateId = resolveTemplateId(
+        templates,
+        entry.date,
+        entry.templateId
+      );
+      const frontMatter = formatFrontMatter({
+        date: entry.date,
+        tags: tags.map(tag => tag.name),
+        template: templates.find(template => template.id === templateId)?.name,
+      });
+      const heading = `# Journal Entry - ${format(parseAPIDate(entry.date), 'MMMM d, yyyy')}`;
+
+      notes.push({
+        date: entry.date,
+        fileName: `${entry.date}.md`,
+        content: `${frontMatter}\n${heading}\n\n${markdownSections.join('\n')}`,
+      });
+    }
+
+    logger.log(
+      `MARKDOWN_EXPORT: ${notes.length} notes from ${startDate} to ${endDate}`
+    );
+    return notes;
+  }
+
+  async exportZip(
+    startDate: string,
+    endDate: string
+  ): Promise<{ data: Uint8Array; noteCount: number }> {
+    const notes = await this.exportRange(startDate, endDate);
+    return {
+      data: createZip(
+        notes.map(note => ({ name: note.fileName, data: note.content }))
+      ),
+      noteCount: notes.length,
+    };
+  }
+}
+
+export const markdownExportService = new MarkdownExportService();
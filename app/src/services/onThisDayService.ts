@@ -0,0 +1,119 @@
+import { Q } from '@nozbe/watermelondb';
+import { format, subMonths, subWeeks } from 'date-fns';
+import database from '../database/watermelon/database';
+import {
+  JournalEntry as JournalEntryModel,
+  TemplateSection as TemplateSectionModel,
+} from '../database/watermelon/models';
+import { ON_THIS_DAY_CONFIG_KEY } from '../components/sections/core/BaseSectionDefinition';
+import { sectionRegistry } from '../components/sections/registry';
+import { SectionService, SectionWithTemplate } from './sectionService';
+import { parseAPIDate } from '../utils/dates';
+import { logger } from '../utils/logger';
+
+export interface Memory {
+  label: string; // e.g. "1 year ago"
+  date: string; // YYYY-MM-DD
+  sections: SectionWithTemplate[];
+}
+
+function isOptedIn(configuration: string): boolean {
+  if (!configuration) return false;
+  try {
+    return JSON.parse(configuration)[ON_THIS_DAY_CONFIG_KEY] === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds earlier entries worth looking back on from a given day: the same
+ * calendar date in every previous year, plus one month and one week ago.
+ *
+ * Only template sections with "Show in On this day" are included. Until
+ * any section opts in, every dated section with content is shown.
+ */
+export class OnThisDayService {
+  private sectionService = new SectionService();
+
+  async getMemories(date: string): Promise<Memory[]> {
+    const day = parseAPIDate(date);
+    const candidates: Array<{ label: string; date: string }> = [
+      { label: '1 week ago', date: format(subWeeks(day, 1), 'yyyy-MM-dd') },
+      { label: '1 month ago', date: format(subMonths(day, 1), 'yyyy-MM-dd') },
+    ];
+
+    // Same month and day in earlier years, newest first
+    const sameDayEntries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(
+        Q.where('date', Q.like(`%-${format(day, 'MM-dd')}`)),
+        Q.where('date', Q.lt(date)),
+        Q.where('deleted_at', null)
+      )
+      .fetch();
+    sameDayEntries
+      .map(entry => entry.date)
+      .sort((a, b) => b.localeCompare(a))
+      .forEach(entryDate => {
+        const years = day.getFullYear() - parseAPIDate(entryDate).getFullYear();
+        candidates.push({
+          label: `${years} year${years === 1 ? '' : 's'} ago`,
+          date: entryDate,
+        });
+      });
+
+    const optedIn = await this.getOptedInTemplateIds();
+    const memories: Memory[] = [];
+    for (const candidate of candidates) {
+      const sections = (await this.getSectionsForDate(candidate.date)).filter(
+        section => optedIn.size === 0 || optedIn.has(section.type)
+      );
+      if (sections.length > 0) {
+        memories.push({ ...candidate, sections });
+      }
+    }
+    return memories;
+  }
+
+  private async getOptedInTemplateIds(): Promise<Set<string>> {
+    const templates = await database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .query()
+      .fetch();
+    return new Set(
+      templates
+        .filter(template => isOptedIn(template.configuration))
+        .map(template => template.id)
+    );
+  }
+
+  // Dated sections with content; never creates entries or sections
+  private async getSectionsForDate(
+    date: string
+  ): Promise<SectionWithTemplate[]> {
+    const entries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(Q.where('date', date), Q.where('deleted_at', null))
+      .fetch();
+    if (entries.length === 0) {
+      return [];
+    }
+
+    try {
+      const sections = await this.sectionService.getSectionsForEntry(
+        entries[0].id
+      );
+      return sections.filter(
+        section =>
+          section.timeframeType !== 'persistent' &&
+          !sectionRegistry.isContentEmpty(section.contentType, section.content)
+      );
+    } catch (error) {
+      logger.error(`Failed to load sections for ${date}:`, error);
+      return [];
+    }
+  }
+}
+
+export const onThisDayService = new OnThisDayService();
@@ -0,0 +1,135 @@
+import { sectionRegistry } from '../components/sections/registry';
+import { SectionService, SectionWithTemplate } from './sectionService';
+import { logger } from '../utils/logger';
+
+export interface BookEntry {
+  date: string; // YYYY-MM-DD
+  sections: SectionWithTemplate[];
+}
+
+export interface BookMonth {
+  month: string; // YYYY-MM
+  entries: BookEntry[];
+  // Month and week goals shown by the month's entries
+  goals: SectionWithTemplate[];
+}
+
+export interface BookHabit {
+  id: string; // Template section id
+  title: string;
+  color: string;
+  completedDates: string[];
+}
+
+export interface Book {
+  months: BookMonth[];
+  habits: BookHabit[];
+  entryCount: number;
+}
+
+const GOALS_TYPE = 'month_week_goals';
+const HABIT_TYPE = 'habit_tracker';
+const DEFAULT_HABIT_COLOR = '#3B82F6';
+
+function readHabit(section: SectionWithTemplate): BookHabit {
+  let color = DEFAULT_HABIT_COLOR;
+  let completedDates: string[] = [];
+  try {
+    color = JSON.parse(section.configuration).habit_color || color;
+  } catch {
+    // Unconfigured habits keep the default color
+  }
+  try {
+    completedDates = JSON.parse(section.content).completedDates || [];
+  } catch {
+    // Never checked off
+  }
+  return { id: section.type, title: section.title, color, completedDates };
+}
+
+/**
+ * Gathers a date range for the printable book: the entries with content by
+ * month, each month's goals, and the check-offs of every habit shown.
+ *
+ * Month goals and habits get pages of their own, so entries leave them
+ * out. Weekly and longer sections are shown on the first entry only.
+ * Reads only, so printing never creates entries or sections.
+ */
+export class PrintBookService {
+  private sectionService = new SectionService();
+
+  async getBook(startDate: string, endDate: string): Promise<Book> {
+    const entries = await this.sectionService.getOrderedSectionsForRange(
+      startDate,
+      endDate
+    );
+
+    const months: BookMonth[] = [];
+    const habits = new Map<string, BookHabit>();
+    const shown = new Set<string>();
+    let entryCount = 0;
+
+    for (const { entry, sections } of entries) {
+      const monthKey = entry.date.slice(0, 7);
+      let month = months[months.length - 1];
+      if (!month || month.month !== monthKey) {
+        month = { month: monthKey, entries: [], goals: [] };
+        months.push(month);
+      }
+
+      const entrySections: SectionWithTemplate[] = [];
+      sections.forEach(section => {
+        if (shown.has(section.id)) {
+          return;
+        }
+        if (section.contentType === HABIT_TYPE) {
+          // Completions of every day live in one section
+          const habit = readHabit(section);
+          const known = habits.get(habit.id);
+          habits.set(
+            habit.id,
+            known
+              ? {
+                  ...known,
+                  completedDates: known.completedDates.concat(
+                    habit.completedDates
+                  ),
+                }
+              : habit
+          );
+          shown.add(section.id);
+          return;
+        }
+        if (
+          sectionRegistry.isContentEmpty(section.contentType, section.content)
+        ) {
+          return;
+        }
+        if (section.timeframeType !== 'daily') {
+          shown.add(section.id);
+        }
+        if (section.contentType === GOALS_TYPE) {
+          month.goals.push(section);
+        } else {
+          entrySections.push(section);
+        }
+      });
+
+      if (entrySections.length > 0) {
+        month.entries.push({ date: entry.date, sections: entrySections });
+        entryCount++;
+      }
+    }
+
+    logger.log(`PRINT: ${entryCount} entries from ${startDate} to ${endDate}`);
+    return {
+      months: months.filter(
+        month => month.entries.length > 0 || month.goals.length > 0
+      ),
+      habits: Array.from(habits.values()),
+      entryCount,
+    };
+  }
+}
+
+export const printBookService = new PrintBookService();
@@ -0,0 +1,124 @@
+import {
+  CloudStorageProvider,
+  BackupInfo,
+  BackupRetentionPolicy,
+  ChangesetInfo,
+  StorageQuota,
+} from '../../types/cloudStorage';
+import { encryptionService } from '../encryptionService';
+
+/**
+ * Wraps a provider so every payload is encrypted before it is uploaded and
+ * decrypted after it is downloaded. Without a passphrase configured it
+ * passes data through unchanged; unencrypted files always load as they are.
+ */
+export class EncryptedStorageProvider implements CloudStorageProvider {
+  constructor(private readonly inner: CloudStorageProvider) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get displayName(): string {
+    return this.inner.displayName;
+  }
+
+  get icon(): string {
+    return this.inner.icon;
+  }
+
+  // Authentication
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  isAuthenticated(): boolean {
+    return this.inner.isAuthenticated();
+  }
+
+  signIn(): Promise<boolean> {
+    return this.inner.signIn();
+  }
+
+  signOut(): Promise<void> {
+    return this.inner.signOut();
+  }
+
+  // File Operations
+  async saveData(data: Uint8Array): Promise<void> {
+    return this.inner.saveData(await encryptionService.encrypt(data));
+  }
+
+  async loadData(): Promise<Uint8Array | null> {
+    return this.decryptOrNull(await this.inner.loadData());
+  }
+
+  // Raw stored sync data, used to check a passphrase against the cloud
+  loadStoredData(): Promise<Uint8Array | null> {
+    return this.inner.loadData();
+  }
+
+  // Backup Operations
+  async saveBackup(data: Uint8Array, timestamp: Date): Promise<void> {
+    return this.inner.saveBackup(
+      await encryptionService.encrypt(data),
+      timestamp
+    );
+  }
+
+  // Raw stored backup, to tell whether it was uploaded encrypted
+  loadStoredBackup(backupId: string): Promise<Uint8Array | null> {
+    return this.inner.loadBackup(backupId);
+  }
+
+  listBackups(): Promise<BackupInfo[]> {
+    return this.inner.listBackups();
+  }
+
+  async loadBackup(backupId: string): Promise<Uint8Array | null> {
+    return this.decryptOrNull(await this.inner.loadBackup(backupId));
+  }
+
+  deleteBackup(backupId: string): Promise<void> {
+    return this.inner.deleteBackup(backupId);
+  }
+
+  cleanupOldBackups(policy: BackupRetentionPolicy): Promise<void> {
+    return this.inner.cleanupOldBackups(policy);
+  }
+
+  // Changeset Operations
+  async saveChangeset(name: string, data: Uint8Array): Promise<void> {
+    return this.inner.saveChangeset(
+      name,
+      await encryptionService.encrypt(data)
+    );
+  }
+
+  listChangesets(): Promise<ChangesetInfo[]> {
+    return this.inner.listChangesets();
+  }
+
+  async loadChangeset(changesetId: string): Promise<Uint8Array | null> {
+    return this.decryptOrNull(await this.inner.loadChangeset(changesetId));
+  }
+
+  deleteChangeset(changesetId: string): Promise<void> {
+    return this.inner.deleteChangeset(changesetId);
+  }
+
+  // Metadata
+  getStorageQuota(): Promise<StorageQuota> {
+    return this.inner.getStorageQuota();
+  }
+
+  getLastSyncTime(): Promise<Date | null> {
+    return this.inner.getLastSyncTime();
+  }
+
+  private async decryptOrNull(
+    data: Uint8Array | null
+  ): Promise<Uint8Array | null> {
+    return data ? encryptionService.decrypt(data) : null;
+  }
+}
@@ -2,9 +2,15 @@ import {
   CloudStorageProvider,
   StorageQuota,
   BackupInfo,
+  ChangesetInfo,
+  BackupRetentionPolicy,
 } from '../../types/cloudStorage';
 
 import { logger } from '../../utils/logger';
+import {
+  getBackupTimestamp,
+  selectBackupsToDelete,
+} from '../../utils/backupRetention';
 
 declare global {
   interface Window {
@@ -35,6 +41,7 @@ export class GoogleDriveAppDataProvider implements CloudStorageProvider {
   private accessToken: string = '';
   private isInitializedFlag = false;
   private readonly JOURNAL_FILE_NAME = 'journal-data.db';
+  private readonly CHANGESET_FILE_PREFIX = 'journal-changes-';
   private tokenClient: TokenClient | null = null;
 
   async initialize(): Promise<void> {
@@ -465,7 +472,7 @@ export class GoogleDriveAppDataProvider implements CloudStorageProvider {
       const backups: BackupInfo[] = result.files.map((file: any) => ({
         id: file.id,
         name: file.name,
-        timestamp: new Date(file.modifiedTime),
+        timestamp: getBackupTimestamp(file.name, new Date(file.modifiedTime)),
         size: parseInt(file.size || '0'),
       }));
 
@@ -550,7 +557,7 @@ export class GoogleDriveAppDataProvider implements CloudStorageProvider {
     }
   }
 
-  async cleanupOldBackups(keepCount: number): Promise<void> {
+  async cleanupOldBackups(policy: BackupRetentionPolicy): Promise<void> {
     if (!this.isAuthenticated()) {
       throw new Error('Not authenticated with Google Drive');
     }
@@ -558,13 +565,8 @@ export class GoogleDriveAppDataProvider implements CloudStorageProvider {
     try {
       const backups = await this.listBackups();
 
-      // Sort by timestamp descending (newest first)
-      const sortedBackups = backups.sort(
-        (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
-      );
-
-      // Delete backups beyond the keep count
-      const backupsToDelete = sortedBackups.slice(keepCount);
+      // Delete backups the retention policy no longer covers
+      const backupsToDelete = selectBackupsToDelete(backups, policy);
 
       for (const backup of backupsToDelete) {
         await this.deleteBackup(backup.id);
@@ -580,6 +582,135 @@ export class GoogleDriveAppDataProvider implements CloudStorageProvider {
     }
   }
 
+  // Changeset Operations
+  async saveChangeset(name: string, data: Uint8Array): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    try {
+      const fileName = `${this.CHANGESET_FILE_PREFIX}${name}.json`;
+      await this.createFile(data, fileName);
+      logger.log(`Changeset saved to Google Drive: ${fileName}`);
+    } catch (error) {
+      logger.error('Save changeset error:', error);
+      throw new Error(`Failed to save changeset: ${error}`);
+    }
+  }
+
+  async listChangesets(): Promise<ChangesetInfo[]> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    try {
+      const query = `parents in 'appDataFolder' and name contains '${this.CHANGESET_FILE_PREFIX}' and trashed=false`;
+      const fields = 'nextPageToken,files(id,name,size,modifiedTime)';
+      const changesets: ChangesetInfo[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const pageParam = pageToken ? `&pageToken=${pageToken}` : '';
+        const response = await fetch(
+          `https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(query)}&fields=${fields}&spaces=appDataFolder&pageSize=1000${pageParam}`,
+          {
+            headers: {
+              Authorization: `Bearer ${this.accessToken}`,
+            },
+            signal: AbortSignal.timeout(10000),
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error(
+            `API request failed: ${response.status} ${response.statusText}`
+          );
+        }
+
+        const result = await response.json();
+        result.files.forEach((file: any) => {
+          changesets.push({
+            id: file.id,
+            name: file.name
+              .replace(this.CHANGESET_FILE_PREFIX, '')
+              .replace(/\.json$/, ''),
+            timestamp: new Date(file.modifiedTime),
+            size: parseInt(file.size || '0'),
+          });
+        });
+        pageToken = result.nextPageToken;
+      } while (pageToken);
+
+      return changesets;
+    } catch (error) {
+      logger.error('List changesets error:', error);
+      throw new Error(`Failed to list changesets: ${error}`);
+    }
+  }
+
+  async loadChangeset(changesetId: string): Promise<Uint8Array | null> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    try {
+      const response = await fetch(
+        `https://www.googleapis.com/drive/v3/files/${changesetId}?alt=media`,
+        {
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+          },
+        }
+      );
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to load changeset: ${response.status} ${errorText}`
+        );
+      }
+
+      const arrayBuffer = await response.arrayBuffer();
+      return new Uint8Array(arrayBuffer);
+    } catch (error) {
+      logger.error('Load changeset error:', error);
+      throw new Error(`Failed to load changeset: ${error}`);
+    }
+  }
+
+  async deleteChangeset(changesetId: string): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    try {
+      const response = await fetch(
+        `https://www.googleapis.com/drive/v3/files/${changesetId}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+          },
+        }
+      );
+
+      // Already removed by another device compacting at the same time
+      if (!response.ok && response.status !== 404) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to delete changeset: ${response.status} ${errorText}`
+        );
+      }
+    } catch (error) {
+      logger.error('Delete changeset error:', error);
+      throw new Error(`Failed to delete changeset: ${error}`);
+    }
+  }
+
   private generateBackupFileName(timestamp: Date): string {
     // Format: journal-backup-2024-12-19T10-30-45-123Z.db.gz
     const isoString = timestamp.toISOString();
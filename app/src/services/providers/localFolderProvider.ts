@@ -0,0 +1,446 @@
+import {
+  CloudStorageProvider,
+  StorageQuota,
+  BackupInfo,
+  ChangesetInfo,
+  BackupRetentionPolicy,
+} from '../../types/cloudStorage';
+
+import { logger } from '../../utils/logger';
+import {
+  getBackupTimestamp,
+  selectBackupsToDelete,
+} from '../../utils/backupRetention';
+import { IndexedDbStore } from '../../utils/indexedDbStore';
+
+// Parts of the File System Access API not yet in the TypeScript DOM types
+type PermissionMode = { mode: 'read' | 'readwrite' };
+
+interface DirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileHandle>;
+  queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+}
+
+interface FileHandle extends FileSystemFileHandle {
+  createWritable(): Promise<{
+    write(data: Blob): Promise<void>;
+    close(): Promise<void>;
+  }>;
+}
+
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker(options?: {
+    id?: string;
+    mode?: 'read' | 'readwrite';
+  }): Promise<DirectoryHandle>;
+};
+
+export function isLocalFolderSupported(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+/**
+ * Stores the journal in a folder on this computer chosen by the user. Point
+ * it at a Syncthing, Dropbox or iCloud Drive folder to sync between devices
+ * without signing in to anything. Uses the same layout as other providers:
+ *
+ *   journal-data.db          sync snapshot
+ *   changes/                 sync changesets
+ *   backups/                 compressed backups
+ *
+ * The directory handle is kept in IndexedDB; browsers ask to confirm access
+ * again after a restart, which happens when the user reconnects.
+ */
+export class LocalFolderProvider implements CloudStorageProvider {
+  readonly name = 'local-folder';
+  readonly displayName = 'Local Folder';
+  readonly icon = '📁';
+
+  private readonly JOURNAL_FILE_NAME = 'journal-data.db';
+  private readonly BACKUP_FOLDER = 'backups';
+  private readonly CHANGESET_FOLDER = 'changes';
+  private readonly CHANGESET_FILE_PREFIX = 'journal-changes-';
+  private readonly HANDLE_KEY = 'local-folder';
+  private handleStore = new IndexedDbStore<DirectoryHandle>(
+    'jaja-file-handles',
+    'handles'
+  );
+  private directory: DirectoryHandle | null = null;
+  private hasPermission = false;
+  private isInitializedFlag = false;
+
+  async initialize(): Promise<void> {
+    if (this.isInitializedFlag) {
+      return;
+    }
+
+    try {
+      const stored = await this.handleStore.get(this.HANDLE_KEY);
+      if (stored) {
+        this.directory = stored;
+        this.hasPermission =
+          (await stored.queryPermission({ mode: 'readwrite' })) === 'granted';
+        logger.log(
+          `Local folder restored: ${stored.name} (access ${
+            this.hasPermission ? 'granted' : 'needs confirmation'
+          })`
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to restore local folder handle:', error);
+    }
+
+    this.isInitializedFlag = true;
+    logger.log('Local folder provider initialized');
+  }
+
+  isAuthenticated(): boolean {
+    return (
+      this.isInitializedFlag && this.directory !== null && this.hasPermission
+    );
+  }
+
+  async signIn(): Promise<boolean> {
+    if (!isLocalFolderSupported()) {
+      logger.error('Local folder sync is not supported in this browser');
+      return false;
+    }
+
+    try {
+      // Re-confirm access to the folder picked before, if there is one
+      if (this.directory) {
+        const permission = await this.directory.requestPermission({
+          mode: 'readwrite',
+        });
+        if (permission === 'granted') {
+          this.hasPermission = true;
+          logger.log('Local folder access confirmed');
+          return true;
+        }
+      }
+
+      const directory = await (
+        window as unknown as DirectoryPickerWindow
+      ).showDirectoryPicker({ id: 'jaja-journal', mode: 'readwrite' });
+
+      await directory.getDirectoryHandle(this.BACKUP_FOLDER, { create: true });
+      await directory.getDirectoryHandle(this.CHANGESET_FOLDER, {
+        create: true,
+      });
+
+      await this.handleStore.set(this.HANDLE_KEY, directory);
+      this.directory = directory;
+      this.hasPermission = true;
+      this.isInitializedFlag = true;
+      logger.log(`Local folder selected: ${directory.name}`);
+      return true;
+    } catch (error) {
+      // AbortError: the user closed the folder picker
+      logger.error('Local folder selection failed:', error);
+      return false;
+    }
+  }
+
+  async signOut(): Promise<void> {
+    try {
+      await this.handleStore.delete(this.HANDLE_KEY);
+    } catch (error) {
+      logger.error('Failed to forget local folder handle:', error);
+    }
+    localStorage.removeItem('localFolderLastSync');
+    this.directory = null;
+    this.hasPermission = false;
+  }
+
+  async saveData(data: Uint8Array): Promise<void> {
+    const directory = this.getDirectory();
+
+    try {
+      await this.writeFile(directory, this.JOURNAL_FILE_NAME, data);
+      localStorage.setItem('localFolderLastSync', Date.now().toString());
+      logger.log('Journal data saved to local folder successfully');
+    } catch (error) {
+      logger.error('Save data error:', error);
+      throw new Error(`Failed to save data: ${error}`);
+    }
+  }
+
+  async loadData(): Promise<Uint8Array | null> {
+    const directory = this.getDirectory();
+
+    try {
+      const data = await this.readFile(directory, this.JOURNAL_FILE_NAME);
+      if (!data) {
+        logger.log('No journal data found in local folder');
+        return null;
+      }
+      logger.log('Journal data loaded from local folder successfully');
+      return data;
+    } catch (error) {
+      logger.error('Load data error:', error);
+      throw new Error(`Failed to load data: ${error}`);
+    }
+  }
+
+  async getStorageQuota(): Promise<StorageQuota> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      // The disk size is not exposed; report what the journal itself uses
+      const directory = this.getDirectory();
+      const files = [
+        ...(await this.listFiles(directory)),
+        ...(await this.listFiles(await this.getBackupFolder())),
+        ...(await this.listFiles(await this.getChangesetFolder())),
+      ];
+      return {
+        used: files.reduce((total, file) => total + file.size, 0),
+        total: 0,
+      };
+    } catch (error) {
+      logger.error('Failed to get storage quota:', error);
+      return {
+        used: 0,
+        total: 0,
+      };
+    }
+  }
+
+  async getLastSyncTime(): Promise<Date | null> {
+    const timestamp = localStorage.getItem('localFolderLastSync');
+    return timestamp ? new Date(parseInt(timestamp)) : null;
+  }
+
+  // Backup Operations
+  async saveBackup(data: Uint8Array, timestamp: Date): Promise<void> {
+    this.getDirectory();
+
+    try {
+      const fileName = this.generateBackupFileName(timestamp);
+      await this.writeFile(await this.getBackupFolder(), fileName, data);
+      logger.log(`Backup saved to local folder: ${fileName}`);
+    } catch (error) {
+      logger.error('Save backup error:', error);
+      throw new Error(`Failed to save backup: ${error}`);
+    }
+  }
+
+  async listBackups(): Promise<BackupInfo[]> {
+    this.getDirectory();
+
+    try {
+      const files = await this.listFiles(await this.getBackupFolder());
+      return files
+        .filter(file => file.name.startsWith('journal-backup-'))
+        .map(file => ({
+          id: file.name,
+          name: file.name,
+          timestamp: getBackupTimestamp(file.name, new Date(file.lastModified)),
+          size: file.size,
+        }));
+    } catch (error) {
+      logger.error('List backups error:', error);
+      throw new Error(`Failed to list backups: ${error}`);
+    }
+  }
+
+  async loadBackup(backupId: string): Promise<Uint8Array | null> {
+    this.getDirectory();
+
+    try {
+      const data = await this.readFile(await this.getBackupFolder(), backupId);
+      if (data) {
+        logger.log('Backup loaded from local folder successfully');
+      }
+      return data;
+    } catch (error) {
+      logger.error('Load backup error:', error);
+      throw new Error(`Failed to load backup: ${error}`);
+    }
+  }
+
+  async deleteBackup(backupId: string): Promise<void> {
+    this.getDirectory();
+
+    try {
+      await this.removeFile(await this.getBackupFolder(), backupId);
+      logger.log('Backup deleted from local folder successfully');
+    } catch (error) {
+      logger.error('Delete backup error:', error);
+      throw new Error(`Failed to delete backup: ${error}`);
+    }
+  }
+
+  async cleanupOldBackups(policy: BackupRetentionPolicy): Promise<void> {
+    this.getDirectory();
+
+    try {
+      const backups = await this.listBackups();
+
+      // Delete backups the retention policy no longer covers
+      const backupsToDelete = selectBackupsToDelete(backups, policy);
+
+      for (const backup of backupsToDelete) {
+        await this.deleteBackup(backup.id);
+        logger.log(`Cleaned up old backup: ${backup.name}`);
+      }
+
+      if (backupsToDelete.length > 0) {
+        logger.log(`Cleaned up ${backupsToDelete.length} old backups`);
+      }
+    } catch (error) {
+      logger.error('Cleanup old backups error:', error);
+      throw new Error(`Failed to cleanup old backups: ${error}`);
+    }
+  }
+
+  // Changeset Operations
+  async saveChangeset(name: string, data: Uint8Array): Promise<void> {
+    this.getDirectory();
+
+    try {
+      const fileName = `${this.CHANGESET_FILE_PREFIX}${name}.json`;
+      await this.writeFile(await this.getChangesetFolder(), fileName, data);
+      logger.log(`Changeset saved to local folder: ${fileName}`);
+    } catch (error) {
+      logger.error('Save changeset error:', error);
+      throw new Error(`Failed to save changeset: ${error}`);
+    }
+  }
+
+  async listChangesets(): Promise<ChangesetInfo[]> {
+    this.getDirectory();
+
+    try {
+      const files = await this.listFiles(await this.getChangesetFolder());
+      return files
+        .filter(file => file.name.startsWith(this.CHANGESET_FILE_PREFIX))
+        .map(file => ({
+          id: file.name,
+          name: file.name
+            .replace(this.CHANGESET_FILE_PREFIX, '')
+            .replace(/\.json$/, ''),
+          timestamp: new Date(file.lastModified),
+          size: file.size,
+        }));
+    } catch (error) {
+      logger.error('List changesets error:', error);
+      throw new Error(`Failed to list changesets: ${error}`);
+    }
+  }
+
+  async loadChangeset(changesetId: string): Promise<Uint8Array | null> {
+    this.getDirectory();
+
+    try {
+      return await this.readFile(await this.getChangesetFolder(), changesetId);
+    } catch (error) {
+      logger.error('Load changeset error:', error);
+      throw new Error(`Failed to load changeset: ${error}`);
+    }
+  }
+
+  async deleteChangeset(changesetId: string): Promise<void> {
+    this.getDirectory();
+
+    try {
+      await this.removeFile(await this.getChangesetFolder(), changesetId);
+    } catch (error) {
+      logger.error('Delete changeset error:', error);
+      throw new Error(`Failed to delete changeset: ${error}`);
+    }
+  }
+
+  // File system helpers
+  private getDirectory(): DirectoryHandle {
+    if (!this.isAuthenticated() || !this.directory) {
+      throw new Error('No local folder selected');
+    }
+    return this.directory;
+  }
+
+  private async getBackupFolder(): Promise<DirectoryHandle> {
+    return (await this.getDirectory().getDirectoryHandle(this.BACKUP_FOLDER, {
+      create: true,
+    })) as DirectoryHandle;
+  }
+
+  private async getChangesetFolder(): Promise<DirectoryHandle> {
+    return (await this.getDirectory().getDirectoryHandle(
+      this.CHANGESET_FOLDER,
+      { create: true }
+    )) as DirectoryHandle;
+  }
+
+  private async writeFile(
+    folder: DirectoryHandle,
+    fileName: string,
+    data: Uint8Array
+  ): Promise<void> {
+    const handle = (await folder.getFileHandle(fileName, {
+      create: true,
+    })) as FileHandle;
+    // The writable stream replaces the file atomically on close
+    const writable = await handle.createWritable();
+    await writable.write(new Blob([data]));
+    await writable.close();
+  }
+
+  private async readFile(
+    folder: DirectoryHandle,
+    fileName: string
+  ): Promise<Uint8Array | null> {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await folder.getFileHandle(fileName);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+
+    const file = await handle.getFile();
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  private async removeFile(
+    folder: DirectoryHandle,
+    fileName: string
+  ): Promise<void> {
+    try {
+      await folder.removeEntry(fileName);
+    } catch (error) {
+      // Already removed (e.g. by another device compacting changesets)
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async listFiles(folder: DirectoryHandle): Promise<File[]> {
+    const files: File[] = [];
+    const iterator = folder.values();
+    let next = await iterator.next();
+    while (!next.done) {
+      const handle = next.value;
+      // Sync tools keep partial downloads in hidden files
+      if (handle.kind === 'file' && !handle.name.startsWith('.')) {
+        files.push(await handle.getFile());
+      }
+      next = await iterator.next();
+    }
+    return files;
+  }
+
+  private generateBackupFileName(timestamp: Date): string {
+    // Format: journal-backup-2024-12-19T10-30-45-123Z.db.gz
+    const isoString = timestamp.toISOString();
+    const fileName = `journal-backup-${isoString.replace(/[:.]/g, '-')}.db.gz`;
+    return fileName;
+  }
+}
@@ -0,0 +1,524 @@
+import {
+  CloudStorageProvider,
+  StorageQuota,
+  BackupInfo,
+  ChangesetInfo,
+  BackupRetentionPolicy,
+} from '../../types/cloudStorage';
+
+import { logger } from '../../utils/logger';
+import {
+  getBackupTimestamp,
+  selectBackupsToDelete,
+} from '../../utils/backupRetention';
+import { signRequest, uriEncode } from '../../utils/sigV4';
+
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  prefix: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const CONFIG_STORAGE_KEY = 's3Config';
+
+export function loadS3Config(): S3Config | null {
+  const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+  if (!stored) {
+    return null;
+  }
+  try {
+    return JSON.parse(stored) as S3Config;
+  } catch (e) {
+    logger.log('Error parsing S3 config, removing it');
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    return null;
+  }
+}
+
+export function saveS3Config(config: S3Config): void {
+  const region = config.region.trim() || 'us-east-1';
+  const prefix = config.prefix.trim().replace(/^\/+|\/+$/g, '');
+  localStorage.setItem(
+    CONFIG_STORAGE_KEY,
+    JSON.stringify({
+      ...config,
+      endpoint: (
+        config.endpoint.trim() || `https://s3.${region}.amazonaws.com`
+      ).replace(/\/+$/, ''),
+      region,
+      bucket: config.bucket.trim(),
+      prefix: prefix ? `${prefix}/` : '',
+    })
+  );
+}
+
+interface S3Object {
+  key: string;
+  name: string;
+  size: number;
+  lastModified: Date;
+}
+
+/**
+ * Stores the journal in an S3 bucket or any S3-compatible object storage
+ * (MinIO, Backblaze B2, Wasabi, ...). Requests are signed in the browser
+ * with SigV4 and use path-style URLs. Objects under the configured prefix:
+ *
+ *   journal-data.db          sync snapshot
+ *   changes/                 sync changesets
+ *   backups/                 compressed backups
+ *
+ * The bucket needs a CORS rule allowing the app's origin.
+ */
+export class S3Provider implements CloudStorageProvider {
+  readonly name = 's3';
+  readonly displayName = 'S3 Storage';
+  readonly icon = '🪣';
+
+  private readonly JOURNAL_FILE_NAME = 'journal-data.db';
+  private readonly BACKUP_PREFIX = 'backups/';
+  private readonly CHANGESET_PREFIX = 'changes/';
+  private readonly CHANGESET_FILE_PREFIX = 'journal-changes-';
+  private readonly REQUEST_TIMEOUT_MS = 15000;
+  private config: S3Config | null = null;
+  private isInitializedFlag = false;
+  private isVerified = false;
+
+  async initialize(): Promise<void> {
+    if (this.isInitializedFlag) {
+      return;
+    }
+
+    this.config = loadS3Config();
+    // Credentials that connected before are trusted until a request fails
+    this.isVerified =
+      this.config !== null &&
+      localStorage.getItem('s3Verified') === this.getBucketUrl(this.config);
+    this.isInitializedFlag = true;
+    logger.log('S3 provider initialized');
+  }
+
+  isAuthenticated(): boolean {
+    return this.isInitializedFlag && this.config !== null && this.isVerified;
+  }
+
+  async signIn(): Promise<boolean> {
+    // Pick up credentials entered in settings since the last initialize
+    this.config = loadS3Config();
+    this.isInitializedFlag = true;
+
+    if (!this.config) {
+      logger.error('S3 storage is not configured');
+      return false;
+    }
+
+    try {
+      const response = await this.request('GET', '', {
+        'list-type': '2',
+        prefix: this.config.prefix,
+        'max-keys': '1',
+      });
+      if (!response.ok) {
+        logger.error(
+          `S3 sign-in failed: ${response.status} ${await response.text()}`
+        );
+        return false;
+      }
+
+      this.isVerified = true;
+      localStorage.setItem('s3Verified', this.getBucketUrl(this.config));
+      logger.log('S3 authentication successful');
+      return true;
+    } catch (error) {
+      logger.error('S3 authentication failed:', error);
+      return false;
+    }
+  }
+
+  async signOut(): Promise<void> {
+    localStorage.removeItem('s3Verified');
+    localStorage.removeItem('s3LastSync');
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    this.config = null;
+    this.isVerified = false;
+  }
+
+  async saveData(data: Uint8Array): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      await this.putObject(this.JOURNAL_FILE_NAME, data);
+      localStorage.setItem('s3LastSync', Date.now().toString());
+      logger.log('Journal data saved to S3 successfully');
+    } catch (error) {
+      logger.error('Save data error:', error);
+      throw new Error(`Failed to save data: ${error}`);
+    }
+  }
+
+  async loadData(): Promise<Uint8Array | null> {
+    this.assertAuthenticated();
+
+    try {
+      const data = await this.getObject(this.JOURNAL_FILE_NAME);
+      if (!data) {
+        logger.log('No journal data found in S3');
+        return null;
+      }
+      logger.log('Journal data loaded from S3 successfully');
+      return data;
+    } catch (error) {
+      logger.error('Load data error:', error);
+      throw new Error(`Failed to load data: ${error}`);
+    }
+  }
+
+  async getStorageQuota(): Promise<StorageQuota> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      // Buckets have no fixed size; report what the journal itself uses
+      const objects = await this.listObjects('');
+      return {
+        used: objects.reduce((total, object) => total + object.size, 0),
+        total: 0,
+      };
+    } catch (error) {
+      logger.error('Failed to get storage quota:', error);
+      return {
+        used: 0,
+        total: 0,
+      };
+    }
+  }
+
+  async getLastSyncTime(): Promise<Date | null> {
+    const timestamp = localStorage.getItem('s3LastSync');
+    return timestamp ? new Date(parseInt(timestamp)) : null;
+  }
+
+  // Backup Operations
+  async saveBackup(data: Uint8Array, timestamp: Date): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      const fileName = this.generateBackupFileName(timestamp);
+      await this.putObject(`${this.BACKUP_PREFIX}${fileName}`, data);
+      logger.log(`Backup saved to S3: ${fileName}`);
+    } catch (error) {
+      logger.error('Save backup error:', error);
+      throw new Error(`Failed to save backup: ${error}`);
+    }
+  }
+
+  async listBackups(): Promise<BackupInfo[]> {
+    this.assertAuthenticated();
+
+    try {
+      const objects = await this.listObjects(this.BACKUP_PREFIX);
+      return objects
+        .filter(object => object.name.startsWith('journal-backup-'))
+        .map(object => ({
+          id: object.name,
+          name: object.name,
+          timestamp: getBackupTimestamp(object.name, object.lastModified),
+          size: object.size,
+        }));
+    } catch (error) {
+      logger.error('List backups error:', error);
+
+      if (
+        error instanceof TypeError &&
+        error.message.includes('Failed to fetch')
+      ) {
+        throw new Error(
+          'Network error - check the endpoint and the bucket CORS settings'
+        );
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error('Request timed out - please try again');
+      }
+
+      throw new Error(`Failed to list backups: ${error}`);
+    }
+  }
+
+  async loadBackup(backupId: string): Promise<Uint8Array | null> {
+    this.assertAuthenticated();
+
+    try {
+      const data = await this.getObject(`${this.BACKUP_PREFIX}${backupId}`);
+      if (data) {
+        logger.log('Backup loaded from S3 successfully');
+      }
+      return data;
+    } catch (error) {
+      logger.error('Load backup error:', error);
+      throw new Error(`Failed to load backup: ${error}`);
+    }
+  }
+
+  async deleteBackup(backupId: string): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      await this.deleteObject(`${this.BACKUP_PREFIX}${backupId}`);
+      logger.log('Backup deleted from S3 successfully');
+    } catch (error) {
+      logger.error('Delete backup error:', error);
+      throw new Error(`Failed to delete backup: ${error}`);
+    }
+  }
+
+  async cleanupOldBackups(policy: BackupRetentionPolicy): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      const backups = await this.listBackups();
+
+      // Delete backups the retention policy no longer covers
+      const backupsToDelete = selectBackupsToDelete(backups, policy);
+
+      for (const backup of backupsToDelete) {
+        await this.deleteBackup(backup.id);
+        logger.log(`Cleaned up old backup: ${backup.name}`);
+      }
+
+      if (backupsToDelete.length > 0) {
+        logger.log(`Cleaned up ${backupsToDelete.length} old backups`);
+      }
+    } catch (error) {
+      logger.error('Cleanup old backups error:', error);
+      throw new Error(`Failed to cleanup old backups: ${error}`);
+    }
+  }
+
+  // Changeset Operations
+  async saveChangeset(name: string, data: Uint8Array): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      const fileName = `${this.CHANGESET_FILE_PREFIX}${name}.json`;
+      await this.putObject(`${this.CHANGESET_PREFIX}${fileName}`, data);
+      logger.log(`Changeset saved to S3: ${fileName}`);
+    } catch (error) {
+      logger.error('Save changeset error:', error);
+      throw new Error(`Failed to save changeset: ${error}`);
+    }
+  }
+
+  async listChangesets(): Promise<ChangesetInfo[]> {
+    this.assertAuthenticated();
+
+    try {
+      const objects = await this.listObjects(this.CHANGESET_PREFIX);
+      return objects
+        .filter(object => object.name.startsWith(this.CHANGESET_FILE_PREFIX))
+        .map(object => ({
+          id: object.name,
+          name: object.name
+            .replace(this.CHANGESET_FILE_PREFIX, '')
+            .replace(/\.json$/, ''),
+          timestamp: object.lastModified,
+          size: object.size,
+        }));
+    } catch (error) {
+      logger.error('List changesets error:', error);
+      throw new Error(`Failed to list changesets: ${error}`);
+    }
+  }
+
+  async loadChangeset(changesetId: string): Promise<Uint8Array | null> {
+    this.assertAuthenticated();
+
+    try {
+      return await this.getObject(`${this.CHANGESET_PREFIX}${changesetId}`);
+    } catch (error) {
+      logger.error('Load changeset error:', error);
+      throw new Error(`Failed to load changeset: ${error}`);
+    }
+  }
+
+  async deleteChangeset(changesetId: string): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      await this.deleteObject(`${this.CHANGESET_PREFIX}${changesetId}`);
+    } catch (error) {
+      logger.error('Delete changeset error:', error);
+      throw new Error(`Failed to delete changeset: ${error}`);
+    }
+  }
+
+  // S3 REST helpers
+  private assertAuthenticated(): void {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with S3 storage');
+    }
+  }
+
+  private getBucketUrl(config: S3Config): string {
+    return `${config.endpoint}/${uriEncode(config.bucket)}`;
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    query: Record<string, string> = {},
+    body?: Uint8Array
+  ): Promise<Response> {
+    if (!this.config) {
+      throw new Error('S3 storage is not configured');
+    }
+
+    const path = key
+      .split('/')
+      .map(segment => uriEncode(segment))
+      .join('/');
+    const url = new URL(`${this.getBucketUrl(this.config)}/${path}`);
+    Object.keys(query).forEach(name => url.searchParams.set(name, query[name]));
+
+    const headers = await signRequest(
+      {
+        method,
+        url: url.toString(),
+        headers: body ? { 'content-type': 'application/octet-stream' } : {},
+        body,
+      },
+      {
+        accessKeyId: this.config.accessKeyId,
+        secretAccessKey: this.config.secretAccessKey,
+        region: this.config.region,
+        service: 's3',
+      }
+    );
+
+    const response = await fetch(url.toString(), {
+      method,
+      headers,
+      body: body ? new Blob([body]) : undefined,
+      signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      this.isVerified = false;
+      localStorage.removeItem('s3Verified');
+      throw new Error(
+        `Access denied (${response.status}) - check your S3 access keys`
+      );
+    }
+
+    return response;
+  }
+
+  private async putObject(name: string, data: Uint8Array): Promise<void> {
+    const response = await this.request(
+      'PUT',
+      `${this.config?.prefix ?? ''}${name}`,
+      {},
+      data
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to upload object: ${response.status} ${errorText}`
+      );
+    }
+  }
+
+  private async getObject(name: string): Promise<Uint8Array | null> {
+    const response = await this.request(
+      'GET',
+      `${this.config?.prefix ?? ''}${name}`
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to download object: ${response.status} ${errorText}`
+      );
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  private async deleteObject(name: string): Promise<void> {
+    // S3 answers 204 for objects that do not exist as well
+    const response = await this.request(
+      'DELETE',
+      `${this.config?.prefix ?? ''}${name}`
+    );
+
+    if (!response.ok && response.status !== 404) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to delete object: ${response.status} ${errorText}`
+      );
+    }
+  }
+
+  // Lists objects under the journal prefix plus `folder`, handling pagination
+  private async listObjects(folder: string): Promise<S3Object[]> {
+    const prefix = `${this.config?.prefix ?? ''}${folder}`;
+    const objects: S3Object[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await this.request('GET', '', query);
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to list objects: ${response.status} ${errorText}`
+        );
+      }
+
+      const xml = new DOMParser().parseFromString(
+        await response.text(),
+        'application/xml'
+      );
+      Array.from(xml.getElementsByTagName('Contents')).forEach(node => {
+        const key = this.getText(node, 'Key') || '';
+        objects.push({
+          key,
+          name: key.substring(prefix.length),
+          size: parseInt(this.getText(node, 'Size') || '0'),
+          lastModified: new Date(this.getText(node, 'LastModified') || 0),
+        });
+      });
+
+      continuationToken =
+        this.getText(xml, 'IsTruncated') === 'true'
+          ? this.getText(xml, 'NextContinuationToken')
+          : null;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  private getText(node: Document | Element, tag: string): string | null {
+    const element = node.getElementsByTagName(tag)[0];
+    return element?.textContent ?? null;
+  }
+
+  private generateBackupFileName(timestamp: Date): string {
+    // Format: journal-backup-2024-12-19T10-30-45-123Z.db.gz
+    const isoString = timestamp.toISOString();
+    const fileName = `journal-backup-${isoString.replace(/[:.]/g, '-')}.db.gz`;
+    return fileName;
+  }
+}
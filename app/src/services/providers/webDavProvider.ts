@@ -0,0 +1,517 @@
+import {
+  CloudStorageProvider,
+  StorageQuota,
+  BackupInfo,
+  ChangesetInfo,
+  BackupRetentionPolicy,
+} from '../../types/cloudStorage';
+
+import { logger } from '../../utils/logger';
+import {
+  getBackupTimestamp,
+  selectBackupsToDelete,
+} from '../../utils/backupRetention';
+
+export interface WebDavConfig {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+const CONFIG_STORAGE_KEY = 'webdavConfig';
+
+export function loadWebDavConfig(): WebDavConfig | null {
+  const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+  if (!stored) {
+    return null;
+  }
+  try {
+    return JSON.parse(stored) as WebDavConfig;
+  } catch (e) {
+    logger.log('Error parsing WebDAV config, removing it');
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    return null;
+  }
+}
+
+export function saveWebDavConfig(config: WebDavConfig): void {
+  localStorage.setItem(
+    CONFIG_STORAGE_KEY,
+    JSON.stringify({
+      ...config,
+      // Always address the journal folder as a collection
+      serverUrl: config.serverUrl.trim().replace(/\/?$/, '/'),
+    })
+  );
+}
+
+interface DavEntry {
+  href: string;
+  name: string;
+  size: number;
+  lastModified: Date;
+  isCollection: boolean;
+}
+
+/**
+ * Stores the journal in a folder on any WebDAV server (Nextcloud, ownCloud,
+ * Apache mod_dav, ...). The configured server URL is the journal folder:
+ *
+ *   journal-data.db          sync snapshot
+ *   changes/                 sync changesets
+ *   backups/                 compressed backups
+ *
+ * The server must allow CORS requests from the app's origin.
+ */
+export class WebDavProvider implements CloudStorageProvider {
+  readonly name = 'webdav';
+  readonly displayName = 'WebDAV';
+  readonly icon = '🗄️';
+
+  private readonly JOURNAL_FILE_NAME = 'journal-data.db';
+  private readonly BACKUP_FOLDER = 'backups/';
+  private readonly CHANGESET_FOLDER = 'changes/';
+  private readonly CHANGESET_FILE_PREFIX = 'journal-changes-';
+  private readonly REQUEST_TIMEOUT_MS = 15000;
+  private config: WebDavConfig | null = null;
+  private isInitializedFlag = false;
+  private isVerified = false;
+
+  async initialize(): Promise<void> {
+    if (this.isInitializedFlag) {
+      return;
+    }
+
+    this.config = loadWebDavConfig();
+    // Credentials that connected before are trusted until a request fails
+    this.isVerified =
+      this.config !== null &&
+      localStorage.getItem('webdavVerified') === this.config.serverUrl;
+    this.isInitializedFlag = true;
+    logger.log('WebDAV provider initialized');
+  }
+
+  isAuthenticated(): boolean {
+    return this.isInitializedFlag && this.config !== null && this.isVerified;
+  }
+
+  async signIn(): Promise<boolean> {
+    // Pick up credentials entered in settings since the last initialize
+    this.config = loadWebDavConfig();
+    this.isInitializedFlag = true;
+
+    if (!this.config) {
+      logger.error('WebDAV server is not configured');
+      return false;
+    }
+
+    try {
+      const response = await this.request('PROPFIND', '', {
+        headers: { Depth: '0' },
+      });
+      if (!response.ok) {
+        logger.error(`WebDAV sign-in failed: ${response.status}`);
+        return false;
+      }
+
+      await this.ensureCollection(this.BACKUP_FOLDER);
+      await this.ensureCollection(this.CHANGESET_FOLDER);
+
+      this.isVerified = true;
+      localStorage.setItem('webdavVerified', this.config.serverUrl);
+      logger.log('WebDAV authentication successful');
+      return true;
+    } catch (error) {
+      logger.error('WebDAV authentication failed:', error);
+      return false;
+    }
+  }
+
+  async signOut(): Promise<void> {
+    localStorage.removeItem('webdavVerified');
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+    this.config = null;
+    this.isVerified = false;
+  }
+
+  async saveData(data: Uint8Array): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      await this.putFile(this.JOURNAL_FILE_NAME, data);
+      localStorage.setItem('webdavLastSync', Date.now().toString());
+      logger.log('Journal data saved to WebDAV successfully');
+    } catch (error) {
+      logger.error('Save data error:', error);
+      throw new Error(`Failed to save data: ${error}`);
+    }
+  }
+
+  async loadData(): Promise<Uint8Array | null> {
+    this.assertAuthenticated();
+
+    try {
+      const data = await this.getFile(this.JOURNAL_FILE_NAME);
+      if (!data) {
+        logger.log('No journal data found on WebDAV server');
+        return null;
+      }
+      logger.log('Journal data loaded from WebDAV successfully');
+      return data;
+    } catch (error) {
+      logger.error('Load data error:', error);
+      throw new Error(`Failed to load data: ${error}`);
+    }
+  }
+
+  async getStorageQuota(): Promise<StorageQuota> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      const response = await this.request('PROPFIND', '', {
+        headers: { Depth: '0', 'Content-Type': 'application/xml' },
+        body: `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:quota-used-bytes/>
+    <d:quota-available-bytes/>
+  </d:prop>
+</d:propfind>`,
+      });
+
+      if (!response.ok) {
+        throw new Error(`PROPFIND failed: ${response.status}`);
+      }
+
+      const xml = new DOMParser().parseFromString(
+        await response.text(),
+        'application/xml'
+      );
+      const used = parseInt(this.getDavText(xml, 'quota-used-bytes') || '0');
+      const available = parseInt(
+        this.getDavText(xml, 'quota-available-bytes') || '-1'
+      );
+
+      return {
+        used,
+        // Negative available bytes means the server reports no limit
+        total: available >= 0 ? used + available : 0,
+      };
+    } catch (error) {
+      logger.error('Failed to get storage quota:', error);
+      return {
+        used: 0,
+        total: 0,
+      };
+    }
+  }
+
+  async getLastSyncTime(): Promise<Date | null> {
+    const timestamp = localStorage.getItem('webdavLastSync');
+    return timestamp ? new Date(parseInt(timestamp)) : null;
+  }
+
+  // Backup Operations
+  async saveBackup(data: Uint8Array, timestamp: Date): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      const fileName = this.generateBackupFileName(timestamp);
+      await this.putFile(`${this.BACKUP_FOLDER}${fileName}`, data);
+      logger.log(`Backup saved to WebDAV: ${fileName}`);
+    } catch (error) {
+      logger.error('Save backup error:', error);
+      throw new Error(`Failed to save backup: ${error}`);
+    }
+  }
+
+  async listBackups(): Promise<BackupInfo[]> {
+    this.assertAuthenticated();
+
+    try {
+      const entries = await this.listFolder(this.BACKUP_FOLDER);
+      return entries
+        .filter(entry => entry.name.startsWith('journal-backup-'))
+        .map(entry => ({
+          id: entry.name,
+          name: entry.name,
+          timestamp: getBackupTimestamp(entry.name, entry.lastModified),
+          size: entry.size,
+        }));
+    } catch (error) {
+      logger.error('List backups error:', error);
+
+      if (
+        error instanceof TypeError &&
+        error.message.includes('Failed to fetch')
+      ) {
+        throw new Error(
+          'Network error - check the server URL and its CORS settings'
+        );
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error('Request timed out - please try again');
+      }
+
+      throw new Error(`Failed to list backups: ${error}`);
+    }
+  }
+
+  async loadBackup(backupId: string): Promise<Uint8Array | null> {
+    this.assertAuthenticated();
+
+    try {
+      const data = await this.getFile(`${this.BACKUP_FOLDER}${backupId}`);
+      if (data) {
+        logger.log('Backup loaded from WebDAV successfully');
+      }
+      return data;
+    } catch (error) {
+      logger.error('Load backup error:', error);
+      throw new Error(`Failed to load backup: ${error}`);
+    }
+  }
+
+  async deleteBackup(backupId: string): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      await this.deleteFile(`${this.BACKUP_FOLDER}${backupId}`);
+      logger.log('Backup deleted from WebDAV successfully');
+    } catch (error) {
+      logger.error('Delete backup error:', error);
+      throw new Error(`Failed to delete backup: ${error}`);
+    }
+  }
+
+  async cleanupOldBackups(policy: BackupRetentionPolicy): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      const backups = await this.listBackups();
+
+      // Delete backups the retention policy no longer covers
+      const backupsToDelete = selectBackupsToDelete(backups, policy);
+
+      for (const backup of backupsToDelete) {
+        await this.deleteBackup(backup.id);
+        logger.log(`Cleaned up old backup: ${backup.name}`);
+      }
+
+      if (backupsToDelete.length > 0) {
+        logger.log(`Cleaned up ${backupsToDelete.length} old backups`);
+      }
+    } catch (error) {
+      logger.error('Cleanup old backups error:', error);
+      throw new Error(`Failed to cleanup old backups: ${error}`);
+    }
+  }
+
+  // Changeset Operations
+  async saveChangeset(name: string, data: Uint8Array): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      const fileName = `${this.CHANGESET_FILE_PREFIX}${name}.json`;
+      await this.putFile(`${this.CHANGESET_FOLDER}${fileName}`, data);
+      logger.log(`Changeset saved to WebDAV: ${fileName}`);
+    } catch (error) {
+      logger.error('Save changeset error:', error);
+      throw new Error(`Failed to save changeset: ${error}`);
+    }
+  }
+
+  async listChangesets(): Promise<ChangesetInfo[]> {
+    this.assertAuthenticated();
+
+    try {
+      const entries = await this.listFolder(this.CHANGESET_FOLDER);
+      return entries
+        .filter(entry => entry.name.startsWith(this.CHANGESET_FILE_PREFIX))
+        .map(entry => ({
+          id: entry.name,
+          name: entry.name
+            .replace(this.CHANGESET_FILE_PREFIX, '')
+            .replace(/\.json$/, ''),
+          timestamp: entry.lastModified,
+          size: entry.size,
+        }));
+    } catch (error) {
+      logger.error('List changesets error:', error);
+      throw new Error(`Failed to list changesets: ${error}`);
+    }
+  }
+
+  async loadChangeset(changesetId: string): Promise<Uint8Array | null> {
+    this.assertAuthenticated();
+
+    try {
+      return await this.getFile(`${this.CHANGESET_FOLDER}${changesetId}`);
+    } catch (error) {
+      logger.error('Load changeset error:', error);
+      throw new Error(`Failed to load changeset: ${error}`);
+    }
+  }
+
+  async deleteChangeset(changesetId: string): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      await this.deleteFile(`${this.CHANGESET_FOLDER}${changesetId}`);
+    } catch (error) {
+      logger.error('Delete changeset error:', error);
+      throw new Error(`Failed to delete changeset: ${error}`);
+    }
+  }
+
+  // WebDAV helpers
+  private assertAuthenticated(): void {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with WebDAV server');
+    }
+  }
+
+  private getAuthHeader(config: WebDavConfig): string {
+    // btoa only accepts Latin-1, so encode the credentials as UTF-8 first
+    const bytes = new TextEncoder().encode(
+      `${config.username}:${config.password}`
+    );
+    const binary = Array.from(bytes)
+      .map(byte => String.fromCharCode(byte))
+      .join('');
+    return `Basic ${btoa(binary)}`;
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    init: { headers?: Record<string, string>; body?: BodyInit } = {}
+  ): Promise<Response> {
+    if (!this.config) {
+      throw new Error('WebDAV server is not configured');
+    }
+
+    const response = await fetch(`${this.config.serverUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: this.getAuthHeader(this.config),
+        ...init.headers,
+      },
+      body: init.body,
+      signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 401) {
+      this.isVerified = false;
+      localStorage.removeItem('webdavVerified');
+      throw new Error(
+        'Authentication failed - please reconnect your WebDAV server'
+      );
+    }
+
+    return response;
+  }
+
+  private async ensureCollection(path: string): Promise<void> {
+    const response = await this.request('MKCOL', path);
+    // 405 Method Not Allowed: the collection already exists
+    if (!response.ok && response.status !== 405) {
+      throw new Error(`Failed to create folder ${path}: ${response.status}`);
+    }
+  }
+
+  private async putFile(path: string, data: Uint8Array): Promise<void> {
+    const response = await this.request('PUT', path, {
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Blob([data]),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to upload file: ${response.status} ${errorText}`);
+    }
+  }
+
+  private async getFile(path: string): Promise<Uint8Array | null> {
+    const response = await this.request('GET', path);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to download file: ${response.status} ${errorText}`
+      );
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  private async deleteFile(path: string): Promise<void> {
+    const response = await this.request('DELETE', path);
+
+    // 404: already removed (e.g. by another device compacting changesets)
+    if (!response.ok && response.status !== 404) {
+      const errorText = await response.text();
+      throw new Error(`Failed to delete file: ${response.status} ${errorText}`);
+    }
+  }
+
+  private async listFolder(path: string): Promise<DavEntry[]> {
+    const response = await this.request('PROPFIND', path, {
+      headers: { Depth: '1', 'Content-Type': 'application/xml' },
+      body: `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:getcontentlength/>
+    <d:getlastmodified/>
+    <d:resourcetype/>
+  </d:prop>
+</d:propfind>`,
+    });
+
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`PROPFIND failed: ${response.status}`);
+    }
+
+    const xml = new DOMParser().parseFromString(
+      await response.text(),
+      'application/xml'
+    );
+
+    return Array.from(xml.getElementsByTagNameNS('DAV:', 'response'))
+      .map(node => {
+        const href = this.getDavText(node, 'href') || '';
+        const segments = decodeURIComponent(href).split('/').filter(Boolean);
+        const lastModified = this.getDavText(node, 'getlastmodified');
+        return {
+          href,
+          name: segments[segments.length - 1] || '',
+          size: parseInt(this.getDavText(node, 'getcontentlength') || '0'),
+          lastModified: lastModified ? new Date(lastModified) : new Date(0),
+          isCollection:
+            node.getElementsByTagNameNS('DAV:', 'collection').length > 0,
+        };
+      })
+      .filter(entry => !entry.isCollection);
+  }
+
+  private getDavText(node: Document | Element, tag: string): string | null {
+    const element = node.getElementsByTagNameNS('DAV:', tag)[0];
+    return element?.textContent ?? null;
+  }
+
+  private generateBackupFileName(timestamp: Date): string {
+    // Format: journal-backup-2024-12-19T10-30-45-123Z.db.gz
+    const isoString = timestamp.toISOString();
+    const fileName = `journal-backup-${isoString.replace(/[:.]/g, '-')}.db.gz`;
+    return fileName;
+  }
+}
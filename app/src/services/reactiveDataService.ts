@@ -4,6 +4,7 @@ import { JournalEntry } from './api';
 import { logger } from '../utils/logger';
 import { ContentDeltaInterceptor } from './contentDeltaInterceptor';
 import { dataChangeEmitter } from './unifiedSyncService';
+import { changesetSyncService } from './changesetSyncService';
 
 // Event emitter for data changes
 class DataEventEmitter {
@@ -50,6 +51,9 @@ export class ReactiveDataService {
     this.contentDeltaInterceptor = new ContentDeltaInterceptor(
       dataEventEmitter
     );
+
+    // Records pulled from the cloud may touch any entry or template
+    changesetSyncService.onRemoteChanges(() => dataEventEmitter.emitGlobal());
   }
 
   // Journal Entry operations
@@ -97,9 +101,77 @@ export class ReactiveDataService {
     logger.log('REACTIVE: Journal entry deleted:', date);
   }
 
+  async restoreJournalEntry(date: string): Promise<void> {
+    await localApiService.restoreEntry(date);
+
+    // Emit change events
+    dataEventEmitter.emit(`journal:${date}`);
+    dataEventEmitter.emit('journal:*');
+
+    // Notify sync service of data changes
+    dataChangeEmitter.emit();
+
+    logger.log('REACTIVE: Journal entry restored:', date);
+  }
+
+  async purgeJournalEntry(date: string): Promise<void> {
+    await localApiService.purgeEntry(date);
+
+    // Emit change events
+    dataEventEmitter.emit(`journal:${date}`);
+    dataEventEmitter.emit('journal:*');
+
+    // Notify sync service of data changes
+    dataChangeEmitter.emit();
+
+    logger.log('REACTIVE: Journal entry purged:', date);
+  }
+
+  async restoreTemplateSection(id: string): Promise<void> {
+    await localApiService.restoreTemplateSection(id);
+    dataEventEmitter.emit('templates');
+    dataEventEmitter.emit('journal:*');
+    dataChangeEmitter.emit();
+  }
+
+  async purgeTemplateSection(id: string): Promise<void> {
+    await localApiService.purgeTemplateSection(id);
+    dataEventEmitter.emit('templates');
+    dataEventEmitter.emit('journal:*');
+    dataChangeEmitter.emit();
+  }
+
+  async setEntryTemplate(date: string, templateId: string | null) {
+    await localApiService.setEntryTemplate(date, templateId);
+
+    dataEventEmitter.emit(`journal:${date}`);
+    dataChangeEmitter.emit();
+
+    logger.log('REACTIVE: Entry template set:', date, templateId);
+  }
+
+  async migrateEntryToCurrentTemplate(date: string) {
+    await localApiService.migrateEntryToCurrentTemplate(date);
+
+    dataEventEmitter.emit(`journal:${date}`);
+    dataChangeEmitter.emit();
+
+    logger.log('REACTIVE: Entry moved to current template:', date);
+  }
+
+  // Reloads everything on screen after changes made in bulk, like imports
+  notifyBulkChanges() {
+    dataEventEmitter.emitGlobal();
+    dataChangeEmitter.emit();
+
+    logger.log('REACTIVE: Bulk changes applied');
+  }
+
   // Template operations
-  async getTemplates() {
-    return localApiService.fetchTemplates();
+  async getTemplates(templateId?: string, versionId?: string) {
+    return versionId
+      ? localApiService.fetchTemplateVersion(versionId)
+      : localApiService.fetchTemplates(templateId);
   }
 
   // Subscription methods
@@ -199,17 +271,30 @@ export function useJournalEntry(date: string) {
     }
   }, [date]);
 
+  const restoreEntry = useCallback(async () => {
+    try {
+      setError(null);
+      await reactiveDataService.restoreJournalEntry(date);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore entry');
+      throw err;
+    }
+  }, [date]);
+
   return {
     entry,
     loading,
     error,
     updateEntry,
     deleteEntry,
+    restoreEntry,
     refetch: loadEntry,
   };
 }
 
-export function useTemplates() {
+// Columns and sections of one template, the default one if none is given,
+// or of an earlier version of it
+export function useTemplates(templateId?: string, versionId?: string) {
   const [templateData, setTemplateData] = useState<{
     sections: any[];
     columns: any[];
@@ -221,7 +306,10 @@ export function useTemplates() {
     try {
       setLoading(true);
       setError(null);
-      const result = await reactiveDataService.getTemplates();
+      const result = await reactiveDataService.getTemplates(
+        templateId,
+        versionId
+      );
       setTemplateData(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load templates');
@@ -229,7 +317,7 @@ export function useTemplates() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [templateId, versionId]);
 
   // Initial load
   useEffect(() => {
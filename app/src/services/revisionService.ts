@@ -0,0 +1,229 @@
+import { Q } from '@nozbe/watermelondb';
+import database from '../database/watermelon/database';
+import {
+  JournalEntry as JournalEntryModel,
+  SectionJournalEntry as SectionJournalEntryModel,
+  Section as SectionModel,
+  SectionRevision as SectionRevisionModel,
+} from '../database/watermelon/models';
+import {
+  DEFAULT_REVISION_RETENTION,
+  RevisionRetentionPolicy,
+  selectRevisionsToPrune,
+} from '../utils/revisionRetention';
+import { logger } from '../utils/logger';
+
+export interface RevisionSettings {
+  // Saves closer together than this are one editing session
+  sessionGapMinutes: number;
+  retention: RevisionRetentionPolicy;
+}
+
+export interface Revision {
+  id: string;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Persistent content history of sections. Each editing session becomes one
+ * revision: saves within the session gap update the latest revision instead
+ * of adding another. Old revisions are thinned out by the retention policy.
+ */
+export class RevisionService {
+  private readonly SETTINGS_STORAGE_KEY = 'revisionSettings';
+  private readonly DEFAULT_SETTINGS: RevisionSettings = {
+    sessionGapMinutes: 10,
+    retention: DEFAULT_REVISION_RETENTION,
+  };
+  private settings: RevisionSettings = this.loadSettings();
+
+  private loadSettings(): RevisionSettings {
+    const stored = localStorage.getItem(this.SETTINGS_STORAGE_KEY);
+    if (!stored) {
+      return this.DEFAULT_SETTINGS;
+    }
+    try {
+      const parsed = JSON.parse(stored) as Partial<RevisionSettings>;
+      return {
+        ...this.DEFAULT_SETTINGS,
+        ...parsed,
+        retention: { ...this.DEFAULT_SETTINGS.retention, ...parsed.retention },
+      };
+    } catch (e) {
+      logger.log('REVISIONS: Error parsing revision settings, using defaults');
+      localStorage.removeItem(this.SETTINGS_STORAGE_KEY);
+      return this.DEFAULT_SETTINGS;
+    }
+  }
+
+  getSettings(): RevisionSettings {
+    return this.settings;
+  }
+
+  async updateSettings(settings: Partial<RevisionSettings>): Promise<void> {
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      retention: { ...this.settings.retention, ...settings.retention },
+    };
+    localStorage.setItem(
+      this.SETTINGS_STORAGE_KEY,
+      JSON.stringify(this.settings)
+    );
+    logger.log('REVISIONS: Settings updated', this.settings);
+
+    // Apply a tighter policy right away
+    await this.pruneAll();
+  }
+
+  /**
+   * Records a content change of a section.
+   * No database.write() - assumes we're already in a write context
+   */
+  async recordChange(
+    sectionId: string,
+    previousContent: string,
+    content: string
+  ): Promise<void> {
+    if (previousContent === content) {
+      return;
+    }
+
+    const latest = (await this.getRevisions(sectionId, 1))[0];
+
+    // Content from before history was kept, or changed outside the editor
+    // (sync, restore), gets its own revision so it can be restored
+    if (latest ? latest.content !== previousContent : previousContent.trim()) {
+      await this.createRevision(sectionId, previousContent);
+    } else if (
+      latest &&
+      Date.now() - latest.updatedAt.getTime() <
+        this.settings.sessionGapMinutes * 60 * 1000
+    ) {
+      await latest.update(record => {
+        record.content = content;
+      });
+      return;
+    }
+
+    await this.createRevision(sectionId, content);
+    await this.pruneSection(sectionId);
+  }
+
+  // Newest first
+  async getRevisionsForSection(sectionId: string): Promise<Revision[]> {
+    const revisions = await this.getRevisions(sectionId);
+    return revisions.map(revision => ({
+      id: revision.id,
+      content: revision.content,
+      createdAt: revision.createdAt,
+      updatedAt: revision.updatedAt,
+    }));
+  }
+
+  // The section a template shows on an entry, if the entry has one yet
+  async findSectionId(
+    templateId: string,
+    entryDate: string
+  ): Promise<string | null> {
+    const entries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(Q.where('date', entryDate))
+      .fetch();
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const junctions = await database.collections
+      .get<SectionJournalEntryModel>('section_journal_entries')
+      .query(Q.where('journal_entry_id', entries[0].id))
+      .fetch();
+    if (junctions.length === 0) {
+      return null;
+    }
+
+    const sections = await database.collections
+      .get<SectionModel>('sections')
+      .query(
+        Q.where('id', Q.oneOf(junctions.map(junction => junction.sectionId))),
+        Q.where('type', templateId)
+      )
+      .fetch();
+    return sections.length > 0 ? sections[0].id : null;
+  }
+
+  async pruneAll(): Promise<number> {
+    const revisions = await database.collections
+      .get<SectionRevisionModel>('section_revisions')
+      .query()
+      .fetch();
+
+    const bySection = new Map<string, SectionRevisionModel[]>();
+    revisions.forEach(revision => {
+      const list = bySection.get(revision.sectionId) || [];
+      list.push(revision);
+      bySection.set(revision.sectionId, list);
+    });
+
+    const toDelete: SectionRevisionModel[] = [];
+    bySection.forEach(sectionRevisions => {
+      const ids = new Set(
+        selectRevisionsToPrune(sectionRevisions, this.settings.retention)
+      );
+      toDelete.push(...sectionRevisions.filter(r => ids.has(r.id)));
+    });
+
+    if (toDelete.length > 0) {
+      await database.write(async () => {
+        await database.batch(
+          ...toDelete.map(revision => revision.prepareMarkAsDeleted())
+        );
+      });
+      logger.log(`REVISIONS: Pruned ${toDelete.length} revisions`);
+    }
+    return toDelete.length;
+  }
+
+  private async pruneSection(sectionId: string): Promise<void> {
+    const revisions = await this.getRevisions(sectionId);
+    const ids = new Set(
+      selectRevisionsToPrune(revisions, this.settings.retention)
+    );
+    const toDelete = revisions.filter(revision => ids.has(revision.id));
+    if (toDelete.length > 0) {
+      await database.batch(
+        ...toDelete.map(revision => revision.prepareMarkAsDeleted())
+      );
+    }
+  }
+
+  private async getRevisions(
+    sectionId: string,
+    limit?: number
+  ): Promise<SectionRevisionModel[]> {
+    const clauses = [
+      Q.where('section_id', sectionId),
+      Q.sortBy('updated_at', Q.desc),
+    ];
+    return await database.collections
+      .get<SectionRevisionModel>('section_revisions')
+      .query(...(limit ? [...clauses, Q.take(limit)] : clauses))
+      .fetch();
+  }
+
+  private async createRevision(
+    sectionId: string,
+    content: string
+  ): Promise<SectionRevisionModel> {
+    return await database.collections
+      .get<SectionRevisionModel>('section_revisions')
+      .create(record => {
+        record.sectionId = sectionId;
+        record.content = content;
+      });
+  }
+}
+
+export const revisionService = new RevisionService();
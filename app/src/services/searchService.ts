@@ -0,0 +1,249 @@
+import { Section as SectionModel } from '../database/watermelon/models';
+import { sectionRegistry } from '../components/sections/registry';
+import { buildSnippet, SnippetPart, tokenize } from '../utils/searchText';
+import { IndexedTemplate, SectionIndex } from './sectionIndex';
+
+export interface SearchFilters {
+  // YYYY-MM-DD, inclusive; sections whose timeframe overlaps match
+  from?: string;
+  to?: string;
+  // Section content types (text, todo, ...); empty means all
+  contentTypes?: string[];
+}
+
+export interface SearchResult {
+  sectionId: string;
+  templateId: string;
+  templateTitle: string;
+  contentType: string;
+  timeframeType: string;
+  timeframeStart: string;
+  timeframeEnd: string;
+  // Entry to open, or null for persistent sections shown on every day
+  date: string | null;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+interface IndexedSection {
+  templateId: string;
+  timeframeType: string;
+  timeframeStart: string;
+  timeframeEnd: string;
+  text: string;
+  length: number;
+}
+
+const MAX_RESULTS = 100;
+
+/**
+ * Full-text search over section content.
+ *
+ * Keeps an in-memory inverted index (term -> section -> occurrences) that is
+ * built on the first search and then updated as sections change.
+ * Text is pulled out of each section through its definition's
+ * extractSearchText, so JSON-based types are searched by what users see.
+ */
+export class SearchService extends SectionIndex {
+  protected readonly logPrefix = 'SEARCH';
+  private postings = new Map<string, Map<string, number>>();
+  private sections = new Map<string, IndexedSection>();
+
+  async search(
+    query: string,
+    filters: SearchFilters = {}
+  ): Promise<SearchResult[]> {
+    await this.ready();
+
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    // Every term must match; the last one may be unfinished so it also
+    // matches as a prefix
+    let scores: Map<string, number> | null = null;
+    for (let i = 0; i < terms.length; i++) {
+      const termScores = this.scoreTerm(terms[i], i === terms.length - 1);
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const combined = new Map<string, number>();
+        const previous: Map<string, number> = scores;
+        termScores.forEach((score, sectionId) => {
+          const existing = previous.get(sectionId);
+          if (existing !== undefined) {
+            combined.set(sectionId, existing + score);
+          }
+        });
+        scores = combined;
+      }
+      if (scores.size === 0) {
+        return [];
+      }
+    }
+
+    const phrase = terms.join(' ');
+    const results: SearchResult[] = [];
+    scores!.forEach((score, sectionId) => {
+      const section = this.sections.get(sectionId);
+      const template = section && this.templates.get(section.templateId);
+      if (
+        !section ||
+        !template ||
+        !this.matchesFilters(section, template, filters)
+      ) {
+        return;
+      }
+
+      // Terms appearing together rank above scattered ones
+      const phraseBonus =
+        terms.length > 1 &&
+        tokenize(section.text).join(' ').indexOf(phrase) !== -1
+          ? score
+          : 0;
+
+      results.push({
+        sectionId,
+        templateId: section.templateId,
+        templateTitle: template.title,
+        contentType: template.contentType,
+        timeframeType: section.timeframeType,
+        timeframeStart: section.timeframeStart,
+        timeframeEnd: section.timeframeEnd,
+        date:
+          section.timeframeType === 'persistent'
+            ? null
+            : section.timeframeStart,
+        score: score + phraseBonus,
+        snippet: buildSnippet(section.text, terms),
+      });
+    });
+
+    // Best match first, newer entries first among equals
+    return results
+      .sort((a, b) =>
+        b.score === a.score
+          ? b.timeframeStart.localeCompare(a.timeframeStart)
+          : b.score - a.score
+      )
+      .slice(0, MAX_RESULTS);
+  }
+
+  // TF-IDF weight of each section containing the term
+  private scoreTerm(term: string, allowPrefix: boolean): Map<string, number> {
+    const scores = new Map<string, number>();
+    const totalSections = Math.max(1, this.sections.size);
+
+    const addPostings = (postings: Map<string, number>, weight: number) => {
+      const idf = Math.log(1 + totalSections / postings.size);
+      postings.forEach((count, sectionId) => {
+        const section = this.sections.get(sectionId);
+        const tf = count / Math.sqrt(section ? section.length : 1);
+        scores.set(
+          sectionId,
+          Math.max(scores.get(sectionId) || 0, tf * idf * weight)
+        );
+      });
+    };
+
+    const exact = this.postings.get(term);
+    if (exact) {
+      addPostings(exact, 1);
+    }
+    if (allowPrefix) {
+      this.postings.forEach((postings, indexedTerm) => {
+        if (indexedTerm !== term && indexedTerm.startsWith(term)) {
+          addPostings(postings, 0.5);
+        }
+      });
+    }
+    return scores;
+  }
+
+  private matchesFilters(
+    section: IndexedSection,
+    template: IndexedTemplate,
+    filters: SearchFilters
+  ): boolean {
+    if (
+      filters.contentTypes &&
+      filters.contentTypes.length > 0 &&
+      filters.contentTypes.indexOf(template.contentType) === -1
+    ) {
+      return false;
+    }
+    if (filters.from || filters.to) {
+      // Persistent sections have no date to filter by
+      if (section.timeframeType === 'persistent') {
+        return false;
+      }
+      if (filters.from && section.timeframeEnd < filters.from) {
+        return false;
+      }
+      if (filters.to && section.timeframeStart > filters.to) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  protected addSection(
+    section: SectionModel,
+    template: IndexedTemplate
+  ): boolean {
+    const text = sectionRegistry
+      .extractSearchText(
+        template.contentType,
+        section.content || '',
+        template.configuration,
+        template.title
+      )
+      .join('\n');
+    const terms = tokenize(text);
+    if (terms.length === 0) {
+      return false;
+    }
+
+    this.sections.set(section.id, {
+      templateId: section.type,
+      timeframeType: section.timeframeType,
+      timeframeStart: section.timeframeStart,
+      timeframeEnd: section.timeframeEnd,
+      text,
+      length: terms.length,
+    });
+    terms.forEach(term => {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      postings.set(section.id, (postings.get(section.id) || 0) + 1);
+    });
+    return true;
+  }
+
+  protected dropSection(sectionId: string): void {
+    const section = this.sections.get(sectionId);
+    if (!section) {
+      return;
+    }
+    Array.from(new Set(tokenize(section.text))).forEach(term => {
+      const postings = this.postings.get(term);
+      if (postings) {
+        postings.delete(sectionId);
+        if (postings.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+    });
+    this.sections.delete(sectionId);
+  }
+
+  protected describe(): string {
+    return `${this.sections.size} sections and ${this.postings.size} terms`;
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,287 @@
+import { Q } from '@nozbe/watermelondb';
+import database from '../database/watermelon/database';
+import {
+  JournalEntry as JournalEntryModel,
+  Section as SectionModel,
+  SectionJournalEntry as SectionJournalEntryModel,
+  TemplateSection as TemplateSectionModel,
+} from '../database/watermelon/models';
+import { logger } from '../utils/logger';
+
+export interface IndexedTemplate {
+  title: string;
+  contentType: string;
+  configuration: string;
+}
+
+function addTo(map: Map<string, Set<string>>, key: string, value: string) {
+  let values = map.get(key);
+  if (!values) {
+    values = new Set();
+    map.set(key, values);
+  }
+  values.add(value);
+}
+
+function removeFrom(map: Map<string, Set<string>>, key: string, value: string) {
+  const values = map.get(key);
+  if (values) {
+    values.delete(value);
+    if (values.size === 0) {
+      map.delete(key);
+    }
+  }
+}
+
+/**
+ * In-memory index over section content, built from every section on first
+ * use and then kept current from WatermelonDB change notifications, so a
+ * write only re-reads the sections it touched.
+ *
+ * Subclasses decide what to keep of each section; this tracks the sections
+ * and templates they are read from. Sections of trashed template sections,
+ * and those shown only on trashed entries, are left out until restored.
+ */
+export abstract class SectionIndex {
+  protected templates = new Map<string, IndexedTemplate>();
+  // Section id -> template id of every section the subclass kept
+  private indexed = new Map<string, string>();
+  // Links of section_journal_entries, both ways
+  private entriesBySection = new Map<string, Set<string>>();
+  private sectionsByEntry = new Map<string, Set<string>>();
+  private trashedEntries = new Set<string>();
+  private readyPromise: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  // Prefix of log lines, like 'SEARCH'
+  protected abstract readonly logPrefix: string;
+
+  // Adds a section, returning whether it is kept
+  protected abstract addSection(
+    section: SectionModel,
+    template: IndexedTemplate
+  ): boolean;
+
+  protected abstract dropSection(sectionId: string): void;
+
+  // What was indexed, for the log
+  protected abstract describe(): string;
+
+  ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.buildIndex().catch(error => {
+        this.readyPromise = null;
+        throw error;
+      });
+    }
+    return this.readyPromise;
+  }
+
+  // Called after the index changes, so open views can refresh
+  subscribe(callback: () => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private async buildIndex(): Promise<void> {
+    const startTime = Date.now();
+    const templates = await database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .query()
+      .fetch();
+    templates.forEach(template => this.setTemplate(template));
+
+    const trashedEntries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(Q.where('deleted_at', Q.notEq(null)))
+      .fetch();
+    trashedEntries.forEach(entry => this.trashedEntries.add(entry.id));
+
+    const junctions = await database.collections
+      .get<SectionJournalEntryModel>('section_journal_entries')
+      .query()
+      .fetch();
+    junctions.forEach(junction =>
+      this.link(junction.sectionId, junction.journalEntryId)
+    );
+
+    const sections = await database.collections
+      .get<SectionModel>('sections')
+      .query()
+      .fetch();
+    sections.forEach(section => this.indexSection(section));
+
+    this.observeChanges();
+    logger.log(
+      `${this.logPrefix}: Indexed ${this.describe()} in ${
+        Date.now() - startTime
+      }ms`
+    );
+  }
+
+  // Subscriptions live as long as the app, like the index itself
+  private observeChanges(): void {
+    database.collections
+      .get<SectionModel>('sections')
+      .changes.subscribe(changes => {
+        changes.forEach(({ record, type }) => {
+          if (type === 'destroyed' || record._raw._status === 'deleted') {
+            this.removeSection(record.id);
+          } else {
+            this.indexSection(record);
+          }
+        });
+        this.notify();
+      });
+
+    database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .changes.subscribe(changes => {
+        changes.forEach(({ record, type }) => {
+          if (
+            type === 'destroyed' ||
+            record._raw._status === 'deleted' ||
+            record.deletedAt
+          ) {
+            this.templates.delete(record.id);
+          } else {
+            this.setTemplate(record);
+          }
+          // Titles, types, habit names and the trash come from the template,
+          // so re-read its sections
+          this.reindexTemplateSections(record.id).catch(error =>
+            logger.error(
+              `${this.logPrefix}: Failed to re-index template sections:`,
+              error
+            )
+          );
+        });
+      });
+
+    // A section is shown or hidden as entries link to it and are trashed
+    database.collections
+      .get<SectionJournalEntryModel>('section_journal_entries')
+      .changes.subscribe(changes => {
+        const sectionIds = new Set<string>();
+        changes.forEach(({ record, type }) => {
+          if (type === 'destroyed' || record._raw._status === 'deleted') {
+            this.unlink(record.sectionId, record.journalEntryId);
+          } else {
+            this.link(record.sectionId, record.journalEntryId);
+          }
+          sectionIds.add(record.sectionId);
+        });
+        this.reindexSections(Array.from(sectionIds));
+      });
+
+    database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .changes.subscribe(changes => {
+        const sectionIds = new Set<string>();
+        changes.forEach(({ record, type }) => {
+          const trashed =
+            type === 'destroyed' ||
+            record._raw._status === 'deleted' ||
+            Boolean(record.deletedAt);
+          if (trashed === this.trashedEntries.has(record.id)) {
+            return;
+          }
+          if (trashed) {
+            this.trashedEntries.add(record.id);
+          } else {
+            this.trashedEntries.delete(record.id);
+          }
+          (this.sectionsByEntry.get(record.id) || new Set<string>()).forEach(
+            sectionId => sectionIds.add(sectionId)
+          );
+        });
+        this.reindexSections(Array.from(sectionIds));
+      });
+  }
+
+  private reindexSections(sectionIds: string[]): void {
+    if (sectionIds.length === 0) {
+      return;
+    }
+    database.collections
+      .get<SectionModel>('sections')
+      .query(Q.where('id', Q.oneOf(sectionIds)))
+      .fetch()
+      .then(sections => {
+        sectionIds.forEach(sectionId => this.removeSection(sectionId));
+        sections.forEach(section => this.indexSection(section));
+        this.notify();
+      })
+      .catch(error =>
+        logger.error(`${this.logPrefix}: Failed to re-index sections:`, error)
+      );
+  }
+
+  private async reindexTemplateSections(templateId: string): Promise<void> {
+    this.indexed.forEach((sectionTemplateId, sectionId) => {
+      if (sectionTemplateId === templateId) {
+        this.removeSection(sectionId);
+      }
+    });
+
+    const sections = await database.collections
+      .get<SectionModel>('sections')
+      .query(Q.where('type', templateId))
+      .fetch();
+    sections.forEach(section => this.indexSection(section));
+    this.notify();
+  }
+
+  private setTemplate(template: TemplateSectionModel): void {
+    if (template.deletedAt) {
+      return;
+    }
+    this.templates.set(template.id, {
+      title: template.title,
+      contentType: template.contentType,
+      configuration: template.configuration || '',
+    });
+  }
+
+  private indexSection(section: SectionModel): void {
+    this.removeSection(section.id);
+
+    const template = this.templates.get(section.type);
+    if (
+      template &&
+      this.isShown(section.id) &&
+      this.addSection(section, template)
+    ) {
+      this.indexed.set(section.id, section.type);
+    }
+  }
+
+  private removeSection(sectionId: string): void {
+    if (this.indexed.delete(sectionId)) {
+      this.dropSection(sectionId);
+    }
+  }
+
+  // Whether an entry outside the trash shows the section
+  private isShown(sectionId: string): boolean {
+    return Array.from(this.entriesBySection.get(sectionId) || []).some(
+      entryId => !this.trashedEntries.has(entryId)
+    );
+  }
+
+  private link(sectionId: string, entryId: string): void {
+    addTo(this.entriesBySection, sectionId, entryId);
+    addTo(this.sectionsByEntry, entryId, sectionId);
+  }
+
+  private unlink(sectionId: string, entryId: string): void {
+    removeFrom(this.entriesBySection, sectionId, entryId);
+    removeFrom(this.sectionsByEntry, entryId, sectionId);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(callback => callback());
+  }
+}
@@ -1,12 +1,23 @@
 import database from '../database/watermelon/database';
+import { claimStableId, stableIds } from '../database/watermelon/stableIds';
 import {
+  JournalEntry as JournalEntryModel,
   Section as SectionModel,
   SectionJournalEntry as SectionJournalEntryModel,
+  Template as TemplateModel,
+  TemplateColumn as TemplateColumnModel,
   TemplateSection as TemplateSectionModel,
 } from '../database/watermelon/models';
 import { Q } from '@nozbe/watermelondb';
 import { TimeframeCalculator } from '../utils/timeframeUtils';
+import { formatDateForAPI } from '../utils/dates';
+import { parseWeekdays, resolveTemplateId } from '../utils/templateRules';
 import logger from '../utils/logger';
+import { revisionService } from './revisionService';
+import {
+  TemplateLayout,
+  TemplateVersionService,
+} from './templateVersionService';
 
 export interface SectionWithTemplate {
   // Section data
@@ -29,7 +40,14 @@ export interface SectionWithTemplate {
   configuration: string;
 }
 
+export interface EntryWithSections {
+  entry: JournalEntryModel;
+  sections: SectionWithTemplate[];
+}
+
 export class SectionService {
+  private templateVersionService = new TemplateVersionService();
+
   async updateSectionContent(
     sectionId: string,
     content: string
@@ -38,11 +56,13 @@ export class SectionService {
     const sectionsCollection =
       database.collections.get<SectionModel>('sections');
     const section = await sectionsCollection.find(sectionId);
+    const previousContent = section.content;
 
     // No database.write() - assumes we're already in a write context
     await section.update(section => {
       section.content = content;
     });
+    await revisionService.recordChange(sectionId, previousContent, content);
   }
 
   async getSectionsForEntry(
@@ -91,6 +111,128 @@ export class SectionService {
     );
   }
 
+  // Entries of a date range outside the trash, oldest first, with their
+  // sections in column and display order. Past entries keep the titles and
+  // layout of their template version, as on the entry page. Reads only.
+  async getOrderedSectionsForRange(
+    startDate: string,
+    endDate: string
+  ): Promise<EntryWithSections[]> {
+    const entries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(
+        Q.where('date', Q.gte(startDate)),
+        Q.where('date', Q.lte(endDate)),
+        Q.where('deleted_at', null),
+        Q.sortBy('date', Q.asc)
+      )
+      .fetch();
+    const columns = await database.collections
+      .get<TemplateColumnModel>('template_columns')
+      .query()
+      .fetch();
+    const columnOrder = new Map(
+      columns.map(column => [column.id, column.displayOrder])
+    );
+    const templates = await database.collections
+      .get<TemplateModel>('templates')
+      .query()
+      .fetch();
+    const rules = templates.map(template => ({
+      id: template.id,
+      weekdays: parseWeekdays(template.weekdays),
+      range_start: template.rangeStart,
+      range_end: template.rangeEnd,
+      display_order: template.displayOrder,
+    }));
+    const today = formatDateForAPI(new Date());
+
+    const result: EntryWithSections[] = [];
+    for (const entry of entries) {
+      let sections = await this.getSectionsForEntry(entry.id);
+      let layoutColumnOrder = new Map<string, number>();
+
+      if (entry.date < today && entry.templateVersionId) {
+        const version = await this.templateVersionService.getVersion(
+          entry.templateVersionId
+        );
+        const templateId = resolveTemplateId(
+          rules,
+          entry.date,
+          entry.templateId
+        );
+        if (version && version.templateId === templateId) {
+          sections = sections.map(section =>
+            this.applyLayout(section, version.layout)
+          );
+          layoutColumnOrder = new Map(
+            version.layout.columns.map(column => [
+              column.id,
+              column.display_order,
+            ])
+          );
+        }
+      }
+
+      // Sections of deleted columns go last
+      const orderOf = (section: SectionWithTemplate) =>
+        layoutColumnOrder.get(section.columnId) ??
+        columnOrder.get(section.columnId) ??
+        Number.MAX_SAFE_INTEGER;
+      sections.sort(
+        (a, b) => orderOf(a) - orderOf(b) || a.displayOrder - b.displayOrder
+      );
+      result.push({ entry, sections });
+    }
+    return result;
+  }
+
+  // The section as its template was in a version; sections added to the
+  // template since keep the current one
+  private applyLayout(
+    section: SectionWithTemplate,
+    layout: TemplateLayout
+  ): SectionWithTemplate {
+    const template = layout.sections.find(
+      versioned => versioned.id === section.type
+    );
+    if (!template) {
+      return section;
+    }
+    return {
+      ...section,
+      title: template.title,
+      refreshFrequency: template.refresh_frequency,
+      contentType: template.content_type,
+      placeholder: template.placeholder,
+      defaultContent: template.default_content,
+      displayOrder: template.display_order,
+      columnId: template.column_id || section.columnId,
+      configuration: template.configuration,
+    };
+  }
+
+  // Content of a template's section for a timeframe, or '' when there is
+  // none. Reads only, so no section is created for it.
+  async findSectionContent(
+    sectionType: string,
+    timeframeType: string,
+    timeframeStart: string
+  ): Promise<string> {
+    const conditions = [
+      Q.where('type', sectionType),
+      Q.where('timeframe_type', timeframeType),
+    ];
+    if (timeframeType !== 'persistent') {
+      conditions.push(Q.where('timeframe_start', timeframeStart));
+    }
+    const sections = await database.collections
+      .get<SectionModel>('sections')
+      .query(...conditions)
+      .fetch();
+    return sections[0]?.content || '';
+  }
+
   private async getTemplate(
     sectionType: string
   ): Promise<TemplateSectionModel | null> {
@@ -136,7 +278,12 @@ export class SectionService {
       }
 
       // Create new persistent section with no end date
+      const stableId = await claimStableId(
+        sectionsCollection,
+        stableIds.section(sectionType, 'persistent', entryDate)
+      );
       const newSection = await sectionsCollection.create(section => {
+        if (stableId) section._raw.id = stableId;
         section.type = sectionType;
         section.content = '';
         section.timeframeType = 'persistent';
@@ -160,7 +307,12 @@ export class SectionService {
       }
 
       // No database.write() - assumes we're already in a write context
+      const stableId = await claimStableId(
+        sectionsCollection,
+        stableIds.section(sectionType, 'daily', timeframe.start)
+      );
       const newSection = await sectionsCollection.create(section => {
+        if (stableId) section._raw.id = stableId;
         section.type = sectionType;
         section.content = '';
         section.timeframeType = 'daily';
@@ -184,7 +336,12 @@ export class SectionService {
       }
 
       // No database.write() - assumes we're already in a write context
+      const stableId = await claimStableId(
+        sectionsCollection,
+        stableIds.section(sectionType, timeframe.type, timeframe.start)
+      );
       const newSection = await sectionsCollection.create(section => {
+        if (stableId) section._raw.id = stableId;
         section.type = sectionType;
         section.content = '';
         section.timeframeType = timeframe.type;
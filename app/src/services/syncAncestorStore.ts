@@ -0,0 +1,66 @@
+import { logger } from '../utils/logger';
+import { IndexedDbStore } from '../utils/indexedDbStore';
+
+/**
+ * Keeps the section content as of the last successful sync (the common
+ * ancestor of this device and the cloud). Three-way merges compare both
+ * sides against it to tell one-sided edits from real conflicts.
+ *
+ * Stored in its own IndexedDB database so it never becomes part of the
+ * synced journal data.
+ */
+class SyncAncestorStore {
+  private store = new IndexedDbStore<string>('jaja-sync-ancestors', 'sections');
+
+  private getKey(providerName: string, sectionId: string): string {
+    return `${providerName}:${sectionId}`;
+  }
+
+  async getContents(
+    providerName: string,
+    sectionIds: string[]
+  ): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    try {
+      const stored = await this.store.getMany(
+        sectionIds.map(sectionId => this.getKey(providerName, sectionId))
+      );
+      sectionIds.forEach(sectionId => {
+        const content = stored.get(this.getKey(providerName, sectionId));
+        if (content !== undefined) {
+          contents.set(sectionId, content);
+        }
+      });
+    } catch (error) {
+      // Without ancestors every two-sided change is treated as a conflict
+      logger.error('SYNC: Failed to read merge ancestors:', error);
+    }
+    return contents;
+  }
+
+  async setContents(
+    providerName: string,
+    contents: Map<string, string>
+  ): Promise<void> {
+    const entries = new Map<string, string>();
+    contents.forEach((content, sectionId) => {
+      entries.set(this.getKey(providerName, sectionId), content);
+    });
+
+    try {
+      await this.store.setMany(entries);
+    } catch (error) {
+      logger.error('SYNC: Failed to store merge ancestors:', error);
+    }
+  }
+
+  async clear(providerName: string): Promise<void> {
+    try {
+      await this.store.deleteByPrefix(`${providerName}:`);
+    } catch (error) {
+      logger.error('SYNC: Failed to clear merge ancestors:', error);
+    }
+  }
+}
+
+export const syncAncestorStore = new SyncAncestorStore();
@@ -0,0 +1,267 @@
+import { SyncCancelledError, syncMergeService } from './syncMergeService';
+import type { RawRecord, RecordMap } from './changesetSyncService';
+import { ConflictResolver } from '../types/cloudStorage';
+
+// Records the merge creates, instead of writing them
+const mockCreated: { table: string; raw: RawRecord }[] = [];
+
+jest.mock('../database/watermelon/database', () => ({
+  __esModule: true,
+  default: {
+    write: (work: () => Promise<void>) => work(),
+    batch: async () => {},
+    collections: {
+      get: (table: string) => ({
+        prepareCreate: (build: (record: { _raw: RawRecord }) => void) => {
+          const record = { _raw: { id: '' } };
+          build(record);
+          mockCreated.push({ table, raw: record._raw });
+          return record;
+        },
+        find: async (id: string) => {
+          throw new Error(`${table} ${id} not found`);
+        },
+      }),
+    },
+  },
+}));
+
+function records(...raws: RawRecord[]): { [id: string]: RawRecord } {
+  const map: { [id: string]: RawRecord } = {};
+  raws.forEach(raw => {
+    map[raw.id] = raw;
+  });
+  return map;
+}
+
+function templateSection(id: string, columnId: string, title = 'Notes') {
+  return {
+    id,
+    title,
+    content_type: 'text',
+    column_id: columnId,
+    template_id: null,
+    deleted_at: null,
+  };
+}
+
+function section(id: string, type: string, content: string) {
+  return {
+    id,
+    type,
+    content,
+    timeframe_type: 'daily',
+    timeframe_start: '2025-03-10',
+    timeframe_end: '2025-03-10',
+  };
+}
+
+function createdIds(table: string): string[] {
+  return mockCreated
+    .filter(record => record.table === table)
+    .map(record => record.raw.id);
+}
+
+// Two devices that each set up a "Notes" section in their own column
+const local: RecordMap = {
+  template_columns: records({ id: 'local-column', title: 'Main' }),
+  template_sections: records(templateSection('local-notes', 'local-column')),
+  sections: records(section('local-1', 'local-notes', 'local text')),
+};
+
+const cloud: RecordMap = {
+  template_columns: records({ id: 'cloud-column', title: 'Main' }),
+  template_sections: records(
+    templateSection('cloud-notes', 'cloud-column'),
+    templateSection('cloud-mood', 'cloud-column', 'Mood')
+  ),
+  sections: records(section('cloud-1', 'cloud-notes', 'cloud text'), {
+    ...section('cloud-2', 'cloud-notes', 'later'),
+    timeframe_start: '2025-03-11',
+  }),
+  section_revisions: records(
+    { id: 'revision-1', section_id: 'cloud-1', content: 'draft' },
+    { id: 'revision-2', section_id: 'cloud-2', content: 'draft' }
+  ),
+};
+
+beforeEach(() => {
+  mockCreated.length = 0;
+});
+
+describe('syncMergeService.mergeSections', () => {
+  const candidate = (content: string, cloudContent: string) => ({
+    local: section('local-1', 'local-notes', content),
+    cloudContent,
+  });
+  const ancestors = new Map([['local-1', 'base']]);
+
+  it('keeps an edit made only on this device', async () => {
+    const result = await syncMergeService.mergeSections(
+      [candidate('local edit', 'base')],
+      ancestors,
+      null
+    );
+
+    expect(result.cloudContents.size).toBe(0);
+    expect(result.autoMergedCount).toBe(1);
+  });
+
+  it('takes an edit made only in the cloud', async () => {
+    const result = await syncMergeService.mergeSections(
+      [candidate('base', 'cloud edit')],
+      ancestors,
+      null
+    );
+
+    expect(Array.from(result.cloudContents)).toEqual([
+      ['local-1', 'cloud edit'],
+    ]);
+    expect(result.autoMergedCount).toBe(1);
+  });
+
+  it('asks about sections edited on both sides', async () => {
+    const resolver = jest.fn<
+      ReturnType<ConflictResolver>,
+      Parameters<ConflictResolver>
+    >(async () => ({ type: 'merge', choices: { 'local-1': 'cloud' } }));
+
+    const result = await syncMergeService.mergeSections(
+      [candidate('local edit', 'cloud edit')],
+      ancestors,
+      resolver
+    );
+
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(resolver.mock.calls[0][0]).toMatchObject({
+      autoMergedCount: 0,
+      isInitialSync: false,
+      conflicts: [
+        {
+          sectionId: 'local-1',
+          ancestorContent: 'base',
+          localContent: 'local edit',
+          cloudContent: 'cloud edit',
+        },
+      ],
+    });
+    expect(Array.from(result.cloudContents)).toEqual([
+      ['local-1', 'cloud edit'],
+    ]);
+  });
+
+  it('treats a section without an ancestor as edited on both sides', async () => {
+    const resolver: ConflictResolver = async () => ({
+      type: 'merge',
+      choices: { 'local-1': 'local' },
+    });
+
+    const result = await syncMergeService.mergeSections(
+      [candidate('local edit', 'cloud edit')],
+      new Map(),
+      resolver
+    );
+
+    expect(result.cloudContents.size).toBe(0);
+  });
+
+  it('stops when the conflict is cancelled or cannot be asked', async () => {
+    const conflicting = [candidate('local edit', 'cloud edit')];
+
+    await expect(
+      syncMergeService.mergeSections(conflicting, ancestors, async () => ({
+        type: 'cancel',
+      }))
+    ).rejects.toBeInstanceOf(SyncCancelledError);
+    await expect(
+      syncMergeService.mergeSections(conflicting, ancestors, null)
+    ).rejects.toThrow('Data conflict detected');
+  });
+});
+
+describe('syncMergeService.planInitialMerge', () => {
+  it('matches template sections by title and content type', async () => {
+    const plan = await syncMergeService.planInitialMerge(local, cloud);
+
+    expect(Array.from(plan.templateSectionIdMap)).toEqual([
+      ['cloud-notes', 'local-notes'],
+    ]);
+    expect(Array.from(plan.sectionIdMap)).toEqual([['cloud-1', 'local-1']]);
+    expect(plan.autoMergedCount).toBe(1);
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0]).toMatchObject({
+      sectionId: 'local-1',
+      localContent: 'local text',
+      cloudContent: 'cloud text',
+    });
+  });
+
+  it('keeps template sections of the same id', async () => {
+    const plan = await syncMergeService.planInitialMerge(local, {
+      template_sections: records(templateSection('local-notes', 'x')),
+    });
+
+    expect(plan.templateSectionIdMap.size).toBe(0);
+  });
+
+  it('leaves trashed template sections unmatched', async () => {
+    const plan = await syncMergeService.planInitialMerge(local, {
+      template_sections: records({
+        ...templateSection('cloud-notes', 'cloud-column'),
+        deleted_at: 1,
+      }),
+    });
+
+    expect(plan.templateSectionIdMap.size).toBe(0);
+  });
+});
+
+describe('syncMergeService.applyInitialMerge', () => {
+  it('folds matched templates into the local ones', async () => {
+    const plan = await syncMergeService.planInitialMerge(local, cloud);
+    const superseded = await syncMergeService.applyInitialMerge(
+      local,
+      cloud,
+      plan,
+      { 'local-1': 'local' }
+    );
+
+    expect(createdIds('template_columns')).toEqual([]);
+    expect(createdIds('template_sections')).toEqual(['cloud-mood']);
+    expect(
+      mockCreated.find(record => record.raw.id === 'cloud-mood')?.raw.column_id
+    ).toBe('local-column');
+    expect(superseded.template_columns).toEqual(['cloud-column']);
+    expect(superseded.template_sections).toEqual(['cloud-notes']);
+
+    // The unmatched section moves to the local template
+    expect(createdIds('sections')).toEqual(['local-notes-daily-2025-03-11']);
+    expect(superseded.sections).toEqual(['cloud-1', 'cloud-2']);
+  });
+
+  it('carries section revisions over to the merged sections', async () => {
+    const plan = await syncMergeService.planInitialMerge(local, cloud);
+    await syncMergeService.applyInitialMerge(local, cloud, plan, {});
+
+    expect(
+      mockCreated
+        .filter(record => record.table === 'section_revisions')
+        .map(record => [record.raw.id, record.raw.section_id])
+    ).toEqual([
+      ['revision-1', 'local-1'],
+      ['revision-2', 'local-notes-daily-2025-03-11'],
+    ]);
+  });
+
+  it('skips revisions this device already has', async () => {
+    const plan = await syncMergeService.planInitialMerge(local, cloud);
+    await syncMergeService.applyInitialMerge(
+      { ...local, section_revisions: cloud.section_revisions },
+      cloud,
+      plan,
+      {}
+    );
+
+    expect(createdIds('section_revisions')).toEqual([]);
+  });
+});
@@ -0,0 +1,494 @@
+import database from '../database/watermelon/database';
+import { stableIds } from '../database/watermelon/stableIds';
+import { Section, TemplateSection } from '../database/watermelon/models';
+import {
+  ConflictResolver,
+  SectionChoice,
+  SectionConflict,
+} from '../types/cloudStorage';
+import { logger } from '../utils/logger';
+import type { RawRecord, RecordMap } from './changesetSyncService';
+
+// A section changed locally that the cloud also changed
+export interface SectionMergeCandidate {
+  local: RawRecord;
+  cloudContent: string;
+}
+
+export interface SectionMergeResult {
+  // Sections that must take the cloud content over the local edit
+  cloudContents: Map<string, string>;
+  autoMergedCount: number;
+}
+
+export interface InitialMergePlan {
+  conflicts: SectionConflict[];
+  autoMergedCount: number;
+  // Cloud section ids matching a local section (by template and timeframe)
+  sectionIdMap: Map<string, string>;
+  // Cloud template section ids matching a local one (by title and type)
+  templateSectionIdMap: Map<string, string>;
+}
+
+export class SyncCancelledError extends Error {
+  constructor() {
+    super('Sync paused until the conflicting sections are resolved');
+    this.name = 'SyncCancelledError';
+  }
+}
+
+function getSectionKey(raw: RawRecord, type: string = raw.type): string {
+  return stableIds.section(type, raw.timeframe_type, raw.timeframe_start);
+}
+
+function getTemplateSectionKey(raw: RawRecord): string {
+  return `${raw.template_id || ''}|${raw.title}|${raw.content_type}`;
+}
+
+// Template sections get random ids, so devices that set up the same layout
+// have different ids for it. Those of one template match by title and
+// content type, each local one at most once.
+function matchTemplateSections(
+  local: RecordMap,
+  cloud: RecordMap
+): Map<string, string> {
+  const localByKey = new Map<string, string>();
+  Object.values(local.template_sections || {}).forEach(raw => {
+    if (!raw.deleted_at && !cloud.template_sections?.[raw.id]) {
+      localByKey.set(getTemplateSectionKey(raw), raw.id);
+    }
+  });
+
+  const idMap = new Map<string, string>();
+  Object.values(cloud.template_sections || {}).forEach(raw => {
+    const key = getTemplateSectionKey(raw);
+    const localId = localByKey.get(key);
+    if (!raw.deleted_at && !local.template_sections?.[raw.id] && localId) {
+      idMap.set(raw.id, localId);
+      localByKey.delete(key);
+    }
+  });
+  return idMap;
+}
+
+/**
+ * Three-way merge of section content. Each side is compared with the common
+ * ancestor (the content at the last sync): a section changed on one side
+ * only merges automatically, one changed on both sides is a conflict the
+ * user resolves per section.
+ */
+export class SyncMergeService {
+  async mergeSections(
+    candidates: SectionMergeCandidate[],
+    ancestors: Map<string, string>,
+    resolveConflicts: ConflictResolver | null
+  ): Promise<SectionMergeResult> {
+    const cloudContents = new Map<string, string>();
+    const conflicts: SectionConflict[] = [];
+    let autoMergedCount = 0;
+
+    for (const { local, cloudContent } of candidates) {
+      const ancestorContent = ancestors.get(local.id);
+
+      if (ancestorContent === cloudContent) {
+        // Only changed locally - the local edit wins by default
+        autoMergedCount++;
+      } else if (ancestorContent === local.content) {
+        // Local edit was reverted; only the cloud really changed
+        cloudContents.set(local.id, cloudContent);
+        autoMergedCount++;
+      } else {
+        conflicts.push(
+          await this.toConflict(
+            local,
+            ancestorContent ?? null,
+            local.content,
+            cloudContent
+          )
+        );
+      }
+    }
+
+    if (conflicts.length > 0) {
+      const choices = await this.askForChoices(
+        conflicts,
+        autoMergedCount,
+        false,
+        resolveConflicts
+      );
+      conflicts.forEach(conflict => {
+        if (choices[conflict.sectionId] === 'cloud') {
+          cloudContents.set(conflict.sectionId, conflict.cloudContent);
+        }
+      });
+    }
+
+    return { cloudContents, autoMergedCount };
+  }
+
+  /**
+   * Matches the cloud state against a device that has never synced with
+   * it. There is no common ancestor, so sections are matched by template
+   * and timeframe and only differing content is a conflict.
+   */
+  async planInitialMerge(
+    local: RecordMap,
+    cloud: RecordMap
+  ): Promise<InitialMergePlan> {
+    const templateSectionIdMap = matchTemplateSections(local, cloud);
+    const localByKey = new Map<string, RawRecord>();
+    Object.values(local.sections || {}).forEach(raw => {
+      localByKey.set(getSectionKey(raw), raw);
+    });
+
+    const conflicts: SectionConflict[] = [];
+    const sectionIdMap = new Map<string, string>();
+    let autoMergedCount = 0;
+
+    for (const cloudSection of Object.values(cloud.sections || {})) {
+      const localSection = localByKey.get(
+        getSectionKey(
+          cloudSection,
+          templateSectionIdMap.get(cloudSection.type) || cloudSection.type
+        )
+      );
+      if (!localSection) {
+        autoMergedCount++;
+        continue;
+      }
+
+      sectionIdMap.set(cloudSection.id, localSection.id);
+      if (localSection.content !== cloudSection.content) {
+        conflicts.push(
+          await this.toConflict(
+            localSection,
+            null,
+            localSection.content,
+            cloudSection.content,
+            cloud
+          )
+        );
+      }
+    }
+
+    return { conflicts, autoMergedCount, sectionIdMap, templateSectionIdMap };
+  }
+
+  async resolveInitialMerge(
+    plan: InitialMergePlan,
+    resolveConflicts: ConflictResolver | null
+  ): Promise<{ [sectionId: string]: SectionChoice }> {
+    if (plan.conflicts.length === 0) {
+      return {};
+    }
+    return this.askForChoices(
+      plan.conflicts,
+      plan.autoMergedCount,
+      true,
+      resolveConflicts
+    );
+  }
+
+  /**
+   * Adds the cloud records to the local database following an initial merge
+   * plan. Returns the cloud record ids that were folded into local records
+   * so they can be deleted from the cloud.
+   */
+  async applyInitialMerge(
+    local: RecordMap,
+    cloud: RecordMap,
+    plan: InitialMergePlan,
+    choices: { [sectionId: string]: SectionChoice }
+  ): Promise<{ [table: string]: string[] }> {
+    const superseded: { [table: string]: string[] } = {
+      template_columns: [],
+      template_sections: [],
+      journal_entries: [],
+      sections: [],
+      section_journal_entries: [],
+      tags: [],
+      entry_tags: [],
+    };
+
+    // Columns of matched template sections are the same column
+    const columnIdMap = new Map<string, string>();
+    plan.templateSectionIdMap.forEach((localId, cloudId) => {
+      const cloudColumnId = cloud.template_sections[cloudId].column_id;
+      const localColumnId = local.template_sections[localId].column_id;
+      if (
+        cloudColumnId &&
+        localColumnId &&
+        !local.template_columns?.[cloudColumnId]
+      ) {
+        columnIdMap.set(cloudColumnId, localColumnId);
+      }
+    });
+
+    const entryIdMap = new Map<string, string>();
+    const localEntriesByDate = new Map<string, string>();
+    Object.values(local.journal_entries || {}).forEach(raw => {
+      localEntriesByDate.set(raw.date, raw.id);
+    });
+
+    const localJunctionPairs = new Set<string>();
+    Object.values(local.section_journal_entries || {}).forEach(raw => {
+      localJunctionPairs.add(`${raw.section_id}|${raw.journal_entry_id}`);
+    });
+
+    const localTagsByName = new Map<string, string>();
+    Object.values(local.tags || {}).forEach(raw => {
+      localTagsByName.set(raw.name, raw.id);
+    });
+
+    // Tag links keyed like their stable ids: per section or per entry
+    const localTagLinks = new Set<string>();
+    Object.values(local.entry_tags || {}).forEach(raw => {
+      localTagLinks.add(
+        stableIds.entryTag(
+          raw.tag_id,
+          raw.journal_entry_id,
+          raw.section_id || null
+        )
+      );
+    });
+
+    const creates: any[] = [];
+    const prepareCreateFromRaw = (table: string, raw: RawRecord) => {
+      creates.push(
+        database.collections.get(table).prepareCreate((record: any) => {
+          Object.keys(raw).forEach(column => {
+            record._raw[column] = raw[column];
+          });
+        })
+      );
+    };
+
+    await database.write(async () => {
+      // Templates and API keys: add whatever this device does not have yet
+      ['templates', 'template_versions', 'api_keys'].forEach(table => {
+        Object.values(cloud[table] || {}).forEach(raw => {
+          if (!local[table]?.[raw.id]) {
+            prepareCreateFromRaw(table, raw);
+          }
+        });
+      });
+
+      Object.values(cloud.template_columns || {}).forEach(raw => {
+        if (columnIdMap.has(raw.id)) {
+          superseded.template_columns.push(raw.id);
+        } else if (!local.template_columns?.[raw.id]) {
+          prepareCreateFromRaw('template_columns', raw);
+        }
+      });
+
+      Object.values(cloud.template_sections || {}).forEach(raw => {
+        if (plan.templateSectionIdMap.has(raw.id)) {
+          superseded.template_sections.push(raw.id);
+        } else if (!local.template_sections?.[raw.id]) {
+          const columnId = columnIdMap.get(raw.column_id);
+          prepareCreateFromRaw(
+            'template_sections',
+            columnId ? { ...raw, column_id: columnId } : raw
+          );
+        }
+      });
+
+      Object.values(cloud.journal_entries || {}).forEach(raw => {
+        const localEntryId = localEntriesByDate.get(raw.date);
+        if (localEntryId) {
+          entryIdMap.set(raw.id, localEntryId);
+          if (localEntryId !== raw.id) superseded.journal_entries.push(raw.id);
+        } else {
+          entryIdMap.set(raw.id, raw.id);
+          prepareCreateFromRaw('journal_entries', raw);
+        }
+      });
+
+      // Also holds the new ids of sections moved to a local template
+      const sectionIdMap = new Map(plan.sectionIdMap);
+      const sectionsCollection = database.collections.get<Section>('sections');
+      for (const raw of Object.values(cloud.sections || {})) {
+        const localSectionId = plan.sectionIdMap.get(raw.id);
+        const type = plan.templateSectionIdMap.get(raw.type);
+        if (!localSectionId && type) {
+          const id = getSectionKey(raw, type);
+          sectionIdMap.set(raw.id, id);
+          superseded.sections.push(raw.id);
+          prepareCreateFromRaw('sections', { ...raw, id, type });
+          continue;
+        }
+        if (!localSectionId) {
+          prepareCreateFromRaw('sections', raw);
+          continue;
+        }
+
+        if (localSectionId !== raw.id) superseded.sections.push(raw.id);
+        if (choices[localSectionId] === 'cloud') {
+          const section = await sectionsCollection.find(localSectionId);
+          creates.push(
+            section.prepareUpdate((record: Section) => {
+              record.content = raw.content;
+            })
+          );
+        }
+      }
+
+      Object.values(cloud.section_journal_entries || {}).forEach(raw => {
+        const sectionId = sectionIdMap.get(raw.section_id) || raw.section_id;
+        const entryId = entryIdMap.get(raw.journal_entry_id);
+        if (!entryId) return;
+
+        const pair = `${sectionId}|${entryId}`;
+        const isRemapped =
+          sectionId !== raw.section_id || entryId !== raw.journal_entry_id;
+        const isLocalPair = localJunctionPairs.has(pair);
+
+        if (
+          isRemapped ||
+          (isLocalPair && !local.section_journal_entries?.[raw.id])
+        ) {
+          superseded.section_journal_entries.push(raw.id);
+        }
+        if (isLocalPair) return;
+
+        localJunctionPairs.add(pair);
+        prepareCreateFromRaw(
+          'section_journal_entries',
+          isRemapped
+            ? {
+                ...raw,
+                id: stableIds.sectionJournalEntry(sectionId, entryId),
+                section_id: sectionId,
+                journal_entry_id: entryId,
+              }
+            : raw
+        );
+      });
+
+      const tagIdMap = new Map<string, string>();
+      Object.values(cloud.tags || {}).forEach(raw => {
+        const localTagId = localTagsByName.get(raw.name);
+        if (localTagId) {
+          tagIdMap.set(raw.id, localTagId);
+          if (localTagId !== raw.id) superseded.tags.push(raw.id);
+        } else {
+          tagIdMap.set(raw.id, raw.id);
+          prepareCreateFromRaw('tags', raw);
+        }
+      });
+
+      Object.values(cloud.entry_tags || {}).forEach(raw => {
+        const tagId = tagIdMap.get(raw.tag_id);
+        const entryId = entryIdMap.get(raw.journal_entry_id);
+        if (!tagId || !entryId) return;
+
+        const sectionId = raw.section_id
+          ? sectionIdMap.get(raw.section_id) || raw.section_id
+          : null;
+        const link = stableIds.entryTag(tagId, entryId, sectionId);
+        const isRemapped =
+          tagId !== raw.tag_id ||
+          entryId !== raw.journal_entry_id ||
+          sectionId !== (raw.section_id || null);
+        const isLocalLink = localTagLinks.has(link);
+
+        if (isRemapped || (isLocalLink && !local.entry_tags?.[raw.id])) {
+          superseded.entry_tags.push(raw.id);
+        }
+        if (isLocalLink) return;
+
+        localTagLinks.add(link);
+        prepareCreateFromRaw(
+          'entry_tags',
+          isRemapped
+            ? {
+                ...raw,
+                id: link,
+                tag_id: tagId,
+                journal_entry_id: entryId,
+                section_id: sectionId,
+              }
+            : raw
+        );
+      });
+
+      // Revisions have random ids, so the cloud's are added to the local ones
+      Object.values(cloud.section_revisions || {}).forEach(raw => {
+        if (local.section_revisions?.[raw.id]) return;
+
+        const sectionId = sectionIdMap.get(raw.section_id) || raw.section_id;
+        prepareCreateFromRaw(
+          'section_revisions',
+          sectionId !== raw.section_id ? { ...raw, section_id: sectionId } : raw
+        );
+      });
+
+      await database.batch(...creates);
+    });
+
+    logger.log(
+      `SYNC: Initial merge added ${creates.length} records from the cloud`
+    );
+    return superseded;
+  }
+
+  private async askForChoices(
+    conflicts: SectionConflict[],
+    autoMergedCount: number,
+    isInitialSync: boolean,
+    resolveConflicts: ConflictResolver | null
+  ): Promise<{ [sectionId: string]: SectionChoice }> {
+    if (!resolveConflicts) {
+      // No conflict resolver - throw error to prevent data loss
+      throw new Error(
+        'Data conflict detected between local and cloud storage. Cannot proceed without conflict resolution.'
+      );
+    }
+
+    logger.log(`SYNC: ${conflicts.length} conflicting sections need a choice`);
+    const resolution = await resolveConflicts({
+      conflicts,
+      autoMergedCount,
+      isInitialSync,
+    });
+
+    if (resolution.type === 'cancel') {
+      throw new SyncCancelledError();
+    }
+    return resolution.choices;
+  }
+
+  private async toConflict(
+    section: RawRecord,
+    ancestorContent: string | null,
+    localContent: string,
+    cloudContent: string,
+    cloud?: RecordMap
+  ): Promise<SectionConflict> {
+    let templateTitle = cloud?.template_sections?.[section.type]?.title;
+    if (!templateTitle) {
+      try {
+        const template = await database.collections
+          .get<TemplateSection>('template_sections')
+          .find(section.type);
+        templateTitle = template.title;
+      } catch {
+        templateTitle = 'Deleted section';
+      }
+    }
+
+    return {
+      sectionId: section.id,
+      templateId: section.type,
+      templateTitle: templateTitle || 'Untitled section',
+      timeframeType: section.timeframe_type,
+      timeframeStart: section.timeframe_start,
+      timeframeEnd: section.timeframe_end,
+      ancestorContent,
+      localContent,
+      cloudContent,
+    };
+  }
+}
+
+export const syncMergeService = new SyncMergeService();
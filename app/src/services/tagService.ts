@@ -0,0 +1,424 @@
+import { Q } from '@nozbe/watermelondb';
+import database from '../database/watermelon/database';
+import { claimStableId, stableIds } from '../database/watermelon/stableIds';
+import {
+  EntryTag as EntryTagModel,
+  JournalEntry as JournalEntryModel,
+  Section as SectionModel,
+  SectionJournalEntry as SectionJournalEntryModel,
+  Tag as TagModel,
+  TemplateSection as TemplateSectionModel,
+} from '../database/watermelon/models';
+import { sectionRegistry } from '../components/sections/registry';
+import { extractHashtags, normalizeTagName } from '../utils/hashtags';
+
+// Content types whose text is written in the entry; habit names come from
+// the template, so a '#' there would tag every day
+const HASHTAG_CONTENT_TYPES = ['text', 'header', 'todo', 'month_week_goals'];
+
+export interface TagSummary {
+  id: string;
+  name: string;
+  // Sections and entries carrying the tag
+  count: number;
+}
+
+export interface EntryTagInfo {
+  tagId: string;
+  name: string;
+  // Added by hand rather than found as a #hashtag in a section
+  manual: boolean;
+}
+
+export interface TagMention {
+  id: string;
+  date: string; // YYYY-MM-DD of the entry to open, the newest of dates
+  // Every day showing it; weekly, monthly and persistent sections show
+  // on several
+  dates: string[];
+  manual: boolean;
+  // Section the #hashtag appears in; absent for manual tags
+  sectionId?: string;
+  templateTitle?: string;
+  timeframeType?: string;
+  timeframeStart?: string;
+  // Lines of the section that mention the tag
+  excerpts: string[];
+}
+
+/**
+ * Tags on journal entries. Hashtags are kept in sync with section content
+ * on every save; manual tags are attached to the entry itself.
+ *
+ * Hashtags are stored once per section, with the entry that saved it; the
+ * days a shared section shows on are read from section_journal_entries.
+ *
+ * Methods taking a journal entry id expect to run inside database.write(),
+ * like SectionService.
+ */
+export class TagService {
+  // No database.write() - assumes we're already in a write context
+  async getOrCreateTag(name: string): Promise<TagModel> {
+    const tagsCollection = database.collections.get<TagModel>('tags');
+    const existing = await tagsCollection.query(Q.where('name', name)).fetch();
+    if (existing.length > 0) {
+      return existing[0];
+    }
+
+    const stableId = await claimStableId(tagsCollection, stableIds.tag(name));
+    return await tagsCollection.create(record => {
+      if (stableId) record._raw.id = stableId;
+      record.name = name;
+    });
+  }
+
+  // Replaces the hashtag links of a section with the tags in its content
+  async syncSectionTags(
+    sectionId: string,
+    journalEntryId: string
+  ): Promise<void> {
+    const section = await database.collections
+      .get<SectionModel>('sections')
+      .find(sectionId);
+    const template = await database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .find(section.type);
+
+    const names =
+      HASHTAG_CONTENT_TYPES.indexOf(template.contentType) === -1
+        ? []
+        : this.extractTags(
+            template.contentType,
+            section.content,
+            template.configuration
+          );
+
+    const entryTagsCollection =
+      database.collections.get<EntryTagModel>('entry_tags');
+    const existing = await entryTagsCollection
+      .query(Q.where('section_id', sectionId))
+      .fetch();
+    const tags = await Promise.all(
+      names.map(name => this.getOrCreateTag(name))
+    );
+    const wantedIds = new Set(tags.map(tag => tag.id));
+
+    for (const entryTag of existing) {
+      if (!wantedIds.has(entryTag.tagId)) {
+        await entryTag.markAsDeleted();
+      }
+    }
+
+    const existingIds = new Set(existing.map(entryTag => entryTag.tagId));
+    for (const tag of tags) {
+      if (!existingIds.has(tag.id)) {
+        await this.createEntryTag(tag.id, journalEntryId, sectionId);
+      }
+    }
+  }
+
+  // No database.write() - assumes we're already in a write context
+  async addManualTag(journalEntryId: string, name: string): Promise<void> {
+    const tagName = normalizeTagName(name);
+    if (!tagName) {
+      throw new Error('Tag name cannot be empty');
+    }
+
+    const tag = await this.getOrCreateTag(tagName);
+    const existing = await database.collections
+      .get<EntryTagModel>('entry_tags')
+      .query(
+        Q.where('tag_id', tag.id),
+        Q.where('journal_entry_id', journalEntryId),
+        Q.where('section_id', null)
+      )
+      .fetchCount();
+    if (existing === 0) {
+      await this.createEntryTag(tag.id, journalEntryId, null);
+    }
+  }
+
+  // Manual tags for the names the entry has no tag of yet, as a #hashtag or
+  // by hand. No database.write() - assumes we're already in a write context
+  async addMissingTags(journalEntryId: string, names: string[]): Promise<void> {
+    const existing = new Set(
+      (
+        await database.collections
+          .get<EntryTagModel>('entry_tags')
+          .query(Q.where('journal_entry_id', journalEntryId))
+          .fetch()
+      ).map(entryTag => entryTag.tagId)
+    );
+    for (const name of names) {
+      const tagName = normalizeTagName(name);
+      if (!tagName) {
+        continue;
+      }
+      const tag = await this.getOrCreateTag(tagName);
+      if (!existing.has(tag.id)) {
+        await this.createEntryTag(tag.id, journalEntryId, null);
+        existing.add(tag.id);
+      }
+    }
+  }
+
+  // No database.write() - assumes we're already in a write context
+  async removeManualTag(journalEntryId: string, tagId: string): Promise<void> {
+    const entryTags = await database.collections
+      .get<EntryTagModel>('entry_tags')
+      .query(
+        Q.where('tag_id', tagId),
+        Q.where('journal_entry_id', journalEntryId),
+        Q.where('section_id', null)
+      )
+      .fetch();
+    for (const entryTag of entryTags) {
+      await entryTag.markAsDeleted();
+    }
+  }
+
+  // Manual tags first, then hashtags from the sections the entry shows
+  async getTagsForEntry(date: string): Promise<EntryTagInfo[]> {
+    const entries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(Q.where('date', date))
+      .fetch();
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const sectionIds = (
+      await database.collections
+        .get<SectionJournalEntryModel>('section_journal_entries')
+        .query(Q.where('journal_entry_id', entries[0].id))
+        .fetch()
+    ).map(junction => junction.sectionId);
+    const entryTags = await database.collections
+      .get<EntryTagModel>('entry_tags')
+      .query(
+        Q.or(
+          Q.where('journal_entry_id', entries[0].id),
+          Q.where('section_id', Q.oneOf(sectionIds))
+        )
+      )
+      .fetch();
+    const tagNames = await this.getTagNames(entryTags.map(et => et.tagId));
+
+    const result: EntryTagInfo[] = [];
+    [true, false].forEach(manual =>
+      entryTags
+        .filter(entryTag => (entryTag.sectionId === null) === manual)
+        .forEach(entryTag => {
+          const name = tagNames.get(entryTag.tagId);
+          if (name && !result.some(info => info.tagId === entryTag.tagId)) {
+            result.push({ tagId: entryTag.tagId, name, manual });
+          }
+        })
+    );
+    return result;
+  }
+
+  // Every tag in use, most used first
+  async getAllTags(): Promise<TagSummary[]> {
+    const tags = await database.collections
+      .get<TagModel>('tags')
+      .query()
+      .fetch();
+    const entryTags = await database.collections
+      .get<EntryTagModel>('entry_tags')
+      .query()
+      .fetch();
+
+    const counts = new Map<string, number>();
+    entryTags.forEach(entryTag =>
+      counts.set(entryTag.tagId, (counts.get(entryTag.tagId) || 0) + 1)
+    );
+
+    return tags
+      .map(tag => ({
+        id: tag.id,
+        name: tag.name,
+        count: counts.get(tag.id) || 0,
+      }))
+      .filter(tag => tag.count > 0)
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }
+
+  // Where a tag was used, newest entry first
+  async getTagMentions(name: string): Promise<TagMention[]> {
+    const tagName = normalizeTagName(name);
+    const tags = await database.collections
+      .get<TagModel>('tags')
+      .query(Q.where('name', tagName))
+      .fetch();
+    if (tags.length === 0) {
+      return [];
+    }
+
+    const entryTags = await database.collections
+      .get<EntryTagModel>('entry_tags')
+      .query(Q.where('tag_id', tags[0].id))
+      .fetch();
+    if (entryTags.length === 0) {
+      return [];
+    }
+
+    const sectionIds = entryTags
+      .map(entryTag => entryTag.sectionId)
+      .filter((id): id is string => !!id);
+    const junctions = await database.collections
+      .get<SectionJournalEntryModel>('section_journal_entries')
+      .query(Q.where('section_id', Q.oneOf(sectionIds)))
+      .fetch();
+    const entryIdsBySection = new Map<string, string[]>();
+    junctions.forEach(junction =>
+      entryIdsBySection.set(
+        junction.sectionId,
+        (entryIdsBySection.get(junction.sectionId) || []).concat(
+          junction.journalEntryId
+        )
+      )
+    );
+    const entryIdsOf = (entryTag: EntryTagModel): string[] =>
+      Array.from(
+        new Set([
+          entryTag.journalEntryId,
+          ...((entryTag.sectionId &&
+            entryIdsBySection.get(entryTag.sectionId)) ||
+            []),
+        ])
+      );
+
+    // Deleted and trashed entries and deleted sections drop out here
+    const entries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(
+        Q.where(
+          'id',
+          Q.oneOf(
+            entryTags.reduce<string[]>(
+              (ids, entryTag) => ids.concat(entryIdsOf(entryTag)),
+              []
+            )
+          )
+        ),
+        Q.where('deleted_at', null)
+      )
+      .fetch();
+    const datesByEntryId = new Map(
+      entries.map(entry => [entry.id, entry.date])
+    );
+    const sections = await database.collections
+      .get<SectionModel>('sections')
+      .query(Q.where('id', Q.oneOf(sectionIds)))
+      .fetch();
+    const sectionsById = new Map(
+      sections.map(section => [section.id, section])
+    );
+    const templates = await database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .query()
+      .fetch();
+    const templatesById = new Map(
+      templates.map(template => [template.id, template])
+    );
+
+    const mentions: TagMention[] = [];
+    entryTags.forEach(entryTag => {
+      const dates = entryIdsOf(entryTag)
+        .map(entryId => datesByEntryId.get(entryId))
+        .filter((date): date is string => !!date)
+        .sort((a, b) => b.localeCompare(a));
+      if (dates.length === 0) {
+        return;
+      }
+      const date = dates[0];
+      if (!entryTag.sectionId) {
+        mentions.push({
+          id: entryTag.id,
+          date,
+          dates,
+          manual: true,
+          excerpts: [],
+        });
+        return;
+      }
+
+      const section = sectionsById.get(entryTag.sectionId);
+      const template = section && templatesById.get(section.type);
+      if (!section || !template) {
+        return;
+      }
+      mentions.push({
+        id: entryTag.id,
+        date,
+        dates,
+        manual: false,
+        sectionId: section.id,
+        templateTitle: template.title,
+        timeframeType: section.timeframeType,
+        timeframeStart: section.timeframeStart,
+        excerpts: sectionRegistry
+          .extractSearchText(
+            template.contentType,
+            section.content,
+            template.configuration,
+            template.title
+          )
+          .reduce<string[]>((lines, text) => lines.concat(text.split('\n')), [])
+          .filter(line => extractHashtags(line).indexOf(tagName) !== -1)
+          .map(line => line.trim()),
+      });
+    });
+
+    return mentions.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  private extractTags(
+    contentType: string,
+    content: string,
+    configuration: string
+  ): string[] {
+    const tags: string[] = [];
+    sectionRegistry
+      .extractSearchText(contentType, content, configuration)
+      .forEach(text =>
+        extractHashtags(text).forEach(tag => {
+          if (tags.indexOf(tag) === -1) tags.push(tag);
+        })
+      );
+    return tags;
+  }
+
+  private async getTagNames(tagIds: string[]): Promise<Map<string, string>> {
+    if (tagIds.length === 0) {
+      return new Map();
+    }
+    const tags = await database.collections
+      .get<TagModel>('tags')
+      .query(Q.where('id', Q.oneOf(tagIds)))
+      .fetch();
+    return new Map(tags.map(tag => [tag.id, tag.name]));
+  }
+
+  private async createEntryTag(
+    tagId: string,
+    journalEntryId: string,
+    sectionId: string | null
+  ): Promise<EntryTagModel> {
+    const entryTagsCollection =
+      database.collections.get<EntryTagModel>('entry_tags');
+    const stableId = await claimStableId(
+      entryTagsCollection,
+      stableIds.entryTag(tagId, journalEntryId, sectionId)
+    );
+    return await entryTagsCollection.create(record => {
+      if (stableId) record._raw.id = stableId;
+      record.tagId = tagId;
+      record.journalEntryId = journalEntryId;
+      record.sectionId = sectionId;
+    });
+  }
+}
+
+export const tagService = new TagService();
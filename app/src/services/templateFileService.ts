@@ -0,0 +1,271 @@
+import { Column, SectionTemplate } from './api';
+import { localApiService } from './localApi';
+import { TemplateLayout } from './templateVersionService';
+import { SectionRegistry } from '../components/sections/core/SectionRegistry';
+import { logger } from '../utils/logger';
+
+export const TEMPLATE_FILE_FORMAT = 'jaja-template';
+export const TEMPLATE_FILE_VERSION = 1;
+export const TEMPLATE_FILE_EXTENSION = '.jaja-template.json';
+
+const REFRESH_FREQUENCIES = ['daily', 'weekly', 'monthly', 'persistent'];
+
+export type TemplateImportMode = 'merge' | 'replace';
+
+/**
+ * A shareable layout: the columns and sections of one named template. Ids
+ * only link sections to their columns within the file; importing creates
+ * new ones.
+ */
+export interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  columns: Column[];
+  sections: SectionTemplate[];
+}
+
+export interface TemplateFileValidation {
+  file: TemplateFile | null;
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is { [key: string]: any } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): value is string | undefined =>
+  value === undefined || typeof value === 'string';
+
+/**
+ * Export and import of templates as `.jaja-template.json` files. Section
+ * types and their settings are checked against the SectionRegistry, so a
+ * file never adds sections this version of the app cannot render.
+ */
+export class TemplateFileService {
+  async exportTemplate(templateId: string): Promise<TemplateFile> {
+    const templates = await localApiService.fetchNamedTemplates();
+    const layout = await localApiService.fetchTemplates(templateId);
+    return {
+      format: TEMPLATE_FILE_FORMAT,
+      version: TEMPLATE_FILE_VERSION,
+      name: templates.find(t => t.id === templateId)?.name || 'Template',
+      columns: layout.columns.map(column => ({
+        id: column.id,
+        title: column.title,
+        width: column.width,
+        display_order: column.display_order,
+      })),
+      sections: layout.sections.map(section => ({
+        id: section.id,
+        title: section.title,
+        refresh_frequency: section.refresh_frequency,
+        display_order: section.display_order,
+        placeholder: section.placeholder,
+        default_content: section.default_content,
+        content_type: section.content_type,
+        configuration: section.configuration,
+        column_id: section.column_id,
+      })),
+    };
+  }
+
+  serialize(file: TemplateFile): string {
+    return JSON.stringify(file, null, 2);
+  }
+
+  getFileName(file: TemplateFile): string {
+    const slug = file.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return `${slug || 'template'}${TEMPLATE_FILE_EXTENSION}`;
+  }
+
+  // Checks a file's structure and section types, filling in optional fields
+  parse(text: string): TemplateFileValidation {
+    const errors: string[] = [];
+    const result = (file: TemplateFile | null = null) => ({
+      file: errors.length === 0 ? file : null,
+      errors,
+    });
+
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      errors.push('Not valid JSON');
+      return result();
+    }
+
+    if (!isObject(data) || data.format !== TEMPLATE_FILE_FORMAT) {
+      errors.push('Not a template file');
+      return result();
+    }
+    if (typeof data.version !== 'number') {
+      errors.push('Missing template format version');
+      return result();
+    }
+    if (data.version > TEMPLATE_FILE_VERSION) {
+      errors.push(
+        `Made by a newer version of the app (template format ${data.version})`
+      );
+      return result();
+    }
+    if (!Array.isArray(data.columns) || !Array.isArray(data.sections)) {
+      errors.push('Missing columns or sections');
+      return result();
+    }
+
+    const columns: Column[] = [];
+    data.columns.forEach((column: unknown, index: number) => {
+      if (
+        !isObject(column) ||
+        typeof column.id !== 'string' ||
+        typeof column.title !== 'string' ||
+        typeof column.width !== 'number' ||
+        column.width <= 0
+      ) {
+        errors.push(`Column ${index + 1} is incomplete`);
+        return;
+      }
+      columns.push({
+        id: column.id,
+        title: column.title,
+        width: column.width,
+        display_order:
+          typeof column.display_order === 'number'
+            ? column.display_order
+            : index,
+      });
+    });
+    if (data.sections.length > 0 && columns.length === 0) {
+      errors.push('Sections need at least one column');
+    }
+
+    const columnIds = new Set(columns.map(column => column.id));
+    const sections: SectionTemplate[] = [];
+    data.sections.forEach((section: unknown, index: number) => {
+      const label =
+        isObject(section) && typeof section.title === 'string'
+          ? `Section "${section.title}"`
+          : `Section ${index + 1}`;
+      if (
+        !isObject(section) ||
+        typeof section.title !== 'string' ||
+        !section.title.trim() ||
+        typeof section.content_type !== 'string' ||
+        !optionalString(section.placeholder) ||
+        !optionalString(section.default_content) ||
+        !optionalString(section.configuration)
+      ) {
+        errors.push(`${label} is incomplete`);
+        return;
+      }
+
+      const sectionErrors = this.checkSection(section);
+      if (section.column_id && !columnIds.has(section.column_id)) {
+        sectionErrors.push('refers to a missing column');
+      }
+      if (sectionErrors.length > 0) {
+        sectionErrors.forEach(error => errors.push(`${label} ${error}`));
+        return;
+      }
+
+      sections.push({
+        id: typeof section.id === 'string' ? section.id : `section-${index}`,
+        title: section.title,
+        refresh_frequency: section.refresh_frequency || 'daily',
+        display_order:
+          typeof section.display_order === 'number'
+            ? section.display_order
+            : index,
+        placeholder: section.placeholder || '',
+        default_content:
+          section.default_content ??
+          SectionRegistry.getInstance().getDefaultContent(section.content_type),
+        content_type: section.content_type,
+        configuration: section.configuration || '',
+        column_id: section.column_id || columns[0]?.id,
+      });
+    });
+
+    return result({
+      format: TEMPLATE_FILE_FORMAT,
+      version: TEMPLATE_FILE_VERSION,
+      name: typeof data.name === 'string' ? data.name : 'Template',
+      description:
+        typeof data.description === 'string' ? data.description : undefined,
+      columns,
+      sections,
+    });
+  }
+
+  async importTemplate(
+    templateId: string,
+    file: TemplateFile,
+    mode: TemplateImportMode
+  ): Promise<void> {
+    const layout: TemplateLayout = {
+      columns: file.columns,
+      sections: file.sections,
+    };
+    await localApiService.importTemplateLayout(templateId, layout, mode);
+    logger.log(
+      `TEMPLATE_FILE: Imported "${file.name}" into ${templateId} (${mode})`
+    );
+  }
+
+  // The section type must be registered and its settings valid for it
+  private checkSection(section: { [key: string]: any }): string[] {
+    const definition = SectionRegistry.getInstance().get(section.content_type);
+    if (!definition) {
+      return [`has an unknown type "${section.content_type}"`];
+    }
+
+    const errors: string[] = [];
+    if (
+      section.refresh_frequency !== undefined &&
+      !REFRESH_FREQUENCIES.includes(section.refresh_frequency)
+    ) {
+      errors.push(
+        `has an unknown refresh frequency "${section.refresh_frequency}"`
+      );
+    }
+    if (
+      section.default_content &&
+      !definition.validateContent(section.default_content).isValid
+    ) {
+      errors.push(
+        `has default content that is not valid for ${definition.name}`
+      );
+    }
+
+    if (section.configuration) {
+      let configuration: unknown;
+      try {
+        configuration = JSON.parse(section.configuration);
+      } catch {
+        configuration = null;
+      }
+      if (!isObject(configuration)) {
+        return [...errors, 'has a configuration that is not a JSON object'];
+      }
+      const settings = configuration;
+      definition.getPropertyFields().forEach(field => {
+        const value = settings[field.key];
+        if (
+          value !== undefined &&
+          field.type === 'select' &&
+          field.options &&
+          !field.options.some(option => option.value === value)
+        ) {
+          errors.push(`has an unknown ${field.label.toLowerCase()} "${value}"`);
+        }
+      });
+    }
+    return errors;
+  }
+}
+
+export const templateFileService = new TemplateFileService();
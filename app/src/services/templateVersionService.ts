@@ -0,0 +1,138 @@
+import { Q } from '@nozbe/watermelondb';
+import database from '../database/watermelon/database';
+import {
+  JournalEntry as JournalEntryModel,
+  TemplateVersion as TemplateVersionModel,
+} from '../database/watermelon/models';
+import { Column, SectionTemplate } from './api';
+import { logger } from '../utils/logger';
+
+export interface TemplateLayout {
+  columns: Column[];
+  sections: SectionTemplate[];
+}
+
+export interface TemplateVersionInfo {
+  id: string;
+  templateId: string;
+  version: number;
+  createdAt: Date;
+  layout: TemplateLayout;
+}
+
+// Only what changes how an entry renders, in a stable order
+function serializeLayout(layout: TemplateLayout): string {
+  const columns = [...layout.columns]
+    .sort((a, b) => a.display_order - b.display_order || (a.id < b.id ? -1 : 1))
+    .map(column => ({
+      id: column.id,
+      title: column.title,
+      width: column.width,
+      display_order: column.display_order,
+    }));
+  const sections = [...layout.sections]
+    .sort((a, b) => a.display_order - b.display_order || (a.id < b.id ? -1 : 1))
+    .map(section => ({
+      id: section.id,
+      title: section.title,
+      refresh_frequency: section.refresh_frequency,
+      display_order: section.display_order,
+      placeholder: section.placeholder,
+      default_content: section.default_content,
+      content_type: section.content_type,
+      configuration: section.configuration,
+      column_id: section.column_id,
+    }));
+  return JSON.stringify({ columns, sections });
+}
+
+/**
+ * Snapshots of named templates. An entry records the version it was last
+ * saved with while it was current; once its day is past it keeps rendering
+ * with that version, so later template edits do not rewrite history.
+ *
+ * Methods that create versions expect to run inside database.write(), like
+ * SectionService.
+ */
+export class TemplateVersionService {
+  /**
+   * Returns the id of the version matching the layout, adding a version if
+   * the template changed since the last one.
+   * No database.write() - assumes we're already in a write context
+   */
+  async getOrCreateVersion(
+    templateId: string,
+    layout: TemplateLayout
+  ): Promise<string> {
+    const snapshot = serializeLayout(layout);
+    const latest = await this.getLatestVersion(templateId);
+    if (latest && latest.snapshot === snapshot) {
+      return latest.id;
+    }
+
+    const created = await database.collections
+      .get<TemplateVersionModel>('template_versions')
+      .create(record => {
+        record.templateId = templateId;
+        record.version = latest ? latest.version + 1 : 1;
+        record.snapshot = snapshot;
+      });
+    logger.log(
+      `TEMPLATE_VERSIONS: Created version ${created.version} of ${templateId}`
+    );
+    return created.id;
+  }
+
+  /**
+   * Points the entry at the version matching the layout.
+   * No database.write() - assumes we're already in a write context
+   */
+  async stampEntry(
+    entry: JournalEntryModel,
+    templateId: string,
+    layout: TemplateLayout
+  ): Promise<void> {
+    const versionId = await this.getOrCreateVersion(templateId, layout);
+    if (entry.templateVersionId !== versionId) {
+      await entry.update(record => {
+        record.templateVersionId = versionId;
+      });
+    }
+  }
+
+  async getVersion(versionId: string): Promise<TemplateVersionInfo | null> {
+    try {
+      const record = await database.collections
+        .get<TemplateVersionModel>('template_versions')
+        .find(versionId);
+      return {
+        id: record.id,
+        templateId: record.templateId,
+        version: record.version,
+        createdAt: record.createdAt,
+        layout: JSON.parse(record.snapshot),
+      };
+    } catch (error) {
+      logger.log('TEMPLATE_VERSIONS: Version not found:', versionId);
+      return null;
+    }
+  }
+
+  matchesLayout(version: TemplateVersionInfo, layout: TemplateLayout): boolean {
+    return serializeLayout(version.layout) === serializeLayout(layout);
+  }
+
+  private async getLatestVersion(
+    templateId: string
+  ): Promise<TemplateVersionModel | null> {
+    const versions = await database.collections
+      .get<TemplateVersionModel>('template_versions')
+      .query(
+        Q.where('template_id', templateId),
+        Q.sortBy('version', Q.desc),
+        Q.take(1)
+      )
+      .fetch();
+    return versions[0] || null;
+  }
+}
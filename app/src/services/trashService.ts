@@ -0,0 +1,148 @@
+import { Q } from '@nozbe/watermelondb';
+import { differenceInCalendarDays } from 'date-fns';
+import database from '../database/watermelon/database';
+import {
+  JournalEntry as JournalEntryModel,
+  TemplateSection as TemplateSectionModel,
+} from '../database/watermelon/models';
+import { reactiveDataService } from './reactiveDataService';
+import { logger } from '../utils/logger';
+
+export interface TrashSettings {
+  // Items older than this are purged for good; 0 keeps them forever
+  retentionDays: number;
+}
+
+export interface TrashedEntry {
+  date: string;
+  deletedAt: Date;
+}
+
+export interface TrashedTemplateSection {
+  id: string;
+  title: string;
+  contentType: string;
+  deletedAt: Date;
+}
+
+export interface TrashContents {
+  entries: TrashedEntry[];
+  templateSections: TrashedTemplateSection[];
+}
+
+/**
+ * Entries and template sections moved to the trash. They can be restored
+ * until they are purged, by hand or once they exceed the retention period.
+ */
+export class TrashService {
+  private readonly SETTINGS_STORAGE_KEY = 'trashSettings';
+  private readonly DEFAULT_SETTINGS: TrashSettings = {
+    retentionDays: 30,
+  };
+  private settings: TrashSettings = this.loadSettings();
+
+  private loadSettings(): TrashSettings {
+    const stored = localStorage.getItem(this.SETTINGS_STORAGE_KEY);
+    if (!stored) {
+      return this.DEFAULT_SETTINGS;
+    }
+    try {
+      return { ...this.DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+      logger.log('TRASH: Error parsing trash settings, using defaults');
+      localStorage.removeItem(this.SETTINGS_STORAGE_KEY);
+      return this.DEFAULT_SETTINGS;
+    }
+  }
+
+  getSettings(): TrashSettings {
+    return this.settings;
+  }
+
+  async updateSettings(settings: Partial<TrashSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...settings };
+    localStorage.setItem(
+      this.SETTINGS_STORAGE_KEY,
+      JSON.stringify(this.settings)
+    );
+    logger.log('TRASH: Settings updated', this.settings);
+
+    // Apply a shorter retention right away
+    await this.purgeExpired();
+  }
+
+  // Newest deletions first
+  async getTrash(): Promise<TrashContents> {
+    const entries = await database.collections
+      .get<JournalEntryModel>('journal_entries')
+      .query(Q.where('deleted_at', Q.notEq(null)))
+      .fetch();
+    const templateSections = await database.collections
+      .get<TemplateSectionModel>('template_sections')
+      .query(Q.where('deleted_at', Q.notEq(null)))
+      .fetch();
+
+    return {
+      entries: entries
+        .map(entry => ({ date: entry.date, deletedAt: entry.deletedAt! }))
+        .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()),
+      templateSections: templateSections
+        .map(template => ({
+          id: template.id,
+          title: template.title,
+          contentType: template.contentType,
+          deletedAt: template.deletedAt!,
+        }))
+        .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()),
+    };
+  }
+
+  async restoreEntry(date: string): Promise<void> {
+    await reactiveDataService.restoreJournalEntry(date);
+  }
+
+  async purgeEntry(date: string): Promise<void> {
+    await reactiveDataService.purgeJournalEntry(date);
+  }
+
+  async restoreTemplateSection(id: string): Promise<void> {
+    await reactiveDataService.restoreTemplateSection(id);
+    logger.log('TRASH: Template section restored:', id);
+  }
+
+  async purgeTemplateSection(id: string): Promise<void> {
+    await reactiveDataService.purgeTemplateSection(id);
+    logger.log('TRASH: Template section purged:', id);
+  }
+
+  // Permanently removes everything that has been in the trash too long
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const { retentionDays } = this.settings;
+    if (retentionDays <= 0) {
+      return 0;
+    }
+
+    const isExpired = (deletedAt: Date) =>
+      differenceInCalendarDays(now, deletedAt) >= retentionDays;
+    const { entries, templateSections } = await this.getTrash();
+    const expiredEntries = entries.filter(entry => isExpired(entry.deletedAt));
+    const expiredTemplates = templateSections.filter(template =>
+      isExpired(template.deletedAt)
+    );
+
+    for (const entry of expiredEntries) {
+      await this.purgeEntry(entry.date);
+    }
+    for (const template of expiredTemplates) {
+      await this.purgeTemplateSection(template.id);
+    }
+
+    const purged = expiredEntries.length + expiredTemplates.length;
+    if (purged > 0) {
+      logger.log(`TRASH: Purged ${purged} expired items`);
+    }
+    return purged;
+  }
+}
+
+export const trashService = new TrashService();
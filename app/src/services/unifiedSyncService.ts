@@ -1,5 +1,8 @@
 import { useSyncStore } from '../stores/syncStore';
-import { cloudStorageManager } from './cloudStorageManager';
+import {
+  BackupEncryptionResult,
+  cloudStorageManager,
+} from './cloudStorageManager';
 import { conflictResolutionService } from './conflictResolutionService';
 import { backupManager } from './backupManager';
 import { logger } from '../utils/logger';
@@ -67,9 +70,10 @@ class UnifiedSyncService {
     this.setupTemplateChangeObserver();
 
     // Set backup manager provider after cloud storage initialization
+    // (without one, backups are kept on this device)
     const activeProvider = cloudStorageManager.getActiveProvider();
+    backupManager.setProvider(activeProvider);
     if (activeProvider) {
-      backupManager.setProvider(activeProvider);
       // Update sync store
       useSyncStore.getState().setCloudConnected(true, activeProvider.name);
     }
@@ -83,7 +87,12 @@ class UnifiedSyncService {
 
   private setupTemplateChangeObserver() {
     // Observe template tables for changes and automatically trigger sync
-    const templateTables = ['template_columns', 'template_sections'];
+    const templateTables = [
+      'templates',
+      'template_columns',
+      'template_sections',
+      'template_versions',
+    ];
 
     const subscription = database
       .withChangesForTables(templateTables)
@@ -109,7 +118,12 @@ class UnifiedSyncService {
     }
 
     const { isCloudConnected, autoSync } = useSyncStore.getState();
-    if (!isCloudConnected || !autoSync) {
+    if (!isCloudConnected) {
+      // Offline-only journals still get local backups
+      this.debouncedBackup();
+      return;
+    }
+    if (!autoSync) {
       return;
     }
 
@@ -191,6 +205,31 @@ class UnifiedSyncService {
     }
   }
 
+  // End-to-end encryption
+  async setEncryptionPassphrase(
+    passphrase: string
+  ): Promise<BackupEncryptionResult> {
+    this.pauseSync();
+    let result: BackupEncryptionResult;
+    try {
+      result = await cloudStorageManager.setEncryptionPassphrase(passphrase);
+    } finally {
+      this.resumeSync();
+    }
+    // Clears a previous "passphrase required" error
+    this.scheduleSync();
+    return result;
+  }
+
+  async disableEncryption(): Promise<void> {
+    this.pauseSync();
+    try {
+      await cloudStorageManager.disableEncryption();
+    } finally {
+      this.resumeSync();
+    }
+  }
+
   // Simplified getters
   getProviders() {
     return cloudStorageManager.getProviders();
@@ -234,6 +273,10 @@ export function useSync() {
     disconnectProvider:
       unifiedSyncService.disconnectProvider.bind(unifiedSyncService),
     forceSync: unifiedSyncService.forceSync.bind(unifiedSyncService),
+    setEncryptionPassphrase:
+      unifiedSyncService.setEncryptionPassphrase.bind(unifiedSyncService),
+    disableEncryption:
+      unifiedSyncService.disableEncryption.bind(unifiedSyncService),
     providers: unifiedSyncService.getProviders(),
     activeProvider: unifiedSyncService.getActiveProvider(),
   };
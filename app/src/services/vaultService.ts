@@ -0,0 +1,412 @@
+import { format, setISOWeek, startOfISOWeek } from 'date-fns';
+import { sectionRegistry } from '../components/sections/registry';
+import { SectionTemplate, SectionWithContent } from './api';
+import { localApiService } from './localApi';
+import { reactiveDataService } from './reactiveDataService';
+import { SectionService, SectionWithTemplate } from './sectionService';
+import { tagService } from './tagService';
+import { formatDateForAPI, parseAPIDate } from '../utils/dates';
+import {
+  FrontMatterValue,
+  formatFrontMatter,
+  parseFrontMatter,
+} from '../utils/frontMatter';
+import { resolveTemplateId } from '../utils/templateRules';
+import { createZip, readZip } from '../utils/zip';
+import { logger } from '../utils/logger';
+
+type NoteKind = 'daily' | 'weekly' | 'monthly' | 'persistent';
+
+export interface VaultFile {
+  path: string; // Path inside the vault, with / as separator
+  text: string;
+}
+
+export interface VaultImportResult {
+  notes: number;
+  sections: number;
+  // Sections left alone because they already had content
+  skipped: number;
+  // Headings that match no template section, as "path: heading"
+  unmatched: string[];
+  // Files that are not daily, weekly or monthly notes
+  ignored: string[];
+}
+
+interface VaultNote {
+  kind: NoteKind;
+  name: string;
+  start: string; // First day of the note's timeframe
+  sections: Array<{ title: string; body: string }>;
+  fields: { [key: string]: FrontMatterValue };
+}
+
+const FOLDERS: { [kind in NoteKind]: string } = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  persistent: '',
+};
+const PERSISTENT_NOTE = 'Persistent';
+
+// Note names as the daily and periodic notes plugins of Obsidian write them
+function getNoteName(kind: NoteKind, start: string): string {
+  switch (kind) {
+    case 'daily':
+      return start;
+    case 'weekly':
+      return format(parseAPIDate(start), "RRRR-'W'II");
+    case 'monthly':
+      return start.slice(0, 7);
+    default:
+      return PERSISTENT_NOTE;
+  }
+}
+
+function getNotePath(note: { kind: NoteKind; name: string }): string {
+  const folder = FOLDERS[note.kind];
+  return folder ? `${folder}/${note.name}.md` : `${note.name}.md`;
+}
+
+// The kind and first day of a note from its name. Logseq names daily
+// notes like 2025_03_14.
+function parseNoteName(name: string): { kind: NoteKind; start: string } | null {
+  let match = name.match(/^(\d{4})[-_](\d{2})[-_](\d{2})$/);
+  if (match) {
+    return { kind: 'daily', start: `${match[1]}-${match[2]}-${match[3]}` };
+  }
+  match = name.match(/^(\d{4})-W(\d{2})$/);
+  if (match) {
+    // January 4th is always in the first ISO week of its year
+    const week = setISOWeek(new Date(Number(match[1]), 0, 4), Number(match[2]));
+    return { kind: 'weekly', start: formatDateForAPI(startOfISOWeek(week)) };
+  }
+  match = name.match(/^(\d{4})-(\d{2})$/);
+  if (match) {
+    return { kind: 'monthly', start: `${match[1]}-${match[2]}-01` };
+  }
+  if (name === PERSISTENT_NOTE) {
+    return { kind: 'persistent', start: formatDateForAPI(new Date()) };
+  }
+  return null;
+}
+
+// The formatted section without its own heading; the note adds it
+function getSectionBody(section: SectionWithTemplate): string {
+  const markdown = sectionRegistry
+    .formatToMarkdown(section.contentType, section.title, section.content)
+    .trim();
+  return markdown.startsWith('## ')
+    ? markdown.replace(/^## [^\n]*\n*/, '')
+    : markdown;
+}
+
+// Splits a note body at its `## ` headings. Text before the first one,
+// apart from the note title and lines of links, is returned as intro.
+function splitNote(body: string): {
+  intro: string;
+  sections: Array<{ title: string; body: string }>;
+} {
+  const parts = body.split(/^## (?!#)(.*)$/m);
+  const intro = parts[0]
+    .split('\n')
+    .filter(
+      line =>
+        !/^# /.test(line) && !/^(\s*(\[\[[^\]]+\]\]|[·|←→-])\s*)+$/.test(line)
+    )
+    .join('\n')
+    .trim();
+  const sections: Array<{ title: string; body: string }> = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    sections.push({ title: parts[i].trim(), body: parts[i + 1] || '' });
+  }
+  return { intro, sections };
+}
+
+/**
+ * Exports and imports Obsidian-style vaults: a folder of daily notes and
+ * notes for each week and month holding the sections shared by their
+ * days, linked to each other with [[wikilinks]]. Each section is a `## `
+ * heading with its SectionRegistry markdown; todos use `- [ ]` tasks.
+ *
+ * Importing maps headings to template sections by title and turns their
+ * markdown back into content with parseFromMarkdown. Logseq journals and
+ * notes without headings go into the first text section of their kind.
+ */
+export class VaultService {
+  private sectionService = new SectionService();
+
+  async exportVault(
+    startDate: string,
+    endDate: string
+  ): Promise<{ data: Uint8Array; noteCount: number }> {
+    const entries = await this.sectionService.getOrderedSectionsForRange(
+      startDate,
+      endDate
+    );
+    const templates = await localApiService.fetchNamedTemplates();
+
+    // Notes shared by several days take sections in the order they show up
+    const notes = new Map<string, VaultNote>();
+    const written = new Set<string>();
+
+    for (const { entry, sections } of entries) {
+      for (const section of sections) {
+        if (
+          written.has(section.id) ||
+          sectionRegistry.isContentEmpty(section.contentType, section.content)
+        ) {
+          continue;
+        }
+        const body = getSectionBody(section);
+        if (!body) {
+          continue;
+        }
+        written.add(section.id);
+
+        const kind = section.timeframeType;
+        const name = getNoteName(kind, section.timeframeStart);
+        const path = getNotePath({ kind, name });
+        if (!notes.has(path)) {
+          notes.set(path, {
+            kind,
+            name,
+            start: kind === 'persistent' ? '' : section.timeframeStart,
+            sections: [],
+            fields: {},
+          });
+        }
+        notes.get(path)!.sections.push({ title: section.title, body });
+      }
+
+      const daily = notes.get(getNotePath({ kind: 'daily', name: entry.date }));
+      if (daily) {
+        const templateId = resolveTemplateId(
+          templates,
+          entry.date,
+          entry.templateId
+        );
+        daily.fields = {
+          tags: (await tagService.getTagsForEntry(entry.date)).map(
+            tag => tag.name
+          ),
+          template: templates.find(template => template.id === templateId)
+            ?.name,
+        };
+      }
+    }
+
+    const files = Array.from(notes.values()).map(note => ({
+      name: getNotePath(note),
+      data: this.formatNote(note, notes),
+    }));
+    logger.log(
+      `VAULT: Exported ${files.length} notes from ${startDate} to ${endDate}`
+    );
+    return { data: createZip(files), noteCount: files.length };
+  }
+
+  // Notes of a zipped vault, or of the files of a vault folder
+  async readFiles(files: File[]): Promise<VaultFile[]> {
+    const result: VaultFile[] = [];
+    const decoder = new TextDecoder();
+    for (const file of files) {
+      if (/\.zip$/i.test(file.name)) {
+        const archive = await readZip(new Uint8Array(await file.arrayBuffer()));
+        archive
+          .filter(entry => /\.md$/i.test(entry.name))
+          .forEach(entry =>
+            result.push({ path: entry.name, text: decoder.decode(entry.data) })
+          );
+      } else if (/\.md$/i.test(file.name)) {
+        result.push({
+          path: file.webkitRelativePath || file.name,
+          text: await file.text(),
+        });
+      }
+    }
+    return result;
+  }
+
+  async importVault(
+    files: VaultFile[],
+    overwrite: boolean
+  ): Promise<VaultImportResult> {
+    const result: VaultImportResult = {
+      notes: 0,
+      sections: 0,
+      skipped: 0,
+      unmatched: [],
+      ignored: [],
+    };
+    const templates = await localApiService.fetchNamedTemplates();
+    const layouts = new Map<string, SectionTemplate[]>();
+    // Sections of the other templates match headings the day's lacks
+    let allSections: SectionTemplate[] = [];
+    for (const template of templates) {
+      allSections = allSections.concat(
+        await this.getLayout(template.id, layouts)
+      );
+    }
+
+    const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+    for (const file of sorted) {
+      const fileName = file.path.split('/').pop()!.replace(/\.md$/i, '');
+      const { fields, body } = parseFrontMatter(file.text);
+      const note =
+        parseNoteName(fileName) ||
+        (typeof fields.date === 'string' &&
+        /^\d{4}-\d{2}-\d{2}$/.test(fields.date)
+          ? { kind: 'daily' as NoteKind, start: fields.date }
+          : null);
+      if (!note) {
+        result.ignored.push(file.path);
+        continue;
+      }
+
+      // Sections of the template picked for the day come first
+      const layout = await this.getLayout(
+        resolveTemplateId(templates, note.start),
+        layouts
+      );
+      const candidates = layout
+        .concat(allSections)
+        .filter(section => section.refresh_frequency === note.kind);
+      const textSection = candidates.find(
+        section => section.content_type === 'text'
+      );
+
+      const pieces = new Map<string, string[]>();
+      const add = (template: SectionTemplate, markdown: string) =>
+        pieces.set(template.id, [...(pieces.get(template.id) || []), markdown]);
+      const { intro, sections } = splitNote(body);
+      if (intro && textSection) {
+        add(textSection, intro);
+      }
+      sections.forEach(section => {
+        const template = candidates.find(
+          candidate =>
+            candidate.title.trim().toLowerCase() === section.title.toLowerCase()
+        );
+        if (template) {
+          add(template, section.body);
+        } else if (textSection) {
+          add(textSection, `## ${section.title}\n\n${section.body.trim()}`);
+        } else {
+          result.unmatched.push(`${file.path}: ${section.title}`);
+        }
+      });
+
+      const sectionsData: { [key: string]: SectionWithContent } = {};
+      for (const [templateId, markdown] of Array.from(pieces.entries())) {
+        const template = candidates.find(t => t.id === templateId)!;
+        const existing = await this.sectionService.findSectionContent(
+          template.id,
+          template.refresh_frequency,
+          note.start
+        );
+        if (
+          existing &&
+          !overwrite &&
+          !sectionRegistry.isContentEmpty(template.content_type, existing)
+        ) {
+          result.skipped++;
+          continue;
+        }
+        sectionsData[templateId] = {
+          ...template,
+          content: sectionRegistry.parseFromMarkdown(
+            template.content_type,
+            markdown.join('\n\n'),
+            note.start,
+            existing
+          ),
+        };
+      }
+
+      if (Object.keys(sectionsData).length > 0) {
+        await localApiService.updateEntry(note.start, {
+          date: note.start,
+          sections: sectionsData,
+        });
+        result.sections += Object.keys(sectionsData).length;
+        result.notes++;
+      }
+      if (note.kind === 'daily' && Array.isArray(fields.tags)) {
+        await localApiService.addMissingEntryTags(note.start, fields.tags);
+      }
+    }
+
+    reactiveDataService.notifyBulkChanges();
+    logger.log('VAULT: Imported', result);
+    return result;
+  }
+
+  private formatNote(note: VaultNote, notes: Map<string, VaultNote>): string {
+    const exists = (kind: NoteKind, name: string) =>
+      notes.has(getNotePath({ kind, name }));
+    const link = (name: string) => `[[${name}]]`;
+    let heading: string;
+    let links: string[] = [];
+
+    if (note.kind === 'daily') {
+      heading = `# Journal Entry - ${format(parseAPIDate(note.start), 'MMMM d, yyyy')}`;
+      links = [
+        link(getNoteName('weekly', note.start)),
+        link(getNoteName('monthly', note.start)),
+      ];
+    } else if (note.kind === 'weekly') {
+      heading = `# Week of ${format(parseAPIDate(note.start), 'MMMM d, yyyy')}`;
+      links = [link(getNoteName('monthly', note.start))];
+      for (let day = 0; day < 7; day++) {
+        const date = parseAPIDate(note.start);
+        date.setDate(date.getDate() + day);
+        const name = formatDateForAPI(date);
+        if (exists('daily', name)) links.push(link(name));
+      }
+    } else if (note.kind === 'monthly') {
+      heading = `# ${format(parseAPIDate(note.start), 'MMMM yyyy')}`;
+      links = Array.from(notes.values())
+        .filter(
+          other =>
+            other.kind === 'weekly' &&
+            other.start.slice(0, 7) === note.start.slice(0, 7)
+        )
+        .map(other => other.name)
+        .sort()
+        .map(link);
+    } else {
+      heading = '# Persistent';
+    }
+
+    const frontMatter = formatFrontMatter({
+      type: note.kind,
+      date: note.start || undefined,
+      ...note.fields,
+    });
+    const sections = note.sections.map(
+      section => `## ${section.title}\n\n${section.body}\n`
+    );
+    return [
+      frontMatter,
+      heading,
+      ...(links.length > 0 ? [links.join(' · ')] : []),
+      ...sections,
+    ].join('\n');
+  }
+
+  private async getLayout(
+    templateId: string,
+    cache: Map<string, SectionTemplate[]>
+  ): Promise<SectionTemplate[]> {
+    if (!cache.has(templateId)) {
+      cache.set(
+        templateId,
+        (await localApiService.fetchTemplates(templateId)).sections
+      );
+    }
+    return cache.get(templateId)!;
+  }
+}
+
+export const vaultService = new VaultService();
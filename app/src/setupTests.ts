@@ -0,0 +1,13 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { webcrypto } from 'crypto';
+import { CompressionStream, DecompressionStream } from 'stream/web';
+
+// The jsdom of Jest 27 predates these browser APIs; Node's own
+// implementations stand in for them
+Object.assign(globalThis, {
+  TextEncoder,
+  TextDecoder,
+  CompressionStream,
+  DecompressionStream,
+});
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
@@ -23,18 +23,54 @@ export interface CloudStorageProvider {
   listBackups(): Promise<BackupInfo[]>;
   loadBackup(backupId: string): Promise<Uint8Array | null>;
   deleteBackup(backupId: string): Promise<void>;
-  cleanupOldBackups(keepCount: number): Promise<void>;
+  cleanupOldBackups(policy: BackupRetentionPolicy): Promise<void>;
+
+  // Changeset Operations - incremental record-level sync
+  saveChangeset(name: string, data: Uint8Array): Promise<void>;
+  listChangesets(): Promise<ChangesetInfo[]>;
+  loadChangeset(changesetId: string): Promise<Uint8Array | null>;
+  deleteChangeset(changesetId: string): Promise<void>;
 
   // Metadata
   getStorageQuota(): Promise<StorageQuota>;
   getLastSyncTime(): Promise<Date | null>;
 }
 
+// Where a backup lives: the connected provider or this device's IndexedDB
+export type BackupSource = 'cloud' | 'local';
+
 export interface BackupInfo {
   id: string;
   timestamp: Date;
   size: number;
   name: string;
+  source?: BackupSource;
+}
+
+// The backup half of a provider, also implemented by the on-device store
+export type BackupStore = Pick<
+  CloudStorageProvider,
+  | 'saveBackup'
+  | 'listBackups'
+  | 'loadBackup'
+  | 'deleteBackup'
+  | 'cleanupOldBackups'
+>;
+
+export interface ChangesetInfo {
+  id: string;
+  name: string;
+  timestamp: Date;
+  size: number;
+}
+
+// Number of hourly/daily/weekly/monthly snapshots to keep, and a hard cap
+export interface BackupRetentionPolicy {
+  hourly: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+  maxBackups: number;
 }
 
 export interface CloudSyncSettings {
@@ -42,8 +78,14 @@ export interface CloudSyncSettings {
   autoBackup: boolean;
   backupIntervalMinutes: number;
   maxBackups: number;
+  retention: Omit<BackupRetentionPolicy, 'maxBackups'>;
 }
 
+export type BackupSettings = Pick<
+  CloudSyncSettings,
+  'backupIntervalMinutes' | 'maxBackups' | 'retention'
+>;
+
 export interface CloudSyncStatus {
   isConnected: boolean;
   lastSync: Date | null;
@@ -53,14 +95,33 @@ export interface CloudSyncStatus {
   error: string | null;
 }
 
+// A template section whose content changed on both this device and in the
+// cloud since the last common (ancestor) version
+export interface SectionConflict {
+  sectionId: string;
+  templateId: string;
+  templateTitle: string;
+  timeframeType: string;
+  timeframeStart: string;
+  timeframeEnd: string;
+  ancestorContent: string | null;
+  localContent: string;
+  cloudContent: string;
+}
+
 export interface ConflictData {
-  localData: Uint8Array;
-  cloudData: Uint8Array;
-  localHash: string;
-  cloudHash: string;
+  conflicts: SectionConflict[];
+  // Sections changed on only one side, merged without asking
+  autoMergedCount: number;
+  // True when this device connects to existing cloud data for the first time
+  isInitialSync: boolean;
 }
 
-export type ConflictResolution = 'use-local' | 'use-cloud' | 'cancel';
+export type SectionChoice = 'local' | 'cloud';
+
+export type ConflictResolution =
+  | { type: 'merge'; choices: { [sectionId: string]: SectionChoice } }
+  | { type: 'cancel' };
 
 export interface ConflictResolver {
   (conflict: ConflictData): Promise<ConflictResolution>;
@@ -0,0 +1,145 @@
+import { getBackupTimestamp, selectBackupsToDelete } from './backupRetention';
+import { BackupInfo, BackupRetentionPolicy } from '../types/cloudStorage';
+
+const NONE: BackupRetentionPolicy = {
+  hourly: 0,
+  daily: 0,
+  weekly: 0,
+  monthly: 0,
+  maxBackups: 100,
+};
+
+// Local time, like the periods the tiers are formatted in
+function backup(id: string, ...time: number[]): BackupInfo {
+  const [year, month, day, hours = 0, minutes = 0] = time;
+  return {
+    id,
+    name: id,
+    timestamp: new Date(year, month - 1, day, hours, minutes),
+    size: 1,
+  };
+}
+
+function deletedIds(
+  backups: BackupInfo[],
+  policy: Partial<BackupRetentionPolicy>
+): string[] {
+  return selectBackupsToDelete(backups, { ...NONE, ...policy })
+    .map(b => b.id)
+    .sort();
+}
+
+describe('selectBackupsToDelete', () => {
+  it('always keeps the newest backup', () => {
+    const backups = [backup('old', 2025, 1, 1), backup('new', 2025, 1, 2)];
+
+    expect(deletedIds(backups, { maxBackups: 0 })).toEqual(['old']);
+    expect(deletedIds([], {})).toEqual([]);
+  });
+
+  it('keeps the newest backup of each of the last hours', () => {
+    const backups = [
+      backup('10:05', 2025, 3, 10, 10, 5),
+      backup('10:55', 2025, 3, 10, 10, 55),
+      backup('11:00', 2025, 3, 10, 11, 0),
+      backup('11:59', 2025, 3, 10, 11, 59),
+      backup('12:00', 2025, 3, 10, 12, 0),
+    ];
+
+    expect(deletedIds(backups, { hourly: 2 })).toEqual([
+      '10:05',
+      '10:55',
+      '11:00',
+    ]);
+  });
+
+  it('counts only periods that have a backup', () => {
+    const backups = [
+      backup('jan', 2025, 1, 10),
+      backup('mar', 2025, 3, 10),
+      backup('jun', 2025, 6, 10),
+    ];
+
+    expect(deletedIds(backups, { monthly: 2 })).toEqual(['jan']);
+  });
+
+  it('splits days at midnight', () => {
+    const backups = [
+      backup('day 1', 2025, 3, 10, 23, 59),
+      backup('day 2', 2025, 3, 11, 0, 1),
+    ];
+
+    expect(deletedIds(backups, { daily: 2 })).toEqual([]);
+    expect(deletedIds(backups, { daily: 1 })).toEqual(['day 1']);
+  });
+
+  it('starts weeks on Monday', () => {
+    const backups = [
+      backup('monday', 2025, 1, 6),
+      backup('sunday', 2025, 1, 5),
+      backup('saturday', 2025, 1, 4),
+    ];
+
+    expect(deletedIds(backups, { weekly: 2 })).toEqual(['saturday']);
+  });
+
+  it('combines the tiers', () => {
+    const backups = [
+      backup('now', 2025, 3, 10, 12),
+      backup('earlier today', 2025, 3, 10, 8),
+      backup('yesterday', 2025, 3, 9, 12),
+      backup('last month', 2025, 2, 1),
+    ];
+
+    expect(deletedIds(backups, { hourly: 1, daily: 2, monthly: 2 })).toEqual([
+      'earlier today',
+    ]);
+  });
+
+  it('caps the total at maxBackups, newest first', () => {
+    const backups = [
+      backup('1', 2025, 3, 1),
+      backup('2', 2025, 3, 2),
+      backup('3', 2025, 3, 3),
+      backup('4', 2025, 3, 4),
+    ];
+
+    expect(deletedIds(backups, { daily: 10, maxBackups: 2 })).toEqual([
+      '1',
+      '2',
+    ]);
+  });
+
+  it('keeps one of several backups made at the same time', () => {
+    const backups = [
+      backup('a', 2025, 3, 10, 12),
+      backup('b', 2025, 3, 10, 12),
+      backup('c', 2025, 3, 10, 12),
+    ];
+
+    // The first listed, as the sort keeps their order
+    expect(deletedIds(backups, { hourly: 24, daily: 14 })).toEqual(['b', 'c']);
+  });
+});
+
+describe('getBackupTimestamp', () => {
+  const modifiedAt = new Date('2025-06-01T00:00:00Z');
+
+  it('reads the time from the backup name', () => {
+    expect(
+      getBackupTimestamp(
+        'journal-backup-2024-12-19T10-30-45-123Z.db.gz',
+        modifiedAt
+      ).toISOString()
+    ).toBe('2024-12-19T10:30:45.123Z');
+  });
+
+  it('falls back to the modified time', () => {
+    expect(getBackupTimestamp('journal-backup-old.db.gz', modifiedAt)).toBe(
+      modifiedAt
+    );
+    expect(
+      getBackupTimestamp('journal-backup-2024-13-45T99-00-00-000Z', modifiedAt)
+    ).toBe(modifiedAt);
+  });
+});
@@ -0,0 +1,84 @@
+import { format } from 'date-fns';
+import { BackupInfo, BackupRetentionPolicy } from '../types/cloudStorage';
+
+export const DEFAULT_RETENTION_POLICY: BackupRetentionPolicy = {
+  hourly: 24,
+  daily: 14,
+  weekly: 8,
+  monthly: 12,
+  maxBackups: 100,
+};
+
+// Period each tier keeps one backup for, as a date-fns format pattern
+const TIERS: Array<{
+  tier: keyof Omit<BackupRetentionPolicy, 'maxBackups'>;
+  period: string;
+}> = [
+  { tier: 'hourly', period: 'yyyy-MM-dd HH' },
+  { tier: 'daily', period: 'yyyy-MM-dd' },
+  { tier: 'weekly', period: 'RRRR-II' },
+  { tier: 'monthly', period: 'yyyy-MM' },
+];
+
+// journal-backup-2024-12-19T10-30-45-123Z.db.gz
+const BACKUP_NAME_TIME =
+  /^journal-backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/;
+
+/**
+ * When a backup was made, read from its name. The modified time a storage
+ * service reports changes when the file is copied or uploaded again, so it
+ * is only used for names without a time.
+ */
+export function getBackupTimestamp(name: string, modifiedAt: Date): Date {
+  const match = BACKUP_NAME_TIME.exec(name);
+  if (!match) {
+    return modifiedAt;
+  }
+  const [, date, hours, minutes, seconds, milliseconds] = match;
+  const timestamp = new Date(
+    `${date}T${hours}:${minutes}:${seconds}.${milliseconds}Z`
+  );
+  return isNaN(timestamp.getTime()) ? modifiedAt : timestamp;
+}
+
+/**
+ * Grandfather-father-son retention: every tier keeps the newest backup of
+ * each of its last N periods that have a backup (N hourly, N daily, ...).
+ * The newest backup overall is always kept, and `maxBackups` caps the total.
+ * Returns the backups to delete.
+ */
+export function selectBackupsToDelete(
+  backups: BackupInfo[],
+  policy: BackupRetentionPolicy
+): BackupInfo[] {
+  // Newest first
+  const sorted = [...backups].sort(
+    (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+  );
+
+  const keep = new Set<string>();
+  if (sorted.length > 0) {
+    keep.add(sorted[0].id);
+  }
+
+  TIERS.forEach(({ tier, period }) => {
+    const periods = new Set<string>();
+    for (const backup of sorted) {
+      if (periods.size >= policy[tier]) {
+        break;
+      }
+      const key = format(backup.timestamp, period);
+      if (!periods.has(key)) {
+        periods.add(key);
+        keep.add(backup.id);
+      }
+    }
+  });
+
+  const kept = sorted
+    .filter(backup => keep.has(backup.id))
+    .slice(0, Math.max(policy.maxBackups, 1));
+  const keptIds = new Set(kept.map(backup => backup.id));
+
+  return sorted.filter(backup => !keptIds.has(backup.id));
+}
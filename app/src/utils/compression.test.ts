@@ -0,0 +1,43 @@
+import { gunzip, gzip, isGzip } from './compression';
+
+const text = 'Morning pages. '.repeat(200);
+const encode = (value: string) => new TextEncoder().encode(value);
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('gzip', () => {
+  it('round-trips data', async () => {
+    const compressed = await gzip(encode(text));
+    expect(isGzip(compressed)).toBe(true);
+    expect(compressed.length).toBeLessThan(text.length);
+    expect(decode(await gunzip(compressed))).toBe(text);
+  });
+
+  it('round-trips empty data', async () => {
+    expect((await gunzip(await gzip(new Uint8Array(0)))).length).toBe(0);
+  });
+
+  it('rejects truncated data without leaving a rejection unhandled', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      const compressed = await gzip(encode(text));
+      await expect(
+        gunzip(compressed.subarray(0, compressed.length / 2))
+      ).rejects.toThrow();
+      await expect(gunzip(encode('not gzip at all'))).rejects.toThrow();
+      // Unhandled rejections are reported after a turn of the event loop
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+});
+
+describe('isGzip', () => {
+  it('checks the magic bytes', () => {
+    expect(isGzip(new Uint8Array([0x1f, 0x8b, 8]))).toBe(true);
+    expect(isGzip(encode('{"collections":{}}'))).toBe(false);
+    expect(isGzip(new Uint8Array([0x1f]))).toBe(false);
+  });
+});
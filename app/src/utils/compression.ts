@@ -0,0 +1,59 @@
+/**
+ * Gzip through the browser's CompressionStream. Both functions throw when
+ * the browser lacks it; callers decide whether to fall back.
+ */
+
+// Runs data through a compression or decompression stream
+export async function pipe(
+  data: Uint8Array,
+  stream: TransformStream
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+
+  const read = async () => {
+    let done = false;
+    while (!done) {
+      const { value, done: readerDone } = await reader.read();
+      done = readerDone;
+      if (value) {
+        chunks.push(value);
+      }
+    }
+  };
+
+  // Writes settle as the output is read, so both run together. Damaged
+  // input fails both sides; awaiting them together handles each failure.
+  await Promise.all([writer.write(data), writer.close(), read()]);
+
+  // Combine chunks
+  const result = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// Gzip data starts with these two bytes
+export function isGzip(data: Uint8Array): boolean {
+  return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+export async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('Compression is not available in this browser');
+  }
+  return pipe(data, new CompressionStream('gzip'));
+}
+
+export async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Decompression is not available in this browser');
+  }
+  return pipe(data, new DecompressionStream('gzip'));
+}
@@ -16,9 +16,14 @@ export class DatabaseResetUtil {
           'journal_entries',
           'sections',
           'section_journal_entries',
+          'templates',
+          'template_versions',
           'template_columns',
           'template_sections',
           'api_keys',
+          'tags',
+          'entry_tags',
+          'section_revisions',
         ];
 
         let totalRecordsDeleted = 0;
@@ -151,6 +156,8 @@ export class DatabaseResetUtil {
         const templateCollections = [
           'template_sections', // Delete sections first due to foreign key
           'template_columns',
+          'template_versions',
+          'templates',
         ];
 
         let totalRecordsDeleted = 0;
@@ -22,9 +22,14 @@ export class DebugUtils {
         'journal_entries',
         'sections',
         'section_journal_entries',
+        'templates',
+        'template_versions',
         'template_columns',
         'template_sections',
         'api_keys',
+        'tags',
+        'entry_tags',
+        'section_revisions',
       ];
 
       logger.log('🍉 Database Statistics');
@@ -71,9 +76,14 @@ export class DebugUtils {
         'journal_entries',
         'sections',
         'section_journal_entries',
+        'templates',
+        'template_versions',
         'template_columns',
         'template_sections',
         'api_keys',
+        'tags',
+        'entry_tags',
+        'section_revisions',
       ];
 
       const exportData: any = {
@@ -106,9 +116,14 @@ export class DebugUtils {
         'journal_entries',
         'sections',
         'section_journal_entries',
+        'templates',
+        'template_versions',
         'template_columns',
         'template_sections',
         'api_keys',
+        'tags',
+        'entry_tags',
+        'section_revisions',
       ];
 
       logger.log(`🍉 Search Results for "${searchTerm}"`);
@@ -168,9 +183,14 @@ export class DebugUtils {
     logger.log('  - journal_entries');
     logger.log('  - sections');
     logger.log('  - section_journal_entries');
+    logger.log('  - templates');
+    logger.log('  - template_versions');
     logger.log('  - template_columns');
     logger.log('  - template_sections');
     logger.log('  - api_keys');
+    logger.log('  - tags');
+    logger.log('  - entry_tags');
+    logger.log('  - section_revisions');
   }
 }
 
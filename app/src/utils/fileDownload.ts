@@ -0,0 +1,16 @@
+// Saves data as a file through the browser's download prompt
+export function downloadFile(
+  fileName: string,
+  data: BlobPart,
+  type = 'application/octet-stream'
+): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoked later so the download has started before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
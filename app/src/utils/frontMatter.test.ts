@@ -0,0 +1,100 @@
+import { formatFrontMatter, parseFrontMatter } from './frontMatter';
+
+describe('formatFrontMatter', () => {
+  it('writes plain fields and lists', () => {
+    expect(
+      formatFrontMatter({
+        date: '2025-03-10',
+        tags: ['travel', 'family/visits'],
+        aliases: [],
+        skipped: undefined,
+      })
+    ).toBe(
+      [
+        '---',
+        'date: 2025-03-10',
+        'tags:',
+        '  - travel',
+        '  - family/visits',
+        'aliases: []',
+        '---',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('quotes values YAML would misread', () => {
+    expect(
+      formatFrontMatter({
+        a: 'yes',
+        b: '42',
+        c: 'key: value',
+        d: ' padded',
+        e: '#heading',
+        f: 'say "hi"',
+      })
+    ).toBe(
+      [
+        '---',
+        'a: "yes"',
+        'b: "42"',
+        'c: "key: value"',
+        'd: " padded"',
+        'e: "#heading"',
+        'f: "say \\"hi\\""',
+        '---',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('parseFrontMatter', () => {
+  it('reads fields, lists and the body after them', () => {
+    const { fields, body } = parseFrontMatter(
+      [
+        '---',
+        'date: 2025-03-10',
+        'title: "Day: one"',
+        "mood: 'it''s fine'",
+        'tags:',
+        '  - travel',
+        '  - "family"',
+        'aliases: [one, "two"]',
+        'empty: []',
+        '---',
+        '# Notes',
+        '',
+      ].join('\r\n')
+    );
+
+    expect(fields).toEqual({
+      date: '2025-03-10',
+      title: 'Day: one',
+      mood: "it's fine",
+      tags: ['travel', 'family'],
+      aliases: ['one', 'two'],
+      empty: [],
+    });
+    expect(body).toBe('# Notes\r\n');
+  });
+
+  it('leaves notes without front matter as they are', () => {
+    const text = 'Just text\n---\nnot: front matter\n---\n';
+
+    expect(parseFrontMatter(text)).toEqual({ fields: {}, body: text });
+  });
+
+  it('reads back what it writes', () => {
+    const fields = {
+      date: '2025-03-10',
+      title: 'say "hi": now',
+      tags: ['travel', 'no'],
+    };
+
+    expect(parseFrontMatter(`${formatFrontMatter(fields)}Body`)).toEqual({
+      fields,
+      body: 'Body',
+    });
+  });
+});
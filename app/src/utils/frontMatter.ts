@@ -0,0 +1,91 @@
+/**
+ * YAML front matter of Markdown notes. Only plain fields and lists of
+ * strings are written and read, which every notes app understands.
+ */
+
+export type FrontMatterValue = string | string[] | undefined;
+
+// Plain words stay bare; anything YAML could misread is quoted
+function formatScalar(value: string): string {
+  const isPlain =
+    /^[\w][\w ./-]*$/.test(value) &&
+    value.trim() === value &&
+    !/^(true|false|yes|no|on|off|null|[\d.]+)$/i.test(value);
+  return isPlain ? value : JSON.stringify(value);
+}
+
+export function formatFrontMatter(fields: {
+  [key: string]: FrontMatterValue;
+}): string {
+  const lines = Object.keys(fields).flatMap(key => {
+    const value = fields[key];
+    if (value === undefined) {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value.length === 0
+        ? [`${key}: []`]
+        : [`${key}:`, ...value.map(item => `  - ${formatScalar(item)}`)];
+    }
+    return [`${key}: ${formatScalar(value)}`];
+  });
+  return `---\n${lines.join('\n')}\n---\n`;
+}
+
+function parseScalar(value: string): string {
+  const trimmed = value.trim();
+  if (/^"(?:[^"\\]|\\.)*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+// Splits a note into its front matter fields and the Markdown after them
+export function parseFrontMatter(text: string): {
+  fields: { [key: string]: FrontMatterValue };
+  body: string;
+} {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { fields: {}, body: text };
+  }
+
+  const fields: { [key: string]: FrontMatterValue } = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(parseScalar(item[1]));
+      return;
+    }
+
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) {
+      return;
+    }
+    const [, key, value] = field;
+    listKey = null;
+    if (value === '') {
+      fields[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value.trim())) {
+      fields[key] = value
+        .trim()
+        .slice(1, -1)
+        .split(',')
+        .map(parseScalar)
+        .filter(Boolean);
+    } else {
+      fields[key] = parseScalar(value);
+    }
+  });
+
+  return { fields, body: text.slice(match[0].length) };
+}
@@ -0,0 +1,46 @@
+import { extractHashtags, normalizeTagName } from './hashtags';
+
+describe('extractHashtags', () => {
+  it('finds lowercase tags in order of first appearance', () => {
+    expect(
+      extractHashtags('#Travel to Lisbon with #family_visit, then #travel.')
+    ).toEqual(['travel', 'family_visit']);
+  });
+
+  it('reads tags in other scripts', () => {
+    expect(extractHashtags('#café #Ελλάδα #日記')).toEqual([
+      'café',
+      'ελλάδα',
+      '日記',
+    ]);
+  });
+
+  it('ignores numbers, anchors and links', () => {
+    expect(
+      extractHashtags(
+        'Issue #1 of #2024, see page#top, a&#39;s or https://example.com/#intro'
+      )
+    ).toEqual([]);
+  });
+
+  it('drops trailing punctuation from tags', () => {
+    expect(extractHashtags('(#work-) #ideas_! #a-b-c')).toEqual([
+      'work',
+      'ideas',
+      'a-b-c',
+    ]);
+  });
+
+  it('ignores Markdown headings', () => {
+    expect(extractHashtags('##heading')).toEqual([]);
+    expect(extractHashtags('# heading')).toEqual([]);
+  });
+});
+
+describe('normalizeTagName', () => {
+  it('strips the # and trailing separators', () => {
+    expect(normalizeTagName('  ##Work-In-Progress__ ')).toBe(
+      'work-in-progress'
+    );
+  });
+});
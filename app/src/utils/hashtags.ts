@@ -0,0 +1,33 @@
+// A '#' at the start of a word followed by letters, digits, '_' or '-'.
+// Tags need a letter, so "#1" or "#2024" in ordinary text is not a tag.
+const HASHTAG_PATTERN =
+  /(^|[^0-9A-Za-z\u00c0-\u024f\u0370-\u1fff\u3040-\u9fff\uac00-\ud7af_&/#])#([0-9A-Za-z\u00c0-\u024f\u0370-\u1fff\u3040-\u9fff\uac00-\ud7af_-]+)/g;
+const LETTER_PATTERN =
+  /[A-Za-z\u00c0-\u024f\u0370-\u1fff\u3040-\u9fff\uac00-\ud7af]/;
+
+/**
+ * Lowercase tag names, without '#', in order of first appearance.
+ */
+export function extractHashtags(text: string): string[] {
+  const tags: string[] = [];
+  let match = HASHTAG_PATTERN.exec(text);
+  while (match) {
+    const tag = normalizeTagName(match[2]);
+    if (tag && LETTER_PATTERN.test(tag) && tags.indexOf(tag) === -1) {
+      tags.push(tag);
+    }
+    match = HASHTAG_PATTERN.exec(text);
+  }
+  HASHTAG_PATTERN.lastIndex = 0;
+  return tags;
+}
+
+// Tags are matched case-insensitively, and a trailing '-' or '_' is
+// usually punctuation rather than part of the tag
+export function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/[-_]+$/, '')
+    .toLowerCase();
+}
@@ -0,0 +1,112 @@
+/**
+ * Minimal promise wrapper around a single IndexedDB object store, for data
+ * that must stay on this device and out of the synced journal database
+ * (merge ancestors, encryption keys, file handles).
+ */
+export class IndexedDbStore<T = unknown> {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string
+  ) {}
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R> | void
+  ): Promise<R | undefined> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request?.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    return (await this.run('readonly', store => store.get(key))) as
+      | T
+      | undefined;
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, T>> {
+    const values = new Map<string, T>();
+    if (keys.length === 0) {
+      return values;
+    }
+
+    await this.run('readonly', store => {
+      keys.forEach(key => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          if (request.result !== undefined) {
+            values.set(key, request.result as T);
+          }
+        };
+      });
+    });
+    return values;
+  }
+
+  // All entries whose key starts with `prefix`
+  async getByPrefix(prefix: string): Promise<Map<string, T>> {
+    const values = new Map<string, T>();
+    await this.run('readonly', store => {
+      const request = store.openCursor(this.prefixRange(prefix));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          values.set(String(cursor.key), cursor.value as T);
+          cursor.continue();
+        }
+      };
+    });
+    return values;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async setMany(entries: Map<string, T>): Promise<void> {
+    if (entries.size === 0) {
+      return;
+    }
+    await this.run('readwrite', store => {
+      entries.forEach((value, key) => store.put(value, key));
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    await this.run('readwrite', store =>
+      store.delete(this.prefixRange(prefix))
+    );
+  }
+
+  private prefixRange(prefix: string): IDBKeyRange {
+    return IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+  }
+}
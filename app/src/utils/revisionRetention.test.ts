@@ -0,0 +1,75 @@
+import {
+  DEFAULT_REVISION_RETENTION,
+  selectRevisionsToPrune,
+} from './revisionRetention';
+
+const now = new Date(2025, 2, 20, 12);
+
+// Local time, days before now
+function revision(id: string, daysAgo: number, hours = 12) {
+  return { id, updatedAt: new Date(2025, 2, 20 - daysAgo, hours) };
+}
+
+describe('selectRevisionsToPrune', () => {
+  it('keeps every revision of the last days', () => {
+    const revisions = [
+      revision('today', 0, 9),
+      revision('today, earlier', 0, 8),
+      revision('six days ago', 6, 10),
+      revision('six days ago, earlier', 6, 9),
+    ];
+
+    expect(
+      selectRevisionsToPrune(revisions, DEFAULT_REVISION_RETENTION, now)
+    ).toEqual([]);
+  });
+
+  it('keeps the newest revision of each older day', () => {
+    const revisions = [
+      revision('new', 0),
+      revision('8 days, morning', 8, 9),
+      revision('8 days, evening', 8, 20),
+      revision('30 days, morning', 30, 9),
+      revision('30 days, noon', 30, 12),
+    ];
+
+    expect(
+      selectRevisionsToPrune(revisions, DEFAULT_REVISION_RETENTION, now)
+    ).toEqual(['8 days, morning', '30 days, morning']);
+  });
+
+  it('drops daily revisions past the daily period', () => {
+    const revisions = [
+      revision('new', 0),
+      revision('10 days', 10),
+      revision('11 days', 11),
+      revision('12 days', 12),
+    ];
+
+    expect(
+      selectRevisionsToPrune(
+        revisions,
+        { keepAllDays: 7, keepDailyDays: 5 },
+        now
+      )
+    ).toEqual(['12 days']);
+  });
+
+  it('always keeps the newest revision, once for its day', () => {
+    const revisions = [
+      revision('old, morning', 40, 9),
+      revision('old, evening', 40, 20),
+    ];
+
+    expect(
+      selectRevisionsToPrune(
+        revisions,
+        { keepAllDays: 7, keepDailyDays: 5 },
+        now
+      )
+    ).toEqual(['old, morning']);
+    expect(
+      selectRevisionsToPrune(revisions, DEFAULT_REVISION_RETENTION, now)
+    ).toEqual(['old, morning']);
+  });
+});
@@ -0,0 +1,54 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+
+export interface RevisionRetentionPolicy {
+  // Every revision younger than this many days is kept
+  keepAllDays: number;
+  // After that, the last revision of each day is kept for this many more
+  // days; 0 keeps one per day forever
+  keepDailyDays: number;
+}
+
+export const DEFAULT_REVISION_RETENTION: RevisionRetentionPolicy = {
+  keepAllDays: 7,
+  keepDailyDays: 0,
+};
+
+/**
+ * Thins out the revisions of one section: all recent revisions, then the
+ * newest revision of each day. The newest revision overall is always kept.
+ * Returns the ids of the revisions to delete.
+ */
+export function selectRevisionsToPrune(
+  revisions: Array<{ id: string; updatedAt: Date }>,
+  policy: RevisionRetentionPolicy,
+  now: Date = new Date()
+): string[] {
+  // Newest first
+  const sorted = [...revisions].sort(
+    (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+  );
+
+  const keptDays = new Set<string>();
+  return sorted
+    .filter((revision, index) => {
+      const age = differenceInCalendarDays(now, revision.updatedAt);
+      const day = format(revision.updatedAt, 'yyyy-MM-dd');
+      if (index === 0 || age < policy.keepAllDays) {
+        keptDays.add(day);
+        return false;
+      }
+      if (
+        policy.keepDailyDays > 0 &&
+        age >= policy.keepAllDays + policy.keepDailyDays
+      ) {
+        return true;
+      }
+
+      if (keptDays.has(day)) {
+        return true;
+      }
+      keptDays.add(day);
+      return false;
+    })
+    .map(revision => revision.id);
+}
@@ -0,0 +1,74 @@
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Letters and digits, including accented Latin, Greek, Cyrillic and CJK
+const WORD_CHARS =
+  '0-9a-z\\u00c0-\\u024f\\u0370-\\u1fff\\u3040-\\u9fff\\uac00-\\ud7af';
+const TOKEN_PATTERN = new RegExp(`[${WORD_CHARS}]+`, 'g');
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Splits text into lowercase search terms.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) || [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A short excerpt of `text` around the first match of any term, split into
+ * parts so matches can be highlighted. Terms match at the start of words.
+ */
+export function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (terms.length === 0) {
+    return [{ text: flat.slice(0, SNIPPET_CONTEXT * 2), match: false }];
+  }
+
+  const pattern = new RegExp(
+    `(^|[^${WORD_CHARS}])(${terms.map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+
+  const first = pattern.exec(flat);
+  const firstIndex = first ? first.index + first[1].length : 0;
+  let start = Math.max(0, firstIndex - SNIPPET_CONTEXT);
+  let end = Math.min(flat.length, firstIndex + SNIPPET_CONTEXT * 2);
+  // Avoid cutting words in half at either end
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    if (space !== -1 && space < firstIndex) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > firstIndex) end = space;
+  }
+  const excerpt = flat.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+
+  let position = 0;
+  pattern.lastIndex = 0;
+  let found = pattern.exec(excerpt);
+  while (found) {
+    const matchStart = found.index + found[1].length;
+    if (matchStart > position) {
+      parts.push({ text: excerpt.slice(position, matchStart), match: false });
+    }
+    parts.push({ text: found[2], match: true });
+    position = matchStart + found[2].length;
+    found = pattern.exec(excerpt);
+  }
+  if (position < excerpt.length) {
+    parts.push({ text: excerpt.slice(position), match: false });
+  }
+
+  if (end < flat.length) parts.push({ text: '…', match: false });
+  return parts;
+}
@@ -0,0 +1,126 @@
+/**
+ * AWS Signature Version 4 request signing with WebCrypto, for talking to S3
+ * and S3-compatible services (MinIO, Backblaze B2, ...) from the browser.
+ * See https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+ */
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service: string;
+}
+
+export interface SigV4Request {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string) {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+// RFC 3986 encoding, which encodeURIComponent leaves incomplete
+export function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function getCanonicalQuery(url: URL): string {
+  const params: Array<[string, string]> = [];
+  url.searchParams.forEach((value, key) => {
+    params.push([uriEncode(key), uriEncode(value)]);
+  });
+  return params
+    .sort(([a, aValue], [b, bValue]) =>
+      a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Returns the headers to send with the request, including Authorization.
+ * The URL path must already be encoded the way it will be sent.
+ */
+export async function signRequest(
+  request: SigV4Request,
+  credentials: SigV4Credentials,
+  now: Date = new Date()
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.substring(0, 8);
+  const payloadHash = await sha256Hex(request.body ?? new Uint8Array(0));
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  // The browser sets Host itself, but it still has to be signed
+  const signedEntries: Array<[string, string]> = [['host', url.host]];
+  Object.keys(headers).forEach(name => {
+    signedEntries.push([
+      name.toLowerCase(),
+      headers[name].trim().replace(/\s+/g, ' '),
+    ]);
+  });
+  signedEntries.sort(([a], [b]) => (a < b ? -1 : 1));
+
+  const signedHeaders = signedEntries.map(([name]) => name).join(';');
+  const canonicalRequest = [
+    request.method,
+    url.pathname,
+    getCanonicalQuery(url),
+    signedEntries.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    await sha256Hex(encoder.encode(canonicalRequest)),
+  ].join('\n');
+
+  const dateKey = await hmac(
+    encoder.encode(`AWS4${credentials.secretAccessKey}`),
+    dateStamp
+  );
+  const regionKey = await hmac(dateKey, credentials.region);
+  const serviceKey = await hmac(regionKey, credentials.service);
+  const signingKey = await hmac(serviceKey, 'aws4_request');
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
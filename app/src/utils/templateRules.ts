@@ -0,0 +1,65 @@
+import { parseAPIDate } from './dates';
+
+// Same on every device, so the default template merges on sync
+export const DEFAULT_TEMPLATE_ID = 'template-default';
+
+export interface TemplateRule {
+  id: string;
+  weekdays: number[]; // 0 = Sunday
+  range_start?: string | null; // YYYY-MM-DD, inclusive
+  range_end?: string | null;
+  display_order: number;
+}
+
+export function parseWeekdays(value: string | null | undefined): number[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(day => parseInt(day, 10))
+    .filter(day => day >= 0 && day <= 6);
+}
+
+export function formatWeekdays(weekdays: number[]): string {
+  return Array.from(new Set(weekdays))
+    .sort((a, b) => a - b)
+    .join(',');
+}
+
+const rangeLength = (rule: TemplateRule): number =>
+  parseAPIDate(rule.range_end!).getTime() -
+  parseAPIDate(rule.range_start!).getTime();
+
+/**
+ * Picks the template for a date: one chosen by hand for the entry, then a
+ * date range covering the date (the shortest wins, so a vacation inside a
+ * longer period applies), then a weekday rule, then the default template.
+ * Ties go to the template listed first.
+ */
+export function resolveTemplateId(
+  rules: TemplateRule[],
+  date: string,
+  manualTemplateId?: string | null
+): string {
+  if (manualTemplateId && rules.some(rule => rule.id === manualTemplateId)) {
+    return manualTemplateId;
+  }
+
+  const ordered = [...rules].sort((a, b) => a.display_order - b.display_order);
+
+  const inRange = ordered
+    .filter(
+      rule =>
+        rule.range_start &&
+        rule.range_end &&
+        rule.range_start <= date &&
+        date <= rule.range_end
+    )
+    .sort((a, b) => rangeLength(a) - rangeLength(b));
+  if (inRange.length > 0) {
+    return inRange[0].id;
+  }
+
+  const weekday = parseAPIDate(date).getDay();
+  const byWeekday = ordered.find(rule => rule.weekdays.includes(weekday));
+  return byWeekday ? byWeekday.id : DEFAULT_TEMPLATE_ID;
+}
@@ -0,0 +1,64 @@
+import {
+  extractLinkedDates,
+  getSectionAnchorId,
+  isLinkDate,
+  parseWikiLinks,
+} from './wikiLinks';
+
+describe('parseWikiLinks', () => {
+  it('splits text around links', () => {
+    expect(
+      parseWikiLinks('See [[2025-03-10]] and [[ Gratitude | thanks ]].')
+    ).toEqual([
+      { text: 'See ' },
+      { text: '2025-03-10', target: '2025-03-10', isDate: true },
+      { text: ' and ' },
+      { text: 'thanks', target: 'Gratitude', isDate: false },
+      { text: '.' },
+    ]);
+  });
+
+  it('leaves text without links whole', () => {
+    expect(parseWikiLinks('No [links] here')).toEqual([
+      { text: 'No [links] here' },
+    ]);
+    expect(parseWikiLinks('')).toEqual([]);
+  });
+
+  it('does not link across lines or nested brackets', () => {
+    expect(parseWikiLinks('[[broken\nlink]] [[a[b]]')).toEqual([
+      { text: '[[broken\nlink]] [[a[b]]' },
+    ]);
+  });
+
+  it('keeps no state between calls', () => {
+    parseWikiLinks('[[2025-03-10]]');
+
+    expect(parseWikiLinks('[[2025-03-11]]')).toHaveLength(1);
+  });
+});
+
+describe('isLinkDate', () => {
+  it('accepts real dates only', () => {
+    expect(isLinkDate('2024-02-29')).toBe(true);
+    expect(isLinkDate('2025-02-29')).toBe(false);
+    expect(isLinkDate('2025-3-1')).toBe(false);
+    expect(isLinkDate('Gratitude')).toBe(false);
+  });
+});
+
+describe('extractLinkedDates', () => {
+  it('lists each linked date once, in order', () => {
+    expect(
+      extractLinkedDates(
+        '[[2025-03-11]], [[Mood]], [[2025-03-10|the day before]], [[2025-03-11]]'
+      )
+    ).toEqual(['2025-03-11', '2025-03-10']);
+  });
+});
+
+describe('getSectionAnchorId', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(getSectionAnchorId(' Daily Notes ')).toBe('section-daily%20notes');
+  });
+});
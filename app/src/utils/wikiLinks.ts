@@ -0,0 +1,66 @@
+import { isValid, parse } from 'date-fns';
+
+export interface WikiLinkPart {
+  text: string;
+  // Set for [[links]]: an entry date (YYYY-MM-DD) or a section title
+  target?: string;
+  isDate?: boolean;
+}
+
+// [[target]] or [[target|label]], on one line
+const WIKI_LINK_PATTERN = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isLinkDate(target: string): boolean {
+  return (
+    DATE_PATTERN.test(target) &&
+    isValid(parse(target, 'yyyy-MM-dd', new Date()))
+  );
+}
+
+/**
+ * Splits text into plain parts and [[links]], in order, so links can be
+ * rendered in place.
+ */
+export function parseWikiLinks(text: string): WikiLinkPart[] {
+  const parts: WikiLinkPart[] = [];
+  let lastIndex = 0;
+  let match = WIKI_LINK_PATTERN.exec(text);
+  while (match) {
+    if (match.index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, match.index) });
+    }
+    const target = match[1].trim();
+    parts.push({
+      text: (match[2] || match[1]).trim(),
+      target,
+      isDate: isLinkDate(target),
+    });
+    lastIndex = match.index + match[0].length;
+    match = WIKI_LINK_PATTERN.exec(text);
+  }
+  WIKI_LINK_PATTERN.lastIndex = 0;
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex) });
+  }
+  return parts;
+}
+
+/**
+ * Dates linked from text, without duplicates.
+ */
+export function extractLinkedDates(text: string): string[] {
+  const dates: string[] = [];
+  parseWikiLinks(text).forEach(part => {
+    if (part.isDate && part.target && dates.indexOf(part.target) === -1) {
+      dates.push(part.target);
+    }
+  });
+  return dates;
+}
+
+// Element id of a section on the entry page, for [[Section Title]] links
+export function getSectionAnchorId(title: string): string {
+  return `section-${encodeURIComponent(title.trim().toLowerCase())}`;
+}
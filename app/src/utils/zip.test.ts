@@ -0,0 +1,109 @@
+import { pipe } from './compression';
+import { createZip, readZip } from './zip';
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+// Rewrites the stored entries of a createZip archive as deflated ones, as
+// other zip tools write them
+async function deflateEntries(zip: Uint8Array): Promise<Uint8Array> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const parts: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  const end = zip.length - 22;
+  let position = view.getUint32(end + 16, true);
+  let offset = 0;
+
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const size = view.getUint32(position + 20, true);
+    const dataStart = localOffset + 30 + nameLength;
+    const deflated = await pipe(
+      zip.subarray(dataStart, dataStart + size),
+      new CompressionStream('deflate-raw')
+    );
+
+    const local = zip.slice(localOffset, dataStart);
+    const localView = new DataView(local.buffer);
+    localView.setUint16(8, 8, true);
+    localView.setUint32(18, deflated.length, true);
+    parts.push(local, deflated);
+
+    const central = zip.slice(position, position + 46 + nameLength);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint16(10, 8, true);
+    centralView.setUint32(20, deflated.length, true);
+    centralView.setUint32(42, offset, true);
+    centrals.push(central);
+
+    offset += local.length + deflated.length;
+    position += 46 + nameLength;
+  }
+
+  const endRecord = zip.slice(end);
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  new DataView(endRecord.buffer).setUint32(12, centralSize, true);
+  new DataView(endRecord.buffer).setUint32(16, offset, true);
+  return concat([...parts, ...centrals, endRecord]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0)
+  );
+  let position = 0;
+  parts.forEach(part => {
+    result.set(part, position);
+    position += part.length;
+  });
+  return result;
+}
+
+describe('zip', () => {
+  const files = [
+    { name: 'Daily/2025-03-14.md', data: '# Friday\n\nÜber #travel 🚆' },
+    { name: 'Persistent.md', data: new Uint8Array([1, 2, 3]) },
+  ];
+
+  it('reads back the files it writes', async () => {
+    const read = await readZip(createZip(files));
+    expect(read.map(file => file.name)).toEqual([
+      'Daily/2025-03-14.md',
+      'Persistent.md',
+    ]);
+    expect(decode(read[0].data)).toBe('# Friday\n\nÜber #travel 🚆');
+    expect(Array.from(read[1].data)).toEqual([1, 2, 3]);
+  });
+
+  it('writes an empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([]);
+  });
+
+  it('reads deflated files', async () => {
+    const read = await readZip(await deflateEntries(createZip(files)));
+    expect(decode(read[0].data)).toBe('# Friday\n\nÜber #travel 🚆');
+    expect(Array.from(read[1].data)).toEqual([1, 2, 3]);
+  });
+
+  it('rejects files that are not zips', async () => {
+    await expect(
+      readZip(new TextEncoder().encode('just some text'))
+    ).rejects.toThrow('Not a zip file');
+  });
+
+  it('rejects a damaged central directory', async () => {
+    const zip = createZip(files);
+    const offset = new DataView(zip.buffer).getUint32(zip.length - 6, true);
+    zip[offset] = 0;
+    await expect(readZip(zip)).rejects.toThrow('The zip file is damaged');
+  });
+
+  it('rejects damaged deflated data', async () => {
+    // Stored bytes marked as deflated do not inflate
+    const zip = createZip([{ name: 'a.md', data: 'plain text, not deflate' }]);
+    const view = new DataView(zip.buffer);
+    view.setUint16(8, 8, true);
+    view.setUint16(view.getUint32(zip.length - 6, true) + 10, 8, true);
+    await expect(readZip(zip)).rejects.toThrow();
+  });
+});